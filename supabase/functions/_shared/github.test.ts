@@ -0,0 +1,218 @@
+import { assertEquals } from "@std/assert"
+import { createGitHubClient, GITHUB_CLIENT_CONFIG, resolveGitHubToken } from "./github.ts"
+import { createTestClient, createTestDatabase } from "./test_database.ts"
+
+/**
+ * Tests for the shared GitHub client
+ * GitHub is replaced by a fake fetch; responses are cached in the
+ * github_response_cache table of the test database (see test_database.ts).
+ * Rate limits are tracked per token for the lifetime of the module, so every
+ * test uses its own tokens.
+ * Run with: deno test --allow-read --allow-env supabase/functions/_shared/github.test.ts
+ */
+
+interface GitHubRequest {
+  url: string
+  headers: Record<string, string>
+}
+
+/**
+ * Fake GitHub, answering each request with the next response
+ */
+function createFakeFetch(responses: Response[], requests: GitHubRequest[]): typeof fetch {
+  return (input: string | URL | Request, init?: RequestInit) => {
+    requests.push({ url: input.toString(), headers: init!.headers as Record<string, string> })
+    return Promise.resolve(responses.shift()!)
+  }
+}
+
+/**
+ * Run a test with a fake fetch
+ */
+async function withGitHub(responses: Response[], run: (requests: GitHubRequest[]) => Promise<void>): Promise<void> {
+  const requests: GitHubRequest[] = []
+  const originalFetch = globalThis.fetch
+  globalThis.fetch = createFakeFetch(responses, requests)
+
+  try {
+    await run(requests)
+  } finally {
+    globalThis.fetch = originalFetch
+  }
+}
+
+/**
+ * Run a test with a fake fetch and the GITHUB_TOKEN secret set
+ */
+async function withGitHubSecret(responses: Response[], run: (requests: GitHubRequest[]) => Promise<void>): Promise<void> {
+  Deno.env.set("GITHUB_TOKEN", "ghp_secret")
+
+  try {
+    await withGitHub(responses, run)
+  } finally {
+    Deno.env.delete("GITHUB_TOKEN")
+  }
+}
+
+function repositoryResponse(etag: string, headers: Record<string, string> = {}): Response {
+  return Response.json({ default_branch: "main", private: false }, { headers: { "ETag": etag, ...headers } })
+}
+
+function notModifiedResponse(): Response {
+  return new Response(null, { status: 304 })
+}
+
+function callerRequest(headers: Record<string, string>, url = "https://github.com/o/r"): Request {
+  return new Request(url, { method: "POST", headers })
+}
+
+Deno.test("request - stores the ETag and serves 304 responses from the cache", async () => {
+  const db = await createTestDatabase()
+  const github = createGitHubClient({ token: "ghp_etag", cache: createTestClient(db) })
+
+  try {
+    await withGitHub([repositoryResponse("\"v1\""), notModifiedResponse()], async requests => {
+      const first = await github.request("/repos/o/r")
+      assertEquals((await first.json()).default_branch, "main")
+
+      const { rows } = await db.query<{ etag: string; url: string }>(`SELECT etag, url FROM github_response_cache`)
+      assertEquals(rows, [{ etag: "\"v1\"", url: "https://api.github.com/repos/o/r" }])
+
+      const second = await github.request("/repos/o/r")
+      assertEquals(requests[0].headers["If-None-Match"], undefined)
+      assertEquals(requests[1].headers["If-None-Match"], "\"v1\"")
+      assertEquals([second.status, second.headers.get("X-Cache")], [200, "hit"])
+      assertEquals((await second.json()).default_branch, "main")
+    })
+  } finally {
+    await db.close()
+  }
+})
+
+Deno.test("request - keeps cached responses apart per token", async () => {
+  const db = await createTestDatabase()
+  const cache = createTestClient(db)
+
+  try {
+    await withGitHub([repositoryResponse("\"a\""), repositoryResponse("\"b\""), notModifiedResponse()], async requests => {
+      await (await createGitHubClient({ token: "ghp_cache_a", cache }).request("/repos/o/r")).body?.cancel()
+      await (await createGitHubClient({ token: "ghp_cache_b", cache }).request("/repos/o/r")).body?.cancel()
+      await (await createGitHubClient({ token: "ghp_cache_a", cache }).request("/repos/o/r")).body?.cancel()
+
+      // The second token doesn't revalidate the first token's response
+      assertEquals(requests.map(request => request.headers["If-None-Match"]), [undefined, undefined, "\"a\""])
+      assertEquals(requests.map(request => request.headers["Authorization"]), [
+        "Bearer ghp_cache_a",
+        "Bearer ghp_cache_b",
+        "Bearer ghp_cache_a"
+      ])
+
+      const { rows } = await db.query<{ count: number }>(`SELECT count(*)::int AS count FROM github_response_cache`)
+      assertEquals(rows[0].count, 2)
+    })
+  } finally {
+    await db.close()
+  }
+})
+
+Deno.test("request - serves the cache while the rate limit is exhausted", async () => {
+  const db = await createTestDatabase()
+  const github = createGitHubClient({ token: "ghp_exhausted", cache: createTestClient(db) })
+  const resetSeconds = Math.floor(Date.now() / 1000) + 3600
+
+  try {
+    await withGitHub([
+      repositoryResponse("\"v1\"", { "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": String(resetSeconds) })
+    ], async requests => {
+      await (await github.request("/repos/o/r")).body?.cancel()
+
+      const cached = await github.request("/repos/o/r")
+      assertEquals([requests.length, cached.headers.get("X-Cache")], [1, "hit"])
+
+      // Uncached requests don't wait an hour for the reset
+      let error = ""
+      await github.request("/repos/o/other").catch(e => error = e.message)
+      assertEquals(error.startsWith("GitHub rate limit exhausted until"), true)
+      assertEquals(requests.length, 1)
+    })
+  } finally {
+    await db.close()
+  }
+})
+
+Deno.test("request - waits for a rate limit reset that is close", async () => {
+  const github = createGitHubClient({ token: "ghp_reset" })
+  const resetAt = (Math.floor(Date.now() / 1000) + 1) * 1000
+
+  await withGitHub([
+    repositoryResponse("\"v1\"", { "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": String(resetAt / 1000) }),
+    repositoryResponse("\"v1\"")
+  ], async requests => {
+    await (await github.request("/repos/o/r")).body?.cancel()
+    await (await github.request("/repos/o/r")).body?.cancel()
+
+    assertEquals(requests.length, 2)
+    assertEquals(Date.now() >= resetAt, true)
+  })
+})
+
+Deno.test("request - retries secondary rate limits with backoff", async () => {
+  const github = createGitHubClient({ token: "ghp_secondary" })
+  const retryDelay = GITHUB_CLIENT_CONFIG.retryDelay
+  GITHUB_CLIENT_CONFIG.retryDelay = 1
+
+  try {
+    await withGitHub([
+      Response.json({ message: "You have exceeded a secondary rate limit." }, { status: 403 }),
+      Response.json({ message: "Too many requests" }, { status: 429, headers: { "Retry-After": "0" } }),
+      repositoryResponse("\"v1\"")
+    ], async requests => {
+      const response = await github.request("/repos/o/r")
+      assertEquals(response.status, 200)
+      assertEquals(requests.length, 3)
+    })
+
+    // Other 403 responses are not retried
+    await withGitHub([
+      Response.json({ message: "Resource not accessible by integration" }, { status: 403, headers: { "X-RateLimit-Remaining": "5" } })
+    ], async requests => {
+      const response = await createGitHubClient({ token: "ghp_forbidden" }).request("/repos/o/r")
+      assertEquals([response.status, requests.length], [403, 1])
+    })
+
+    // A secondary rate limit that outlasts the retries is returned
+    await withGitHub(Array.from({ length: GITHUB_CLIENT_CONFIG.maxRetries + 1 }, () =>
+      Response.json({ message: "You have exceeded a secondary rate limit." }, { status: 403 })
+    ), async requests => {
+      const response = await createGitHubClient({ token: "ghp_secondary_exhausted" }).request("/repos/o/r")
+      assertEquals([response.status, requests.length], [403, GITHUB_CLIENT_CONFIG.maxRetries + 1])
+    })
+  } finally {
+    GITHUB_CLIENT_CONFIG.retryDelay = retryDelay
+  }
+})
+
+Deno.test("resolveGitHubToken - uses the caller's token without asking GitHub", async () => {
+  await withGitHubSecret([], async requests => {
+    assertEquals(await resolveGitHubToken(callerRequest({ "X-GitHub-Token": "ghp_caller" }), "o", "private"), "ghp_caller")
+    assertEquals(requests.length, 0)
+  })
+})
+
+Deno.test("resolveGitHubToken - uses the secret for public repositories only", async () => {
+  await withGitHubSecret([
+    Response.json({ default_branch: "main", private: false }),
+    Response.json({ message: "Not Found" }, { status: 404 })
+  ], async requests => {
+    assertEquals(await resolveGitHubToken(callerRequest({}), "o", "public"), "ghp_secret")
+
+    // A private repository is not visible to the anonymous check
+    assertEquals(await resolveGitHubToken(callerRequest({}), "o", "private"), undefined)
+
+    assertEquals(requests.map(request => request.url), [
+      "https://api.github.com/repos/o/public",
+      "https://api.github.com/repos/o/private"
+    ])
+    assertEquals(requests.map(request => request.headers["Authorization"]), [undefined, undefined])
+  })
+})
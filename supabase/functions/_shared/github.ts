@@ -0,0 +1,385 @@
+/**
+ * Shared GitHub client
+ * Used by github-doc, doc-link-extract, data-aggregate and chat for every
+ * GitHub request. Tracks the X-RateLimit-* headers per token, retries
+ * secondary rate limits with backoff and revalidates cached API responses
+ * with ETags (If-None-Match) against the github_response_cache table.
+ * Requests answered with 304 Not Modified don't count against the rate limit.
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Client configuration
+ */
+export const GITHUB_CLIENT_CONFIG = {
+  apiUrl: 'https://api.github.com',
+  apiVersion: '2022-11-28',
+  userAgent: 'Supabase-Edge-Function',
+  maxRetries: 3,                // Retries after a secondary rate limit
+  retryDelay: 1000,             // Base backoff without a Retry-After header (doubles per retry)
+  maxWaitMs: 30000,             // Longest wait for a rate limit reset before giving up
+  maxCachedBodySize: 1_000_000  // Larger responses are not cached (characters)
+}
+
+/**
+ * Repository metadata from the GitHub repos API
+ * status is the HTTP status of the request (0 if it failed)
+ */
+export interface GitHubRepositoryMetadata {
+  status: number
+  defaultBranch?: string
+  isPrivate?: boolean
+  hasWiki?: boolean
+}
+
+/**
+ * Options of a GitHub request
+ */
+export interface GitHubRequestOptions {
+  accept?: string   // Accept header, default: application/vnd.github+json
+  cache?: boolean   // Use the ETag cache, default: true (raw downloads are never cached)
+  body?: unknown    // JSON body; the request is sent as a POST and never cached
+}
+
+/**
+ * GitHub client bound to one token
+ */
+export interface GitHubClient {
+  // GET an API path ("/repos/owner/repo") or a full GitHub URL (POST with a body)
+  request(path: string, options?: GitHubRequestOptions): Promise<Response>
+
+  // Fetch the default branch and visibility of a repository
+  getRepository(owner: string, repo: string): Promise<GitHubRepositoryMetadata>
+
+  // Resolve the ref to use: the explicit ref, else the default branch, else 'main'
+  resolveRef(owner: string, repo: string, ref?: string): Promise<string>
+}
+
+/**
+ * Options for creating a GitHub client
+ */
+export interface GitHubClientOptions {
+  token?: string            // Authenticated requests can read private repositories
+  cache?: SupabaseClient    // Service role client for the response cache (omit to disable)
+}
+
+/**
+ * Rate limit reported by the last response of a token
+ */
+interface RateLimitState {
+  remaining: number
+  resetAt: number   // Epoch milliseconds
+}
+
+/**
+ * Cached response row
+ */
+interface CachedResponse {
+  etag: string
+  status: number
+  content_type: string | null
+  body: string
+}
+
+// Rate limits are tracked per token for the lifetime of the worker
+const rateLimits = new Map<string, RateLimitState>()
+
+/**
+ * Sleep utility for retry logic
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Computes the SHA-256 hex digest of a text
+ */
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Records the X-RateLimit-* headers of a response
+ */
+function recordRateLimit(tokenKey: string, response: Response): void {
+  const remaining = response.headers.get('x-ratelimit-remaining')
+  const reset = response.headers.get('x-ratelimit-reset')
+  if (remaining === null || reset === null) {
+    return
+  }
+
+  rateLimits.set(tokenKey, {
+    remaining: parseInt(remaining, 10),
+    resetAt: parseInt(reset, 10) * 1000
+  })
+}
+
+/**
+ * Milliseconds until the rate limit of a token resets (0 if requests remain)
+ */
+function getRateLimitWait(tokenKey: string): number {
+  const state = rateLimits.get(tokenKey)
+  if (!state || state.remaining > 0) {
+    return 0
+  }
+
+  return Math.max(0, state.resetAt - Date.now())
+}
+
+/**
+ * Checks whether a response is a secondary rate limit
+ * Primary limits report 0 remaining requests; secondary limits don't
+ */
+async function isSecondaryRateLimit(response: Response): Promise<boolean> {
+  if (response.status !== 403 && response.status !== 429) {
+    return false
+  }
+  if (response.headers.get('retry-after')) {
+    return true
+  }
+  if (response.headers.get('x-ratelimit-remaining') === '0') {
+    return false
+  }
+
+  const body = await response.clone().text().catch(() => '')
+  return /secondary rate limit/i.test(body)
+}
+
+/**
+ * Builds a response from a cached row
+ */
+function toCachedResponse(cached: CachedResponse): Response {
+  return new Response(cached.body, {
+    status: cached.status,
+    headers: {
+      'ETag': cached.etag,
+      'X-Cache': 'hit',
+      ...(cached.content_type && { 'Content-Type': cached.content_type })
+    }
+  })
+}
+
+/**
+ * Creates the service role client for the response cache from the environment
+ * Returns undefined (no cache) if the Supabase configuration is missing
+ */
+export function createGitHubCache(): SupabaseClient | undefined {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return undefined
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false
+    }
+  })
+}
+
+/**
+ * Creates a GitHub client
+ */
+export function createGitHubClient(options: GitHubClientOptions = {}): GitHubClient {
+  const { token, cache } = options
+  const tokenKey = token ?? ''
+
+  /**
+   * Looks up the cached response of a request
+   */
+  async function readCache(cacheKey: string): Promise<CachedResponse | null> {
+    if (!cache) return null
+
+    const { data, error } = await cache
+      .from('github_response_cache')
+      .select('etag, status, content_type, body')
+      .eq('cache_key', cacheKey)
+      .maybeSingle()
+
+    if (error) {
+      console.warn('Failed to read GitHub response cache:', error.message)
+      return null
+    }
+
+    return data
+  }
+
+  /**
+   * Stores a successful response with an ETag
+   */
+  async function writeCache(cacheKey: string, url: string, response: Response): Promise<void> {
+    const etag = response.headers.get('etag')
+    if (!cache || !etag || response.status !== 200) return
+
+    const body = await response.clone().text()
+    if (body.length > GITHUB_CLIENT_CONFIG.maxCachedBodySize) return
+
+    const { error } = await cache
+      .from('github_response_cache')
+      .upsert({
+        cache_key: cacheKey,
+        url,
+        etag,
+        status: response.status,
+        content_type: response.headers.get('content-type'),
+        body,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'cache_key' })
+
+    if (error) {
+      console.warn('Failed to write GitHub response cache:', error.message)
+    }
+  }
+
+  /**
+   * Marks a cached response as fresh after a 304
+   */
+  async function touchCache(cacheKey: string): Promise<void> {
+    if (!cache) return
+
+    await cache
+      .from('github_response_cache')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('cache_key', cacheKey)
+  }
+
+  async function request(path: string, requestOptions: GitHubRequestOptions = {}): Promise<Response> {
+    const url = path.startsWith('https://') ? path : `${GITHUB_CLIENT_CONFIG.apiUrl}${path}`
+    const accept = requestOptions.accept ?? 'application/vnd.github+json'
+    const isApiRequest = url.startsWith(GITHUB_CLIENT_CONFIG.apiUrl)
+    const hasBody = requestOptions.body !== undefined
+    const useCache = Boolean(cache) && isApiRequest && !hasBody && requestOptions.cache !== false
+    // GraphQL requests (the only POSTs) have their own rate limit
+    const limitKey = hasBody ? `${tokenKey}:graphql` : tokenKey
+
+    // Responses differ per token, so the token is part of the key (only its hash is stored)
+    const cacheKey = useCache ? await sha256(`${tokenKey}\n${accept}\n${url}`) : ''
+    const cached = useCache ? await readCache(cacheKey) : null
+
+    const headers: Record<string, string> = {
+      'Accept': accept,
+      'User-Agent': GITHUB_CLIENT_CONFIG.userAgent,
+      ...(isApiRequest && { 'X-GitHub-Api-Version': GITHUB_CLIENT_CONFIG.apiVersion }),
+      ...(token && { 'Authorization': `Bearer ${token}` }),
+      ...(hasBody && { 'Content-Type': 'application/json' }),
+      ...(cached && { 'If-None-Match': cached.etag })
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      // Don't send API requests once the primary rate limit is exhausted
+      const wait = isApiRequest ? getRateLimitWait(limitKey) : 0
+      if (wait > 0) {
+        if (cached) {
+          console.warn(`GitHub rate limit exhausted, serving cached ${url}`)
+          return toCachedResponse(cached)
+        }
+        if (wait > GITHUB_CLIENT_CONFIG.maxWaitMs) {
+          throw new Error(`GitHub rate limit exhausted until ${new Date(Date.now() + wait).toISOString()}`)
+        }
+        console.warn(`GitHub rate limit exhausted, waiting ${wait}ms for the reset`)
+        await sleep(wait)
+      }
+
+      const response = await fetch(url, hasBody
+        ? { method: 'POST', headers, body: JSON.stringify(requestOptions.body) }
+        : { headers })
+
+      if (isApiRequest) {
+        recordRateLimit(limitKey, response)
+      }
+
+      if (response.status === 304 && cached) {
+        await response.body?.cancel()
+        await touchCache(cacheKey)
+        return toCachedResponse(cached)
+      }
+
+      if (await isSecondaryRateLimit(response) && attempt < GITHUB_CLIENT_CONFIG.maxRetries) {
+        const retryAfter = parseInt(response.headers.get('retry-after') || '0', 10)
+        const delay = Math.min(
+          retryAfter > 0 ? retryAfter * 1000 : GITHUB_CLIENT_CONFIG.retryDelay * Math.pow(2, attempt),
+          GITHUB_CLIENT_CONFIG.maxWaitMs
+        )
+        await response.body?.cancel()
+        console.warn(`GitHub secondary rate limit, retrying in ${delay}ms (attempt ${attempt + 1}/${GITHUB_CLIENT_CONFIG.maxRetries})`)
+        await sleep(delay)
+        continue
+      }
+
+      if (useCache) {
+        await writeCache(cacheKey, url, response)
+      }
+
+      return response
+    }
+  }
+
+  async function getRepository(owner: string, repo: string): Promise<GitHubRepositoryMetadata> {
+    try {
+      const response = await request(`/repos/${owner}/${repo}`)
+
+      if (!response.ok) {
+        await response.body?.cancel()
+        console.warn(`GitHub repos API returned ${response.status} for ${owner}/${repo}`)
+        return { status: response.status }
+      }
+
+      const repoData = await response.json()
+      return {
+        status: response.status,
+        defaultBranch: repoData.default_branch,
+        isPrivate: repoData.private === true,
+        hasWiki: repoData.has_wiki === true
+      }
+    } catch (error) {
+      console.warn('Failed to fetch repository metadata:', error)
+      return { status: 0 }
+    }
+  }
+
+  async function resolveRef(owner: string, repo: string, ref?: string): Promise<string> {
+    // If ref is explicitly provided, use it
+    if (ref) {
+      return ref
+    }
+
+    const metadata = await getRepository(owner, repo)
+    if (metadata.defaultBranch) {
+      console.log(`Detected default branch: ${metadata.defaultBranch}`)
+      return metadata.defaultBranch
+    }
+
+    console.log('Using fallback default branch: main')
+    return 'main'
+  }
+
+  return { request, getRepository, resolveRef }
+}
+
+/**
+ * Resolves the GitHub token for a request about a repository
+ * The caller's X-GitHub-Token header is used as is. The GITHUB_TOKEN secret only
+ * raises rate limits: it is used for repositories an anonymous request can see
+ * as public, so private repositories stay unreadable to callers without a token
+ */
+export async function resolveGitHubToken(
+  req: Request,
+  owner: string,
+  repo: string,
+  cache?: SupabaseClient
+): Promise<string | undefined> {
+  const callerToken = req.headers.get('X-GitHub-Token')
+  if (callerToken) return callerToken
+
+  const secret = Deno.env.get('GITHUB_TOKEN')
+  if (!secret) return undefined
+
+  const metadata = await createGitHubClient({ cache }).getRepository(owner, repo)
+  return metadata.status === 200 && metadata.isPrivate === false ? secret : undefined
+}
@@ -0,0 +1,46 @@
+/**
+ * Offline hashing embedder
+ * Shared by data-aggregate (documents) and chat (queries), so that a query and
+ * the chunks it should match are embedded into the same vector space
+ */
+
+/**
+ * Computes the 32-bit FNV-1a hash of a string
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Generates a deterministic embedding by feature hashing
+ * Word tokens and token bigrams are hashed into signed buckets and the vector
+ * is L2-normalized.
+ * 
+ * @param text - Text to embed
+ * @param dimensions - Vector dimension
+ * @returns Normalized embedding vector
+ */
+export function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0)
+  const tokens = text.toLowerCase().match(/[a-z0-9_]+/g) || []
+  const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)]
+
+  for (const feature of features) {
+    const hash = fnv1a(feature)
+    vector[hash % dimensions] += (hash & 0x80000000) ? -1 : 1
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  if (norm === 0) {
+    // Cosine similarity is undefined for the zero vector
+    vector[0] = 1
+    return vector
+  }
+
+  return vector.map(value => value / norm)
+}
@@ -0,0 +1,435 @@
+/**
+ * Test database
+ * Runs the migrations in PGlite with pgvector and answers the PostgREST
+ * requests of supabase-js with SQL, so storage modules can be tested against
+ * the real schema, constraints and functions.
+ * Supports the query builder features the functions use: column lists with
+ * embedded relations, eq/neq/gt/gte/lt/lte/like/ilike/is/in filters, or(),
+ * order, limit/range, single/maybeSingle, exact counts, insert, update,
+ * upsert, delete and rpc.
+ * Requests run as the table owner, like the service role, or as a signed-in
+ * user with row level security (TestClientOptions.userId).
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { PGlite } from '@electric-sql/pglite'
+import { vector } from '@electric-sql/pglite/vector'
+
+/**
+ * Supabase objects the migrations reference
+ */
+const SUPABASE_STUBS = `
+  CREATE ROLE anon;
+  CREATE ROLE authenticated;
+  CREATE SCHEMA auth;
+  CREATE TABLE auth.users (id UUID PRIMARY KEY);
+  CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE sql
+    AS $$ SELECT nullif(current_setting('request.jwt.claim.sub', true), '')::uuid $$;
+  GRANT USAGE ON SCHEMA auth TO anon, authenticated;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated;
+`
+
+const RESERVED_PARAMS = new Set(['select', 'order', 'limit', 'offset', 'on_conflict', 'columns', 'or'])
+
+const OPERATORS: Record<string, string> = {
+  eq: '=',
+  neq: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  like: 'LIKE',
+  ilike: 'ILIKE'
+}
+
+/**
+ * Create a database with every migration applied
+ */
+export async function createTestDatabase(): Promise<PGlite> {
+  const db = new PGlite({ extensions: { vector } })
+  await db.exec(SUPABASE_STUBS)
+
+  const directory = new URL('../../migrations/', import.meta.url)
+  const migrations = [...Deno.readDirSync(directory)].map(entry => entry.name).filter(name => name.endsWith('.sql')).sort()
+  for (const migration of migrations) {
+    await db.exec(Deno.readTextFileSync(new URL(migration, directory)))
+  }
+
+  return db
+}
+
+/**
+ * Format a number array as a pgvector literal
+ */
+export function toVector(values: number[]): string {
+  return `[${values.join(',')}]`
+}
+
+/**
+ * Options of the test client
+ */
+export interface TestClientOptions {
+  maxRows?: number // Caps every result like PostgREST's db-max-rows
+  userId?: string  // Runs requests as this authenticated user, like a user's JWT
+}
+
+/**
+ * Create a supabase-js client whose requests are answered by the database
+ */
+export function createTestClient(db: PGlite, options: TestClientOptions = {}): SupabaseClient {
+  return createClient('http://localhost:54321', 'service-role-key', {
+    auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false },
+    global: { fetch: createPostgrestFetch(db, options) }
+  })
+}
+
+/**
+ * Query parameters collected while building a statement
+ */
+class Parameters {
+  values: unknown[] = []
+
+  add(value: unknown): string {
+    this.values.push(value)
+    return `$${this.values.length}`
+  }
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`
+}
+
+/**
+ * Split a list on commas outside parentheses and double quotes
+ */
+function splitTopLevel(list: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let inQuotes = false
+  let current = ''
+
+  for (const char of list) {
+    if (char === '"') inQuotes = !inQuotes
+    if (!inQuotes && char === '(') depth++
+    if (!inQuotes && char === ')') depth--
+    if (!inQuotes && depth === 0 && char === ',') {
+      parts.push(current.trim())
+      current = ''
+      continue
+    }
+    current += char
+  }
+
+  if (current.trim()) {
+    parts.push(current.trim())
+  }
+  return parts
+}
+
+function unquote(value: string): string {
+  return value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value
+}
+
+/**
+ * Build the condition of one filter, e.g. ("created_at", "gt.2024-01-01")
+ */
+function buildCondition(column: string, filter: string, params: Parameters): string {
+  let negate = false
+  if (filter.startsWith('not.')) {
+    negate = true
+    filter = filter.slice(4)
+  }
+
+  const dot = filter.indexOf('.')
+  const operator = filter.slice(0, dot)
+  const value = filter.slice(dot + 1)
+  const target = `t.${quote(column)}`
+
+  let condition: string
+  if (operator === 'is') {
+    condition = `${target} IS ${value.toUpperCase()}`
+  } else if (operator === 'in') {
+    const values = splitTopLevel(value.slice(1, -1)).map(unquote)
+    condition = `${target} = ANY(${params.add(values)})`
+  } else if (OPERATORS[operator]) {
+    const pattern = operator === 'like' || operator === 'ilike' ? value.replace(/\*/g, '%') : value
+    condition = `${target} ${OPERATORS[operator]} ${params.add(pattern)}`
+  } else {
+    throw new Error(`Unsupported filter operator: ${operator}`)
+  }
+
+  return negate ? `NOT (${condition})` : condition
+}
+
+/**
+ * Build the WHERE clause of the filters in the query string
+ */
+function buildWhere(search: URLSearchParams, params: Parameters): string {
+  const conditions: string[] = []
+
+  for (const [key, value] of search) {
+    if (key === 'or') {
+      const alternatives = splitTopLevel(value.slice(1, -1)).map(part => {
+        const dot = part.indexOf('.')
+        return buildCondition(part.slice(0, dot), part.slice(dot + 1), params)
+      })
+      conditions.push(`(${alternatives.join(' OR ')})`)
+    } else if (!RESERVED_PARAMS.has(key)) {
+      conditions.push(buildCondition(key, value, params))
+    }
+  }
+
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+}
+
+/**
+ * Find the foreign key between two tables
+ * Returns the referencing table and column pairs
+ */
+async function findForeignKey(
+  db: PGlite,
+  from: string,
+  to: string
+): Promise<{ columns: string[]; referencedColumns: string[] } | null> {
+  const { rows } = await db.query<{ columns: string[]; referenced_columns: string[] }>(
+    `SELECT
+       ARRAY(SELECT attname FROM pg_attribute WHERE attrelid = c.conrelid AND attnum = ANY(c.conkey)) AS columns,
+       ARRAY(SELECT attname FROM pg_attribute WHERE attrelid = c.confrelid AND attnum = ANY(c.confkey)) AS referenced_columns
+     FROM pg_constraint c
+     WHERE c.contype = 'f' AND c.conrelid = $1::regclass AND c.confrelid = $2::regclass
+     LIMIT 1`,
+    [from, to]
+  )
+  return rows.length > 0 ? { columns: rows[0].columns, referencedColumns: rows[0].referenced_columns } : null
+}
+
+/**
+ * Build the select list, resolving embedded relations through their foreign keys
+ * Many-to-one relations are embedded as an object, one-to-many as an array
+ */
+async function buildColumns(db: PGlite, table: string, select: string, alias: string, depth = 0): Promise<string> {
+  const columns: string[] = []
+
+  for (const item of splitTopLevel(select.replace(/\s+/g, ''))) {
+    const embedded = item.match(/^(?:(\w+):)?(\w+)(?:!\w+)?\((.*)\)$/)
+    if (!embedded) {
+      const [name, column] = item.includes(':') ? item.split(':') : [item, item]
+      columns.push(item === '*' ? `${alias}.*` : `${alias}.${quote(column)} AS ${quote(name)}`)
+      continue
+    }
+
+    const [, name, relation, inner] = embedded
+    const relationAlias = `r${depth}_${columns.length}`
+    const relationColumns = await buildColumns(db, relation, inner || '*', relationAlias, depth + 1)
+    const record = `(SELECT ${relationColumns}) AS x`
+
+    const manyToOne = await findForeignKey(db, table, relation)
+    if (manyToOne) {
+      const join = manyToOne.columns.map((column, i) =>
+        `${relationAlias}.${quote(manyToOne.referencedColumns[i])} = ${alias}.${quote(column)}`).join(' AND ')
+      columns.push(`(SELECT to_json(x) FROM ${quote(relation)} ${relationAlias}, LATERAL ${record} WHERE ${join}) AS ${quote(name ?? relation)}`)
+      continue
+    }
+
+    const oneToMany = await findForeignKey(db, relation, table)
+    if (!oneToMany) {
+      throw new Error(`No relation between ${table} and ${relation}`)
+    }
+    const join = oneToMany.columns.map((column, i) =>
+      `${relationAlias}.${quote(column)} = ${alias}.${quote(oneToMany.referencedColumns[i])}`).join(' AND ')
+    columns.push(`(SELECT coalesce(json_agg(x), '[]'::json) FROM ${quote(relation)} ${relationAlias}, LATERAL ${record} WHERE ${join}) AS ${quote(name ?? relation)}`)
+  }
+
+  return columns.join(', ')
+}
+
+function buildOrder(order: string | null): string {
+  if (!order) return ''
+
+  const terms = order.split(',').map(term => {
+    const [column, ...modifiers] = term.split('.')
+    const direction = modifiers.includes('desc') ? 'DESC' : 'ASC'
+    const nulls = modifiers.includes('nullsfirst') ? ' NULLS FIRST' : modifiers.includes('nullslast') ? ' NULLS LAST' : ''
+    return `t.${quote(column)} ${direction}${nulls}`
+  })
+  return `ORDER BY ${terms.join(', ')}`
+}
+
+async function getPrimaryKey(db: PGlite, table: string): Promise<string[]> {
+  const { rows } = await db.query<{ attname: string }>(
+    `SELECT a.attname FROM pg_index i
+     JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+     WHERE i.indrelid = $1::regclass AND i.indisprimary`,
+    [table]
+  )
+  return rows.map(row => row.attname)
+}
+
+/**
+ * Build the data-modifying statement of a POST, PATCH or DELETE request
+ */
+async function buildWrite(
+  db: PGlite,
+  method: string,
+  table: string,
+  search: URLSearchParams,
+  body: unknown,
+  prefer: string,
+  params: Parameters
+): Promise<string> {
+  const target = `${quote(table)} AS t`
+
+  if (method === 'DELETE') {
+    return `DELETE FROM ${target} ${buildWhere(search, params)} RETURNING t.*`
+  }
+
+  const rows = Array.isArray(body) ? body : [body]
+  const columns = search.get('columns')
+    ? search.get('columns')!.split(',').map(unquote)
+    : [...new Set(rows.flatMap(row => Object.keys(row as Record<string, unknown>)))]
+  const columnList = columns.map(quote).join(', ')
+
+  if (method === 'PATCH') {
+    return `UPDATE ${target} SET (${columnList}) = (SELECT ${columnList} FROM json_populate_record(NULL::${quote(table)}, ${params.add(JSON.stringify(body))}::json))
+      ${buildWhere(search, params)} RETURNING t.*`
+  }
+
+  let conflict = ''
+  if (prefer.includes('resolution=')) {
+    const keys = search.get('on_conflict')?.split(',') ?? await getPrimaryKey(db, table)
+    const updates = columns.filter(column => !keys.includes(column)).map(column => `${quote(column)} = EXCLUDED.${quote(column)}`)
+    conflict = prefer.includes('resolution=ignore-duplicates') || updates.length === 0
+      ? `ON CONFLICT (${keys.map(quote).join(', ')}) DO NOTHING`
+      : `ON CONFLICT (${keys.map(quote).join(', ')}) DO UPDATE SET ${updates.join(', ')}`
+  }
+
+  return `INSERT INTO ${target} (${columnList})
+    SELECT ${columnList} FROM json_populate_recordset(NULL::${quote(table)}, ${params.add(JSON.stringify(rows))}::json)
+    ${conflict} RETURNING t.*`
+}
+
+/**
+ * Call a database function with named arguments
+ * Number arrays are passed as vectors; functions that don't return a set
+ * answer with their single value
+ */
+async function callFunction(db: PGlite, name: string, args: Record<string, unknown>, maxRows?: number): Promise<unknown> {
+  const params = new Parameters()
+  const namedArgs = Object.entries(args).map(([key, value]) => {
+    const param = Array.isArray(value) && typeof value[0] === 'number'
+      ? params.add(toVector(value as number[]))
+      : params.add(value !== null && typeof value === 'object' && !Array.isArray(value) ? JSON.stringify(value) : value)
+    return `${quote(key)} => ${param}`
+  })
+
+  const { rows } = await db.query<{ body: string }>(
+    `SELECT coalesce(json_agg(r), '[]'::json)::text AS body FROM ${quote(name)}(${namedArgs.join(', ')}) AS r`,
+    params.values
+  )
+  const result = JSON.parse(rows[0].body) as unknown[]
+
+  const proc = await db.query<{ proretset: boolean }>(`SELECT proretset FROM pg_proc WHERE proname = $1 LIMIT 1`, [name])
+  return proc.rows[0]?.proretset ? result.slice(0, maxRows) : result[0] ?? null
+}
+
+function errorResponse(status: number, error: { code?: string; message: string; detail?: string }): Response {
+  return Response.json({ code: error.code ?? 'PGRST000', message: error.message, details: error.detail ?? null, hint: null }, { status })
+}
+
+/**
+ * Answer a request for a single object (single/maybeSingle)
+ */
+function objectResponse(data: unknown[], headers: Headers): Response {
+  if (data.length !== 1) {
+    return errorResponse(406, {
+      code: 'PGRST116',
+      message: 'JSON object requested, multiple (or no) rows returned',
+      detail: `The result contains ${data.length} rows`
+    })
+  }
+  headers.set('Content-Type', 'application/json')
+  return new Response(JSON.stringify(data[0]), { headers })
+}
+
+/**
+ * Fetch that answers PostgREST requests with the database
+ */
+function createPostgrestFetch(db: PGlite, options: TestClientOptions): typeof fetch {
+  return async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input.toString())
+    const method = init?.method ?? 'GET'
+    const headers = new Headers(init?.headers)
+    const prefer = headers.get('Prefer') ?? ''
+    const wantsObject = headers.get('Accept') === 'application/vnd.pgrst.object+json'
+    const body = init?.body ? JSON.parse(init.body as string) : undefined
+    const path = url.pathname.replace(/^\/rest\/v1\//, '')
+
+    try {
+      if (options.userId) {
+        await db.exec('BEGIN; SET LOCAL ROLE authenticated')
+        await db.query(`SELECT set_config('request.jwt.claim.sub', $1, true)`, [options.userId])
+      }
+
+      if (path.startsWith('rpc/')) {
+        const result = await callFunction(db, path.slice(4), body ?? {}, options.maxRows)
+        return wantsObject && Array.isArray(result) ? objectResponse(result, new Headers()) : Response.json(result)
+      }
+
+      const table = path
+      const params = new Parameters()
+      const select = url.searchParams.get('select')
+      const returnsRows = method === 'GET' || method === 'HEAD' || prefer.includes('return=representation')
+
+      let source = `${quote(table)} AS t`
+      let statement = ''
+      if (method !== 'GET' && method !== 'HEAD') {
+        statement = `WITH written AS (${await buildWrite(db, method, table, url.searchParams, body, prefer, params)}) `
+        source = 'written AS t'
+      }
+
+      const where = method === 'GET' || method === 'HEAD' ? buildWhere(url.searchParams, params) : ''
+      const requestedLimit = url.searchParams.get('limit')
+      const limit = options.maxRows !== undefined && (!requestedLimit || Number(requestedLimit) > options.maxRows)
+        ? String(options.maxRows)
+        : requestedLimit
+      const offset = url.searchParams.get('offset')
+      const columns = await buildColumns(db, table, select ?? '*', 't')
+
+      const { rows } = await db.query<{ body: string; total: number }>(
+        `${statement}SELECT
+           (SELECT coalesce(json_agg(q), '[]'::json)::text FROM (
+             SELECT ${columns} FROM ${source} ${where} ${buildOrder(url.searchParams.get('order'))}
+             ${limit ? `LIMIT ${Number(limit)}` : ''} ${offset ? `OFFSET ${Number(offset)}` : ''}
+           ) q) AS body,
+           (SELECT count(*)::int FROM ${source} ${where}) AS total`,
+        params.values
+      )
+      const data = JSON.parse(rows[0].body) as unknown[]
+
+      const responseHeaders = new Headers({ 'Content-Type': 'application/json' })
+      if (prefer.includes('count=exact')) {
+        const start = Number(offset ?? 0)
+        responseHeaders.set('Content-Range', `${start}-${start + Math.max(data.length - 1, 0)}/${rows[0].total}`)
+      }
+
+      if (method === 'HEAD' || !returnsRows) {
+        return new Response(null, { status: method === 'POST' ? 201 : 204, headers: responseHeaders })
+      }
+
+      if (wantsObject) {
+        return objectResponse(data, responseHeaders)
+      }
+
+      return new Response(JSON.stringify(data), { status: method === 'POST' ? 201 : 200, headers: responseHeaders })
+    } catch (error) {
+      const { code, message, detail } = error as { code?: string; message: string; detail?: string }
+      return errorResponse(code === '23505' ? 409 : 400, { code, message, detail })
+    } finally {
+      if (options.userId) {
+        await db.exec('COMMIT')
+      }
+    }
+  }
+}
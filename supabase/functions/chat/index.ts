@@ -2,6 +2,7 @@
 import "@supabase/functions-js/edge-runtime.d.ts"
 
 import { createClient } from '@supabase/supabase-js'
+import type { SupabaseClient } from '@supabase/supabase-js'
 import type {
   ChatRequest,
   InitChatRequest,
@@ -16,28 +17,95 @@ import type {
   HistoryResponse,
   ListSessionsResponse,
   DeleteSessionResponse,
-  ErrorResponse
+  ErrorResponse,
+  ChatSessionInfo,
+  IngestionJobStatus,
+  MessageStreamDone,
+  ChatMessageRecord,
+  RepositoryInfo,
+  SessionRepositoryStatus,
+  OpenAIChatMessage,
+  OpenAITool
 } from './lib/types.ts'
 import {
   createChatSession,
-  getChatSessionInfo,
+  findCallerSession,
   getRepository,
   isRepositoryProcessed,
   storeChatMessage,
   getChatHistory,
   storeSummary,
   getSummary,
-  getRepositoryBySession,
+  getSessionRepositories,
   getMessageCount,
   getAllSessions,
   deleteChatSession
 } from './lib/storage.ts'
 import { generateSummary } from './lib/summary.ts'
-import { performRAG } from './lib/rag.ts'
+import { performRAG, performVersionedRAG, getRepositoryLabel } from './lib/rag.ts'
+import { selectVersions } from './lib/versions.ts'
+import type { VersionSelection } from './lib/versions.ts'
+import { loadConversationContext } from './lib/memory.ts'
+import { condenseQuery, getSearchQueries } from './lib/query.ts'
+import type { CondensedQuery } from './lib/query.ts'
+import type { ConversationContext } from './lib/memory.ts'
 import { generateChatCompletionWithTools } from './lib/llm.ts'
+import { getChatTools, type ToolContext } from './lib/tools.ts'
+import { hasReleaseTimeline } from './lib/releases.ts'
+import type { LLMResponse } from './lib/llm.ts'
+import { createEventStreamResponse, createStreamHandlers } from './lib/stream.ts'
 import { getChatSystemPrompt } from './lib/prompts.ts'
-import { SESSION_CONFIG, MCP_CONFIG } from './lib/config.ts'
-import type { OpenAITool } from './lib/types.ts'
+import { SESSION_CONFIG, MCP_CONFIG, INGESTION_CONFIG, LLM_CONFIG, isOpenAIKeyRequired } from './lib/config.ts'
+import { createGitHubClient, type GitHubClient } from '../_shared/github.ts'
+
+/**
+ * Get the id of the signed-in user from the Authorization header
+ * Returns null for requests made with the anon or service role key
+ */
+async function getCallerId(
+  req: Request,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  supabaseAnonKey: string
+): Promise<string | null> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token || token === supabaseAnonKey || token === supabaseServiceKey) {
+    return null
+  }
+
+  const client = createClient(supabaseUrl, supabaseServiceKey)
+  const { data, error } = await client.auth.getUser(token)
+  if (error || !data.user) {
+    return null
+  }
+
+  return data.user.id
+}
+
+/**
+ * Get a session the caller may use (see findCallerSession)
+ * History and deletion require the signed-in owner (requireOwner), so a leaked
+ * id of a session without an owner can't be used to read or delete it.
+ * Sessions the caller may not use are reported as not found.
+ */
+async function getCallerSession(
+  client: SupabaseClient,
+  sessionId: string,
+  userId: string | null,
+  requireOwner = false
+): Promise<ChatSessionInfo | ErrorResponse> {
+  const sessionInfo = await findCallerSession(client, sessionId, userId, requireOwner)
+
+  if (!sessionInfo) {
+    return {
+      success: false,
+      error: 'session_not_found',
+      message: 'Chat session not found'
+    }
+  }
+
+  return sessionInfo
+}
 
 /**
  * Parse GitHub URL to extract owner and repo
@@ -60,68 +128,32 @@ function parseGitHubUrl(url: string): { owner: string; repo: string } | null {
   }
 }
 
-/**
- * Detects the default branch for a GitHub repository
- */
-async function detectDefaultBranch(
-  owner: string,
-  repo: string,
-  ref?: string
-): Promise<string> {
-  // If ref is explicitly provided, use it
-  if (ref) {
-    return ref
-  }
-
-  try {
-    // Query GitHub API for repository info to get default branch
-    const apiUrl = `https://api.github.com/repos/${owner}/${repo}`
-    const headers = {
-      'Accept': 'application/vnd.github+json',
-      'X-GitHub-Api-Version': '2022-11-28',
-      'User-Agent': 'Supabase-Edge-Function'
-    }
-
-    const response = await fetch(apiUrl, { headers })
-    
-    if (response.ok) {
-      const repoData = await response.json()
-      if (repoData.default_branch) {
-        console.log(`Detected default branch: ${repoData.default_branch}`)
-        return repoData.default_branch
-      }
-    }
-  } catch (error) {
-    console.warn('Failed to detect default branch from API:', error)
-  }
-
-  // Fallback: try 'main' first, then 'master'
-  console.log('Using fallback default branch: main')
-  return 'main'
-}
-
 /**
  * Call data-aggregate function to process repository
+ * Starts (or reuses) an asynchronous ingestion job
  */
 async function processRepository(
   githubUrl: string,
   ref: string,
   force: boolean,
   supabaseUrl: string,
-  supabaseKey: string
-): Promise<{ repositoryId: string; status: 'created' | 'existing' }> {
+  supabaseKey: string,
+  githubToken?: string
+): Promise<{ repositoryId: string; status: 'created' | 'existing'; jobId?: string }> {
   const dataAggregateUrl = `${supabaseUrl}/functions/v1/data-aggregate`
   
   const response = await fetch(dataAggregateUrl, {
     method: 'POST',
     headers: {
       'Authorization': `Bearer ${supabaseKey}`,
-      'Content-Type': 'application/json'
+      'Content-Type': 'application/json',
+      ...(githubToken && { 'X-GitHub-Token': githubToken })
     },
     body: JSON.stringify({
       url: githubUrl,
       ref,
-      force
+      force,
+      async: true
     })
   })
 
@@ -143,88 +175,308 @@ async function processRepository(
 
   return {
     repositoryId: data.repository.id,
-    status: 'created'
+    status: 'created',
+    jobId: data.jobId
   }
 }
 
 /**
- * Handle init action - create chat session
+ * Poll an ingestion job until it finishes or the timeout expires
+ * Returns the last known job status and error message
  */
-async function handleInit(
-  request: InitChatRequest,
+async function waitForIngestion(
+  jobId: string,
   supabaseUrl: string,
-  supabaseServiceKey: string,
-  supabaseAnonKey: string
-): Promise<InitChatResponse | ErrorResponse> {
-  const { githubUrl, ref, force = false } = request
+  supabaseKey: string,
+  githubToken?: string,
+  timeoutMs: number = INGESTION_CONFIG.initWaitMs
+): Promise<{ status: IngestionJobStatus; message?: string }> {
+  const statusUrl = `${supabaseUrl}/functions/v1/data-aggregate?jobId=${encodeURIComponent(jobId)}`
+  const deadline = Date.now() + timeoutMs
+  let status: IngestionJobStatus = 'pending'
+
+  while (true) {
+    try {
+      // A poll may resume the job, which needs the token for private repositories
+      const response = await fetch(statusUrl, {
+        headers: {
+          'Authorization': `Bearer ${supabaseKey}`,
+          ...(githubToken && { 'X-GitHub-Token': githubToken })
+        }
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        status = data.status
+
+        if (status === 'completed' || status === 'failed') {
+          return { status, message: data.message }
+        }
+      } else {
+        await response.body?.cancel()
+        console.warn(`Ingestion job status request failed: ${response.status}`)
+      }
+    } catch (error) {
+      console.warn('Failed to poll ingestion job:', error)
+    }
+
+    if (Date.now() + INGESTION_CONFIG.pollIntervalMs > deadline) {
+      return { status }
+    }
+
+    await new Promise(resolve => setTimeout(resolve, INGESTION_CONFIG.pollIntervalMs))
+  }
+}
 
+/**
+ * A repository resolved for a new session
+ */
+interface ResolvedRepository {
+  repository: RepositoryInfo
+  status: SessionRepositoryStatus['status']
+  jobId?: string
+}
+
+/**
+ * Error returned when the caller may not search a private repository
+ */
+function privateRepositoryError(owner: string, repo: string): ErrorResponse {
+  return {
+    success: false,
+    error: 'repository_access_denied',
+    message: `${owner}/${repo} is private. Send a GitHub token with read access in the X-GitHub-Token header.`
+  }
+}
+
+/**
+ * Find a repository or start its ingestion job
+ * Repositories without embeddings are new, still being processed or failed earlier
+ * Private repositories are only attached to a session if the caller's own
+ * GitHub token (not the GITHUB_TOKEN secret) can read them
+ */
+async function resolveRepository(
+  client: SupabaseClient,
+  githubUrl: string,
+  ref: string | undefined,
+  force: boolean,
+  supabaseUrl: string,
+  supabaseAnonKey: string,
+  githubToken?: string
+): Promise<ResolvedRepository | ErrorResponse> {
   // Parse GitHub URL
   const parsed = parseGitHubUrl(githubUrl)
   if (!parsed) {
     return {
       success: false,
       error: 'invalid_github_url',
-      message: 'Invalid GitHub repository URL'
+      message: `Invalid GitHub repository URL: ${githubUrl}`
     }
   }
 
   const { owner, repo } = parsed
 
-  // Detect the default branch if not explicitly provided
-  const detectedRef = await detectDefaultBranch(owner, repo, ref)
+  // Detect the default branch and visibility
+  const github = createGitHubClient({ token: githubToken || Deno.env.get('GITHUB_TOKEN'), cache: client })
+  const metadata = await github.getRepository(owner, repo)
 
-  // Create Supabase client
-  const client = createClient(supabaseUrl, supabaseServiceKey)
+  if (metadata.status === 401) {
+    return {
+      success: false,
+      error: 'invalid_github_token',
+      message: 'GitHub rejected the token'
+    }
+  }
+
+  if (metadata.status === 404) {
+    return {
+      success: false,
+      error: 'repository_not_found',
+      message: `Repository ${owner}/${repo} not found or not accessible. Private repositories require a GitHub token in the X-GitHub-Token header.`
+    }
+  }
+
+  // GitHub returned the repository to the caller's token
+  const callerCanRead = Boolean(githubToken) && metadata.status === 200
+  const detectedRef = ref || metadata.defaultBranch || 'main'
 
   // Check if repository exists in database
-  let repository = await getRepository(client, owner, repo, detectedRef)
-  let status: 'created' | 'existing' = 'existing'
+  const repository = await getRepository(client, owner, repo, detectedRef)
 
-  if (!repository) {
-    // Process repository with data-aggregate
-    console.log(`Processing new repository: ${owner}/${repo}@${detectedRef}`)
-    const result = await processRepository(githubUrl, detectedRef, force, supabaseUrl, supabaseAnonKey)
-    
-    if (result.repositoryId) {
-      repository = { id: result.repositoryId, owner, repo, ref: detectedRef, url: githubUrl }
-    } else {
-      // Get from database (exists but wasn't processed)
-      repository = await getRepository(client, owner, repo, detectedRef)
+  if ((metadata.isPrivate ?? repository?.isPrivate) && !callerCanRead) {
+    return privateRepositoryError(owner, repo)
+  }
+
+  const needsProcessing = !repository || !(await isRepositoryProcessed(client, repository.id))
+
+  if (!needsProcessing) {
+    console.log(`Repository already exists: ${owner}/${repo}@${detectedRef}`)
+    return { repository, status: 'existing' }
+  }
+
+  // Process repository with data-aggregate
+  console.log(`Processing repository: ${owner}/${repo}@${detectedRef}`)
+  const result = await processRepository(githubUrl, detectedRef, force, supabaseUrl, supabaseAnonKey, githubToken)
+
+  if (result.status === 'existing') {
+    return {
+      success: false,
+      error: 'repository_not_processed',
+      message: `Repository ${owner}/${repo}@${detectedRef} found but not yet processed. Set force=true to reprocess.`
     }
-    status = result.status
-  } else {
-    console.log(`Repository already exists: ${owner}/${repo}@${ref}`)
-    
-    // Check if it has embeddings
-    const hasEmbeddings = await isRepositoryProcessed(client, repository.id)
-    if (!hasEmbeddings && !force) {
-      return {
-        success: false,
-        error: 'repository_not_processed',
-        message: 'Repository found but not yet processed. Set force=true to reprocess.'
+  }
+
+  // data-aggregate records the visibility if GitHub could not be asked here
+  const created = await getRepository(client, owner, repo, detectedRef)
+  if (metadata.isPrivate === undefined && created?.isPrivate && !callerCanRead) {
+    return privateRepositoryError(owner, repo)
+  }
+
+  return {
+    repository: created ?? { id: result.repositoryId, owner, repo, ref: detectedRef, url: githubUrl, isPrivate: metadata.isPrivate },
+    status: result.status,
+    jobId: result.jobId
+  }
+}
+
+/**
+ * Wait for the ingestion job of a resolved repository
+ * Returns an error if the job failed
+ */
+async function awaitRepository(
+  resolved: ResolvedRepository,
+  wait: boolean,
+  supabaseUrl: string,
+  supabaseAnonKey: string,
+  githubToken?: string
+): Promise<ResolvedRepository | ErrorResponse> {
+  if (!resolved.jobId) {
+    return resolved
+  }
+
+  const job = wait
+    ? await waitForIngestion(resolved.jobId, supabaseUrl, supabaseAnonKey, githubToken)
+    : { status: 'pending' as IngestionJobStatus }
+
+  if (job.status === 'failed') {
+    const { owner, repo, ref } = resolved.repository
+    return {
+      success: false,
+      error: 'ingestion_failed',
+      message: job.message || `Failed to process repository ${owner}/${repo}@${ref}`
+    }
+  }
+
+  return job.status === 'completed' ? resolved : { ...resolved, status: 'processing' }
+}
+
+/**
+ * Handle init action - create chat session
+ * A session can search several repositories; githubUrl (or the first of
+ * githubUrls) is the primary repository. New repositories are ingested by
+ * background jobs; the session is created right away and reported as
+ * 'processing' while any job is still running
+ */
+async function handleInit(
+  request: InitChatRequest,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  supabaseAnonKey: string,
+  userId: string | null,
+  githubToken?: string
+): Promise<InitChatResponse | ErrorResponse> {
+  const { githubUrl, githubUrls = [], ref, refs = [], force = false, wait = true } = request
+
+  const urls = [...new Set([...(githubUrl ? [githubUrl] : []), ...githubUrls])]
+
+  // Every repository is indexed at each requested ref (default: its default branch)
+  const targetRefs: (string | undefined)[] = refs.length > 0 ? [...new Set(refs)] : [ref]
+
+  if (urls.length === 0) {
+    return {
+      success: false,
+      error: 'invalid_request',
+      message: 'githubUrl or githubUrls is required'
+    }
+  }
+
+  if (urls.length * targetRefs.length > SESSION_CONFIG.maxRepositories) {
+    return {
+      success: false,
+      error: 'invalid_request',
+      message: `A session can search at most ${SESSION_CONFIG.maxRepositories} repository versions`
+    }
+  }
+
+  // Create Supabase client
+  const client = createClient(supabaseUrl, supabaseServiceKey)
+
+  // Start all ingestion jobs before waiting for any of them
+  const resolved: ResolvedRepository[] = []
+  for (const url of urls) {
+    for (const targetRef of targetRefs) {
+      const result = await resolveRepository(client, url, targetRef, force, supabaseUrl, supabaseAnonKey, githubToken)
+      if ('error' in result) {
+        return result
       }
+      resolved.push(result)
     }
   }
 
-  if (!repository) {
+  const awaited = await Promise.all(
+    resolved.map(result => awaitRepository(result, wait, supabaseUrl, supabaseAnonKey, githubToken))
+  )
+
+  const failed = awaited.find((result): result is ErrorResponse => 'error' in result)
+  if (failed) {
+    return failed
+  }
+
+  const repositories = awaited as ResolvedRepository[]
+
+  // Sessions without an owner are reachable by id, which private repositories must not be
+  if (!userId && repositories.some(r => r.repository.isPrivate)) {
     return {
       success: false,
-      error: 'repository_not_found',
-      message: 'Failed to find or create repository'
+      error: 'authentication_required',
+      message: 'Sign in to create a chat session for a private repository'
     }
   }
 
+  // The same repository can be given with different URLs
+  const repositoryIds = [...new Set(repositories.map(r => r.repository.id))]
+
   // Create chat session
-  const session = await createChatSession(client, repository.id)
-  
-  console.log(`Created chat session: ${session.id}`)
+  const session = await createChatSession(client, repositoryIds, userId)
+
+  console.log(`Created chat session: ${session.id} (${repositoryIds.length} repositories)`)
+
+  const primary = repositories[0]
+  const processing = repositories.filter(r => r.status === 'processing')
+  const status: InitChatResponse['status'] = processing.length > 0
+    ? 'processing'
+    : repositories.some(r => r.status === 'created') ? 'created' : 'existing'
+
+  const labels = repositories
+    .map(({ repository }) => `${repository.owner}/${repository.repo}@${repository.ref}`)
+    .join(', ')
 
   return {
     success: true,
     sessionId: session.id,
-    repositoryId: repository.id,
+    repositoryId: primary.repository.id,
     status,
-    message: `Chat session created for ${owner}/${repo}@${ref}`
+    ...(primary.jobId && { jobId: primary.jobId }),
+    repositories: repositories.map(({ repository, status, jobId }) => ({
+      repositoryId: repository.id,
+      owner: repository.owner,
+      repo: repository.repo,
+      ref: repository.ref,
+      status,
+      ...(jobId && { jobId })
+    })),
+    message: status === 'processing'
+      ? `Chat session created for ${labels}. ${processing.length} repository(s) are still being processed; poll data-aggregate with their jobId for progress.`
+      : `Chat session created for ${labels}`
   }
 }
 
@@ -237,20 +489,18 @@ async function handleSummary(
   supabaseServiceKey: string,
   supabaseAnonKey: string,
   openaiApiKey: string,
-  tavilyApiKey?: string
+  userId: string | null,
+  tavilyApiKey?: string,
+  githubToken?: string
 ): Promise<SummaryResponse | ErrorResponse> {
   const { sessionId, regenerate = false } = request
 
   const client = createClient(supabaseUrl, supabaseServiceKey)
 
   // Get session info
-  const sessionInfo = await getChatSessionInfo(client, sessionId)
-  if (!sessionInfo) {
-    return {
-      success: false,
-      error: 'session_not_found',
-      message: 'Chat session not found'
-    }
+  const sessionInfo = await getCallerSession(client, sessionId, userId)
+  if ('error' in sessionInfo) {
+    return sessionInfo
   }
 
   // Check if summary exists
@@ -269,102 +519,177 @@ async function handleSummary(
   // Generate new summary
   console.log('Generating new summary...')
   const githubUrl = `https://github.com/${sessionInfo.repositoryOwner}/${sessionInfo.repositoryName}`
-  
+  const repository = await getRepository(
+    client,
+    sessionInfo.repositoryOwner,
+    sessionInfo.repositoryName,
+    sessionInfo.repositoryRef
+  )
+
   const summary = await generateSummary(
     githubUrl,
     sessionInfo.repositoryRef,
     supabaseUrl,
     supabaseAnonKey,
     openaiApiKey,
-    tavilyApiKey  // Pass Tavily API key for extended reading
+    // Pass Tavily API key for extended reading; private repositories are not sent to Tavily
+    repository?.isPrivate ? undefined : tavilyApiKey,
+    githubToken
   )
 
   // Store summary
-  await storeSummary(client, sessionInfo.repositoryId, summary, 'gpt-4o')
+  await storeSummary(client, sessionInfo.repositoryId, summary, LLM_CONFIG.models.summary)
 
   return {
     success: true,
     summary,
     fromCache: false,
-    modelUsed: 'gpt-4o'
+    modelUsed: LLM_CONFIG.models.summary
   }
 }
 
 /**
- * Handle message action - RAG chat
+ * Create the GitHub client of the read_file and list_directory tools
+ * Private repositories are only read with the caller's own GitHub token; without
+ * it the tools are not offered
  */
-async function handleMessage(
-  request: MessageRequest,
-  supabaseUrl: string,
-  supabaseServiceKey: string,
-  openaiApiKey: string,
-  tavilyApiKey?: string
-): Promise<MessageResponse | ErrorResponse> {
-  const { sessionId, message, ragConfig } = request
+function createToolGitHubClient(
+  client: SupabaseClient,
+  repositories: RepositoryInfo[],
+  githubToken?: string
+): GitHubClient | undefined {
+  if (githubToken) {
+    return createGitHubClient({ token: githubToken, cache: client })
+  }
+  if (repositories.some(r => r.isPrivate)) {
+    return undefined
+  }
+  return createGitHubClient({ token: Deno.env.get('GITHUB_TOKEN'), cache: client })
+}
 
-  const client = createClient(supabaseUrl, supabaseServiceKey)
+/**
+ * Resolve the repositories a message is addressed to, primary repository first
+ */
+async function getMessageRepositories(
+  client: SupabaseClient,
+  sessionId: string,
+  userId: string | null
+): Promise<RepositoryInfo[] | ErrorResponse> {
+  const sessionInfo = await getCallerSession(client, sessionId, userId)
+  if ('error' in sessionInfo) {
+    return sessionInfo
+  }
 
-  // Get session and repository info
-  const sessionInfo = await getChatSessionInfo(client, sessionId)
-  if (!sessionInfo) {
+  const repositories = await getSessionRepositories(client, sessionId)
+  if (repositories.length === 0) {
     return {
       success: false,
-      error: 'session_not_found',
-      message: 'Chat session not found'
+      error: 'repository_not_found',
+      message: 'Repository not found for session'
     }
   }
 
-  const repository = await getRepositoryBySession(client, sessionId)
-  if (!repository) {
+  return repositories
+}
+
+/**
+ * Select the versions a message is answered from
+ * Returns an error if a requested ref is not indexed in the session
+ */
+function selectMessageVersions(
+  repositories: RepositoryInfo[],
+  request: MessageRequest
+): VersionSelection | ErrorResponse {
+  const selection = selectVersions(repositories, request.message, request.refs)
+
+  if (selection.missing.length > 0) {
+    const available = [...new Set(repositories.map(r => r.ref))]
     return {
       success: false,
-      error: 'repository_not_found',
-      message: 'Repository not found for session'
+      error: 'version_not_found',
+      message: `Version(s) ${selection.missing.join(', ')} not indexed in this session. Available: ${available.join(', ')}`
     }
   }
 
-  // Get summary (optional but recommended)
+  return selection
+}
+
+/**
+ * Everything needed to call the LLM for one chat turn
+ */
+interface PreparedTurn {
+  messages: OpenAIChatMessage[]
+  tools: OpenAITool[]
+  toolContext: ToolContext
+  versions: string[]
+  ragResult: Awaited<ReturnType<typeof performRAG>>
+  conversation: ConversationContext
+  condensedQuery: CondensedQuery
+}
+
+/**
+ * Load history, store the user message, run RAG and build the prompt
+ */
+async function prepareMessageTurn(
+  client: SupabaseClient,
+  request: MessageRequest,
+  repositories: RepositoryInfo[],
+  selection: VersionSelection,
+  openaiApiKey: string,
+  tavilyApiKey?: string,
+  githubToken?: string
+): Promise<PreparedTurn> {
+  const { sessionId, message, ragConfig } = request
+  const repository = repositories[0]
+  const { versions } = selection
+
+  // Get summary of the primary repository (optional but recommended)
   const summary = await getSummary(client, repository.id)
 
+  // Load previous turns before the new user message is stored
+  const conversation = await loadConversationContext(client, sessionId, openaiApiKey)
+
   // Store user message
   await storeChatMessage(client, sessionId, 'user', message)
 
-  // Perform RAG search
-  const ragResult = await performRAG(
-    client,
+  // Rewrite follow-up questions into standalone search queries
+  const condensedQuery = await condenseQuery(
     message,
-    repository.owner,
-    repository.repo,
-    repository.ref,
+    conversation.messages,
     openaiApiKey,
-    ragConfig
+    ragConfig?.rewriteQuery
   )
 
-  // Prepare tools for LLM (Tavily search)
-  const tools: OpenAITool[] = []
-  if (MCP_CONFIG.enabled && tavilyApiKey) {
-    tools.push({
-      type: 'function',
-      function: {
-        name: 'tavily_search',
-        description: 'Search the web for current information, tutorials, articles, and documentation. Use this when the repository documentation doesn\'t contain the answer, or when user asks for latest/recent information.',
-        parameters: {
-          type: 'object',
-          properties: {
-            query: {
-              type: 'string',
-              description: 'The search query. Be specific and clear.'
-            },
-            max_results: {
-              type: 'number',
-              description: 'Maximum number of results to return (default: 10)'
-            }
-          },
-          required: ['query']
-        }
-      }
-    })
+  // Perform RAG search across the selected repositories, separately per targeted version
+  const ragResult = versions.length > 0
+    ? await performVersionedRAG(
+      client,
+      message,
+      selection.repositories,
+      versions,
+      openaiApiKey,
+      ragConfig,
+      getSearchQueries(condensedQuery)
+    )
+    : await performRAG(
+      client,
+      message,
+      selection.repositories,
+      openaiApiKey,
+      ragConfig,
+      getSearchQueries(condensedQuery)
+    )
+
+  // Tools work on the selected repositories; query_releases is offered when release entries are indexed
+  const toolContext: ToolContext = {
+    tavilyApiKey,
+    openaiApiKey,
+    client,
+    repositories: selection.repositories,
+    github: createToolGitHubClient(client, selection.repositories, githubToken),
+    releaseTimeline: MCP_CONFIG.enabled && await hasReleaseTimeline(client, selection.repositories)
   }
+  const tools = getChatTools(toolContext)
 
   // Generate response with LLM (with tool calling support)
   const systemPrompt = getChatSystemPrompt(
@@ -378,67 +703,192 @@ async function handleMessage(
       quickStart: 'No quick start available',
       useCases: []
     },
-    ragResult.useFallback ? null : ragResult.sources
+    ragResult.useFallback ? null : ragResult.sources,
+    selection.repositories.map(r => getRepositoryLabel(r.owner, r.repo, r.ref)),
+    versions,
+    tools.map(tool => tool.function.name)
   )
 
-  const llmResponse = await generateChatCompletionWithTools(
-    [
+  return {
+    messages: [
       { role: 'system', content: systemPrompt },
+      ...conversation.messages,
       { role: 'user', content: message }
     ],
     tools,
-    openaiApiKey,
-    tavilyApiKey,
-    'chat'
-  )
+    toolContext,
+    versions,
+    ragResult,
+    conversation,
+    condensedQuery
+  }
+}
 
-  // Store assistant message
-  const assistantMessage = await storeChatMessage(
+/**
+ * Store the assistant reply of a chat turn
+ */
+function storeAssistantReply(
+  client: SupabaseClient,
+  sessionId: string,
+  turn: PreparedTurn,
+  llmResponse: LLMResponse
+): Promise<ChatMessageRecord> {
+  return storeChatMessage(
     client,
     sessionId,
     'assistant',
     llmResponse.content || '',
-    ragResult.sources,
+    turn.ragResult.sources,
     {
       model: llmResponse.model,
-      usedRagContext: !ragResult.useFallback,
-      usedFallback: ragResult.useFallback,
+      usedRagContext: !turn.ragResult.useFallback,
+      usedFallback: turn.ragResult.useFallback,
       tokensUsed: llmResponse.usage.totalTokens,
-      toolCallsUsed: llmResponse.toolCalls ? llmResponse.toolCalls.length : 0
+      toolCallsUsed: llmResponse.toolCallsUsed ?? 0,
+      historyMessagesUsed: turn.conversation.historyMessageCount,
+      usedConversationSummary: turn.conversation.usedSummary,
+      rewrittenQuery: turn.condensedQuery.rewritten ? turn.condensedQuery.standaloneQuery : null,
+      searchQueries: turn.ragResult.queries,
+      versions: turn.versions
     }
   )
+}
+
+/**
+ * Handle message action - RAG chat
+ */
+async function handleMessage(
+  request: MessageRequest,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  openaiApiKey: string,
+  userId: string | null,
+  tavilyApiKey?: string,
+  githubToken?: string
+): Promise<MessageResponse | ErrorResponse> {
+  const client = createClient(supabaseUrl, supabaseServiceKey)
+
+  // Get session and repository info
+  const repositories = await getMessageRepositories(client, request.sessionId, userId)
+  if ('error' in repositories) {
+    return repositories
+  }
+
+  const selection = selectMessageVersions(repositories, request)
+  if ('error' in selection) {
+    return selection
+  }
+
+  const turn = await prepareMessageTurn(client, request, repositories, selection, openaiApiKey, tavilyApiKey, githubToken)
+
+  const llmResponse = await generateChatCompletionWithTools(
+    turn.messages,
+    turn.tools,
+    openaiApiKey,
+    turn.toolContext,
+    'chat'
+  )
+
+  // Store assistant message
+  const assistantMessage = await storeAssistantReply(
+    client,
+    request.sessionId,
+    turn,
+    llmResponse
+  )
 
   return {
     success: true,
     messageId: assistantMessage.id,
     answer: llmResponse.content || '',
-    sources: ragResult.sources,
-    usedRagContext: !ragResult.useFallback,
-    usedFallback: ragResult.useFallback,
+    sources: turn.ragResult.sources,
+    usedRagContext: !turn.ragResult.useFallback,
+    usedFallback: turn.ragResult.useFallback,
+    versions: turn.versions,
     modelUsed: llmResponse.model
   }
 }
 
+/**
+ * Handle message action in streaming mode - RAG chat over server-sent events
+ * Session errors are returned as JSON before the stream is opened
+ */
+async function handleMessageStream(
+  request: MessageRequest,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  openaiApiKey: string,
+  userId: string | null,
+  tavilyApiKey?: string,
+  githubToken?: string
+): Promise<Response | ErrorResponse> {
+  const client = createClient(supabaseUrl, supabaseServiceKey)
+
+  const repositories = await getMessageRepositories(client, request.sessionId, userId)
+  if ('error' in repositories) {
+    return repositories
+  }
+
+  const selection = selectMessageVersions(repositories, request)
+  if ('error' in selection) {
+    return selection
+  }
+
+  return createEventStreamResponse(async (send) => {
+    const turn = await prepareMessageTurn(client, request, repositories, selection, openaiApiKey, tavilyApiKey, githubToken)
+
+    send('sources', {
+      sources: turn.ragResult.sources,
+      usedRagContext: !turn.ragResult.useFallback,
+      usedFallback: turn.ragResult.useFallback,
+      versions: turn.versions
+    })
+
+    const llmResponse = await generateChatCompletionWithTools(
+      turn.messages,
+      turn.tools,
+      openaiApiKey,
+      turn.toolContext,
+      'chat',
+      createStreamHandlers(send)
+    )
+
+    // Store the complete assistant message once streaming has finished
+    const assistantMessage = await storeAssistantReply(
+      client,
+      request.sessionId,
+      turn,
+      llmResponse
+    )
+
+    const done: MessageStreamDone = {
+      messageId: assistantMessage.id,
+      usedRagContext: !turn.ragResult.useFallback,
+      usedFallback: turn.ragResult.useFallback,
+      modelUsed: llmResponse.model,
+      usage: llmResponse.usage
+    }
+    send('done', done)
+  })
+}
+
 /**
  * Handle history action - retrieve conversation history
  */
 async function handleHistory(
   request: HistoryRequest,
   supabaseUrl: string,
-  supabaseServiceKey: string
+  supabaseServiceKey: string,
+  userId: string | null
 ): Promise<HistoryResponse | ErrorResponse> {
   const { sessionId, limit = SESSION_CONFIG.defaultHistoryLimit, offset = 0 } = request
 
   const client = createClient(supabaseUrl, supabaseServiceKey)
 
   // Get session info
-  const sessionInfo = await getChatSessionInfo(client, sessionId)
-  if (!sessionInfo) {
-    return {
-      success: false,
-      error: 'session_not_found',
-      message: 'Chat session not found'
-    }
+  const sessionInfo = await getCallerSession(client, sessionId, userId, true)
+  if ('error' in sessionInfo) {
+    return sessionInfo
   }
 
   // Get messages
@@ -449,6 +899,9 @@ async function handleHistory(
     offset
   )
 
+  // Get attached repositories
+  const repositories = await getSessionRepositories(client, sessionId)
+
   // Get summary
   const summary = await getSummary(client, sessionInfo.repositoryId)
 
@@ -458,6 +911,7 @@ async function handleHistory(
   return {
     success: true,
     sessionInfo,
+    repositories,
     messages,
     summary: summary || undefined,
     totalMessages
@@ -465,21 +919,32 @@ async function handleHistory(
 }
 
 /**
- * Handle list_sessions action - list all chat sessions
+ * Handle list_sessions action - list the caller's chat sessions
+ * Requires a signed-in user; sessions without an owner are never listed
  */
 async function handleListSessions(
   request: ListSessionsRequest,
   supabaseUrl: string,
-  supabaseServiceKey: string
+  supabaseServiceKey: string,
+  userId: string | null
 ): Promise<ListSessionsResponse | ErrorResponse> {
   const { limit = SESSION_CONFIG.defaultHistoryLimit, offset = 0 } = request
 
+  if (!userId) {
+    return {
+      success: false,
+      error: 'authentication_required',
+      message: 'Sign in to list your chat sessions'
+    }
+  }
+
   const client = createClient(supabaseUrl, supabaseServiceKey)
 
   try {
-    // Get all sessions with pagination
+    // Get the user's sessions with pagination
     const { sessions, total } = await getAllSessions(
       client,
+      userId,
       Math.min(limit, SESSION_CONFIG.maxHistoryLimit),
       offset
     )
@@ -505,20 +970,17 @@ async function handleListSessions(
 async function handleDeleteSession(
   request: DeleteSessionRequest,
   supabaseUrl: string,
-  supabaseServiceKey: string
+  supabaseServiceKey: string,
+  userId: string | null
 ): Promise<DeleteSessionResponse | ErrorResponse> {
   const { sessionId } = request
 
   const client = createClient(supabaseUrl, supabaseServiceKey)
 
-  // Check if session exists
-  const sessionInfo = await getChatSessionInfo(client, sessionId)
-  if (!sessionInfo) {
-    return {
-      success: false,
-      error: 'session_not_found',
-      message: 'Chat session not found'
-    }
+  // Check if the session exists and belongs to the caller
+  const sessionInfo = await getCallerSession(client, sessionId, userId, true)
+  if ('error' in sessionInfo) {
+    return sessionInfo
   }
 
   try {
@@ -565,7 +1027,7 @@ Deno.serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')
     const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY')
+    const openaiApiKey = Deno.env.get('OPENAI_API_KEY') ?? ''  // Required for OpenAI providers only
     const tavilyApiKey = Deno.env.get('TAVILY_API_KEY')  // Optional
 
     if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
@@ -582,7 +1044,7 @@ Deno.serve(async (req) => {
       )
     }
 
-    if (!openaiApiKey) {
+    if (!openaiApiKey && isOpenAIKeyRequired()) {
       return new Response(
         JSON.stringify({
           success: false,
@@ -596,32 +1058,47 @@ Deno.serve(async (req) => {
       )
     }
 
+    // Signed-in user (null for anon key requests)
+    const userId = await getCallerId(req, supabaseUrl, supabaseServiceKey, supabaseAnonKey)
+
+    // Caller's GitHub token for private repositories
+    const githubToken = req.headers.get('X-GitHub-Token') || undefined
+
     // Route to appropriate handler
     let result
 
     switch (body.action) {
       case 'init':
-        result = await handleInit(body, supabaseUrl, supabaseServiceKey, supabaseAnonKey)
+        result = await handleInit(body, supabaseUrl, supabaseServiceKey, supabaseAnonKey, userId, githubToken)
         break
 
       case 'summary':
-        result = await handleSummary(body, supabaseUrl, supabaseServiceKey, supabaseAnonKey, openaiApiKey, tavilyApiKey)
+        result = await handleSummary(body, supabaseUrl, supabaseServiceKey, supabaseAnonKey, openaiApiKey, userId, tavilyApiKey, githubToken)
         break
 
-      case 'message':
-        result = await handleMessage(body, supabaseUrl, supabaseServiceKey, openaiApiKey, tavilyApiKey)
+      case 'message': {
+        if (body.stream) {
+          const streamResult = await handleMessageStream(body, supabaseUrl, supabaseServiceKey, openaiApiKey, userId, tavilyApiKey, githubToken)
+          if (streamResult instanceof Response) {
+            return streamResult
+          }
+          result = streamResult
+          break
+        }
+        result = await handleMessage(body, supabaseUrl, supabaseServiceKey, openaiApiKey, userId, tavilyApiKey, githubToken)
         break
+      }
 
       case 'history':
-        result = await handleHistory(body, supabaseUrl, supabaseServiceKey)
+        result = await handleHistory(body, supabaseUrl, supabaseServiceKey, userId)
         break
 
       case 'list_sessions':
-        result = await handleListSessions(body, supabaseUrl, supabaseServiceKey)
+        result = await handleListSessions(body, supabaseUrl, supabaseServiceKey, userId)
         break
 
       case 'delete_session':
-        result = await handleDeleteSession(body, supabaseUrl, supabaseServiceKey)
+        result = await handleDeleteSession(body, supabaseUrl, supabaseServiceKey, userId)
         break
 
       default:
@@ -694,6 +1171,12 @@ Deno.serve(async (req) => {
        -H "Content-Type: application/json" \
        -d '{"action":"message","sessionId":"SESSION_ID","message":"How do I get started?"}'
 
+  6b. Stream a message (server-sent events):
+     curl -N -X POST http://127.0.0.1:54321/functions/v1/chat \
+       -H "Authorization: Bearer YOUR_ANON_KEY" \
+       -H "Content-Type: application/json" \
+       -d '{"action":"message","sessionId":"SESSION_ID","message":"How do I get started?","stream":true}'
+
   7. Get history:
      curl -X POST http://127.0.0.1:54321/functions/v1/chat \
        -H "Authorization: Bearer YOUR_ANON_KEY" \
@@ -3,12 +3,23 @@
  * Modify these values to customize chatbot behavior
  */
 
+import type { EmbeddingProviderName, LLMProviderName } from './types.ts'
+
 /**
  * LLM Configuration
  * Adjust models, temperature, and token limits for different use cases
  */
 export const LLM_CONFIG = {
-  // Model selection
+  // Provider per use case (see LLM_PROVIDER_CONFIG)
+  // 'openai': OpenAI chat completions, 'anthropic': Anthropic Messages API,
+  // 'local': any OpenAI-compatible server (Ollama, llama.cpp server, vLLM)
+  providers: {
+    summary: 'openai' as LLMProviderName,
+    chat: 'openai' as LLMProviderName
+  },
+  
+  // Model selection (must be a model of the configured provider,
+  // e.g. 'claude-3-5-sonnet-latest' for anthropic or 'llama3.1' for local)
   models: {
     summary: 'gpt-4o',        // Better for structured output and complex analysis
     chat: 'gpt-4o-mini'        // Faster and cheaper for conversational chat
@@ -72,7 +83,38 @@ export const RAG_CONFIG = {
   
   // Similarity threshold to consider "no relevant docs"
   // If best match is below this, trigger fallback
-  fallbackThreshold: 0.5
+  fallbackThreshold: 0.5,
+  
+  // Default retrieval strategy: 'vector', 'keyword' or 'hybrid'
+  defaultRetrievalMode: 'hybrid' as 'vector' | 'keyword' | 'hybrid',
+  
+  // Reciprocal rank fusion constant (higher = flatter weighting of ranks)
+  rrfK: 60,
+  
+  // Candidates fetched from each list per requested chunk before fusion
+  hybridCandidateMultiplier: 2
+} as const
+
+/**
+ * Embedding Configuration
+ * Query embeddings use the model a repository was indexed with (recorded by
+ * data-aggregate); these endpoints and the default apply to all repositories
+ */
+export const EMBEDDING_CONFIG = {
+  // Model of repositories indexed before models were tracked
+  defaultModel: {
+    provider: 'openai' as EmbeddingProviderName,
+    model: 'text-embedding-3-small',
+    dimensions: 1536
+  },
+  
+  openaiApiUrl: 'https://api.openai.com/v1/embeddings',
+  
+  // OpenAI-compatible local endpoint (Ollama default shown)
+  // EMBEDDING_LOCAL_URL overrides the URL, EMBEDDING_LOCAL_API_KEY is sent if set
+  localApiUrl: 'http://host.docker.internal:11434/v1/embeddings',
+  localApiUrlEnv: 'EMBEDDING_LOCAL_URL',
+  localApiKeyEnv: 'EMBEDDING_LOCAL_API_KEY'
 } as const
 
 /**
@@ -130,13 +172,51 @@ export const MCP_CONFIG = {
   tools: [] as MCPTool[],
   
   // Tool execution settings
-  maxToolCalls: 5,           // Maximum sequential tool calls
+  maxToolCalls: 8,           // Maximum sequential tool calls
   toolTimeout: 30000,        // Timeout per tool call (ms)
   
   // Tool selection strategy
   autoSelectTools: true      // Let LLM choose tools automatically
 } as const
 
+/**
+ * Tool Limits Configuration
+ * Per-turn call budgets and output limits, enforced by generateChatCompletionWithTools
+ */
+export const TOOL_CONFIG = {
+  // Calls per tool per chat turn; calls over budget return an error to the model
+  callBudgets: {
+    tavily_search: 3,
+    query_releases: 3,
+    read_file: 8,
+    list_directory: 5,
+    search_repository: 4
+  } as Record<string, number>,
+  
+  // Budget of tools without an entry above
+  defaultCallBudget: 3,
+  
+  // Calls of all tools per chat turn
+  maxCallsPerTurn: 15,
+  
+  // Tool results are truncated to this many characters
+  maxOutputLength: 12000,
+  
+  // read_file: lines returned without a range, longest range and largest readable file (bytes)
+  readFileDefaultLines: 200,
+  readFileMaxLines: 400,
+  readFileMaxSize: 1_000_000,
+  
+  // list_directory: entries listed per directory
+  listDirectoryMaxEntries: 200,
+  
+  // search_repository: results per call and similarity threshold of indexed chunks
+  searchDefaultResults: 5,
+  searchMaxResults: 10,
+  searchThreshold: 0.3,
+  searchMaxSnippetLength: 800
+} as const
+
 /**
  * MCP Tool definition interface
  * This structure will be used when adding MCP tools
@@ -219,16 +299,143 @@ export const SESSION_CONFIG = {
   // Maximum message history limit
   maxHistoryLimit: 200,
   
+  // Maximum number of repositories attached to one session
+  maxRepositories: 5,
+  
   // Session timeout (days of inactivity)
   sessionTimeoutDays: 30
 } as const
 
 /**
- * OpenAI API Configuration
+ * Repository Ingestion Configuration
+ * Controls how init waits for the asynchronous data-aggregate job
+ */
+export const INGESTION_CONFIG = {
+  // Maximum time init waits for a new repository to be processed (ms)
+  // Sessions for repositories that take longer are returned with status 'processing'
+  initWaitMs: 20000,
+  
+  // Interval between job status polls (ms)
+  pollIntervalMs: 2000
+} as const
+
+/**
+ * Conversation Memory Configuration
+ * Controls how previous turns are replayed into the LLM call
+ */
+export const MEMORY_CONFIG = {
+  // Token budget for replayed conversation turns (estimated via estimateTokens)
+  historyTokenBudget: 3000,
+  
+  // Maximum number of recent messages loaded from the database per turn
+  maxHistoryMessages: 40,
+  
+  // Condense turns that fall outside the budget into a rolling session summary
+  summarizationEnabled: true,
+  
+  // Only summarize once at least this many messages overflow the window
+  minMessagesToSummarize: 2,
+  
+  // Maximum length of the stored conversation summary (characters)
+  maxSummaryLength: 2000
+} as const
+
+/**
+ * Reranking Configuration
+ * Over-fetch candidates, rescore them against the query and pick a diverse set
  */
-export const OPENAI_CONFIG = {
-  apiUrl: 'https://api.openai.com/v1/chat/completions',
+export const RERANK_CONFIG = {
+  // Rerank by default (can be disabled per request via ragConfig.rerank)
+  enabled: true,
   
+  // Number of candidates retrieved before reranking
+  candidateCount: 30,
+  
+  // 'llm' scores candidates with the chat model (falls back to 'lexical' without API key or on error)
+  strategy: 'llm' as 'llm' | 'lexical',
+  
+  // Maximum characters per candidate shown to the LLM scorer
+  llmMaxChunkLength: 600,
+  
+  // Weight of the lexical score vs. retrieval similarity in the lexical scorer
+  lexicalWeight: 0.5,
+  
+  // MMR trade-off: 1.0 = pure relevance, 0.0 = pure diversity
+  mmrLambda: 0.7,
+  
+  // Minimum similarity assumed between two chunks from the same page
+  samePageSimilarity: 0.5
+} as const
+
+/**
+ * Release Timeline Configuration
+ * Limits of the query_releases tool
+ */
+export const RELEASE_TIMELINE_CONFIG = {
+  // Entries returned when the model doesn't ask for a limit
+  defaultLimit: 10,
+  
+  // Maximum entries returned per tool call
+  maxLimit: 30,
+  
+  // Maximum characters of release notes per entry
+  maxNotesLength: 2000,
+  
+  // Maximum release entries loaded per repository
+  maxEntries: 500
+} as const
+
+/**
+ * Query Rewriting Configuration
+ * Condenses follow-up questions into standalone search queries before retrieval
+ */
+export const QUERY_REWRITE_CONFIG = {
+  // Rewrite queries by default (can be disabled per request via ragConfig.rewriteQuery)
+  enabled: true,
+  
+  // Number of recent conversation messages shown to the rewriter
+  historyMessages: 6,
+  
+  // Maximum characters per message shown to the rewriter
+  maxMessageLength: 500,
+  
+  // Maximum number of additional sub-queries to retrieve with
+  maxSubQueries: 2,
+  
+  // Also rewrite the first message of a session (only splits into sub-queries)
+  rewriteWithoutHistory: false
+} as const
+
+/**
+ * LLM Provider Configuration
+ * Endpoints and credentials of the supported chat providers
+ */
+export const LLM_PROVIDER_CONFIG = {
+  openai: {
+    apiUrl: 'https://api.openai.com/v1/chat/completions',
+    apiKeyEnv: 'OPENAI_API_KEY'
+  },
+  
+  anthropic: {
+    apiUrl: 'https://api.anthropic.com/v1/messages',
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    apiVersion: '2023-06-01'
+  },
+  
+  // OpenAI-compatible local endpoint (Ollama default shown)
+  // LOCAL_LLM_URL overrides the URL, LOCAL_LLM_API_KEY is sent if set
+  local: {
+    apiUrl: 'http://host.docker.internal:11434/v1/chat/completions',
+    apiUrlEnv: 'LOCAL_LLM_URL',
+    apiKeyEnv: 'LOCAL_LLM_API_KEY'
+  }
+} as const
+
+/**
+ * LLM API Request Configuration
+ * Applies to all providers
+ */
+export const LLM_REQUEST_CONFIG = {
   // Retry configuration
   maxRetries: 3,
   retryDelay: 1000,  // ms
@@ -242,6 +449,7 @@ export const OPENAI_CONFIG = {
  */
 export function getModelConfig(useCase: 'summary' | 'chat') {
   return {
+    provider: LLM_CONFIG.providers[useCase],
     model: LLM_CONFIG.models[useCase],
     temperature: LLM_CONFIG.temperature[useCase],
     maxTokens: LLM_CONFIG.maxTokens[useCase],
@@ -251,6 +459,16 @@ export function getModelConfig(useCase: 'summary' | 'chat') {
   }
 }
 
+/**
+ * Check whether the configured providers need OPENAI_API_KEY
+ * True when chat, summaries or the default embedding model use OpenAI
+ */
+export function isOpenAIKeyRequired(): boolean {
+  return LLM_CONFIG.providers.chat === 'openai' ||
+    LLM_CONFIG.providers.summary === 'openai' ||
+    EMBEDDING_CONFIG.defaultModel.provider === 'openai'
+}
+
 /**
  * Helper function to validate RAG config
  */
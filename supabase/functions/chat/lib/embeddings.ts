@@ -0,0 +1,94 @@
+/**
+ * Query embedding module
+ * Embeds queries with the provider and model a repository was indexed with
+ * (OpenAI, an OpenAI-compatible local server or the offline hashing embedder)
+ */
+
+import { hashEmbedding } from '../../_shared/hash_embedding.ts'
+import { EMBEDDING_CONFIG } from './config.ts'
+import type { EmbeddingSpec } from './types.ts'
+
+/**
+ * Embed a text with an OpenAI-compatible embeddings endpoint
+ */
+async function requestEmbedding(
+  text: string,
+  spec: EmbeddingSpec,
+  apiUrl: string,
+  apiKey?: string
+): Promise<number[]> {
+  const requestBody: Record<string, unknown> = {
+    input: text,
+    model: spec.model
+  }
+
+  // text-embedding-3 models can shorten their vectors
+  if (spec.provider === 'openai' && spec.model.startsWith('text-embedding-3')) {
+    requestBody.dimensions = spec.dimensions
+  }
+
+  const response = await fetch(apiUrl, {
+    method: 'POST',
+    headers: {
+      ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(requestBody)
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(`${spec.provider} embedding error (${response.status}): ${JSON.stringify(errorData)}`)
+  }
+
+  const data = await response.json()
+
+  if (!data.data || data.data.length === 0) {
+    throw new Error(`No embedding returned from ${spec.provider}`)
+  }
+
+  return data.data[0].embedding
+}
+
+/**
+ * Embed a query with the given model
+ * apiKey is the OpenAI key; the local provider reads its key from the environment
+ */
+export async function embedQuery(
+  text: string,
+  spec: EmbeddingSpec,
+  apiKey: string
+): Promise<number[]> {
+  let embedding: number[]
+
+  switch (spec.provider) {
+    case 'hash':
+      embedding = hashEmbedding(text, spec.dimensions)
+      break
+
+    case 'local':
+      embedding = await requestEmbedding(
+        text,
+        spec,
+        Deno.env.get(EMBEDDING_CONFIG.localApiUrlEnv) || EMBEDDING_CONFIG.localApiUrl,
+        Deno.env.get(EMBEDDING_CONFIG.localApiKeyEnv)
+      )
+      break
+
+    case 'openai':
+      if (!apiKey) {
+        throw new Error('Missing OPENAI_API_KEY environment variable for OpenAI embeddings')
+      }
+      embedding = await requestEmbedding(text, spec, EMBEDDING_CONFIG.openaiApiUrl, apiKey)
+      break
+
+    default:
+      throw new Error(`Unknown embedding provider: ${spec.provider}`)
+  }
+
+  if (embedding.length !== spec.dimensions) {
+    throw new Error(`Model ${spec.model} returned ${embedding.length} dimensions, expected ${spec.dimensions}`)
+  }
+
+  return embedding
+}
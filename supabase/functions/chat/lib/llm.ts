@@ -1,17 +1,25 @@
 /**
- * OpenAI LLM integration module
+ * LLM integration module
  * Supports both conversational chat and structured JSON output
  * Includes MCP tool calling support
+ * Requests are sent to the provider configured per use case (see providers.ts)
  */
 
-import { OPENAI_CONFIG, LLM_CONFIG, MCP_CONFIG } from './config.ts'
-import type { OpenAIChatMessage, OpenAIChatResponse, OpenAITool, OpenAIToolCall } from './types.ts'
-import { searchWeb } from './tavily.ts'
+import { LLM_CONFIG, MCP_CONFIG, TOOL_CONFIG } from './config.ts'
+import { getProvider } from './providers.ts'
+import { getChatTool, getToolCallBudget, limitToolOutput, type ToolContext } from './tools.ts'
+import type {
+  LLMProviderName,
+  OpenAIChatMessage,
+  OpenAITool,
+  OpenAIToolCall
+} from './types.ts'
 
 /**
  * LLM request configuration
  */
 export interface LLMConfig {
+  provider?: LLMProviderName  // Defaults to 'openai'
   model: string
   temperature: number
   maxTokens: number
@@ -20,6 +28,7 @@ export interface LLMConfig {
   presencePenalty?: number
   responseFormat?: 'text' | 'json_object'
   tools?: OpenAITool[]  // MCP tools
+  toolChoice?: 'auto' | 'none'  // Default: 'auto' when MCP_CONFIG.autoSelectTools
 }
 
 /**
@@ -35,119 +44,42 @@ export interface LLMResponse {
   }
   finishReason: string
   toolCalls?: OpenAIToolCall[]
+  toolCallsUsed?: number  // Tool calls executed by generateChatCompletionWithTools
 }
 
 /**
- * Sleep utility for retry logic
+ * Callbacks for streamed chat completions
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms))
+export interface StreamHandlers {
+  onDelta?: (content: string) => void
+  onToolCall?: (toolCall: OpenAIToolCall) => void
+  onToolResult?: (toolCall: OpenAIToolCall, success: boolean) => void
 }
 
 /**
- * Call OpenAI Chat Completion API
+ * Call the configured LLM provider
+ * apiKey is the OpenAI key; other providers read their key from the environment
  */
-export async function callOpenAI(
+export function callLLM(
   messages: OpenAIChatMessage[],
   config: LLMConfig,
   apiKey: string
 ): Promise<LLMResponse> {
-  let lastError: Error | null = null
-
-  // Retry logic
-  for (let attempt = 0; attempt < OPENAI_CONFIG.maxRetries; attempt++) {
-    try {
-      const requestBody: Record<string, unknown> = {
-        model: config.model,
-        messages,
-        max_completion_tokens: config.maxTokens  // Updated from max_tokens to max_completion_tokens
-      }
-
-      // Only add temperature if it's 1.0 (default) - GPT-4o and newer models only support temperature=1
-      if (config.temperature === 1.0) {
-        requestBody.temperature = config.temperature
-      }
-
-      // Omit optional parameters that may not be supported by newer models
-      // topP, frequencyPenalty, presencePenalty are not supported by GPT-4o
-      // If you need these, consider using an older model like GPT-3.5-turbo
-
-
-      // Add response format for JSON mode
-      if (config.responseFormat === 'json_object') {
-        requestBody.response_format = { type: 'json_object' }
-      }
-
-      // Add tools if MCP is enabled and tools are provided
-      if (MCP_CONFIG.enabled && config.tools && config.tools.length > 0) {
-        requestBody.tools = config.tools
-        requestBody.tool_choice = MCP_CONFIG.autoSelectTools ? 'auto' : 'none'
-      }
-
-      console.log(`Calling OpenAI API (attempt ${attempt + 1}/${OPENAI_CONFIG.maxRetries})`)
-
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), OPENAI_CONFIG.timeout)
-
-      const response = await fetch(OPENAI_CONFIG.apiUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(requestBody),
-        signal: controller.signal
-      })
-
-      clearTimeout(timeoutId)
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        
-        // Handle rate limiting
-        if (response.status === 429) {
-          const retryAfter = parseInt(response.headers.get('retry-after') || '5', 10)
-          console.warn(`Rate limited, retrying after ${retryAfter}s...`)
-          await sleep(retryAfter * 1000)
-          continue
-        }
-
-        throw new Error(`OpenAI API error (${response.status}): ${JSON.stringify(errorData)}`)
-      }
-
-      const data: OpenAIChatResponse = await response.json()
-
-      if (!data.choices || data.choices.length === 0) {
-        throw new Error('No choices returned from OpenAI API')
-      }
-
-      const choice = data.choices[0]
-
-      return {
-        content: choice.message.content,
-        model: data.model,
-        usage: {
-          promptTokens: data.usage.prompt_tokens,
-          completionTokens: data.usage.completion_tokens,
-          totalTokens: data.usage.total_tokens
-        },
-        finishReason: choice.finish_reason,
-        toolCalls: choice.message.tool_calls
-      }
-
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error))
-      console.error(`Attempt ${attempt + 1} failed:`, lastError.message)
-
-      if (attempt < OPENAI_CONFIG.maxRetries - 1) {
-        const backoffMs = OPENAI_CONFIG.retryDelay * Math.pow(2, attempt)
-        console.log(`Retrying in ${backoffMs}ms...`)
-        await sleep(backoffMs)
-      }
-    }
-  }
+  return getProvider(config.provider ?? 'openai', apiKey).complete(messages, config)
+}
 
-  throw new Error(`Failed to call OpenAI after ${OPENAI_CONFIG.maxRetries} attempts: ${lastError?.message}`)
+/**
+ * Call the configured LLM provider in streaming mode
+ * Content deltas are forwarded to onDelta as they arrive; tool call fragments
+ * are accumulated and returned once the stream completes
+ */
+export function callLLMStream(
+  messages: OpenAIChatMessage[],
+  config: LLMConfig,
+  apiKey: string,
+  onDelta?: (content: string) => void
+): Promise<LLMResponse> {
+  return getProvider(config.provider ?? 'openai', apiKey).stream(messages, config, onDelta)
 }
 
 /**
@@ -159,6 +91,7 @@ export function generateChatCompletion(
   apiKey: string
 ): Promise<LLMResponse> {
   const config: LLMConfig = {
+    provider: LLM_CONFIG.providers[useCase],
     model: LLM_CONFIG.models[useCase],
     temperature: LLM_CONFIG.temperature[useCase],
     maxTokens: LLM_CONFIG.maxTokens[useCase],
@@ -168,7 +101,7 @@ export function generateChatCompletion(
     responseFormat: 'text'
   }
 
-  return callOpenAI(messages, config, apiKey)
+  return callLLM(messages, config, apiKey)
 }
 
 /**
@@ -179,6 +112,7 @@ export function generateStructuredOutput(
   apiKey: string
 ): Promise<LLMResponse> {
   const config: LLMConfig = {
+    provider: LLM_CONFIG.providers.summary,
     model: LLM_CONFIG.models.summary,
     temperature: LLM_CONFIG.temperature.summary,
     maxTokens: LLM_CONFIG.maxTokens.summary,
@@ -188,7 +122,7 @@ export function generateStructuredOutput(
     responseFormat: 'json_object'
   }
 
-  return callOpenAI(messages, config, apiKey)
+  return callLLM(messages, config, apiKey)
 }
 
 /**
@@ -200,8 +134,8 @@ export function estimateTokens(text: string): number {
 }
 
 /**
- * Estimate cost for OpenAI API call
- * Based on current pricing as of 2024
+ * Estimate cost for an LLM API call
+ * Based on current pricing as of 2024 (local models are free)
  */
 export function estimateCost(
   promptTokens: number,
@@ -214,7 +148,9 @@ export function estimateCost(
     'gpt-4o-mini': { input: 0.150, output: 0.600 },
     'gpt-4-turbo': { input: 10.00, output: 30.00 },
     'gpt-4': { input: 30.00, output: 60.00 },
-    'gpt-3.5-turbo': { input: 0.50, output: 1.50 }
+    'gpt-3.5-turbo': { input: 0.50, output: 1.50 },
+    'claude-3-5-sonnet-latest': { input: 3.00, output: 15.00 },
+    'claude-3-5-haiku-latest': { input: 0.80, output: 4.00 }
   }
 
   const modelPricing = pricing[model] || pricing['gpt-4o-mini']
@@ -227,11 +163,12 @@ export function estimateCost(
 
 /**
  * Execute MCP tool call
+ * Tools are looked up in the registry (tools.ts)
  */
 export async function executeToolCall(
   toolName: string,
   toolParams: Record<string, unknown>,
-  tavilyApiKey?: string
+  context: ToolContext = {}
 ): Promise<string> {
   if (!MCP_CONFIG.enabled) {
     throw new Error('MCP tools are not enabled')
@@ -240,52 +177,68 @@ export async function executeToolCall(
   console.log(`Executing tool: ${toolName}`, toolParams)
   
   try {
-    switch (toolName) {
-      case 'tavily_search': {
-        if (!tavilyApiKey) {
-          throw new Error('Tavily API key not provided')
-        }
-        
-        const query = toolParams.query as string
-        const maxResults = toolParams.max_results as number | undefined
-        
-        const result = await searchWeb(query, tavilyApiKey, { maxResults })
-        
-        // Format results for LLM
-        const formatted = {
-          query: result.searchQuery,
-          summary: result.summary,
-          sources: result.sources.map(s => ({
-            title: s.title,
-            url: s.url,
-            content: s.snippet
-          }))
-        }
-        
-        return JSON.stringify(formatted, null, 2)
-      }
-      
-      default:
-        throw new Error(`Unknown tool: ${toolName}`)
+    const tool = getChatTool(toolName)
+    if (!tool) {
+      throw new Error(`Unknown tool: ${toolName}`)
+    }
+    if (!tool.isAvailable(context)) {
+      throw new Error(`Tool ${toolName} is not available for this conversation`)
     }
+
+    return await tool.execute(toolParams, context)
   } catch (error) {
     console.error(`Tool execution failed: ${toolName}`, error)
     throw error
   }
 }
 
+/**
+ * Check a tool call against the per-turn call budgets
+ * Returns the reason the call is refused, or null when it may run
+ */
+function checkToolCallBudget(toolName: string, callCounts: Map<string, number>, totalCalls: number): string | null {
+  if (totalCalls >= TOOL_CONFIG.maxCallsPerTurn) {
+    return `Tool call budget exhausted (${TOOL_CONFIG.maxCallsPerTurn} calls per turn). Answer with the information gathered so far.`
+  }
+
+  const budget = getToolCallBudget(toolName)
+  if ((callCounts.get(toolName) ?? 0) >= budget) {
+    return `Call budget for ${toolName} exhausted (${budget} calls per turn). Use the results gathered so far or another tool.`
+  }
+
+  return null
+}
+
+/**
+ * Check whether no more tool calls can run this turn: the turn's budget is
+ * spent or every offered tool has used its own budget
+ */
+function isToolBudgetSpent(tools: OpenAITool[], callCounts: Map<string, number>, totalCalls: number): boolean {
+  return totalCalls >= TOOL_CONFIG.maxCallsPerTurn || tools.every(tool => {
+    const name = tool.function.name
+    return (callCounts.get(name) ?? 0) >= getToolCallBudget(name)
+  })
+}
+
 /**
  * Generate chat completion with tool calling support
  * Handles iterative tool calling loop
+ * Streams the completion when handlers are provided; the returned content is
+ * then the text streamed over all rounds, including rounds that end in tool calls
+ * Enforces the per-turn call budgets and output limit of TOOL_CONFIG. Once the
+ * budget is spent, or in the last round, tool calls are disabled so the model
+ * answers with the results gathered so far.
  */
 export async function generateChatCompletionWithTools(
   messages: OpenAIChatMessage[],
   tools: OpenAITool[],
   apiKey: string,
-  tavilyApiKey?: string,
-  useCase: 'summary' | 'chat' = 'chat'
+  toolContext: ToolContext = {},
+  useCase: 'summary' | 'chat' = 'chat',
+  handlers?: StreamHandlers
 ): Promise<LLMResponse> {
   const config: LLMConfig = {
+    provider: LLM_CONFIG.providers[useCase],
     model: LLM_CONFIG.models[useCase],
     temperature: LLM_CONFIG.temperature[useCase],
     maxTokens: LLM_CONFIG.maxTokens[useCase],
@@ -298,16 +251,39 @@ export async function generateChatCompletionWithTools(
 
   const currentMessages = [...messages]
   let iterationCount = 0
+  const callCounts = new Map<string, number>()
+  let totalCalls = 0
   const totalUsage = {
     promptTokens: 0,
     completionTokens: 0,
     totalTokens: 0
   }
 
+  let budgetSpent = false
+
+  // Text already sent to the client, so the stored answer matches what was shown
+  let streamedContent = ''
+
   while (iterationCount < MCP_CONFIG.maxToolCalls) {
     iterationCount++
+
+    // Tools stay defined (tool results in the messages require them) but can't be called
+    const roundConfig: LLMConfig = budgetSpent || iterationCount === MCP_CONFIG.maxToolCalls
+      ? { ...config, toolChoice: 'none' }
+      : config
     
-    const response = await callOpenAI(currentMessages, config, apiKey)
+    // Text of a new round is separated from text streamed before a tool call
+    let roundStarted = false
+    const onDelta = (content: string) => {
+      const delta = !roundStarted && streamedContent ? `\n\n${content}` : content
+      roundStarted = true
+      streamedContent += delta
+      handlers?.onDelta?.(delta)
+    }
+
+    const response = handlers
+      ? await callLLMStream(currentMessages, roundConfig, apiKey, onDelta)
+      : await callLLM(currentMessages, roundConfig, apiKey)
     
     // Accumulate token usage
     totalUsage.promptTokens += response.usage.promptTokens
@@ -318,7 +294,9 @@ export async function generateChatCompletionWithTools(
     if (!response.toolCalls || response.toolCalls.length === 0) {
       return {
         ...response,
-        usage: totalUsage
+        content: handlers ? streamedContent : response.content,
+        usage: totalUsage,
+        toolCallsUsed: totalCalls
       }
     }
 
@@ -334,29 +312,51 @@ export async function generateChatCompletionWithTools(
 
     // Execute each tool call and add results
     for (const toolCall of response.toolCalls) {
+      handlers?.onToolCall?.(toolCall)
+
+      const toolName = toolCall.function.name
+      const refusal = checkToolCallBudget(toolName, callCounts, totalCalls)
+      if (refusal) {
+        console.warn(`Tool call refused: ${refusal}`)
+        currentMessages.push({
+          role: 'tool',
+          tool_call_id: toolCall.id,
+          name: toolName,
+          content: JSON.stringify({ error: refusal })
+        })
+        handlers?.onToolResult?.(toolCall, false)
+        continue
+      }
+      callCounts.set(toolName, (callCounts.get(toolName) ?? 0) + 1)
+      totalCalls++
+
       try {
-        const params = JSON.parse(toolCall.function.arguments)
-        const result = await executeToolCall(toolCall.function.name, params, tavilyApiKey)
+        const params = JSON.parse(toolCall.function.arguments || '{}')
+        const result = await executeToolCall(toolName, params, toolContext)
         
         currentMessages.push({
           role: 'tool',
           tool_call_id: toolCall.id,
-          name: toolCall.function.name,
-          content: result
+          name: toolName,
+          content: limitToolOutput(result)
         })
+        handlers?.onToolResult?.(toolCall, true)
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error'
         currentMessages.push({
           role: 'tool',
           tool_call_id: toolCall.id,
-          name: toolCall.function.name,
+          name: toolName,
           content: JSON.stringify({ error: errorMessage })
         })
+        handlers?.onToolResult?.(toolCall, false)
       }
     }
+
+    budgetSpent = isToolBudgetSpent(tools, callCounts, totalCalls)
   }
 
-  // Max iterations reached
+  // Max iterations reached (the model called tools although tool calls were disabled)
   throw new Error(`Maximum tool call iterations (${MCP_CONFIG.maxToolCalls}) exceeded`)
 }
 
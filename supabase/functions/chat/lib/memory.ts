@@ -0,0 +1,202 @@
+/**
+ * Conversation memory module
+ * Replays previous turns of a session into the LLM call within a token budget
+ * and condenses older turns into a rolling session summary
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { MEMORY_CONFIG } from './config.ts'
+import { estimateTokens, generateChatCompletion } from './llm.ts'
+import {
+  getConversationSummaryPrompt,
+  getConversationSummaryUserMessage,
+  getConversationMemoryMessage
+} from './prompts.ts'
+import {
+  getConversationMemory,
+  getMessagesBetween,
+  getRecentMessages,
+  updateConversationMemory
+} from './storage.ts'
+import type { ChatMessage, ConversationMemory, OpenAIChatMessage } from './types.ts'
+
+/**
+ * Conversation context to replay into the LLM call
+ */
+export interface ConversationContext {
+  messages: OpenAIChatMessage[]  // Summary (if any) followed by recent turns
+  historyMessageCount: number    // Number of turns replayed verbatim
+  usedSummary: boolean
+  summarizedMessageCount: number // Turns folded into the summary during this call
+}
+
+/**
+ * Split history into the most recent turns that fit the token budget
+ * and the older turns that overflow it
+ */
+export function selectHistoryWindow(
+  history: ChatMessage[],
+  tokenBudget: number = MEMORY_CONFIG.historyTokenBudget
+): { window: ChatMessage[]; overflow: ChatMessage[] } {
+  let usedTokens = 0
+  let start = history.length
+
+  // Walk backwards from the newest message until the budget is exhausted
+  for (let i = history.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(history[i].content)
+    if (usedTokens + tokens > tokenBudget) {
+      break
+    }
+    usedTokens += tokens
+    start = i
+  }
+
+  // Don't open the window with an assistant reply whose question was cut off
+  while (start < history.length && history[start].role === 'assistant') {
+    start++
+  }
+
+  return {
+    window: history.slice(start),
+    overflow: history.slice(0, start)
+  }
+}
+
+/**
+ * Merge older turns into the rolling conversation summary using the LLM
+ */
+export async function summarizeTurns(
+  existingSummary: string | null,
+  turns: ChatMessage[],
+  apiKey: string
+): Promise<string> {
+  const response = await generateChatCompletion(
+    [
+      { role: 'system', content: getConversationSummaryPrompt(MEMORY_CONFIG.maxSummaryLength) },
+      { role: 'user', content: getConversationSummaryUserMessage(existingSummary, turns) }
+    ],
+    'chat',
+    apiKey
+  )
+
+  const summary = (response.content || '').trim()
+  if (!summary) {
+    throw new Error('LLM returned an empty conversation summary')
+  }
+
+  return summary.length > MEMORY_CONFIG.maxSummaryLength
+    ? summary.substring(0, MEMORY_CONFIG.maxSummaryLength - 3) + '...'
+    : summary
+}
+
+/**
+ * Fold unsummarized turns older than the loaded history into the summary,
+ * one page at a time, moving the summary marker after each page
+ */
+async function summarizeOlderTurns(
+  client: SupabaseClient,
+  sessionId: string,
+  memory: ConversationMemory,
+  before: string,
+  apiKey: string
+): Promise<{ memory: ConversationMemory; count: number }> {
+  let count = 0
+
+  while (true) {
+    const page = await getMessagesBetween(
+      client,
+      sessionId,
+      memory.summarizedUntil,
+      before,
+      MEMORY_CONFIG.maxHistoryMessages
+    )
+    if (page.length === 0) {
+      break
+    }
+
+    const turns = page.filter(message => message.role !== 'system')
+    memory = {
+      summary: turns.length > 0 ? await summarizeTurns(memory.summary, turns, apiKey) : memory.summary,
+      summarizedUntil: page[page.length - 1].createdAt
+    }
+    await updateConversationMemory(client, sessionId, memory)
+    count += turns.length
+
+    if (page.length < MEMORY_CONFIG.maxHistoryMessages) {
+      break
+    }
+  }
+
+  return { memory, count }
+}
+
+/**
+ * Load previous turns of a session for the next LLM call
+ * Must be called before the new user message is stored
+ */
+export async function loadConversationContext(
+  client: SupabaseClient,
+  sessionId: string,
+  apiKey: string
+): Promise<ConversationContext> {
+  const memory = await getConversationMemory(client, sessionId)
+
+  // Only turns that are not yet part of the summary are loaded
+  const recent = await getRecentMessages(
+    client,
+    sessionId,
+    MEMORY_CONFIG.maxHistoryMessages,
+    memory.summarizedUntil
+  )
+  const history = recent.filter(message => message.role !== 'system')
+
+  const { window, overflow } = selectHistoryWindow(history)
+
+  let summary = memory.summary
+  let summarizedMessageCount = 0
+
+  if (MEMORY_CONFIG.summarizationEnabled && overflow.length >= MEMORY_CONFIG.minMessagesToSummarize) {
+    try {
+      // A full page may hide older unsummarized turns: fold them in first so
+      // moving the marker past them doesn't drop them
+      let current = memory
+      if (recent.length === MEMORY_CONFIG.maxHistoryMessages) {
+        const older = await summarizeOlderTurns(client, sessionId, memory, recent[0].createdAt, apiKey)
+        current = older.memory
+        summary = current.summary
+        summarizedMessageCount = older.count
+      }
+
+      console.log(`Summarizing ${overflow.length} older message(s) into conversation memory`)
+      summary = await summarizeTurns(current.summary, overflow, apiKey)
+      await updateConversationMemory(client, sessionId, {
+        summary,
+        summarizedUntil: overflow[overflow.length - 1].createdAt
+      })
+      summarizedMessageCount += overflow.length
+    } catch (error) {
+      // Memory is best-effort: answer with the recent window and whatever
+      // summary was stored
+      console.error('Failed to update conversation summary:', error)
+    }
+  }
+
+  const messages: OpenAIChatMessage[] = []
+
+  if (summary) {
+    messages.push({ role: 'system', content: getConversationMemoryMessage(summary) })
+  }
+
+  for (const message of window) {
+    messages.push({ role: message.role, content: message.content })
+  }
+
+  console.log(`Replaying ${window.length} message(s) from history${summary ? ' with conversation summary' : ''}`)
+
+  return {
+    messages,
+    historyMessageCount: window.length,
+    usedSummary: !!summary,
+    summarizedMessageCount
+  }
+}
@@ -57,22 +57,77 @@ Be concise but comprehensive. Focus on actionable information.`
  * Generate system prompt for RAG-based chat
  * Includes repository summary and retrieved context
  * Now with Tavily search tool support
+ * repositories lists the labels of all repositories of a cross-repository session
+ * versions lists the refs the question targets; two or more compare them
+ * tools lists the names of the tools offered to the model
  */
 export function getChatSystemPrompt(
   summary: RepositorySummary,
-  ragSources: RAGSource[] | null
+  ragSources: RAGSource[] | null,
+  repositories: string[] = [],
+  versions: string[] = [],
+  tools: string[] = []
 ): string {
+  const repositoriesContext = repositories.length > 1
+    ? `
+
+## Repositories:
+This session covers several repositories. The overview above describes the first one; the documentation below may come from any of them.
+${repositories.map(label => `- ${label}`).join('\n')}
+
+When a question spans repositories, explain how they relate and say which repository each piece of information comes from.`
+    : ''
+
+  let versionsContext = ''
+  if (versions.length === 1) {
+    versionsContext = `
+
+## Version:
+The question is about version ${versions[0]}. Answer for this version and mention the version when citing sources.`
+  } else if (versions.length > 1) {
+    versionsContext = `
+
+## Version Comparison:
+The question compares versions ${versions.join(', ')}. The documentation below was retrieved separately for each version and every source is labeled with its version.
+1. Compare the versions point by point and state which version each statement applies to
+2. Point out what was added, changed or removed between the versions
+3. Cite every source together with its version
+4. If a version has no relevant documentation, say so instead of assuming nothing changed`
+  }
+
+  const repositoryTools = ['search_repository', 'read_file', 'list_directory'].filter(name => tools.includes(name))
+  const repositoryToolsContext = repositoryTools.length > 0
+    ? `
+
+## Repository Tools:
+You can look into the repository at the version being discussed with ${repositoryTools.join(', ')}:
+- Use search_repository to find where something is defined or documented when the documentation below is not enough
+- Use list_directory to find files and read_file to check the actual code, reading only the lines you need
+- Tool calls are limited per answer, so search before reading and stop once you can answer
+- Cite files as GitHub URLs with line numbers (e.g. https://github.com/owner/repo/blob/ref/path#L10-L20)`
+    : ''
+
+  const releaseContext = tools.includes('query_releases')
+    ? `
+
+## Release Timeline:
+The query_releases tool lists the release notes and changelog entries of the repository by version range. Use it for questions such as "when was X added?", "what changed between 2.0 and 3.0?" or "what broke in 3.0?":
+- Pass from_version and/or to_version for a range, and query to find the entries mentioning a feature
+- Use order "oldest" to find the version that first introduced something
+- Cite the version, its release date and the entry URL`
+    : ''
+
   const baseContext = `You are an AI assistant specialized in helping users understand and work with the "${summary.title}" repository.
 
 ## Repository Overview:
-${JSON.stringify(summary, null, 2)}
+${JSON.stringify(summary, null, 2)}${repositoriesContext}${versionsContext}
 
 ## Available Tools:
 You have access to a web search tool (tavily_search) that can help you find:
 - Latest information and updates
 - Tutorials and guides
 - Related articles and documentation
-- Current trends and best practices
+- Current trends and best practices${repositoryToolsContext}${releaseContext}
 
 ## When to Use Web Search:
 1. User explicitly asks for "latest", "recent", "current", or "search" information
@@ -116,8 +171,8 @@ No relevant documentation was found in the repository for this specific query.
   // We have relevant context from RAG
   const contextText = ragSources
     .map((source, index) => `
-### Source ${index + 1} (Similarity: ${(source.similarity * 100).toFixed(1)}%)
-URL: ${source.documentUrl}
+### Source ${index + 1} (Similarity: ${(source.similarity * 100).toFixed(1)}%${source.rerankScore !== undefined ? `, Relevance: ${(source.rerankScore * 100).toFixed(0)}%` : ''})
+${source.repository ? `Repository: ${source.repository}\n` : ''}${source.version ? `Version: ${source.version}\n` : ''}${source.releaseVersion ? `Release: ${source.releaseVersion}${source.releaseDate ? ` (${source.releaseDate})` : ''}\n` : ''}URL: ${source.citationUrl ?? source.documentUrl}${source.breadcrumb ? `\nSection: ${source.breadcrumb}` : ''}
 
 ${source.chunkText}
 `)
@@ -129,11 +184,12 @@ ${contextText}
 
 ## Instructions:
 1. Answer the user's question using the documentation above
-2. Cite sources by mentioning the document URL when referencing specific information
+2. Cite sources by mentioning the document URL (and its repository when several are listed) when referencing specific information
 3. If the documentation doesn't fully answer the question, consider using tavily_search for additional context
 4. Be specific and include code examples or commands when present in the documentation
 5. Keep responses focused and relevant to the question asked
 6. Use web search for latest updates, comparisons, or external information
+7. Sources from GitHub issues, pull requests and discussions describe past reports and their resolutions; say so when you rely on them, as newer releases may behave differently
 `
 }
 
@@ -144,6 +200,128 @@ export function getSummaryUserMessage(): string {
   return 'Please analyze the README and documentation links to generate a comprehensive summary following the specified JSON format.'
 }
 
+/**
+ * Generate system prompt for condensing older conversation turns
+ * The result is stored as the session's rolling conversation summary
+ */
+export function getConversationSummaryPrompt(maxLength: number): string {
+  return `You maintain the running memory of a conversation between a user and an assistant about a GitHub repository.
+
+You will receive the existing summary (if any) followed by older conversation turns that no longer fit into the assistant's context window.
+
+## Instructions:
+1. Merge the new turns into the existing summary
+2. Keep facts the user shared, decisions made, open questions and any code identifiers, commands or configuration keys mentioned
+3. Drop greetings, filler and content that was fully superseded later
+4. Write in third person ("The user asked...", "The assistant explained...")
+5. Keep the summary under ${maxLength} characters
+
+Return ONLY the updated summary text.`
+}
+
+/**
+ * Format a conversation transcript for summarization
+ */
+export function getConversationSummaryUserMessage(
+  existingSummary: string | null,
+  turns: { role: string; content: string }[]
+): string {
+  const transcript = turns
+    .map(turn => `[${turn.role}]: ${turn.content}`)
+    .join('\n\n')
+
+  return `## Existing Summary:
+${existingSummary || 'None'}
+
+## Conversation Turns to Merge:
+${transcript}`
+}
+
+/**
+ * Format the rolling conversation summary as context for the chat model
+ */
+export function getConversationMemoryMessage(summary: string): string {
+  return `## Earlier Conversation (summarized):
+${summary}
+
+Use this summary to resolve references to earlier parts of the conversation.`
+}
+
+/**
+ * Generate system prompt for condensing a follow-up question into search queries
+ */
+export function getQueryRewritePrompt(maxSubQueries: number): string {
+  return `You rewrite questions from a conversation about a GitHub repository into search queries for a documentation search engine.
+
+## Instructions:
+1. Rewrite the latest user question into a single standalone query that can be understood without the conversation
+2. Replace pronouns and vague references ("it", "that", "this option") with the concrete names from the conversation
+3. Keep exact identifiers such as function names, CLI flags, file names and configuration keys unchanged
+4. If the question asks about several distinct things, add up to ${maxSubQueries} focused sub-queries; otherwise return an empty list
+5. Do not answer the question
+
+## Output Format:
+Return ONLY a valid JSON object:
+
+{
+  "standaloneQuery": "Self-contained search query",
+  "subQueries": ["Optional focused query", ...]
+}`
+}
+
+/**
+ * Format the conversation and latest question for query rewriting
+ */
+export function getQueryRewriteUserMessage(
+  question: string,
+  turns: { role: string; content: string }[]
+): string {
+  const transcript = turns.length > 0
+    ? turns.map(turn => `[${turn.role}]: ${turn.content}`).join('\n\n')
+    : 'No previous conversation'
+
+  return `## Conversation:
+${transcript}
+
+## Latest Question:
+${question}`
+}
+
+/**
+ * Generate system prompt for scoring retrieved chunks against a query
+ */
+export function getRerankPrompt(): string {
+  return `You are a relevance judge for a documentation search engine.
+
+Score how useful each numbered passage is for answering the query on a scale from 0 (irrelevant) to 10 (directly answers it).
+Judge only the passage content; ignore its position in the list.
+
+## Output Format:
+Return ONLY a valid JSON object:
+
+{
+  "scores": [{"id": 0, "score": 7}, {"id": 1, "score": 2}, ...]
+}`
+}
+
+/**
+ * Format query and candidate passages for reranking
+ */
+export function getRerankUserMessage(
+  query: string,
+  passages: { id: number; text: string }[]
+): string {
+  const passageText = passages
+    .map(passage => `[${passage.id}]\n${passage.text}`)
+    .join('\n\n')
+
+  return `## Query:
+${query}
+
+## Passages:
+${passageText}`
+}
+
 /**
  * Format RAG sources for display to user
  */
@@ -155,8 +333,10 @@ export function formatSourceCitations(sources: RAGSource[]): string {
   return sources
     .map((source, index) => {
       const similarity = (source.similarity * 100).toFixed(1)
-      return `**Source ${index + 1}** (${similarity}% match)\n` +
-             `📄 ${source.documentUrl}\n` +
+      const repository = source.repository ? ` · ${source.repository}` : ''
+      const version = source.version ? ` · version ${source.version}` : ''
+      return `**Source ${index + 1}** (${similarity}% match${repository}${version})\n` +
+             `📄 ${source.citationUrl ?? source.documentUrl}\n` +
              `> ${source.chunkText.substring(0, 200)}${source.chunkText.length > 200 ? '...' : ''}`
     })
     .join('\n\n')
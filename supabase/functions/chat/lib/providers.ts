@@ -0,0 +1,599 @@
+/**
+ * LLM provider module
+ * Implements chat completions for OpenAI, the Anthropic Messages API and
+ * OpenAI-compatible local servers behind a common interface. Messages and
+ * tools are always expressed in the OpenAI format and translated per provider.
+ */
+
+import { LLM_PROVIDER_CONFIG, LLM_REQUEST_CONFIG, MCP_CONFIG } from './config.ts'
+import type { LLMConfig, LLMResponse } from './llm.ts'
+import type {
+  AnthropicContentBlock,
+  AnthropicMessage,
+  AnthropicResponse,
+  AnthropicStreamEvent,
+  AnthropicTool,
+  LLMProviderName,
+  OpenAIChatMessage,
+  OpenAIChatResponse,
+  OpenAIChatStreamChunk,
+  OpenAIToolCall
+} from './types.ts'
+
+/**
+ * Chat completion provider
+ */
+export interface LLMProvider {
+  name: LLMProviderName
+
+  // Complete a conversation and return the full response
+  complete(messages: OpenAIChatMessage[], config: LLMConfig): Promise<LLMResponse>
+
+  // Complete a conversation, forwarding content deltas as they arrive
+  stream(
+    messages: OpenAIChatMessage[],
+    config: LLMConfig,
+    onDelta?: (content: string) => void
+  ): Promise<LLMResponse>
+}
+
+/**
+ * Sleep utility for retry logic
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Tool choice of a request: the config's, else automatic when enabled
+ */
+function getToolChoice(config: LLMConfig): 'auto' | 'none' {
+  return config.toolChoice ?? (MCP_CONFIG.autoSelectTools ? 'auto' : 'none')
+}
+
+/**
+ * POST a JSON request, retrying on rate limits and transient failures
+ * The timeout applies until the response headers arrive, so streams are not cut off
+ */
+async function postWithRetry(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>
+): Promise<Response> {
+  let lastError: Error | null = null
+
+  for (let attempt = 0; attempt < LLM_REQUEST_CONFIG.maxRetries; attempt++) {
+    try {
+      console.log(`Calling ${label} API (attempt ${attempt + 1}/${LLM_REQUEST_CONFIG.maxRetries})`)
+
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), LLM_REQUEST_CONFIG.timeout)
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      })
+
+      clearTimeout(timeoutId)
+
+      if (response.ok) {
+        return response
+      }
+
+      const errorData = await response.json().catch(() => ({}))
+
+      // Handle rate limiting
+      if (response.status === 429) {
+        const retryAfter = parseInt(response.headers.get('retry-after') || '5', 10)
+        console.warn(`Rate limited, retrying after ${retryAfter}s...`)
+        await sleep(retryAfter * 1000)
+        continue
+      }
+
+      throw new Error(`${label} API error (${response.status}): ${JSON.stringify(errorData)}`)
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error))
+      console.error(`Attempt ${attempt + 1} failed:`, lastError.message)
+
+      if (attempt < LLM_REQUEST_CONFIG.maxRetries - 1) {
+        const backoffMs = LLM_REQUEST_CONFIG.retryDelay * Math.pow(2, attempt)
+        console.log(`Retrying in ${backoffMs}ms...`)
+        await sleep(backoffMs)
+      }
+    }
+  }
+
+  throw new Error(`Failed to call ${label} after ${LLM_REQUEST_CONFIG.maxRetries} attempts: ${lastError?.message}`)
+}
+
+/**
+ * Read the data payloads of a server-sent events stream
+ */
+async function readEventStream(
+  response: Response,
+  onData: (payload: string) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream')
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+
+    buffer += value
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      const trimmed = line.trim()
+      if (!trimmed.startsWith('data:')) continue
+
+      const payload = trimmed.slice(5).trim()
+      if (payload === '[DONE]') continue
+
+      onData(payload)
+    }
+  }
+}
+
+/**
+ * Options for OpenAI-compatible providers
+ */
+interface OpenAICompatibleOptions {
+  name: LLMProviderName
+  label: string
+  apiUrl: string
+  apiKey?: string
+
+  // Local servers expect max_tokens and accept any temperature
+  legacyParameters: boolean
+}
+
+/**
+ * Create a provider for the OpenAI chat completions API or a compatible server
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const headers: Record<string, string> = options.apiKey
+    ? { 'Authorization': `Bearer ${options.apiKey}` }
+    : {}
+
+  function buildRequestBody(
+    messages: OpenAIChatMessage[],
+    config: LLMConfig
+  ): Record<string, unknown> {
+    const requestBody: Record<string, unknown> = {
+      model: config.model,
+      messages
+    }
+
+    if (options.legacyParameters) {
+      requestBody.max_tokens = config.maxTokens
+      requestBody.temperature = config.temperature
+    } else {
+      requestBody.max_completion_tokens = config.maxTokens
+
+      // Only add temperature if it's 1.0 (default) - GPT-4o and newer models only support temperature=1
+      if (config.temperature === 1.0) {
+        requestBody.temperature = config.temperature
+      }
+    }
+
+    // Omit optional parameters that may not be supported by newer models
+    // topP, frequencyPenalty, presencePenalty are not supported by GPT-4o
+
+    // Add response format for JSON mode
+    if (config.responseFormat === 'json_object') {
+      requestBody.response_format = { type: 'json_object' }
+    }
+
+    // Add tools if MCP is enabled and tools are provided
+    if (MCP_CONFIG.enabled && config.tools && config.tools.length > 0) {
+      requestBody.tools = config.tools
+      requestBody.tool_choice = getToolChoice(config)
+    }
+
+    return requestBody
+  }
+
+  return {
+    name: options.name,
+
+    async complete(messages, config) {
+      const response = await postWithRetry(options.label, options.apiUrl, headers, buildRequestBody(messages, config))
+      const data: OpenAIChatResponse = await response.json()
+
+      if (!data.choices || data.choices.length === 0) {
+        throw new Error(`No choices returned from ${options.label} API`)
+      }
+
+      const choice = data.choices[0]
+
+      return {
+        content: choice.message.content,
+        model: data.model || config.model,
+        usage: {
+          // Some compatible servers omit usage
+          promptTokens: data.usage?.prompt_tokens ?? 0,
+          completionTokens: data.usage?.completion_tokens ?? 0,
+          totalTokens: data.usage?.total_tokens ?? 0
+        },
+        finishReason: choice.finish_reason,
+        toolCalls: choice.message.tool_calls?.length ? choice.message.tool_calls : undefined
+      }
+    },
+
+    async stream(messages, config, onDelta) {
+      const response = await postWithRetry(options.label, options.apiUrl, headers, {
+        ...buildRequestBody(messages, config),
+        stream: true,
+        stream_options: { include_usage: true }
+      })
+
+      let content = ''
+      let model = config.model
+      let finishReason = ''
+      const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+      const toolCalls: OpenAIToolCall[] = []
+
+      await readEventStream(response, payload => {
+        const chunk: OpenAIChatStreamChunk = JSON.parse(payload)
+        model = chunk.model || model
+
+        if (chunk.usage) {
+          usage.promptTokens = chunk.usage.prompt_tokens
+          usage.completionTokens = chunk.usage.completion_tokens
+          usage.totalTokens = chunk.usage.total_tokens
+        }
+
+        const choice = chunk.choices?.[0]
+        if (!choice) return
+
+        if (choice.delta.content) {
+          content += choice.delta.content
+          onDelta?.(choice.delta.content)
+        }
+
+        // Tool calls arrive in fragments keyed by index
+        for (const fragment of choice.delta.tool_calls || []) {
+          const index = fragment.index ?? toolCalls.length
+          const existing = toolCalls[index]
+          if (!existing) {
+            toolCalls[index] = {
+              id: fragment.id || `call_${index}`,
+              type: 'function',
+              function: {
+                name: fragment.function?.name || '',
+                arguments: fragment.function?.arguments || ''
+              }
+            }
+          } else {
+            if (fragment.id) existing.id = fragment.id
+            if (fragment.function?.name) existing.function.name += fragment.function.name
+            if (fragment.function?.arguments) existing.function.arguments += fragment.function.arguments
+          }
+        }
+
+        if (choice.finish_reason) {
+          finishReason = choice.finish_reason
+        }
+      })
+
+      return {
+        content: content || null,
+        model,
+        usage,
+        finishReason,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+      }
+    }
+  }
+}
+
+/**
+ * Map Anthropic stop reasons to OpenAI finish reasons
+ */
+function toFinishReason(stopReason: string | null | undefined): string {
+  switch (stopReason) {
+    case 'tool_use':
+      return 'tool_calls'
+    case 'max_tokens':
+      return 'length'
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'stop'
+    default:
+      return stopReason || ''
+  }
+}
+
+/**
+ * Parse tool call arguments for an Anthropic tool_use block
+ */
+function parseToolArguments(args: string): unknown {
+  try {
+    return args ? JSON.parse(args) : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Translate OpenAI-format messages into the Anthropic Messages format
+ * System messages become the system prompt, assistant tool calls become
+ * tool_use blocks and tool results become tool_result blocks of a user turn.
+ * Consecutive turns of the same role are merged, as the API requires
+ * alternating roles.
+ */
+export function toAnthropicMessages(
+  messages: OpenAIChatMessage[]
+): { system: string; messages: AnthropicMessage[] } {
+  const systemParts: string[] = []
+  const translated: AnthropicMessage[] = []
+
+  const append = (role: AnthropicMessage['role'], blocks: AnthropicContentBlock[]) => {
+    if (blocks.length === 0) return
+
+    const last = translated[translated.length - 1]
+    if (last && last.role === role) {
+      last.content = [...(last.content as AnthropicContentBlock[]), ...blocks]
+    } else {
+      translated.push({ role, content: blocks })
+    }
+  }
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+        systemParts.push(message.content)
+        break
+
+      case 'user':
+        append('user', message.content ? [{ type: 'text', text: message.content }] : [])
+        break
+
+      case 'assistant': {
+        const blocks: AnthropicContentBlock[] = message.content
+          ? [{ type: 'text', text: message.content }]
+          : []
+        for (const toolCall of message.tool_calls || []) {
+          blocks.push({
+            type: 'tool_use',
+            id: toolCall.id,
+            name: toolCall.function.name,
+            input: parseToolArguments(toolCall.function.arguments)
+          })
+        }
+        append('assistant', blocks)
+        break
+      }
+
+      case 'tool':
+        append('user', [{
+          type: 'tool_result',
+          tool_use_id: message.tool_call_id || '',
+          content: message.content
+        }])
+        break
+    }
+  }
+
+  return { system: systemParts.join('\n\n'), messages: translated }
+}
+
+/**
+ * Create a provider for the Anthropic Messages API
+ */
+export function createAnthropicProvider(apiKey: string): LLMProvider {
+  const { apiUrl, apiVersion } = LLM_PROVIDER_CONFIG.anthropic
+  const headers = {
+    'x-api-key': apiKey,
+    'anthropic-version': apiVersion
+  }
+
+  function buildRequestBody(
+    messages: OpenAIChatMessage[],
+    config: LLMConfig
+  ): Record<string, unknown> {
+    const translated = toAnthropicMessages(messages)
+    let system = translated.system
+
+    // No JSON mode: instruct the model and prefill the opening brace
+    if (config.responseFormat === 'json_object') {
+      system += '\n\nRespond with a single valid JSON object and nothing else.'
+      translated.messages.push({ role: 'assistant', content: '{' })
+    }
+
+    const requestBody: Record<string, unknown> = {
+      model: config.model,
+      max_tokens: config.maxTokens,
+      temperature: Math.min(config.temperature, 1),
+      messages: translated.messages
+    }
+
+    if (system) {
+      requestBody.system = system
+    }
+
+    if (MCP_CONFIG.enabled && config.tools && config.tools.length > 0) {
+      const tools: AnthropicTool[] = config.tools.map(tool => ({
+        name: tool.function.name,
+        description: tool.function.description,
+        input_schema: tool.function.parameters
+      }))
+      requestBody.tools = tools
+      requestBody.tool_choice = { type: getToolChoice(config) }
+    }
+
+    return requestBody
+  }
+
+  // Restore the prefilled brace of JSON responses
+  const withPrefill = (content: string, config: LLMConfig) =>
+    config.responseFormat === 'json_object' ? '{' + content : content
+
+  return {
+    name: 'anthropic',
+
+    async complete(messages, config) {
+      const response = await postWithRetry('Anthropic', apiUrl, headers, buildRequestBody(messages, config))
+      const data: AnthropicResponse = await response.json()
+
+      let content = ''
+      const toolCalls: OpenAIToolCall[] = []
+
+      for (const block of data.content || []) {
+        if (block.type === 'text') {
+          content += block.text
+        } else if (block.type === 'tool_use') {
+          toolCalls.push({
+            id: block.id,
+            type: 'function',
+            function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) }
+          })
+        }
+      }
+
+      return {
+        content: config.responseFormat === 'json_object' ? withPrefill(content, config) : (content || null),
+        model: data.model,
+        usage: {
+          promptTokens: data.usage.input_tokens,
+          completionTokens: data.usage.output_tokens,
+          totalTokens: data.usage.input_tokens + data.usage.output_tokens
+        },
+        finishReason: toFinishReason(data.stop_reason),
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+      }
+    },
+
+    async stream(messages, config, onDelta) {
+      const response = await postWithRetry('Anthropic', apiUrl, headers, {
+        ...buildRequestBody(messages, config),
+        stream: true
+      })
+
+      let content = ''
+      let model = config.model
+      let finishReason = ''
+      const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+
+      // Tool input JSON arrives in fragments per content block
+      const toolBlocks = new Map<number, OpenAIToolCall>()
+
+      if (config.responseFormat === 'json_object') {
+        content = '{'
+        onDelta?.('{')
+      }
+
+      await readEventStream(response, payload => {
+        const event: AnthropicStreamEvent = JSON.parse(payload)
+
+        switch (event.type) {
+          case 'message_start':
+            if (event.message) {
+              model = event.message.model || model
+              usage.promptTokens = event.message.usage?.input_tokens ?? 0
+            }
+            break
+
+          case 'content_block_start':
+            if (event.content_block?.type === 'tool_use' && event.index !== undefined) {
+              toolBlocks.set(event.index, {
+                id: event.content_block.id,
+                type: 'function',
+                function: { name: event.content_block.name, arguments: '' }
+              })
+            }
+            break
+
+          case 'content_block_delta':
+            if (event.delta?.type === 'text_delta' && event.delta.text) {
+              content += event.delta.text
+              onDelta?.(event.delta.text)
+            } else if (event.delta?.type === 'input_json_delta' && event.index !== undefined) {
+              const toolCall = toolBlocks.get(event.index)
+              if (toolCall) toolCall.function.arguments += event.delta.partial_json || ''
+            }
+            break
+
+          case 'message_delta':
+            if (event.delta?.stop_reason) {
+              finishReason = toFinishReason(event.delta.stop_reason)
+            }
+            if (event.usage) {
+              usage.completionTokens = event.usage.output_tokens
+            }
+            break
+
+          case 'error':
+            throw new Error(`Anthropic stream error: ${event.error?.message || 'Unknown error'}`)
+        }
+      })
+
+      usage.totalTokens = usage.promptTokens + usage.completionTokens
+
+      const toolCalls = [...toolBlocks.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, toolCall]) => ({
+          ...toolCall,
+          function: { ...toolCall.function, arguments: toolCall.function.arguments || '{}' }
+        }))
+
+      return {
+        content: content || null,
+        model,
+        usage,
+        finishReason,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+      }
+    }
+  }
+}
+
+/**
+ * Get the provider for a request
+ * The OpenAI key is passed through from the caller; other providers read
+ * their credentials from the environment.
+ */
+export function getProvider(name: LLMProviderName, openaiApiKey: string): LLMProvider {
+  switch (name) {
+    case 'openai':
+      if (!openaiApiKey) {
+        throw new Error(`Missing ${LLM_PROVIDER_CONFIG.openai.apiKeyEnv} environment variable`)
+      }
+      return createOpenAICompatibleProvider({
+        name,
+        label: 'OpenAI',
+        apiUrl: LLM_PROVIDER_CONFIG.openai.apiUrl,
+        apiKey: openaiApiKey,
+        legacyParameters: false
+      })
+
+    case 'anthropic': {
+      const apiKey = Deno.env.get(LLM_PROVIDER_CONFIG.anthropic.apiKeyEnv)
+      if (!apiKey) {
+        throw new Error(`Missing ${LLM_PROVIDER_CONFIG.anthropic.apiKeyEnv} environment variable`)
+      }
+      return createAnthropicProvider(apiKey)
+    }
+
+    case 'local':
+      return createOpenAICompatibleProvider({
+        name,
+        label: 'local LLM',
+        apiUrl: Deno.env.get(LLM_PROVIDER_CONFIG.local.apiUrlEnv) || LLM_PROVIDER_CONFIG.local.apiUrl,
+        apiKey: Deno.env.get(LLM_PROVIDER_CONFIG.local.apiKeyEnv),
+        legacyParameters: true
+      })
+
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`)
+  }
+}
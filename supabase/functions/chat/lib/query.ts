@@ -0,0 +1,118 @@
+/**
+ * Query rewriting module
+ * Condenses follow-up questions into standalone search queries so that
+ * retrieval does not depend on pronouns or earlier context
+ */
+
+import { QUERY_REWRITE_CONFIG, getModelConfig } from './config.ts'
+import { callLLM } from './llm.ts'
+import { getQueryRewritePrompt, getQueryRewriteUserMessage } from './prompts.ts'
+import type { OpenAIChatMessage } from './types.ts'
+
+/**
+ * Result of query condensation
+ */
+export interface CondensedQuery {
+  standaloneQuery: string
+  subQueries: string[]
+  rewritten: boolean
+}
+
+/**
+ * Collect all queries to retrieve with (standalone query first)
+ */
+export function getSearchQueries(condensed: CondensedQuery): string[] {
+  const queries = [condensed.standaloneQuery, ...condensed.subQueries]
+    .map(query => query.trim())
+    .filter(query => query.length > 0)
+
+  return [...new Set(queries)].slice(0, QUERY_REWRITE_CONFIG.maxSubQueries + 1)
+}
+
+/**
+ * Select the recent turns shown to the rewriter
+ */
+function getRecentTurns(history: OpenAIChatMessage[]): { role: string; content: string }[] {
+  return history
+    .filter(message => message.role === 'user' || message.role === 'assistant' || message.role === 'system')
+    .slice(-QUERY_REWRITE_CONFIG.historyMessages)
+    .map(message => ({
+      // The only system message in the replayed history is the conversation summary
+      role: message.role === 'system' ? 'earlier conversation' : message.role,
+      content: message.content.length > QUERY_REWRITE_CONFIG.maxMessageLength
+        ? message.content.substring(0, QUERY_REWRITE_CONFIG.maxMessageLength) + '...'
+        : message.content
+    }))
+}
+
+/**
+ * Rewrite the latest user message into a standalone search query
+ * Falls back to the original message if rewriting is disabled or fails
+ */
+export async function condenseQuery(
+  message: string,
+  history: OpenAIChatMessage[],
+  apiKey: string,
+  enabled: boolean = QUERY_REWRITE_CONFIG.enabled
+): Promise<CondensedQuery> {
+  const original: CondensedQuery = {
+    standaloneQuery: message,
+    subQueries: [],
+    rewritten: false
+  }
+
+  if (!enabled) {
+    return original
+  }
+
+  const turns = getRecentTurns(history)
+  if (turns.length === 0 && !QUERY_REWRITE_CONFIG.rewriteWithoutHistory) {
+    return original
+  }
+
+  try {
+    const modelConfig = getModelConfig('chat')
+    const response = await callLLM(
+      [
+        { role: 'system', content: getQueryRewritePrompt(QUERY_REWRITE_CONFIG.maxSubQueries) },
+        { role: 'user', content: getQueryRewriteUserMessage(message, turns) }
+      ],
+      {
+        provider: modelConfig.provider,
+        model: modelConfig.model,
+        temperature: modelConfig.temperature,
+        maxTokens: 300,
+        responseFormat: 'json_object'
+      },
+      apiKey
+    )
+
+    const parsed = JSON.parse(response.content || '{}') as {
+      standaloneQuery?: unknown
+      subQueries?: unknown
+    }
+
+    if (typeof parsed.standaloneQuery !== 'string' || parsed.standaloneQuery.trim().length === 0) {
+      console.warn('Query rewriter returned no standalone query, using original message')
+      return original
+    }
+
+    const subQueries = Array.isArray(parsed.subQueries)
+      ? parsed.subQueries
+        .filter((query): query is string => typeof query === 'string')
+        .slice(0, QUERY_REWRITE_CONFIG.maxSubQueries)
+      : []
+
+    console.log(`Rewrote query: "${message.substring(0, 80)}" -> "${parsed.standaloneQuery.substring(0, 80)}" (+${subQueries.length} sub-queries)`)
+
+    return {
+      standaloneQuery: parsed.standaloneQuery.trim(),
+      subQueries,
+      rewritten: true
+    }
+  } catch (error) {
+    // Retrieval with the raw message is better than failing the turn
+    console.error('Query rewriting failed, using original message:', error)
+    return original
+  }
+}
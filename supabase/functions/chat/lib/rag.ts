@@ -4,27 +4,213 @@
  */
 
 import type { SupabaseClient } from '@supabase/supabase-js'
-import { RAG_CONFIG } from './config.ts'
-import type { RAGConfig, RAGSource, MatchDocumentsResult } from './types.ts'
+import { EMBEDDING_CONFIG, RAG_CONFIG, RERANK_CONFIG } from './config.ts'
+import { embedQuery } from './embeddings.ts'
+import { rerankSources } from './rerank.ts'
+import type {
+  EmbeddingSpec,
+  RAGConfig,
+  RAGSource,
+  RepositoryInfo,
+  RetrievalMode,
+  SourceType,
+  MatchDocumentsResult,
+  HybridMatchDocumentsResult
+} from './types.ts'
 
 /**
- * Retrieve relevant document chunks using vector similarity search
+ * Every document source type, used when issues are excluded without a sourceTypes list
  */
-export async function retrieveContext(
+const ALL_SOURCE_TYPES: SourceType[] = ['readme', 'documentation', 'code', 'repo_doc', 'wiki', 'issue', 'release']
+
+/**
+ * Score used to order sources: fusion score when present, similarity otherwise
+ */
+function getSourceScore(source: RAGSource): number {
+  return source.fusionScore ?? source.similarity
+}
+
+/**
+ * Label of a repository in citations ("owner/repo@ref")
+ */
+export function getRepositoryLabel(owner: string, repo: string, ref: string): string {
+  return `${owner}/${repo}@${ref}`
+}
+
+/**
+ * Source types whose documents are assembled from API data: their section
+ * anchors don't exist on the linked page
+ */
+const ASSEMBLED_SOURCE_TYPES = new Set<string>(['issue', 'release'])
+
+/**
+ * Convert a search result to a RAG source
+ * Links to the chunk's section or line range when an anchor was stored
+ */
+function toRAGSource(result: MatchDocumentsResult): RAGSource {
+  const anchor = ASSEMBLED_SOURCE_TYPES.has(result.chunk_metadata?.sourceType ?? '')
+    ? undefined
+    : result.chunk_metadata?.anchor
+  const breadcrumb = result.chunk_metadata?.breadcrumb
+  const releaseVersion = result.chunk_metadata?.version
+  const releaseDate = result.chunk_metadata?.releaseDate
+
+  return {
+    chunkId: result.chunk_id,
+    chunkText: result.chunk_text,
+    documentUrl: result.document_url,
+    ...(anchor && { citationUrl: `${result.document_url.split('#')[0]}#${anchor}` }),
+    ...(breadcrumb && { breadcrumb }),
+    repository: getRepositoryLabel(result.repository_owner, result.repository_name, result.repository_ref),
+    similarity: result.similarity,
+    ...(releaseVersion && { releaseVersion }),
+    ...(releaseDate && { releaseDate })
+  }
+}
+
+/**
+ * Merge vector and keyword ranks with reciprocal rank fusion
+ * score = sum over lists of 1 / (k + rank); lists excluded by the mode are ignored
+ */
+export function fuseRankedResults(
+  results: HybridMatchDocumentsResult[],
+  mode: RetrievalMode,
+  k: number = RAG_CONFIG.rrfK
+): RAGSource[] {
+  const fused: RAGSource[] = []
+
+  for (const result of results) {
+    let score = 0
+    if (mode !== 'keyword' && result.vector_rank !== null) {
+      score += 1 / (k + result.vector_rank)
+    }
+    const keywordRank = mode !== 'vector' ? result.keyword_rank : null
+    if (keywordRank !== null) {
+      score += 1 / (k + keywordRank)
+    }
+
+    if (score > 0) {
+      fused.push({
+        ...toRAGSource(result),
+        fusionScore: score,
+        ...(keywordRank !== null && { keywordRank })
+      })
+    }
+  }
+
+  return fused.sort((a, b) => getSourceScore(b) - getSourceScore(a))
+}
+
+/**
+ * Retrieve candidates from the hybrid RPC and fuse them
+ */
+async function retrieveHybridContext(
   client: SupabaseClient,
   queryEmbedding: number[],
+  queryText: string,
   repositoryOwner: string,
   repositoryName: string,
   repositoryRef: string,
-  config?: RAGConfig
+  matchThreshold: number,
+  matchCount: number,
+  mode: RetrievalMode,
+  sourceTypes: SourceType[] | null,
+  embeddingModel?: string
 ): Promise<RAGSource[]> {
-  const matchThreshold = config?.matchThreshold ?? RAG_CONFIG.defaultThreshold
-  const matchCount = Math.min(
+  const { data, error } = await client.rpc('hybrid_match_documents', {
+    query_embedding: queryEmbedding,
+    query_text: queryText,
+    repo_owner: repositoryOwner,
+    repo_name: repositoryName,
+    repo_ref: repositoryRef,
+    match_threshold: matchThreshold,
+    match_count: matchCount * RAG_CONFIG.hybridCandidateMultiplier,
+    source_types: sourceTypes,
+    model_filter: embeddingModel ?? null
+  })
+
+  if (error) {
+    console.error('Error calling hybrid_match_documents:', error)
+    throw new Error(`RAG search failed: ${error.message}`)
+  }
+
+  const sources = fuseRankedResults(data || [], mode).slice(0, matchCount)
+  console.log(`Found ${sources.length} relevant documents (${mode})`)
+
+  return sources
+}
+
+/**
+ * Get the document source types to search (null: all)
+ * includeIssues adds or removes the 'issue' source type from sourceTypes
+ */
+export function getSourceTypes(config?: RAGConfig): SourceType[] | null {
+  const sourceTypes = config?.sourceTypes ?? null
+
+  if (config?.includeIssues === false) {
+    return (sourceTypes ?? ALL_SOURCE_TYPES).filter(type => type !== 'issue')
+  }
+  if (config?.includeIssues === true && sourceTypes && !sourceTypes.includes('issue')) {
+    return [...sourceTypes, 'issue']
+  }
+
+  return sourceTypes
+}
+
+/**
+ * Get the number of chunks passed to the LLM for a request
+ */
+export function getMatchCount(config?: RAGConfig): number {
+  return Math.min(
     config?.matchCount ?? RAG_CONFIG.defaultMatchCount,
     RAG_CONFIG.maxMatchCount
   )
+}
 
-  console.log(`Searching for relevant context: threshold=${matchThreshold}, count=${matchCount}`)
+/**
+ * Retrieve relevant document chunks
+ * Uses vector similarity search, full-text search or both depending on the retrieval mode
+ * candidateCount overrides the match count when over-fetching for reranking
+ * embeddingModel restricts vector search to embeddings of the query's model
+ */
+export async function retrieveContext(
+  client: SupabaseClient,
+  queryEmbedding: number[],
+  repositoryOwner: string,
+  repositoryName: string,
+  repositoryRef: string,
+  config?: RAGConfig,
+  queryText?: string,
+  candidateCount?: number,
+  embeddingModel?: string
+): Promise<RAGSource[]> {
+  const matchThreshold = config?.matchThreshold ?? RAG_CONFIG.defaultThreshold
+  const matchCount = candidateCount ?? getMatchCount(config)
+  const sourceTypes = getSourceTypes(config)
+  let retrievalMode = config?.retrievalMode ?? RAG_CONFIG.defaultRetrievalMode
+
+  if (retrievalMode !== 'vector' && !queryText) {
+    console.warn(`No query text for ${retrievalMode} retrieval, falling back to vector search`)
+    retrievalMode = 'vector'
+  }
+
+  console.log(`Searching for relevant context: mode=${retrievalMode}, threshold=${matchThreshold}, count=${matchCount}`)
+
+  if (retrievalMode !== 'vector') {
+    return retrieveHybridContext(
+      client,
+      queryEmbedding,
+      queryText!,
+      repositoryOwner,
+      repositoryName,
+      repositoryRef,
+      matchThreshold,
+      matchCount,
+      retrievalMode,
+      sourceTypes,
+      embeddingModel
+    )
+  }
 
   try {
     const { data, error } = await client.rpc('match_documents', {
@@ -33,7 +219,9 @@ export async function retrieveContext(
       repo_name: repositoryName,
       repo_ref: repositoryRef,
       match_threshold: matchThreshold,
-      match_count: matchCount
+      match_count: matchCount,
+      source_types: sourceTypes,
+      model_filter: embeddingModel ?? null
     })
 
     if (error) {
@@ -49,12 +237,7 @@ export async function retrieveContext(
     console.log(`Found ${data.length} relevant documents`)
 
     // Convert database results to RAGSource format
-    const sources: RAGSource[] = data.map((result: MatchDocumentsResult) => ({
-      chunkId: result.chunk_id,
-      chunkText: result.chunk_text,
-      documentUrl: result.document_url,
-      similarity: result.similarity
-    }))
+    const sources: RAGSource[] = data.map(toRAGSource)
 
     // Sort by similarity (highest first)
     sources.sort((a, b) => b.similarity - a.similarity)
@@ -67,39 +250,16 @@ export async function retrieveContext(
 }
 
 /**
- * Generate embedding for a query using OpenAI
+ * Generate embedding for a query
+ * Uses the model the repository was indexed with (OpenAI text-embedding-3-small by default)
  */
 export async function generateQueryEmbedding(
   query: string,
-  apiKey: string
+  apiKey: string,
+  embedding: EmbeddingSpec = EMBEDDING_CONFIG.defaultModel
 ): Promise<number[]> {
-  const url = 'https://api.openai.com/v1/embeddings'
-  
   try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        input: query,
-        model: 'text-embedding-3-small'
-      })
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      throw new Error(`OpenAI embedding error (${response.status}): ${JSON.stringify(errorData)}`)
-    }
-
-    const data = await response.json()
-    
-    if (!data.data || data.data.length === 0) {
-      throw new Error('No embedding returned from OpenAI')
-    }
-
-    return data.data[0].embedding
+    return await embedQuery(query, embedding, apiKey)
   } catch (error) {
     console.error('Error generating query embedding:', error)
     throw error
@@ -152,8 +312,13 @@ export function prepareContext(
 /**
  * Check if RAG context is sufficient
  * Returns true if we have enough high-quality matches
+ * Outside vector mode a full-text match is sufficient on its own: exact
+ * identifier matches can have a low vector similarity
  */
-export function isContextSufficient(sources: RAGSource[]): boolean {
+export function isContextSufficient(
+  sources: RAGSource[],
+  mode: RetrievalMode = RAG_CONFIG.defaultRetrievalMode
+): boolean {
   if (sources.length === 0) {
     return false
   }
@@ -163,6 +328,10 @@ export function isContextSufficient(sources: RAGSource[]): boolean {
     return false
   }
 
+  if (mode !== 'vector' && sources.some(s => s.keywordRank !== undefined)) {
+    return true
+  }
+
   // Check if the best match is above the fallback threshold
   const bestSimilarity = Math.max(...sources.map(s => s.similarity))
   if (bestSimilarity < RAG_CONFIG.fallbackThreshold) {
@@ -173,48 +342,120 @@ export function isContextSufficient(sources: RAGSource[]): boolean {
   return true
 }
 
+/**
+ * Merge sources retrieved for several queries
+ * Keeps the best score per chunk and sorts by score
+ */
+export function mergeSources(sourceLists: RAGSource[][]): RAGSource[] {
+  const byChunk = new Map<string, RAGSource>()
+
+  for (const sources of sourceLists) {
+    for (const source of sources) {
+      const existing = byChunk.get(source.chunkId)
+      if (!existing || getSourceScore(source) > getSourceScore(existing)) {
+        byChunk.set(source.chunkId, source)
+      }
+    }
+  }
+
+  return [...byChunk.values()].sort((a, b) => getSourceScore(b) - getSourceScore(a))
+}
+
+/**
+ * Group repositories by embedding model
+ * Each group needs its own query embedding
+ */
+function groupByEmbeddingModel(
+  repositories: RepositoryInfo[]
+): { embedding: EmbeddingSpec; repositories: RepositoryInfo[] }[] {
+  const groups = new Map<string, { embedding: EmbeddingSpec; repositories: RepositoryInfo[] }>()
+
+  for (const repository of repositories) {
+    const embedding = repository.embedding ?? EMBEDDING_CONFIG.defaultModel
+    const key = `${embedding.provider}:${embedding.model}:${embedding.dimensions}`
+    const group = groups.get(key)
+    if (group) {
+      group.repositories.push(repository)
+    } else {
+      groups.set(key, { embedding, repositories: [repository] })
+    }
+  }
+
+  return [...groups.values()]
+}
+
 /**
  * Perform complete RAG workflow for a query
  * Returns sources and whether to use fallback
+ * When searchQueries are given (e.g. rewritten queries), they are used for
+ * retrieval instead of the raw query and their results are merged
+ * Every repository of the session is searched; queries are embedded once per
+ * embedding model and the best matches across repositories are kept
  */
 export async function performRAG(
   client: SupabaseClient,
   query: string,
-  repositoryOwner: string,
-  repositoryName: string,
-  repositoryRef: string,
+  repositories: RepositoryInfo[],
   apiKey: string,
-  config?: RAGConfig
+  config?: RAGConfig,
+  searchQueries?: string[],
+  maxContextLength: number = RAG_CONFIG.maxContextLength
 ): Promise<{
   sources: RAGSource[]
   useFallback: boolean
   embedding: number[]
+  queries: string[]
 }> {
-  console.log('Starting RAG workflow for query:', query.substring(0, 100))
+  const queries = searchQueries && searchQueries.length > 0 ? searchQueries : [query]
+  console.log('Starting RAG workflow for query:', queries[0].substring(0, 100))
+
+  const shouldRerank = config?.rerank ?? RERANK_CONFIG.enabled
+  const matchCount = getMatchCount(config)
+  const candidateCount = shouldRerank ? Math.max(RERANK_CONFIG.candidateCount, matchCount) : matchCount
+  const groups = groupByEmbeddingModel(repositories)
+
+  // Step 1 & 2: Embed each query and retrieve relevant context from every repository
+  const retrievals = await Promise.all(queries.map(async (searchQuery) => {
+    const groupResults = await Promise.all(groups.map(async (group) => {
+      const queryEmbedding = await generateQueryEmbedding(searchQuery, apiKey, group.embedding)
+      const sources = await Promise.all(group.repositories.map(repository => retrieveContext(
+        client,
+        queryEmbedding,
+        repository.owner,
+        repository.repo,
+        repository.ref,
+        config,
+        searchQuery,
+        candidateCount,
+        group.embedding.model
+      )))
+      return { embedding: queryEmbedding, sources: sources.flat() }
+    }))
 
-  // Step 1: Generate query embedding
-  const embedding = await generateQueryEmbedding(query, apiKey)
-  console.log(`Generated embedding: ${embedding.length} dimensions`)
+    // Keep the best matches across repositories
+    const sources = mergeSources(groupResults.map(r => r.sources)).slice(0, candidateCount)
+    return { embedding: groupResults[0].embedding, sources }
+  }))
 
-  // Step 2: Retrieve relevant context
-  const allSources = await retrieveContext(
-    client,
-    embedding,
-    repositoryOwner,
-    repositoryName,
-    repositoryRef,
-    config
-  )
+  const embedding = retrievals[0].embedding
+  console.log(`Searched ${repositories.length} repositories with ${retrievals.length} query(s) and ${groups.length} embedding model(s)`)
+
+  const candidates = mergeSources(retrievals.map(r => r.sources))
+
+  // Step 2b: Rerank over-fetched candidates and pick a diverse subset
+  const allSources = shouldRerank
+    ? await rerankSources(queries[0], candidates, matchCount, apiKey)
+    : candidates
 
   // Step 3: Prepare context (truncate if needed)
-  const { sources, truncated } = prepareContext(allSources)
+  const { sources, truncated } = prepareContext(allSources, maxContextLength)
 
   if (truncated) {
-    console.log(`Context was truncated to fit within ${RAG_CONFIG.maxContextLength} characters`)
+    console.log(`Context was truncated to fit within ${maxContextLength} characters`)
   }
 
   // Step 4: Determine if we should use fallback
-  const useFallback = !isContextSufficient(sources)
+  const useFallback = !isContextSufficient(sources, config?.retrievalMode)
 
   if (useFallback) {
     console.log('Insufficient context - will use fallback mode')
@@ -225,7 +466,58 @@ export async function performRAG(
   return {
     sources,
     useFallback,
-    embedding
+    embedding,
+    queries
+  }
+}
+
+/**
+ * Perform RAG separately for each targeted version
+ * Every version gets its own retrieval, reranking and share of the context so
+ * a comparison sees sources from all versions. Sources of a targeted version
+ * are labeled with it and returned grouped by version. Repositories without a
+ * targeted version are searched too when a single version is targeted.
+ */
+export async function performVersionedRAG(
+  client: SupabaseClient,
+  query: string,
+  repositories: RepositoryInfo[],
+  versions: string[],
+  apiKey: string,
+  config?: RAGConfig,
+  searchQueries?: string[]
+): Promise<Awaited<ReturnType<typeof performRAG>>> {
+  const otherRepositories = versions.length === 1
+    ? repositories.filter(repository => !versions.includes(repository.ref))
+    : []
+
+  const results = await Promise.all(versions.map(async (version) => {
+    const versionRepositories = repositories.filter(repository => repository.ref === version)
+    const labels = new Set(versionRepositories.map(r => getRepositoryLabel(r.owner, r.repo, r.ref)))
+
+    const result = await performRAG(
+      client,
+      query,
+      [...versionRepositories, ...otherRepositories],
+      apiKey,
+      config,
+      searchQueries,
+      Math.floor(RAG_CONFIG.maxContextLength / versions.length)
+    )
+
+    return {
+      ...result,
+      sources: result.sources.map(source =>
+        source.repository && labels.has(source.repository) ? { ...source, version } : source
+      )
+    }
+  }))
+
+  return {
+    sources: results.flatMap(result => result.sources),
+    useFallback: results.every(result => result.useFallback),
+    embedding: results[0].embedding,
+    queries: results[0].queries
   }
 }
 
@@ -0,0 +1,132 @@
+/**
+ * Release timeline module
+ * data-aggregate indexes GitHub releases and CHANGELOG entries as one document
+ * per version (source type 'release') with the version and release date.
+ * Backs the query_releases tool, which lists entries by version range.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { RELEASE_TIMELINE_CONFIG } from './config.ts'
+import type { ReleaseEntry, ReleaseQuery, RepositoryInfo } from './types.ts'
+import { compareVersions, normalizeVersion } from './versions.ts'
+
+/**
+ * Check whether a version is in an inclusive range
+ * A partial upper bound ("3.0") includes its patch versions ("3.0.4")
+ */
+export function isVersionInRange(version: string, from?: string, to?: string): boolean {
+  if (from && compareVersions(version, from) < 0) {
+    return false
+  }
+  if (to && compareVersions(version, to) > 0 && !normalizeVersion(version).startsWith(`${normalizeVersion(to)}.`)) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Check whether a release entry mentions every word of a query
+ */
+function matchesQuery(entry: ReleaseEntry, query: string): boolean {
+  const text = `${entry.title}\n${entry.notes}`.toLowerCase()
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => text.includes(word))
+}
+
+/**
+ * Load the release entries of repositories
+ * Repositories indexed at several refs share one timeline (releases are not
+ * versioned), so each version is kept once per owner/repo
+ */
+async function getReleaseEntries(
+  client: SupabaseClient,
+  repositories: RepositoryInfo[]
+): Promise<ReleaseEntry[]> {
+  const { data, error } = await client
+    .from('documents')
+    .select('repository_id, url, anchor_text, content, version, released_at')
+    .eq('source_type', 'release')
+    .in('repository_id', repositories.map(r => r.id))
+    .order('released_at', { ascending: false, nullsFirst: false })
+    .limit(RELEASE_TIMELINE_CONFIG.maxEntries * repositories.length)
+
+  if (error) {
+    console.error('Error getting release entries:', error)
+    throw new Error(`Failed to get release entries: ${error.message}`)
+  }
+
+  const entries: ReleaseEntry[] = []
+  const seen = new Set<string>()
+
+  for (const row of data || []) {
+    const repository = repositories.find(r => r.id === row.repository_id)
+    if (!repository || !row.version) continue
+
+    const label = `${repository.owner}/${repository.repo}`
+    const key = `${label.toLowerCase()}@${normalizeVersion(row.version)}`
+    if (seen.has(key)) continue
+    seen.add(key)
+
+    // The title and the version line are returned as fields
+    const notes = (row.content as string).split('\n\n').slice(2).join('\n\n')
+    entries.push({
+      repository: label,
+      version: row.version,
+      ...(row.released_at && { date: (row.released_at as string).substring(0, 10) }),
+      title: row.anchor_text ?? `Release ${row.version}`,
+      url: row.url,
+      notes: notes.length > RELEASE_TIMELINE_CONFIG.maxNotesLength
+        ? notes.substring(0, RELEASE_TIMELINE_CONFIG.maxNotesLength) + '...'
+        : notes
+    })
+  }
+
+  return entries
+}
+
+/**
+ * Check whether any of the repositories has indexed release entries
+ */
+export async function hasReleaseTimeline(
+  client: SupabaseClient,
+  repositories: RepositoryInfo[]
+): Promise<boolean> {
+  const { data, error } = await client
+    .from('documents')
+    .select('id')
+    .eq('source_type', 'release')
+    .in('repository_id', repositories.map(r => r.id))
+    .limit(1)
+
+  if (error) {
+    console.error('Error checking release entries:', error)
+    return false
+  }
+
+  return (data || []).length > 0
+}
+
+/**
+ * Query the release timeline of repositories
+ * Entries are filtered by version range and query words, sorted by version
+ * (newest first by default) and limited
+ */
+export async function queryReleases(
+  client: SupabaseClient,
+  repositories: RepositoryInfo[],
+  query: ReleaseQuery
+): Promise<{ total: number; releases: ReleaseEntry[] }> {
+  const limit = Math.max(1, Math.min(query.limit ?? RELEASE_TIMELINE_CONFIG.defaultLimit, RELEASE_TIMELINE_CONFIG.maxLimit))
+  const direction = query.order === 'oldest' ? 1 : -1
+
+  const matching = (await getReleaseEntries(client, repositories))
+    .filter(entry => isVersionInRange(entry.version, query.fromVersion, query.toVersion))
+    .filter(entry => !query.query || matchesQuery(entry, query.query))
+    .sort((a, b) => direction * compareVersions(a.version, b.version))
+
+  console.log(`Release timeline: ${matching.length} matching entries`)
+
+  return {
+    total: matching.length,
+    releases: matching.slice(0, limit)
+  }
+}
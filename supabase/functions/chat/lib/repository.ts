@@ -0,0 +1,220 @@
+/**
+ * Repository access module
+ * Reads files and directories of the session's repositories at their indexed
+ * ref, and searches their indexed chunks. Backs the read_file, list_directory
+ * and search_repository tools.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { GitHubClient } from '../../_shared/github.ts'
+import { EMBEDDING_CONFIG, TOOL_CONFIG } from './config.ts'
+import { generateQueryEmbedding, mergeSources, retrieveContext } from './rag.ts'
+import type { RepositoryInfo } from './types.ts'
+
+/**
+ * Normalize a path inside the repository ("./src//index.ts" -> "src/index.ts")
+ * Returns null for paths that leave the repository root
+ */
+export function normalizeRepositoryPath(path: string): string | null {
+  const segments = path.trim().replace(/\\/g, '/').split('/').filter(segment => segment && segment !== '.')
+  if (segments.some(segment => segment === '..')) {
+    return null
+  }
+  return segments.join('/')
+}
+
+/**
+ * Parse a line range ("40-80", "40" or "40-") into 1-based inclusive bounds
+ */
+export function parseLineRange(lines?: string): { start: number; end?: number } | null {
+  if (!lines || !lines.trim()) {
+    return { start: 1 }
+  }
+
+  const match = lines.trim().match(/^L?(\d+)\s*(?:-\s*L?(\d*))?$/i)
+  if (!match) {
+    return null
+  }
+
+  const start = Math.max(1, parseInt(match[1]))
+  const end = match[2] ? parseInt(match[2]) : match[0].includes('-') ? undefined : start
+  if (end !== undefined && end < start) {
+    return null
+  }
+
+  return { start, end }
+}
+
+/**
+ * Find the repository a tool call targets
+ * Without a label the first repository is used; a label ("owner/repo") picks
+ * one of the session's repositories
+ */
+export function resolveToolRepository(repositories: RepositoryInfo[], label?: string): RepositoryInfo {
+  if (!label) {
+    return repositories[0]
+  }
+
+  const wanted = label.replace(/@.*$/, '').toLowerCase()
+  const repository = repositories.find(r => `${r.owner}/${r.repo}`.toLowerCase() === wanted)
+  if (!repository) {
+    const available = [...new Set(repositories.map(r => `${r.owner}/${r.repo}`))]
+    throw new Error(`Repository ${label} is not part of this session. Available: ${available.join(', ')}`)
+  }
+
+  return repository
+}
+
+/**
+ * Encode a repository path for a URL
+ */
+function encodePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/')
+}
+
+/**
+ * Read a file of a repository at its ref, with line numbers
+ * Returns at most TOOL_CONFIG.readFileMaxLines lines
+ */
+export async function readRepositoryFile(
+  github: GitHubClient,
+  repository: RepositoryInfo,
+  path: string,
+  lines?: string
+): Promise<string> {
+  const filePath = normalizeRepositoryPath(path)
+  if (!filePath) {
+    throw new Error(`Invalid path: ${path}`)
+  }
+
+  const range = parseLineRange(lines)
+  if (!range) {
+    throw new Error(`Invalid line range "${lines}", expected "start-end" (e.g. "40-80")`)
+  }
+
+  const rawUrl = `https://raw.githubusercontent.com/${repository.owner}/${repository.repo}/${encodeURIComponent(repository.ref)}/${encodePath(filePath)}`
+  const response = await github.request(rawUrl, { accept: '*/*' })
+
+  if (!response.ok) {
+    await response.body?.cancel()
+    throw new Error(response.status === 404
+      ? `File not found: ${filePath} (use list_directory to find files)`
+      : `Failed to read ${filePath}: ${response.status}`)
+  }
+
+  const size = parseInt(response.headers.get('content-length') || '0')
+  if (size > TOOL_CONFIG.readFileMaxSize) {
+    await response.body?.cancel()
+    throw new Error(`${filePath} is too large to read (${size} bytes)`)
+  }
+
+  const content = await response.text()
+  if (content.includes('\u0000')) {
+    throw new Error(`${filePath} is a binary file`)
+  }
+
+  const fileLines = content.split('\n')
+  if (fileLines[fileLines.length - 1] === '') {
+    fileLines.pop()
+  }
+
+  const start = Math.min(range.start, Math.max(1, fileLines.length))
+  const requestedEnd = range.end ?? (lines ? fileLines.length : start + TOOL_CONFIG.readFileDefaultLines - 1)
+  const end = Math.min(requestedEnd, start + TOOL_CONFIG.readFileMaxLines - 1, fileLines.length)
+
+  const width = String(end).length
+  const numbered = fileLines
+    .slice(start - 1, end)
+    .map((line, index) => `${String(start + index).padStart(width)} | ${line}`)
+    .join('\n')
+
+  const more = end < fileLines.length ? ` (request lines "${end + 1}-" to continue)` : ''
+  return `${repository.owner}/${repository.repo}@${repository.ref}:${filePath} lines ${start}-${end} of ${fileLines.length}${more}\n\n${numbered}`
+}
+
+/**
+ * List a directory of a repository at its ref
+ * Directories come first; at most TOOL_CONFIG.listDirectoryMaxEntries entries are listed
+ */
+export async function listRepositoryDirectory(
+  github: GitHubClient,
+  repository: RepositoryInfo,
+  path: string = ''
+): Promise<string> {
+  const directory = normalizeRepositoryPath(path)
+  if (directory === null) {
+    throw new Error(`Invalid path: ${path}`)
+  }
+
+  const response = await github.request(
+    `/repos/${repository.owner}/${repository.repo}/contents/${encodePath(directory)}?ref=${encodeURIComponent(repository.ref)}`
+  )
+
+  if (!response.ok) {
+    await response.body?.cancel()
+    throw new Error(response.status === 404
+      ? `Directory not found: ${directory || '/'}`
+      : `Failed to list ${directory || '/'}: ${response.status}`)
+  }
+
+  const data = await response.json()
+  if (!Array.isArray(data)) {
+    throw new Error(`${directory} is a file, use read_file to read it`)
+  }
+
+  const entries = (data as { name: string; type: string; size: number }[])
+    .sort((a, b) => Number(b.type === 'dir') - Number(a.type === 'dir') || a.name.localeCompare(b.name))
+
+  const listed = entries
+    .slice(0, TOOL_CONFIG.listDirectoryMaxEntries)
+    .map(entry => entry.type === 'dir' ? `${entry.name}/` : `${entry.name} (${entry.size} bytes)`)
+  if (entries.length > listed.length) {
+    listed.push(`... ${entries.length - listed.length} more entries`)
+  }
+
+  return `${repository.owner}/${repository.repo}@${repository.ref}:/${directory}\n\n${listed.join('\n')}`
+}
+
+/**
+ * Search the indexed chunks of repositories
+ * Uses hybrid retrieval with a low threshold; results of several repositories are merged
+ */
+export async function searchRepository(
+  client: SupabaseClient,
+  repositories: RepositoryInfo[],
+  query: string,
+  apiKey: string,
+  limit: number = TOOL_CONFIG.searchDefaultResults
+): Promise<string> {
+  const count = Math.max(1, Math.min(limit, TOOL_CONFIG.searchMaxResults))
+
+  const results = await Promise.all(repositories.map(async repository => {
+    const embedding = repository.embedding ?? EMBEDDING_CONFIG.defaultModel
+    const queryEmbedding = await generateQueryEmbedding(query, apiKey, embedding)
+    return retrieveContext(
+      client,
+      queryEmbedding,
+      repository.owner,
+      repository.repo,
+      repository.ref,
+      { matchThreshold: TOOL_CONFIG.searchThreshold, matchCount: count, retrievalMode: 'hybrid' },
+      query,
+      count,
+      embedding.model
+    )
+  }))
+
+  const sources = mergeSources(results).slice(0, count)
+
+  return JSON.stringify({
+    query,
+    results: sources.map(source => ({
+      repository: source.repository,
+      url: source.citationUrl ?? source.documentUrl,
+      ...(source.breadcrumb && { section: source.breadcrumb }),
+      snippet: source.chunkText.length > TOOL_CONFIG.searchMaxSnippetLength
+        ? source.chunkText.substring(0, TOOL_CONFIG.searchMaxSnippetLength) + '...'
+        : source.chunkText
+    }))
+  }, null, 2)
+}
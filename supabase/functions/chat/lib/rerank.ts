@@ -0,0 +1,217 @@
+/**
+ * Reranking module
+ * Rescores over-fetched RAG candidates against the query (LLM judge or local
+ * lexical scorer) and selects a diverse subset with maximal marginal relevance
+ */
+
+import { RERANK_CONFIG, getModelConfig } from './config.ts'
+import { callLLM } from './llm.ts'
+import { getRerankPrompt, getRerankUserMessage } from './prompts.ts'
+import type { RAGSource } from './types.ts'
+
+/**
+ * BM25 parameters for the lexical scorer
+ */
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+/**
+ * Split text into lowercase word tokens (identifiers are split on punctuation)
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9_]+/g) || []
+}
+
+/**
+ * Score candidates with BM25 over the candidate set, blended with retrieval similarity
+ */
+export function lexicalScores(query: string, sources: RAGSource[]): number[] {
+  const queryTerms = [...new Set(tokenize(query))]
+  const documents = sources.map(source => tokenize(source.chunkText))
+
+  if (queryTerms.length === 0 || documents.length === 0) {
+    return sources.map(source => source.similarity)
+  }
+
+  const avgLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1
+
+  // Document frequency of each query term within the candidate set
+  const documentFrequency = new Map<string, number>()
+  for (const term of queryTerms) {
+    documentFrequency.set(term, documents.filter(doc => doc.includes(term)).length)
+  }
+
+  const rawScores = documents.map(doc => {
+    const termCounts = new Map<string, number>()
+    for (const token of doc) {
+      termCounts.set(token, (termCounts.get(token) || 0) + 1)
+    }
+
+    let score = 0
+    for (const term of queryTerms) {
+      const tf = termCounts.get(term) || 0
+      if (tf === 0) continue
+
+      const df = documentFrequency.get(term) || 0
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5))
+      score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / avgLength))
+    }
+    return score
+  })
+
+  const maxScore = Math.max(...rawScores)
+
+  return rawScores.map((score, index) => {
+    const normalized = maxScore > 0 ? score / maxScore : 0
+    return RERANK_CONFIG.lexicalWeight * normalized +
+      (1 - RERANK_CONFIG.lexicalWeight) * sources[index].similarity
+  })
+}
+
+/**
+ * Score candidates with the chat model acting as a relevance judge
+ */
+export async function llmScores(
+  query: string,
+  sources: RAGSource[],
+  apiKey: string
+): Promise<number[]> {
+  const passages = sources.map((source, index) => ({
+    id: index,
+    text: source.chunkText.length > RERANK_CONFIG.llmMaxChunkLength
+      ? source.chunkText.substring(0, RERANK_CONFIG.llmMaxChunkLength) + '...'
+      : source.chunkText
+  }))
+
+  const modelConfig = getModelConfig('chat')
+  const response = await callLLM(
+    [
+      { role: 'system', content: getRerankPrompt() },
+      { role: 'user', content: getRerankUserMessage(query, passages) }
+    ],
+    {
+      provider: modelConfig.provider,
+      model: modelConfig.model,
+      temperature: modelConfig.temperature,
+      maxTokens: 20 * sources.length + 50,
+      responseFormat: 'json_object'
+    },
+    apiKey
+  )
+
+  const parsed = JSON.parse(response.content || '{}') as {
+    scores?: Array<{ id?: unknown; score?: unknown }>
+  }
+
+  if (!Array.isArray(parsed.scores)) {
+    throw new Error('Reranker did not return a scores array')
+  }
+
+  // Unscored passages keep a neutral score
+  const scores = sources.map(() => 0.5)
+  for (const entry of parsed.scores) {
+    if (typeof entry.id === 'number' && typeof entry.score === 'number' && entry.id >= 0 && entry.id < scores.length) {
+      scores[entry.id] = Math.max(0, Math.min(10, entry.score)) / 10
+    }
+  }
+
+  return scores
+}
+
+/**
+ * Estimate similarity between two candidates for diversity purposes
+ * Token-set Jaccard similarity, with a floor for chunks from the same page
+ */
+function candidateSimilarity(
+  a: RAGSource,
+  b: RAGSource,
+  tokens: Map<string, Set<string>>
+): number {
+  const tokensA = tokens.get(a.chunkId)!
+  const tokensB = tokens.get(b.chunkId)!
+
+  let intersection = 0
+  for (const token of tokensA) {
+    if (tokensB.has(token)) intersection++
+  }
+  const union = tokensA.size + tokensB.size - intersection
+  const jaccard = union > 0 ? intersection / union : 0
+
+  return a.documentUrl === b.documentUrl
+    ? Math.max(jaccard, RERANK_CONFIG.samePageSimilarity)
+    : jaccard
+}
+
+/**
+ * Select a relevant yet diverse subset with maximal marginal relevance
+ * Expects rerankScore to be set on every source
+ */
+export function selectWithMMR(
+  sources: RAGSource[],
+  count: number,
+  lambda: number = RERANK_CONFIG.mmrLambda
+): RAGSource[] {
+  const tokens = new Map(sources.map(source => [source.chunkId, new Set(tokenize(source.chunkText))]))
+  const remaining = [...sources]
+  const selected: RAGSource[] = []
+
+  while (selected.length < count && remaining.length > 0) {
+    let bestIndex = 0
+    let bestScore = -Infinity
+
+    for (let i = 0; i < remaining.length; i++) {
+      const relevance = remaining[i].rerankScore ?? remaining[i].similarity
+      const redundancy = selected.length > 0
+        ? Math.max(...selected.map(s => candidateSimilarity(remaining[i], s, tokens)))
+        : 0
+      const score = lambda * relevance - (1 - lambda) * redundancy
+
+      if (score > bestScore) {
+        bestScore = score
+        bestIndex = i
+      }
+    }
+
+    selected.push(remaining[bestIndex])
+    remaining.splice(bestIndex, 1)
+  }
+
+  return selected
+}
+
+/**
+ * Rerank candidates and select the final sources
+ * Uses the LLM judge when configured and an API key is passed (it may be empty
+ * for providers other than OpenAI), the lexical scorer otherwise
+ */
+export async function rerankSources(
+  query: string,
+  sources: RAGSource[],
+  count: number,
+  apiKey?: string
+): Promise<RAGSource[]> {
+  if (sources.length === 0) {
+    return []
+  }
+
+  let scores: number[] | null = null
+
+  if (RERANK_CONFIG.strategy === 'llm' && apiKey !== undefined) {
+    try {
+      scores = await llmScores(query, sources, apiKey)
+    } catch (error) {
+      console.error('LLM reranking failed, using lexical scorer:', error)
+    }
+  }
+
+  if (!scores) {
+    scores = lexicalScores(query, sources)
+  }
+
+  const scored = sources.map((source, index) => ({ ...source, rerankScore: scores![index] }))
+  const selected = selectWithMMR(scored, count)
+
+  console.log(`Reranked ${sources.length} candidates, selected ${selected.length}`)
+
+  return selected
+}
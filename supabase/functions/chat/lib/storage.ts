@@ -12,20 +12,27 @@ import type {
   ChatMessage,
   RepositorySummary,
   RAGSource,
-  RepositoryInfo
+  RepositoryInfo,
+  EmbeddingProviderName,
+  ConversationMemory
 } from './types.ts'
 
 /**
  * Create a new chat session
+ * The first repository is the session's primary repository; all repositories
+ * are attached to the session in the given order. userId is null for
+ * sessions created without a signed-in user.
  */
 export async function createChatSession(
   client: SupabaseClient,
-  repositoryId: string
+  repositoryIds: string[],
+  userId: string | null
 ): Promise<ChatSessionRecord> {
   const { data, error } = await client
     .from('chat_sessions')
     .insert({
-      repository_id: repositoryId,
+      repository_id: repositoryIds[0],
+      user_id: userId,
       metadata: {}
     })
     .select()
@@ -36,6 +43,20 @@ export async function createChatSession(
     throw new Error(`Failed to create chat session: ${error.message}`)
   }
 
+  const { error: mappingError } = await client
+    .from('chat_session_repositories')
+    .insert(repositoryIds.map((repositoryId, position) => ({
+      session_id: data.id,
+      repository_id: repositoryId,
+      position
+    })))
+
+  if (mappingError) {
+    console.error('Error attaching repositories to chat session:', mappingError)
+    await client.from('chat_sessions').delete().eq('id', data.id)
+    throw new Error(`Failed to create chat session: ${mappingError.message}`)
+  }
+
   return data
 }
 
@@ -85,6 +106,49 @@ export async function getChatSessionInfo(
   }
 }
 
+/**
+ * Get the owner of a chat session
+ * Returns undefined if the session doesn't exist and null if it has no owner
+ */
+export async function getSessionOwner(
+  client: SupabaseClient,
+  sessionId: string
+): Promise<string | null | undefined> {
+  const { data, error } = await client
+    .from('chat_sessions')
+    .select('user_id')
+    .eq('id', sessionId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error getting session owner:', error)
+    return undefined
+  }
+
+  return data ? data.user_id : undefined
+}
+
+/**
+ * Find a session the caller may use
+ * Sessions of a user are only available to that user. Sessions without an
+ * owner are available to anyone with their id unless they search a private
+ * repository, and never with requireOwner
+ * Returns null if the session doesn't exist or the caller may not use it
+ */
+export async function findCallerSession(
+  client: SupabaseClient,
+  sessionId: string,
+  userId: string | null,
+  requireOwner = false
+): Promise<ChatSessionInfo | null> {
+  const owner = await getSessionOwner(client, sessionId)
+  const callerCanUse = owner === null
+    ? !requireOwner && !(await getSessionRepositories(client, sessionId)).some(r => r.isPrivate)
+    : owner !== undefined && owner === userId
+
+  return callerCanUse ? await getChatSessionInfo(client, sessionId) : null
+}
+
 /**
  * Get repository info by session ID
  */
@@ -107,7 +171,7 @@ export async function getRepositoryBySession(
   // Then get the repository
   const { data: repo, error: repoError } = await client
     .from('repositories')
-    .select('id, owner, repo, ref, url')
+    .select('id, owner, repo, ref, url, is_private, embedding_provider, embedding_model, embedding_dimensions')
     .eq('id', session.repository_id)
     .single()
 
@@ -121,10 +185,69 @@ export async function getRepositoryBySession(
     owner: repo.owner,
     repo: repo.repo,
     ref: repo.ref,
-    url: repo.url
+    url: repo.url,
+    isPrivate: repo.is_private,
+    embedding: {
+      provider: repo.embedding_provider,
+      model: repo.embedding_model,
+      dimensions: repo.embedding_dimensions
+    }
   }
 }
 
+/**
+ * Get all repositories attached to a session, primary repository first
+ */
+export async function getSessionRepositories(
+  client: SupabaseClient,
+  sessionId: string
+): Promise<RepositoryInfo[]> {
+  const { data, error } = await client
+    .from('chat_session_repositories')
+    .select(`
+      position,
+      repositories (
+        id, owner, repo, ref, url, is_private, embedding_provider, embedding_model, embedding_dimensions
+      )
+    `)
+    .eq('session_id', sessionId)
+    .order('position', { ascending: true })
+
+  if (error) {
+    console.error('Error getting session repositories:', error)
+    throw new Error(`Failed to get session repositories: ${error.message}`)
+  }
+
+  type RepositoryRow = {
+    id: string
+    owner: string
+    repo: string
+    ref: string
+    url: string
+    is_private: boolean
+    embedding_provider: EmbeddingProviderName
+    embedding_model: string
+    embedding_dimensions: number
+  }
+
+  return (data || []).map((row: { position: number; repositories: RepositoryRow | RepositoryRow[] }) => {
+    const repo = Array.isArray(row.repositories) ? row.repositories[0] : row.repositories
+    return {
+      id: repo.id,
+      owner: repo.owner,
+      repo: repo.repo,
+      ref: repo.ref,
+      url: repo.url,
+      isPrivate: repo.is_private,
+      embedding: {
+        provider: repo.embedding_provider,
+        model: repo.embedding_model,
+        dimensions: repo.embedding_dimensions
+      }
+    }
+  })
+}
+
 /**
  * Store a chat message
  */
@@ -188,6 +311,133 @@ export async function getChatHistory(
   }))
 }
 
+/**
+ * Get the most recent messages of a session, oldest first
+ * Only messages created after `since` are returned when provided
+ */
+export async function getRecentMessages(
+  client: SupabaseClient,
+  sessionId: string,
+  limit: number,
+  since?: string | null
+): Promise<ChatMessage[]> {
+  let query = client
+    .from('chat_messages')
+    .select('*')
+    .eq('session_id', sessionId)
+
+  if (since) {
+    query = query.gt('created_at', since)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error getting recent messages:', error)
+    throw new Error(`Failed to get recent messages: ${error.message}`)
+  }
+
+  return data
+    .reverse()
+    .map((record: ChatMessageRecord) => ({
+      id: record.id,
+      sessionId: record.session_id,
+      role: record.role,
+      content: record.content,
+      sources: record.sources || undefined,
+      metadata: record.metadata,
+      createdAt: record.created_at
+    }))
+}
+
+/**
+ * Get the oldest messages of a session created after `since` and before `before`, oldest first
+ */
+export async function getMessagesBetween(
+  client: SupabaseClient,
+  sessionId: string,
+  since: string | null,
+  before: string,
+  limit: number
+): Promise<ChatMessage[]> {
+  let query = client
+    .from('chat_messages')
+    .select('*')
+    .eq('session_id', sessionId)
+    .lt('created_at', before)
+
+  if (since) {
+    query = query.gt('created_at', since)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error getting messages:', error)
+    throw new Error(`Failed to get messages: ${error.message}`)
+  }
+
+  return data.map((record: ChatMessageRecord) => ({
+    id: record.id,
+    sessionId: record.session_id,
+    role: record.role,
+    content: record.content,
+    sources: record.sources || undefined,
+    metadata: record.metadata,
+    createdAt: record.created_at
+  }))
+}
+
+/**
+ * Get the rolling conversation summary for a session
+ */
+export async function getConversationMemory(
+  client: SupabaseClient,
+  sessionId: string
+): Promise<ConversationMemory> {
+  const { data, error } = await client
+    .from('chat_sessions')
+    .select('conversation_summary, summarized_until')
+    .eq('id', sessionId)
+    .single()
+
+  if (error) {
+    console.error('Error getting conversation memory:', error)
+    return { summary: null, summarizedUntil: null }
+  }
+
+  return {
+    summary: data.conversation_summary,
+    summarizedUntil: data.summarized_until
+  }
+}
+
+/**
+ * Store the rolling conversation summary for a session
+ */
+export async function updateConversationMemory(
+  client: SupabaseClient,
+  sessionId: string,
+  memory: ConversationMemory
+): Promise<void> {
+  const { error } = await client
+    .from('chat_sessions')
+    .update({
+      conversation_summary: memory.summary,
+      summarized_until: memory.summarizedUntil
+    })
+    .eq('id', sessionId)
+
+  if (error) {
+    console.error('Error updating conversation memory:', error)
+    throw new Error(`Failed to update conversation memory: ${error.message}`)
+  }
+}
+
 /**
  * Get total message count for a session
  */
@@ -316,7 +566,7 @@ export async function getRepository(
 ): Promise<RepositoryInfo | null> {
   const { data, error } = await client
     .from('repositories')
-    .select('id, owner, repo, ref, url')
+    .select('id, owner, repo, ref, url, is_private, embedding_provider, embedding_model, embedding_dimensions')
     .eq('owner', owner)
     .eq('repo', repo)
     .eq('ref', ref)
@@ -336,7 +586,13 @@ export async function getRepository(
     owner: data.owner,
     repo: data.repo,
     ref: data.ref,
-    url: data.url
+    url: data.url,
+    isPrivate: data.is_private,
+    embedding: {
+      provider: data.embedding_provider,
+      model: data.embedding_model,
+      dimensions: data.embedding_dimensions
+    }
   }
 }
 
@@ -425,10 +681,11 @@ export async function getRecentSessions(
 }
 
 /**
- * Get all chat sessions with pagination
+ * Get the chat sessions of a user with pagination
  */
 export async function getAllSessions(
   client: SupabaseClient,
+  userId: string,
   limit: number = 50,
   offset: number = 0
 ): Promise<{ sessions: ChatSessionInfo[]; total: number }> {
@@ -436,6 +693,7 @@ export async function getAllSessions(
   const { count, error: countError } = await client
     .from('chat_sessions')
     .select('*', { count: 'exact', head: true })
+    .eq('user_id', userId)
 
   if (countError) {
     console.error('Error counting sessions:', countError)
@@ -455,6 +713,7 @@ export async function getAllSessions(
         ref
       )
     `)
+    .eq('user_id', userId)
     .order('created_at', { ascending: false })
     .range(offset, offset + limit - 1)
 
@@ -0,0 +1,87 @@
+/**
+ * Server-sent events (SSE) helpers
+ * Used by the message action when the client requests a streamed response
+ */
+
+import type { StreamHandlers } from './llm.ts'
+import type { MessageStreamEvent } from './types.ts'
+
+/**
+ * Emits a single named event to the client
+ */
+export type SendEvent = (event: MessageStreamEvent, data: unknown) => void
+
+/**
+ * Format a single SSE frame
+ */
+export function formatEvent(event: MessageStreamEvent, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Forward the deltas and tool calls of a completion as events
+ */
+export function createStreamHandlers(send: SendEvent): StreamHandlers {
+  return {
+    onDelta: (content) => send('delta', { content }),
+    onToolCall: (toolCall) => send('tool_call', {
+      id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: toolCall.function.arguments
+    }),
+    onToolResult: (toolCall, success) => send('tool_result', {
+      id: toolCall.id,
+      name: toolCall.function.name,
+      success
+    })
+  }
+}
+
+/**
+ * Create a text/event-stream response driven by an async producer
+ * The stream closes once the producer settles; a thrown error is reported
+ * to the client as an `error` event
+ */
+export function createEventStreamResponse(
+  run: (send: SendEvent) => Promise<void>
+): Response {
+  const encoder = new TextEncoder()
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        // The client may have disconnected; keep producing so the turn is still stored
+        if (closed) return
+        controller.enqueue(encoder.encode(formatEvent(event, data)))
+      }
+
+      try {
+        await run(send)
+      } catch (error) {
+        console.error('Error in message stream:', error)
+        send('error', {
+          error: 'internal_error',
+          message: error instanceof Error ? error.message : 'Unknown error occurred'
+        })
+      } finally {
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      closed = true
+    }
+  })
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    }
+  })
+}
@@ -16,7 +16,8 @@ async function fetchReadme(
   githubUrl: string,
   ref: string,
   supabaseUrl: string,
-  supabaseKey: string
+  supabaseKey: string,
+  githubToken?: string
 ): Promise<string | null> {
   try {
     const githubDocUrl = `${supabaseUrl}/functions/v1/github-doc`
@@ -24,7 +25,8 @@ async function fetchReadme(
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${supabaseKey}`,
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        ...(githubToken && { 'X-GitHub-Token': githubToken })
       },
       body: JSON.stringify({
         url: githubUrl,
@@ -59,7 +61,8 @@ async function extractDocLinks(
   githubUrl: string,
   ref: string,
   supabaseUrl: string,
-  supabaseKey: string
+  supabaseKey: string,
+  githubToken?: string
 ): Promise<DocumentationLink[]> {
   try {
     const docLinkExtractUrl = `${supabaseUrl}/functions/v1/doc-link-extract`
@@ -67,7 +70,8 @@ async function extractDocLinks(
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${supabaseKey}`,
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        ...(githubToken && { 'X-GitHub-Token': githubToken })
       },
       body: JSON.stringify({
         url: githubUrl,
@@ -102,6 +106,7 @@ async function extractDocLinks(
 
 /**
  * Generate repository summary using LLM
+ * githubToken is forwarded to github-doc and doc-link-extract for private repositories
  */
 export async function generateSummary(
   githubUrl: string,
@@ -109,13 +114,14 @@ export async function generateSummary(
   supabaseUrl: string,
   supabaseKey: string,
   openaiApiKey: string,
-  tavilyApiKey?: string
+  tavilyApiKey?: string,
+  githubToken?: string
 ): Promise<RepositorySummary> {
   console.log('Generating summary for repository...')
 
   // Step 1: Fetch README
   console.log('Fetching README...')
-  const readme = await fetchReadme(githubUrl, ref, supabaseUrl, supabaseKey)
+  const readme = await fetchReadme(githubUrl, ref, supabaseUrl, supabaseKey, githubToken)
   
   if (!readme) {
     throw new Error('Failed to fetch README content')
@@ -130,7 +136,7 @@ export async function generateSummary(
 
   // Step 2: Extract documentation links
   console.log('Extracting documentation links...')
-  const docLinks = await extractDocLinks(githubUrl, ref, supabaseUrl, supabaseKey)
+  const docLinks = await extractDocLinks(githubUrl, ref, supabaseUrl, supabaseKey, githubToken)
   console.log(`Found ${docLinks.length} documentation links`)
 
   // Step 3: Generate summary using LLM
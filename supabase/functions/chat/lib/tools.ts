@@ -0,0 +1,289 @@
+/**
+ * Chat tool registry
+ * Every tool the chat model can call: its definition in the OpenAI format,
+ * when it is offered and its handler. Per-turn call budgets and output limits
+ * (TOOL_CONFIG) are enforced by generateChatCompletionWithTools.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { GitHubClient } from '../../_shared/github.ts'
+import { MCP_CONFIG, TOOL_CONFIG } from './config.ts'
+import { queryReleases } from './releases.ts'
+import {
+  listRepositoryDirectory,
+  readRepositoryFile,
+  resolveToolRepository,
+  searchRepository
+} from './repository.ts'
+import { searchWeb } from './tavily.ts'
+import type { OpenAITool, ReleaseQuery, RepositoryInfo } from './types.ts'
+
+/**
+ * Context tools are executed with
+ */
+export interface ToolContext {
+  tavilyApiKey?: string
+  openaiApiKey?: string             // Embeds search_repository queries of OpenAI-indexed repositories
+  client?: SupabaseClient           // Service role client for tools that read indexed data
+  repositories?: RepositoryInfo[]   // Repositories the turn is answered from
+  github?: GitHubClient             // Reads repository files (null token for private repositories without the caller's token)
+  releaseTimeline?: boolean         // Release entries are indexed for the repositories
+}
+
+/**
+ * A tool of the registry
+ */
+export interface ChatTool {
+  definition: OpenAITool
+  isAvailable(context: ToolContext): boolean
+  execute(params: Record<string, unknown>, context: ToolContext): Promise<string>
+}
+
+/**
+ * Description of the optional repository parameter of repository tools
+ */
+const REPOSITORY_PARAMETER = {
+  type: 'string',
+  description: 'Repository as "owner/repo" when the session has several (default: the first repository)'
+}
+
+/**
+ * Check whether the context has repositories to work on
+ */
+function hasRepositories(context: ToolContext): boolean {
+  return Boolean(context.repositories && context.repositories.length > 0)
+}
+
+const tavilySearchTool: ChatTool = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'tavily_search',
+      description: 'Search the web for current information, tutorials, articles, and documentation. Use this when the repository documentation doesn\'t contain the answer, or when user asks for latest/recent information.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'The search query. Be specific and clear.'
+          },
+          max_results: {
+            type: 'number',
+            description: 'Maximum number of results to return (default: 10)'
+          }
+        },
+        required: ['query']
+      }
+    }
+  },
+  isAvailable: context => Boolean(context.tavilyApiKey),
+  async execute(params, context) {
+    const query = params.query as string
+    const maxResults = params.max_results as number | undefined
+
+    const result = await searchWeb(query, context.tavilyApiKey!, { maxResults })
+
+    // Format results for LLM
+    return JSON.stringify({
+      query: result.searchQuery,
+      summary: result.summary,
+      sources: result.sources.map(s => ({
+        title: s.title,
+        url: s.url,
+        content: s.snippet
+      }))
+    }, null, 2)
+  }
+}
+
+const queryReleasesTool: ChatTool = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'query_releases',
+      description: 'List release notes and changelog entries of the repository by version range, with their release dates. Use this for questions about when something was added, changed or removed, or what changed between versions.',
+      parameters: {
+        type: 'object',
+        properties: {
+          from_version: {
+            type: 'string',
+            description: 'Lowest version to include (e.g. "2.0.0")'
+          },
+          to_version: {
+            type: 'string',
+            description: 'Highest version to include; "3.0" includes 3.0.x'
+          },
+          query: {
+            type: 'string',
+            description: 'Words every returned entry must mention (e.g. a feature or option name)'
+          },
+          order: {
+            type: 'string',
+            enum: ['newest', 'oldest'],
+            description: 'Sort order by version (default: newest). Use "oldest" to find when something was introduced.'
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of entries to return (default: 10)'
+          }
+        }
+      }
+    }
+  },
+  isAvailable: context => Boolean(context.client && context.releaseTimeline && hasRepositories(context)),
+  async execute(params, context) {
+    const query: ReleaseQuery = {
+      fromVersion: params.from_version as string | undefined,
+      toVersion: params.to_version as string | undefined,
+      query: params.query as string | undefined,
+      order: params.order as ReleaseQuery['order'],
+      limit: params.limit as number | undefined
+    }
+
+    const result = await queryReleases(context.client!, context.repositories!, query)
+
+    return JSON.stringify({
+      total: result.total,
+      returned: result.releases.length,
+      releases: result.releases
+    }, null, 2)
+  }
+}
+
+const readFileTool: ChatTool = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'read_file',
+      description: 'Read a file of the repository at the version being discussed, with line numbers. Use this to check the actual code or configuration when the documentation is not enough.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: {
+            type: 'string',
+            description: 'File path from the repository root (e.g. "src/index.ts")'
+          },
+          lines: {
+            type: 'string',
+            description: `Line range "start-end" (e.g. "40-120"); default: the first ${TOOL_CONFIG.readFileDefaultLines} lines, at most ${TOOL_CONFIG.readFileMaxLines} lines per call`
+          },
+          repository: REPOSITORY_PARAMETER
+        },
+        required: ['path']
+      }
+    }
+  },
+  isAvailable: context => Boolean(context.github && hasRepositories(context)),
+  execute(params, context) {
+    const repository = resolveToolRepository(context.repositories!, params.repository as string | undefined)
+    return readRepositoryFile(context.github!, repository, params.path as string, params.lines as string | undefined)
+  }
+}
+
+const listDirectoryTool: ChatTool = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'list_directory',
+      description: 'List the files and subdirectories of a directory of the repository at the version being discussed.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: {
+            type: 'string',
+            description: 'Directory path from the repository root (default: the root)'
+          },
+          repository: REPOSITORY_PARAMETER
+        }
+      }
+    }
+  },
+  isAvailable: context => Boolean(context.github && hasRepositories(context)),
+  execute(params, context) {
+    const repository = resolveToolRepository(context.repositories!, params.repository as string | undefined)
+    return listRepositoryDirectory(context.github!, repository, (params.path as string | undefined) ?? '')
+  }
+}
+
+const searchRepositoryTool: ChatTool = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'search_repository',
+      description: 'Search the indexed documentation and source code of the repository. Use this to find where something is defined or documented before reading files.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'What to look for: a symbol, option, error message or question'
+          },
+          limit: {
+            type: 'number',
+            description: `Maximum number of results (default: ${TOOL_CONFIG.searchDefaultResults})`
+          },
+          repository: {
+            type: 'string',
+            description: 'Repository as "owner/repo" to search (default: every repository of the session)'
+          }
+        },
+        required: ['query']
+      }
+    }
+  },
+  isAvailable: context => Boolean(context.client && hasRepositories(context)),
+  execute(params, context) {
+    const label = params.repository as string | undefined
+    const repositories = label
+      ? [resolveToolRepository(context.repositories!, label)]
+      : context.repositories!
+    return searchRepository(context.client!, repositories, params.query as string, context.openaiApiKey ?? '', params.limit as number | undefined)
+  }
+}
+
+/**
+ * Every tool the chat model can be offered, in the order they are offered
+ */
+const CHAT_TOOLS: ChatTool[] = [
+  searchRepositoryTool,
+  readFileTool,
+  listDirectoryTool,
+  queryReleasesTool,
+  tavilySearchTool
+]
+
+/**
+ * Find a registered tool by name
+ */
+export function getChatTool(name: string): ChatTool | undefined {
+  return CHAT_TOOLS.find(tool => tool.definition.function.name === name)
+}
+
+/**
+ * Build the tool list offered to the chat model
+ */
+export function getChatTools(context: ToolContext): OpenAITool[] {
+  if (!MCP_CONFIG.enabled) {
+    return []
+  }
+  return CHAT_TOOLS
+    .filter(tool => tool.isAvailable(context))
+    .map(tool => tool.definition)
+}
+
+/**
+ * Number of calls of a tool allowed per chat turn
+ */
+export function getToolCallBudget(name: string): number {
+  return TOOL_CONFIG.callBudgets[name] ?? TOOL_CONFIG.defaultCallBudget
+}
+
+/**
+ * Truncate a tool result to the output limit
+ */
+export function limitToolOutput(output: string, maxLength: number = TOOL_CONFIG.maxOutputLength): string {
+  if (output.length <= maxLength) {
+    return output
+  }
+  return `${output.substring(0, maxLength)}\n... [truncated ${output.length - maxLength} characters]`
+}
@@ -14,9 +14,12 @@ export interface BaseChatRequest {
  */
 export interface InitChatRequest extends BaseChatRequest {
   action: 'init'
-  githubUrl: string
-  ref?: string
+  githubUrl?: string      // Primary repository
+  githubUrls?: string[]   // Additional repositories searched by the session
+  ref?: string            // Ref of every repository (default: each repository's default branch)
+  refs?: string[]         // Index several refs (tags, releases, branches) of every repository; first is the default version
   force?: boolean  // Force reprocess repository
+  wait?: boolean   // Wait for ingestion to finish (up to INGESTION_CONFIG.initWaitMs)
 }
 
 /**
@@ -35,7 +38,9 @@ export interface MessageRequest extends BaseChatRequest {
   action: 'message'
   sessionId: string
   message: string
+  refs?: string[]   // Versions to answer from; two or more compare them (default: versions mentioned in the message)
   ragConfig?: RAGConfig
+  stream?: boolean  // Respond with text/event-stream instead of JSON
 }
 
 /**
@@ -70,6 +75,14 @@ export interface DeleteSessionRequest extends BaseChatRequest {
  */
 export type ChatRequest = InitChatRequest | SummaryRequest | MessageRequest | HistoryRequest | ListSessionsRequest | DeleteSessionRequest
 
+/**
+ * Retrieval strategy for RAG search
+ * - vector: pgvector cosine similarity only
+ * - keyword: Postgres full-text search only
+ * - hybrid: both lists merged with reciprocal rank fusion
+ */
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid'
+
 /**
  * RAG configuration options
  */
@@ -77,8 +90,18 @@ export interface RAGConfig {
   matchThreshold?: number      // Similarity threshold (0-1), default: 0.7
   matchCount?: number           // Number of chunks to retrieve, default: 5
   includeSummary?: boolean      // Include summary in context, default: true
+  rewriteQuery?: boolean        // Condense follow-ups into standalone queries, default: true
+  retrievalMode?: RetrievalMode // Retrieval strategy, default: 'hybrid'
+  rerank?: boolean              // Over-fetch and rerank candidates, default: true
+  sourceTypes?: SourceType[]    // Restrict retrieval to these document types, default: all
+  includeIssues?: boolean       // Search indexed issues, pull requests and discussions, default: true
 }
 
+/**
+ * Kind of content an indexed document was ingested from
+ */
+export type SourceType = 'readme' | 'documentation' | 'code' | 'repo_doc' | 'wiki' | 'issue' | 'release'
+
 /**
  * Repository summary structure (generated by LLM)
  */
@@ -120,7 +143,39 @@ export interface RAGSource {
   chunkId: string
   chunkText: string
   documentUrl: string
+  citationUrl?: string  // documentUrl deep-linked to the chunk's section or line range
+  breadcrumb?: string   // Heading path of the chunk (e.g. "Install > Docker > Compose")
+  repository?: string   // Repository of the chunk as "owner/repo@ref"
+  version?: string      // Targeted version (ref) the chunk was retrieved for
   similarity: number
+  fusionScore?: number  // Reciprocal rank fusion score (keyword/hybrid retrieval)
+  keywordRank?: number  // Rank in the full-text search results (keyword/hybrid retrieval)
+  rerankScore?: number  // Relevance score from the reranker (0-1)
+  releaseVersion?: string  // Version of a release entry chunk
+  releaseDate?: string     // Release date of a release entry chunk
+}
+
+/**
+ * Entry of the release timeline returned by the query_releases tool
+ */
+export interface ReleaseEntry {
+  repository: string  // "owner/repo"
+  version: string
+  date?: string       // Release date (YYYY-MM-DD)
+  title: string
+  url: string
+  notes: string       // Release notes and changelog section
+}
+
+/**
+ * Parameters of a release timeline query
+ */
+export interface ReleaseQuery {
+  fromVersion?: string         // Inclusive lower bound
+  toVersion?: string           // Inclusive upper bound ("3.0" includes 3.0.x)
+  query?: string               // Words every returned entry must mention
+  order?: 'newest' | 'oldest'  // Default: newest
+  limit?: number
 }
 
 /**
@@ -136,6 +191,14 @@ export interface ChatMessage {
   createdAt: string
 }
 
+/**
+ * Rolling conversation memory for a session
+ */
+export interface ConversationMemory {
+  summary: string | null
+  summarizedUntil: string | null  // created_at of the last summarized message
+}
+
 /**
  * Chat session info
  */
@@ -156,11 +219,30 @@ export interface ChatSessionInfo {
 export interface InitChatResponse {
   success: boolean
   sessionId: string
-  repositoryId: string
-  status: 'created' | 'existing'
+  repositoryId: string  // Primary repository
+  status: 'created' | 'existing' | 'processing'  // 'processing' while any repository is processing
+  jobId?: string  // Ingestion job of the primary repository to poll while status is 'processing'
+  repositories: SessionRepositoryStatus[]
   message: string
 }
 
+/**
+ * Processing status of a repository attached to a session
+ */
+export interface SessionRepositoryStatus {
+  repositoryId: string
+  owner: string
+  repo: string
+  ref: string
+  status: 'created' | 'existing' | 'processing'
+  jobId?: string
+}
+
+/**
+ * Status of a data-aggregate ingestion job
+ */
+export type IngestionJobStatus = 'pending' | 'running' | 'completed' | 'failed'
+
 /**
  * Response for summary action
  */
@@ -181,7 +263,33 @@ export interface MessageResponse {
   sources: RAGSource[]
   usedRagContext: boolean
   usedFallback: boolean  // True if no relevant docs found but LLM provided general answer
+  versions: string[]     // Versions the answer was retrieved from (empty = default versions)
+  modelUsed: string
+}
+
+/**
+ * Server-sent events emitted by the message action in streaming mode
+ * - sources: RAG sources used for the answer
+ * - delta: assistant content fragment
+ * - tool_call / tool_result: tool execution progress
+ * - done: final event with the stored message id and usage
+ * - error: the turn failed after the stream was opened
+ */
+export type MessageStreamEvent = 'sources' | 'delta' | 'tool_call' | 'tool_result' | 'done' | 'error'
+
+/**
+ * Final event payload of a streamed message
+ */
+export interface MessageStreamDone {
+  messageId: string
+  usedRagContext: boolean
+  usedFallback: boolean
   modelUsed: string
+  usage: {
+    promptTokens: number
+    completionTokens: number
+    totalTokens: number
+  }
 }
 
 /**
@@ -190,6 +298,7 @@ export interface MessageResponse {
 export interface HistoryResponse {
   success: boolean
   sessionInfo: ChatSessionInfo
+  repositories: RepositoryInfo[]  // Repositories searched by the session, primary first
   messages: ChatMessage[]
   summary?: RepositorySummary
   totalMessages: number
@@ -228,9 +337,12 @@ export interface ErrorResponse {
 export interface ChatSessionRecord {
   id: string
   repository_id: string
+  user_id: string | null
   created_at: string
   updated_at: string
   metadata: Record<string, unknown>
+  conversation_summary: string | null
+  summarized_until: string | null
 }
 
 export interface ChatMessageRecord {
@@ -262,6 +374,25 @@ export interface RepositoryInfo {
   repo: string
   ref: string
   url: string
+  isPrivate?: boolean        // Private on GitHub; sessions need the caller's GitHub token
+  embedding?: EmbeddingSpec  // Model the repository was indexed with
+}
+
+/**
+ * Supported embedding providers
+ * - openai: OpenAI embeddings API
+ * - local: OpenAI-compatible embeddings server (Ollama, llama.cpp server, vLLM)
+ * - hash: deterministic offline feature-hashing embedder (tests, no network)
+ */
+export type EmbeddingProviderName = 'openai' | 'local' | 'hash'
+
+/**
+ * Embedding model a repository is indexed with
+ */
+export interface EmbeddingSpec {
+  provider: EmbeddingProviderName
+  model: string
+  dimensions: number
 }
 
 /**
@@ -271,12 +402,45 @@ export interface MatchDocumentsResult {
   chunk_id: string
   chunk_text: string
   document_url: string
+  chunk_metadata: ChunkMetadata | null
   similarity: number
   repository_owner: string
   repository_name: string
   repository_ref: string
 }
 
+/**
+ * Chunk metadata stored by data-aggregate
+ */
+export interface ChunkMetadata {
+  sourceType?: string
+  path?: string
+  breadcrumb?: string   // Markdown heading path
+  anchor?: string       // Section slug (markdown) or line range (code)
+  symbol?: string       // Enclosing top-level symbol (code)
+  startLine?: number
+  endLine?: number
+  version?: string      // Version of a release entry
+  releaseDate?: string  // Release date of a release entry (YYYY-MM-DD)
+}
+
+/**
+ * Hybrid match result from combined vector and keyword search
+ */
+export interface HybridMatchDocumentsResult extends MatchDocumentsResult {
+  keyword_score: number | null
+  vector_rank: number | null   // 1-based position in the vector list
+  keyword_rank: number | null  // 1-based position in the keyword list
+}
+
+/**
+ * Supported LLM providers
+ * - openai: OpenAI chat completions API
+ * - anthropic: Anthropic Messages API
+ * - local: OpenAI-compatible server (Ollama, llama.cpp server, vLLM)
+ */
+export type LLMProviderName = 'openai' | 'anthropic' | 'local'
+
 /**
  * OpenAI chat message format
  */
@@ -339,3 +503,99 @@ export interface OpenAIChatResponse {
     total_tokens: number
   }
 }
+
+/**
+ * OpenAI streamed chat completion chunk
+ */
+export interface OpenAIChatStreamChunk {
+  id: string
+  object: string
+  created: number
+  model: string
+  choices: Array<{
+    index: number
+    delta: {
+      role?: string
+      content?: string | null
+      tool_calls?: Array<{
+        index: number
+        id?: string
+        type?: 'function'
+        function?: {
+          name?: string
+          arguments?: string
+        }
+      }>
+    }
+    finish_reason: string | null
+  }>
+  usage?: {
+    prompt_tokens: number
+    completion_tokens: number
+    total_tokens: number
+  } | null
+}
+
+/**
+ * Anthropic message content block
+ */
+export type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean }
+
+/**
+ * Anthropic Messages API message format
+ */
+export interface AnthropicMessage {
+  role: 'user' | 'assistant'
+  content: string | AnthropicContentBlock[]
+}
+
+/**
+ * Anthropic tool definition
+ */
+export interface AnthropicTool {
+  name: string
+  description: string
+  input_schema: OpenAITool['function']['parameters']
+}
+
+/**
+ * Anthropic Messages API response
+ */
+export interface AnthropicResponse {
+  id: string
+  type: 'message'
+  role: 'assistant'
+  model: string
+  content: AnthropicContentBlock[]
+  stop_reason: string | null
+  usage: {
+    input_tokens: number
+    output_tokens: number
+  }
+}
+
+/**
+ * Anthropic streamed event
+ */
+export interface AnthropicStreamEvent {
+  type: string
+  index?: number
+  message?: AnthropicResponse
+  content_block?: AnthropicContentBlock
+  delta?: {
+    type?: string
+    text?: string
+    partial_json?: string
+    stop_reason?: string | null
+  }
+  usage?: {
+    output_tokens: number
+  }
+  error?: {
+    type: string
+    message: string
+  }
+}
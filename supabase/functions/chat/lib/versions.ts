@@ -0,0 +1,132 @@
+/**
+ * Version selection module
+ * A session can index several refs (tags, releases, branches) of the same
+ * repository. Each message is answered against the versions it targets:
+ * refs requested explicitly or version numbers mentioned in the message
+ */
+
+import type { RepositoryInfo } from './types.ts'
+
+/**
+ * Versions targeted by a message and the repositories to search
+ */
+export interface VersionSelection {
+  repositories: RepositoryInfo[]
+  versions: string[]   // Targeted refs in session order (empty = default versions)
+  missing: string[]    // Requested refs not indexed in the session
+}
+
+/**
+ * Normalize a ref for comparison ("refs/tags/v1.2.0" -> "1.2.0")
+ */
+export function normalizeVersion(ref: string): string {
+  return ref.replace(/^refs\/(?:tags|heads)\//, '').replace(/^v(?=\d)/i, '').toLowerCase()
+}
+
+/**
+ * Check whether a ref looks like a version number (v1, 2.0.0, v3.1-beta)
+ */
+function isVersionLike(ref: string): boolean {
+  return /^v?\d/i.test(ref.replace(/^refs\/tags\//, ''))
+}
+
+/**
+ * Compare two version strings by their numeric segments
+ */
+export function compareVersions(a: string, b: string): number {
+  const segmentsA = normalizeVersion(a).split(/[.-]/)
+  const segmentsB = normalizeVersion(b).split(/[.-]/)
+
+  for (let i = 0; i < Math.max(segmentsA.length, segmentsB.length); i++) {
+    const numberA = parseInt(segmentsA[i] ?? '0')
+    const numberB = parseInt(segmentsB[i] ?? '0')
+    if (!isNaN(numberA) && !isNaN(numberB) && numberA !== numberB) {
+      return numberA - numberB
+    }
+    if (isNaN(numberA) !== isNaN(numberB)) {
+      // Release versions sort after pre-releases (1.0.0-beta < 1.0.0)
+      return isNaN(numberA) ? -1 : 1
+    }
+  }
+
+  return 0
+}
+
+/**
+ * Find the refs a text mentions
+ * Only version-like words are matched to avoid matching branch names such as
+ * "main" in ordinary sentences. A partial version ("v2") selects the latest
+ * matching ref ("v2.3.1").
+ */
+export function findMentionedRefs(text: string, refs: string[]): string[] {
+  const versionRefs = refs.filter(isVersionLike)
+  const mentioned = new Set<string>()
+
+  const words = text.match(/\bv?\d+(?:\.\d+)*(?:-[\w.]+)?/gi) || []
+
+  for (const word of words) {
+    const mention = normalizeVersion(word)
+
+    const exact = versionRefs.find(ref => normalizeVersion(ref) === mention)
+    if (exact) {
+      mentioned.add(exact)
+      continue
+    }
+
+    const partial = versionRefs
+      .filter(ref => normalizeVersion(ref).startsWith(`${mention}.`))
+      .sort(compareVersions)
+      .pop()
+    if (partial) {
+      mentioned.add(partial)
+    }
+  }
+
+  return refs.filter(ref => mentioned.has(ref))
+}
+
+/**
+ * Select the repositories a message is answered from
+ * Repositories are grouped by owner/repo. A group with targeted refs searches
+ * those refs; other groups search their first attached ref (the default version).
+ * requestedRefs takes precedence over refs mentioned in the message.
+ */
+export function selectVersions(
+  repositories: RepositoryInfo[],
+  message: string,
+  requestedRefs?: string[]
+): VersionSelection {
+  const refs = [...new Set(repositories.map(r => r.ref))]
+
+  let targeted: string[]
+  let missing: string[] = []
+
+  if (requestedRefs && requestedRefs.length > 0) {
+    const resolve = (requested: string) =>
+      refs.find(ref => ref === requested) ??
+      refs.find(ref => normalizeVersion(ref) === normalizeVersion(requested))
+    targeted = refs.filter(ref => requestedRefs.some(requested => resolve(requested) === ref))
+    missing = requestedRefs.filter(requested => !resolve(requested))
+  } else {
+    targeted = findMentionedRefs(message, refs)
+  }
+
+  const groups = new Map<string, RepositoryInfo[]>()
+  for (const repository of repositories) {
+    const key = `${repository.owner}/${repository.repo}`.toLowerCase()
+    groups.set(key, [...(groups.get(key) ?? []), repository])
+  }
+
+  const selected: RepositoryInfo[] = []
+  for (const group of groups.values()) {
+    const matching = group.filter(repository => targeted.includes(repository.ref))
+    selected.push(...(matching.length > 0 ? matching : group.slice(0, 1)))
+  }
+
+  // Keep session order
+  return {
+    repositories: repositories.filter(repository => selected.includes(repository)),
+    versions: targeted,
+    missing
+  }
+}
@@ -0,0 +1,94 @@
+import { assertEquals, assertStringIncludes } from "@std/assert"
+import type { GitHubClient } from "../_shared/github.ts"
+import { generateChatCompletionWithTools } from "./lib/llm.ts"
+import { getChatTools, type ToolContext } from "./lib/tools.ts"
+import type { OpenAIChatMessage, OpenAIToolCall } from "./lib/types.ts"
+
+/**
+ * Tests for the tool calling loop of generateChatCompletionWithTools
+ * The OpenAI and Tavily APIs are replaced by a fake fetch
+ * Run with: deno test --allow-env supabase/functions/chat/llm.test.ts
+ */
+
+const TOOL_CONTEXT: ToolContext = {
+  tavilyApiKey: "tvly-test",
+  repositories: [{ id: "1", owner: "o", repo: "r", ref: "main", url: "https://github.com/o/r" }],
+  github: {
+    request: (path: string) => Promise.resolve(path.startsWith("https://raw.githubusercontent.com/")
+      ? new Response("const retries = 3\n")
+      : Response.json([{ name: "index.ts", type: "file", size: 18 }]))
+  } as unknown as GitHubClient
+}
+
+interface ChatRequestBody {
+  messages: OpenAIChatMessage[]
+  tool_choice?: string
+}
+
+/**
+ * Fake a model that calls every tool three times per round until tool calls are disabled
+ */
+function createFakeFetch(requests: ChatRequestBody[]): typeof fetch {
+  return (input: string | URL | Request, init?: RequestInit) => {
+    const url = input.toString()
+    if (url.startsWith("https://api.tavily.com/")) {
+      return Promise.resolve(Response.json({ query: "retries", answer: "Use retries", results: [] }))
+    }
+
+    const body: ChatRequestBody = JSON.parse(init!.body as string)
+    requests.push(body)
+
+    const round = requests.length
+    const toolCalls: OpenAIToolCall[] = ["read_file", "list_directory", "tavily_search"].flatMap(name =>
+      [1, 2, 3].map(i => ({
+        id: `call_${round}_${name}_${i}`,
+        type: "function" as const,
+        function: { name, arguments: JSON.stringify(name === "tavily_search" ? { query: "retries" } : { path: "index.ts" }) }
+      }))
+    )
+
+    const message = body.tool_choice === "none"
+      ? { role: "assistant", content: "Retries default to 3." }
+      : { role: "assistant", content: null, tool_calls: toolCalls }
+
+    return Promise.resolve(Response.json({
+      id: `chatcmpl-${round}`,
+      model: "gpt-test",
+      choices: [{ index: 0, message, finish_reason: body.tool_choice === "none" ? "stop" : "tool_calls" }],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+    }))
+  }
+}
+
+Deno.test("generateChatCompletionWithTools - answers once the call budget is spent", async () => {
+  const requests: ChatRequestBody[] = []
+  const originalFetch = globalThis.fetch
+  globalThis.fetch = createFakeFetch(requests)
+
+  try {
+    const tools = getChatTools(TOOL_CONTEXT)
+    assertEquals(tools.map(tool => tool.function.name), ["read_file", "list_directory", "tavily_search"])
+
+    const response = await generateChatCompletionWithTools(
+      [{ role: "user", content: "How many retries?" }],
+      tools,
+      "sk-test",
+      TOOL_CONTEXT
+    )
+
+    assertEquals(response.content, "Retries default to 3.")
+    assertEquals(response.usage.totalTokens, 15 * requests.length)
+    assertEquals(response.toolCallsUsed, 15)
+
+    // Round 1 runs all 9 calls, round 2 runs 5 (list_directory and tavily_search
+    // reach their budgets) and round 3 runs 1, spending the 15 calls per turn
+    assertEquals(requests.map(request => request.tool_choice), ["auto", "auto", "auto", "none"])
+
+    const results = requests[3].messages.filter(message => message.role === "tool")
+    const refused = results.filter(message => message.content?.includes("exhausted"))
+    assertEquals([results.length, refused.length], [27, 12])
+    assertStringIncludes(refused.at(-1)!.content!, "Tool call budget exhausted (15 calls per turn)")
+  } finally {
+    globalThis.fetch = originalFetch
+  }
+})
@@ -0,0 +1,200 @@
+import { assertEquals } from "@std/assert"
+import type { PGlite } from "@electric-sql/pglite"
+import { createTestClient, createTestDatabase } from "../_shared/test_database.ts"
+import { MEMORY_CONFIG } from "./lib/config.ts"
+import { loadConversationContext, selectHistoryWindow } from "./lib/memory.ts"
+import type { ChatMessage, OpenAIChatMessage } from "./lib/types.ts"
+
+/**
+ * Tests for the history window and rolling summary of conversation memory
+ * Sessions live in the test database (see _shared/test_database.ts); the
+ * OpenAI API is replaced by a fake fetch
+ * Run with: deno test --allow-read --allow-env supabase/functions/chat/memory.test.ts
+ */
+
+const BASE_TIME = Date.parse("2024-01-01T00:00:00Z")
+
+// 100 estimated tokens per message: 30 messages fill the 3000 token budget
+const MESSAGE_LENGTH = 400
+
+function messageContent(index: number): string {
+  return `message-${index} `.padEnd(MESSAGE_LENGTH, ".")
+}
+
+function createMessage(index: number): ChatMessage {
+  return {
+    id: `message-${index}`,
+    sessionId: "session",
+    role: index % 2 === 0 ? "user" : "assistant",
+    content: messageContent(index),
+    createdAt: new Date(BASE_TIME + index * 1000).toISOString()
+  }
+}
+
+async function createSession(db: PGlite, messageCount: number): Promise<string> {
+  const repository = await db.query<{ id: string }>(
+    `INSERT INTO repositories (owner, repo, ref, url) VALUES ('o', 'r', 'main', 'https://github.com/o/r') RETURNING id`
+  )
+  const session = await db.query<{ id: string }>(
+    `INSERT INTO chat_sessions (repository_id) VALUES ($1) RETURNING id`,
+    [repository.rows[0].id]
+  )
+  const sessionId = session.rows[0].id
+
+  for (let i = 0; i < messageCount; i++) {
+    const message = createMessage(i)
+    await db.query(
+      `INSERT INTO chat_messages (session_id, role, content, created_at) VALUES ($1, $2, $3, $4)`,
+      [sessionId, message.role, message.content, message.createdAt]
+    )
+  }
+
+  return sessionId
+}
+
+async function getSummaryMarker(db: PGlite, sessionId: string): Promise<{ summary: string | null; until: string | null }> {
+  const { rows } = await db.query<{ summary: string | null; until: string | null }>(
+    `SELECT conversation_summary AS summary, summarized_until::text AS until FROM chat_sessions WHERE id = $1`,
+    [sessionId]
+  )
+  return rows[0]
+}
+
+function timestampOf(index: number): string {
+  return new Date(BASE_TIME + index * 1000).toISOString().replace("T", " ").replace(".000Z", "+00")
+}
+
+/**
+ * Fake a summarizing model that records the messages of every request
+ * Requests after `failAfter` successful ones get an empty summary, which fails them
+ */
+function createFakeFetch(summarized: number[][], failAfter = Infinity): typeof fetch {
+  return (_input: string | URL | Request, init?: RequestInit) => {
+    const { messages }: { messages: OpenAIChatMessage[] } = JSON.parse(init!.body as string)
+    const indexes = [...messages[1].content.matchAll(/message-(\d+)/g)].map(match => Number(match[1]))
+
+    const content = summarized.length < failAfter ? `Summary up to message ${indexes[indexes.length - 1]}` : ""
+    summarized.push(indexes)
+
+    return Promise.resolve(Response.json({
+      id: "chatcmpl-summary",
+      model: "gpt-test",
+      choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+    }))
+  }
+}
+
+function range(start: number, end: number): number[] {
+  return Array.from({ length: end - start }, (_, i) => start + i)
+}
+
+Deno.test("selectHistoryWindow - keeps the newest turns within the token budget", () => {
+  const history = range(0, 10).map(i => createMessage(i))
+
+  const { window, overflow } = selectHistoryWindow(history, 500)
+  assertEquals(window.map(message => message.content), range(6, 10).map(messageContent))
+  assertEquals(overflow.length, 6)
+
+  // The window never opens with an assistant reply whose question was cut off
+  const shifted = selectHistoryWindow(history, 300)
+  assertEquals(shifted.window.map(message => message.content), range(8, 10).map(messageContent))
+  assertEquals(shifted.window[0].role, "user")
+  assertEquals(shifted.overflow.length, 8)
+
+  const everything = selectHistoryWindow(history, MEMORY_CONFIG.historyTokenBudget)
+  assertEquals(everything.window.length, 10)
+  assertEquals(everything.overflow, [])
+})
+
+Deno.test("loadConversationContext - replays at most maxHistoryMessages messages", async () => {
+  const db = await createTestDatabase()
+  const client = createTestClient(db)
+  const summarized: number[][] = []
+  const originalFetch = globalThis.fetch
+  globalThis.fetch = createFakeFetch(summarized)
+
+  try {
+    const sessionId = await createSession(db, MEMORY_CONFIG.maxHistoryMessages + 6)
+    await db.query(`UPDATE chat_messages SET content = left(content, 20)`)
+
+    const context = await loadConversationContext(client, sessionId, "sk-test")
+    assertEquals(context.historyMessageCount, MEMORY_CONFIG.maxHistoryMessages)
+    assertEquals(context.messages[0].content, messageContent(6).substring(0, 20))
+    assertEquals(context.usedSummary, false)
+    assertEquals(summarized, [])
+  } finally {
+    globalThis.fetch = originalFetch
+    await db.close()
+  }
+})
+
+Deno.test("loadConversationContext - pages every unsummarized message into the summary", async () => {
+  const db = await createTestDatabase()
+  const client = createTestClient(db)
+  const summarized: number[][] = []
+  const originalFetch = globalThis.fetch
+  globalThis.fetch = createFakeFetch(summarized)
+
+  try {
+    const sessionId = await createSession(db, 100)
+
+    const context = await loadConversationContext(client, sessionId, "sk-test")
+
+    // Messages 0-59 precede the loaded page of 40 and are paged in 40 + 20,
+    // then 60-69 overflow the 30 messages that fit the budget
+    assertEquals(summarized, [range(0, 40), range(40, 60), range(60, 70)])
+    assertEquals(context.summarizedMessageCount, 70)
+    assertEquals(context.historyMessageCount, 30)
+    assertEquals(context.messages.length, 31)
+    assertEquals(context.messages[0].role, "system")
+    assertEquals(context.messages[1].content, messageContent(70))
+
+    assertEquals(await getSummaryMarker(db, sessionId), { summary: "Summary up to message 69", until: timestampOf(69) })
+
+    // The next turn starts from the marker and only replays the window
+    summarized.length = 0
+    const next = await loadConversationContext(client, sessionId, "sk-test")
+    assertEquals(summarized, [])
+    assertEquals(next.historyMessageCount, 30)
+  } finally {
+    globalThis.fetch = originalFetch
+    await db.close()
+  }
+})
+
+Deno.test("loadConversationContext - moves summarized_until only after a successful summary", async () => {
+  const db = await createTestDatabase()
+  const client = createTestClient(db)
+  const summarized: number[][] = []
+  const originalFetch = globalThis.fetch
+
+  try {
+    const sessionId = await createSession(db, 100)
+
+    // Nothing is marked when the first summary fails
+    globalThis.fetch = createFakeFetch(summarized, 0)
+    const failed = await loadConversationContext(client, sessionId, "sk-test")
+    assertEquals(failed.usedSummary, false)
+    assertEquals(failed.historyMessageCount, 30)
+    assertEquals(await getSummaryMarker(db, sessionId), { summary: null, until: null })
+
+    // The first page is kept when the second one fails
+    summarized.length = 0
+    globalThis.fetch = createFakeFetch(summarized, 1)
+    await loadConversationContext(client, sessionId, "sk-test")
+    assertEquals(summarized, [range(0, 40), range(40, 60)])
+    assertEquals(await getSummaryMarker(db, sessionId), { summary: "Summary up to message 39", until: timestampOf(39) })
+
+    // The next turn resumes after the marker without skipping or repeating messages
+    summarized.length = 0
+    globalThis.fetch = createFakeFetch(summarized)
+    const resumed = await loadConversationContext(client, sessionId, "sk-test")
+    assertEquals(summarized, [range(40, 60), range(60, 70)])
+    assertEquals(resumed.summarizedMessageCount, 30)
+    assertEquals(await getSummaryMarker(db, sessionId), { summary: "Summary up to message 69", until: timestampOf(69) })
+  } finally {
+    globalThis.fetch = originalFetch
+    await db.close()
+  }
+})
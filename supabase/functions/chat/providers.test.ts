@@ -0,0 +1,253 @@
+import { assertEquals } from "@std/assert"
+import type { GitHubClient } from "../_shared/github.ts"
+import { LLM_CONFIG } from "./lib/config.ts"
+import { generateChatCompletionWithTools } from "./lib/llm.ts"
+import { createAnthropicProvider, toAnthropicMessages } from "./lib/providers.ts"
+import { getChatTools, type ToolContext } from "./lib/tools.ts"
+import type { AnthropicMessage, LLMProviderName } from "./lib/types.ts"
+
+/**
+ * Tests for the Anthropic Messages API provider
+ * The Anthropic API is replaced by a fake fetch
+ * Run with: deno test --allow-env supabase/functions/chat/providers.test.ts
+ */
+
+const TOOL_CONTEXT: ToolContext = {
+  repositories: [{ id: "1", owner: "o", repo: "r", ref: "main", url: "https://github.com/o/r" }],
+  github: {
+    request: () => Promise.resolve(new Response("const retries = 3\n"))
+  } as unknown as GitHubClient
+}
+
+interface AnthropicRequest {
+  url: string
+  headers: Record<string, string>
+  body: {
+    system?: string
+    messages: AnthropicMessage[]
+    temperature?: number
+    tools?: Array<{ name: string; input_schema: unknown }>
+    tool_choice?: { type: string }
+    stream?: boolean
+  }
+}
+
+/**
+ * Fake the Anthropic API, answering each request with the next response
+ */
+function createFakeFetch(responses: Response[], requests: AnthropicRequest[]): typeof fetch {
+  return (input: string | URL | Request, init?: RequestInit) => {
+    requests.push({
+      url: input.toString(),
+      headers: init!.headers as Record<string, string>,
+      body: JSON.parse(init!.body as string)
+    })
+    return Promise.resolve(responses.shift()!)
+  }
+}
+
+function messageResponse(content: unknown[], stopReason: string): Response {
+  return Response.json({
+    id: "msg_1",
+    type: "message",
+    role: "assistant",
+    model: "claude-test",
+    content,
+    stop_reason: stopReason,
+    usage: { input_tokens: 10, output_tokens: 5 }
+  })
+}
+
+function eventStreamResponse(events: unknown[]): Response {
+  const frames = events.map(event => `event: ${(event as { type: string }).type}\ndata: ${JSON.stringify(event)}\n\n`)
+  return new Response(frames.join(""), { headers: { "Content-Type": "text/event-stream" } })
+}
+
+/**
+ * Run a test with the chat use case on the Anthropic provider
+ */
+async function withAnthropicChat(run: () => Promise<void>): Promise<void> {
+  const providers = LLM_CONFIG.providers as { chat: LLMProviderName }
+  const originalProvider = providers.chat
+  const originalFetch = globalThis.fetch
+  providers.chat = "anthropic"
+  Deno.env.set("ANTHROPIC_API_KEY", "sk-ant-test")
+
+  try {
+    await run()
+  } finally {
+    providers.chat = originalProvider
+    globalThis.fetch = originalFetch
+    Deno.env.delete("ANTHROPIC_API_KEY")
+  }
+}
+
+Deno.test("toAnthropicMessages - maps tool calls and merges consecutive turns of a role", () => {
+  const { system, messages } = toAnthropicMessages([
+    { role: "system", content: "You answer questions about o/r." },
+    { role: "system", content: "Summary of the conversation so far." },
+    { role: "user", content: "How many retries?" },
+    { role: "user", content: "And the timeout?" },
+    {
+      role: "assistant",
+      content: "Let me check.",
+      tool_calls: [
+        { id: "toolu_1", type: "function", function: { name: "read_file", arguments: "{\"path\":\"index.ts\"}" } },
+        { id: "toolu_2", type: "function", function: { name: "list_directory", arguments: "not json" } }
+      ]
+    },
+    { role: "tool", tool_call_id: "toolu_1", content: "const retries = 3" },
+    { role: "tool", tool_call_id: "toolu_2", content: "index.ts" },
+    { role: "user", content: "" },
+    { role: "assistant", content: "Retries default to 3." }
+  ])
+
+  assertEquals(system, "You answer questions about o/r.\n\nSummary of the conversation so far.")
+  assertEquals(messages, [
+    {
+      role: "user",
+      content: [{ type: "text", text: "How many retries?" }, { type: "text", text: "And the timeout?" }]
+    },
+    {
+      role: "assistant",
+      content: [
+        { type: "text", text: "Let me check." },
+        { type: "tool_use", id: "toolu_1", name: "read_file", input: { path: "index.ts" } },
+        { type: "tool_use", id: "toolu_2", name: "list_directory", input: {} }
+      ]
+    },
+    {
+      // Tool results of one round form a single user turn; empty messages are dropped
+      role: "user",
+      content: [
+        { type: "tool_result", tool_use_id: "toolu_1", content: "const retries = 3" },
+        { type: "tool_result", tool_use_id: "toolu_2", content: "index.ts" }
+      ]
+    },
+    { role: "assistant", content: [{ type: "text", text: "Retries default to 3." }] }
+  ])
+})
+
+Deno.test("generateChatCompletionWithTools - runs tool calls through the Anthropic API", async () => {
+  const requests: AnthropicRequest[] = []
+
+  await withAnthropicChat(async () => {
+    globalThis.fetch = createFakeFetch([
+      messageResponse([
+        { type: "text", text: "Let me check the client." },
+        { type: "tool_use", id: "toolu_1", name: "read_file", input: { path: "index.ts" } }
+      ], "tool_use"),
+      messageResponse([{ type: "text", text: "Retries default to 3." }], "end_turn")
+    ], requests)
+
+    const tools = getChatTools(TOOL_CONTEXT)
+    const response = await generateChatCompletionWithTools(
+      [{ role: "system", content: "You answer questions about o/r." }, { role: "user", content: "How many retries?" }],
+      tools,
+      "sk-test",
+      TOOL_CONTEXT
+    )
+
+    assertEquals(response.content, "Retries default to 3.")
+    assertEquals(response.finishReason, "stop")
+    assertEquals(response.toolCallsUsed, 1)
+    assertEquals(response.usage, { promptTokens: 20, completionTokens: 10, totalTokens: 30 })
+
+    assertEquals(requests.length, 2)
+    assertEquals(requests[0].url, "https://api.anthropic.com/v1/messages")
+    assertEquals(requests[0].headers["x-api-key"], "sk-ant-test")
+    assertEquals(requests[0].body.system, "You answer questions about o/r.")
+    assertEquals(requests[0].body.tool_choice, { type: "auto" })
+    assertEquals(requests[0].body.tools!.map(tool => tool.name), tools.map(tool => tool.function.name))
+    assertEquals(requests[0].body.tools![0].input_schema, tools[0].function.parameters)
+
+    // The tool call and its result are replayed as tool_use and tool_result blocks
+    const [, assistant, toolResults] = requests[1].body.messages
+    assertEquals(assistant, {
+      role: "assistant",
+      content: [
+        { type: "text", text: "Let me check the client." },
+        { type: "tool_use", id: "toolu_1", name: "read_file", input: { path: "index.ts" } }
+      ]
+    })
+    const [result] = toolResults.content as Array<{ type: string; tool_use_id: string; content: string }>
+    assertEquals([toolResults.role, result.type, result.tool_use_id], ["user", "tool_result", "toolu_1"])
+    assertEquals(result.content.includes("const retries = 3"), true)
+  })
+})
+
+Deno.test("generateChatCompletionWithTools - streams tool input fragments from the Anthropic API", async () => {
+  const requests: AnthropicRequest[] = []
+
+  await withAnthropicChat(async () => {
+    globalThis.fetch = createFakeFetch([
+      eventStreamResponse([
+        { type: "message_start", message: { model: "claude-test", usage: { input_tokens: 10, output_tokens: 1 } } },
+        { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Let me check." } },
+        { type: "content_block_start", index: 1, content_block: { type: "tool_use", id: "toolu_1", name: "read_file", input: {} } },
+        { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: "{\"path\":" } },
+        { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: "\"index.ts\"}" } },
+        { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 5 } },
+        { type: "message_stop" }
+      ]),
+      eventStreamResponse([
+        { type: "message_start", message: { model: "claude-test", usage: { input_tokens: 20, output_tokens: 1 } } },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Retries default to 3." } },
+        { type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 5 } },
+        { type: "message_stop" }
+      ])
+    ], requests)
+
+    const deltas: string[] = []
+    const toolCalls: string[] = []
+    const response = await generateChatCompletionWithTools(
+      [{ role: "user", content: "How many retries?" }],
+      getChatTools(TOOL_CONTEXT),
+      "sk-test",
+      TOOL_CONTEXT,
+      "chat",
+      {
+        onDelta: delta => deltas.push(delta),
+        onToolCall: toolCall => toolCalls.push(`${toolCall.function.name} ${toolCall.function.arguments}`)
+      }
+    )
+
+    assertEquals(requests[0].body.stream, true)
+    assertEquals(toolCalls, ["read_file {\"path\":\"index.ts\"}"])
+    assertEquals(deltas, ["Let me check.", "\n\nRetries default to 3."])
+    assertEquals(response.content, "Let me check.\n\nRetries default to 3.")
+    assertEquals(response.usage, { promptTokens: 30, completionTokens: 10, totalTokens: 40 })
+  })
+})
+
+Deno.test("createAnthropicProvider - prefills the brace of JSON responses and maps tool_choice none", async () => {
+  const requests: AnthropicRequest[] = []
+  const originalFetch = globalThis.fetch
+  globalThis.fetch = createFakeFetch([messageResponse([{ type: "text", text: "\"summary\":\"Retries\"}" }], "end_turn")], requests)
+
+  try {
+    const provider = createAnthropicProvider("sk-ant-test")
+    const response = await provider.complete(
+      [{ role: "system", content: "Summarize the conversation." }, { role: "user", content: "How many retries?" }],
+      {
+        model: "claude-test",
+        temperature: 1.5,
+        maxTokens: 100,
+        responseFormat: "json_object",
+        tools: getChatTools(TOOL_CONTEXT),
+        toolChoice: "none"
+      }
+    )
+
+    assertEquals(JSON.parse(response.content!), { summary: "Retries" })
+
+    const { body } = requests[0]
+    assertEquals(body.system, "Summarize the conversation.\n\nRespond with a single valid JSON object and nothing else.")
+    assertEquals(body.messages.at(-1), { role: "assistant", content: "{" })
+    assertEquals(body.tool_choice, { type: "none" })
+    assertEquals(body.temperature, 1)
+  } finally {
+    globalThis.fetch = originalFetch
+  }
+})
@@ -0,0 +1,85 @@
+import { assertEquals } from "@std/assert"
+import type { PGlite } from "@electric-sql/pglite"
+import { hashEmbedding } from "../_shared/hash_embedding.ts"
+import { createTestClient, createTestDatabase, toVector } from "../_shared/test_database.ts"
+import { isContextSufficient, retrieveContext } from "./lib/rag.ts"
+
+/**
+ * Tests for retrieval against the search functions of the migrations
+ * The migrations run in PGlite with pgvector (see _shared/test_database.ts)
+ * Run with: deno test --allow-read --allow-env supabase/functions/chat/rag.test.ts
+ */
+
+const HASH_MODEL = "feature-hash-v1"
+const OPENAI_MODEL = "text-embedding-3-small"
+
+async function insertChunk(db: PGlite, repositoryId: string, url: string, text: string): Promise<string> {
+  const document = await db.query<{ id: string }>(
+    `INSERT INTO documents (repository_id, url, content, source_type) VALUES ($1, $2, $3, 'documentation') RETURNING id`,
+    [repositoryId, url, text]
+  )
+  const chunk = await db.query<{ id: string }>(
+    `INSERT INTO document_chunks (document_id, repository_id, chunk_text, chunk_index) VALUES ($1, $2, $3, 0) RETURNING id`,
+    [document.rows[0].id, repositoryId, text]
+  )
+  await db.query(
+    `INSERT INTO embeddings (chunk_id, repository_id, embedding, model) VALUES ($1, $2, $3, $4)`,
+    [chunk.rows[0].id, repositoryId, toVector(hashEmbedding(text, 384)), HASH_MODEL]
+  )
+  return chunk.rows[0].id
+}
+
+Deno.test("retrieveContext - search functions of the migrations", async (t) => {
+  const db = await createTestDatabase()
+  const client = createTestClient(db)
+
+  const repository = await db.query<{ id: string }>(
+    `INSERT INTO repositories (owner, repo, ref, url, embedding_provider, embedding_model, embedding_dimensions)
+     VALUES ('o', 'r', 'main', 'https://github.com/o/r', 'hash', $1, 384) RETURNING id`,
+    [HASH_MODEL]
+  )
+  const repositoryId = repository.rows[0].id
+  const retries = await insertChunk(db, repositoryId, "https://example.com/retries", "Configure retries with the retryPolicy client option")
+  await insertChunk(db, repositoryId, "https://example.com/install", "Install the package with npm and import the client")
+
+  // An embedding of another model and dimension for the same chunk
+  await db.query(
+    `INSERT INTO embeddings (chunk_id, repository_id, embedding, model) VALUES ($1, $2, $3, $4)`,
+    [retries, repositoryId, toVector(new Array(1536).fill(0).map((_, i) => i === 0 ? 1 : 0)), OPENAI_MODEL]
+  )
+
+  const queryEmbedding = hashEmbedding("configure retries", 384)
+
+  await t.step("vector mode", async () => {
+    const sources = await retrieveContext(client, queryEmbedding, "o", "r", "main", { retrievalMode: "vector", matchThreshold: 0.1 }, undefined, 5, HASH_MODEL)
+    assertEquals(sources.map(source => source.documentUrl), ["https://example.com/retries"])
+    assertEquals(sources[0].repository, "o/r@main")
+  })
+
+  await t.step("hybrid mode", async () => {
+    const sources = await retrieveContext(client, queryEmbedding, "o", "r", "main", { retrievalMode: "hybrid", matchThreshold: 0.1 }, "retryPolicy", 5, HASH_MODEL)
+    assertEquals(sources.map(source => source.chunkId), [retries])
+    assertEquals(sources[0].fusionScore! > 0, true)
+  })
+
+  await t.step("keyword-only hits are sufficient context", async () => {
+    const unrelated = hashEmbedding("unrelated words", 384)
+    const sources = await retrieveContext(client, unrelated, "o", "r", "main", { retrievalMode: "hybrid", matchThreshold: 0.5 }, "retryPolicy", 5, HASH_MODEL)
+    assertEquals(sources.map(source => [source.chunkId, source.keywordRank]), [[retries, 1]])
+    assertEquals(sources[0].similarity < 0.5, true)
+
+    assertEquals(isContextSufficient(sources, "hybrid"), true)
+    assertEquals(isContextSufficient(sources, "vector"), false)
+  })
+
+  await t.step("embeddings of other models are not compared", async () => {
+    const openaiQuery = new Array(1536).fill(0).map((_, i) => i === 0 ? 1 : 0)
+    const matching = await retrieveContext(client, openaiQuery, "o", "r", "main", { retrievalMode: "vector", matchThreshold: 0.5 }, undefined, 5, OPENAI_MODEL)
+    assertEquals(matching.map(source => source.chunkId), [retries])
+
+    const otherModel = await retrieveContext(client, openaiQuery, "o", "r", "main", { retrievalMode: "vector", matchThreshold: 0.5 }, undefined, 5, HASH_MODEL)
+    assertEquals(otherModel, [])
+  })
+
+  await db.close()
+})
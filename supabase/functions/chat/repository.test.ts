@@ -0,0 +1,120 @@
+import { assertEquals, assertRejects } from "@std/assert"
+import type { GitHubClient } from "../_shared/github.ts"
+import { TOOL_CONFIG } from "./lib/config.ts"
+import { normalizeRepositoryPath, parseLineRange, readRepositoryFile } from "./lib/repository.ts"
+import type { RepositoryInfo } from "./lib/types.ts"
+
+/**
+ * Tests for the read_file tool's path and line range handling
+ * GitHub is replaced by a fake client serving one file
+ * Run with: deno test supabase/functions/chat/repository.test.ts
+ */
+
+const REPOSITORY: RepositoryInfo = { id: "1", owner: "o", repo: "r", ref: "release/v2", url: "https://github.com/o/r" }
+
+// 1000 lines: "line 1" to "line 1000"
+const FILE = Array.from({ length: 1000 }, (_, i) => `line ${i + 1}`).join("\n") + "\n"
+
+/**
+ * Fake a GitHub client answering every request with the given response
+ */
+function createFakeGitHub(response: () => Response, requests: string[] = []): GitHubClient {
+  return {
+    request(path: string) {
+      requests.push(path)
+      return Promise.resolve(response())
+    }
+  } as unknown as GitHubClient
+}
+
+/**
+ * Returns the header line and the first and last numbered lines of a read
+ */
+function summarize(result: string): string[] {
+  const [header, , ...lines] = result.split("\n")
+  return [header, lines[0], lines[lines.length - 1]]
+}
+
+Deno.test("normalizeRepositoryPath - normalizes separators and rejects paths outside the repository", () => {
+  assertEquals(normalizeRepositoryPath("./src//index.ts"), "src/index.ts")
+  assertEquals(normalizeRepositoryPath(" src\\lib\\client.ts "), "src/lib/client.ts")
+  assertEquals(normalizeRepositoryPath("/"), "")
+
+  assertEquals(normalizeRepositoryPath("../secrets.env"), null)
+  assertEquals(normalizeRepositoryPath("src/../../secrets.env"), null)
+  assertEquals(normalizeRepositoryPath("src\\..\\index.ts"), null)
+})
+
+Deno.test("parseLineRange - accepts single lines, open and L-prefixed ranges", () => {
+  assertEquals(parseLineRange(undefined), { start: 1 })
+  assertEquals(parseLineRange("  "), { start: 1 })
+  assertEquals(parseLineRange("40"), { start: 40, end: 40 })
+  assertEquals(parseLineRange("40-80"), { start: 40, end: 80 })
+  assertEquals(parseLineRange("L40-L80"), { start: 40, end: 80 })
+  assertEquals(parseLineRange("40 - 80"), { start: 40, end: 80 })
+
+  // An open range reads to the end of the file
+  const open = parseLineRange("40-")
+  assertEquals([open?.start, open?.end], [40, undefined])
+
+  assertEquals(parseLineRange("0-5"), { start: 1, end: 5 })
+  assertEquals(parseLineRange("80-40"), null)
+  assertEquals(parseLineRange("lines 40 to 80"), null)
+})
+
+Deno.test("readRepositoryFile - reads line ranges up to the line cap", async () => {
+  const requests: string[] = []
+  const github = createFakeGitHub(() => new Response(FILE), requests)
+
+  assertEquals(summarize(await readRepositoryFile(github, REPOSITORY, "./src/index.ts", "L40-L80")), [
+    "o/r@release/v2:src/index.ts lines 40-80 of 1000 (request lines \"81-\" to continue)",
+    "40 | line 40",
+    "80 | line 80"
+  ])
+  assertEquals(requests[0], "https://raw.githubusercontent.com/o/r/release%2Fv2/src/index.ts")
+
+  // Without a range the first readFileDefaultLines lines are read
+  assertEquals(summarize(await readRepositoryFile(github, REPOSITORY, "src/index.ts")), [
+    `o/r@release/v2:src/index.ts lines 1-${TOOL_CONFIG.readFileDefaultLines} of 1000 (request lines "${TOOL_CONFIG.readFileDefaultLines + 1}-" to continue)`,
+    "  1 | line 1",
+    `${TOOL_CONFIG.readFileDefaultLines} | line ${TOOL_CONFIG.readFileDefaultLines}`
+  ])
+
+  // Open and long ranges stop at readFileMaxLines
+  const end = 40 + TOOL_CONFIG.readFileMaxLines - 1
+  assertEquals(summarize(await readRepositoryFile(github, REPOSITORY, "src/index.ts", "40-")), [
+    `o/r@release/v2:src/index.ts lines 40-${end} of 1000 (request lines "${end + 1}-" to continue)`,
+    " 40 | line 40",
+    `${end} | line ${end}`
+  ])
+  assertEquals(summarize(await readRepositoryFile(github, REPOSITORY, "src/index.ts", "1-1000"))[0].includes(`lines 1-${TOOL_CONFIG.readFileMaxLines} of 1000`), true)
+
+  // A range past the end reads the last line
+  assertEquals(summarize(await readRepositoryFile(github, REPOSITORY, "src/index.ts", "990-2000")), [
+    "o/r@release/v2:src/index.ts lines 990-1000 of 1000",
+    " 990 | line 990",
+    "1000 | line 1000"
+  ])
+})
+
+Deno.test("readRepositoryFile - rejects invalid paths and ranges without asking GitHub", async () => {
+  const requests: string[] = []
+  const github = createFakeGitHub(() => new Response(FILE), requests)
+
+  await assertRejects(() => readRepositoryFile(github, REPOSITORY, "../.env"), Error, "Invalid path")
+  await assertRejects(() => readRepositoryFile(github, REPOSITORY, "src/index.ts", "80-40"), Error, "Invalid line range")
+  assertEquals(requests, [])
+})
+
+Deno.test("readRepositoryFile - refuses binary, too large and missing files", async () => {
+  const binary = createFakeGitHub(() => new Response("PNG\u0000\u0001"))
+  await assertRejects(() => readRepositoryFile(binary, REPOSITORY, "logo.png"), Error, "logo.png is a binary file")
+
+  const large = createFakeGitHub(() => new Response("x", {
+    headers: { "Content-Length": String(TOOL_CONFIG.readFileMaxSize + 1) }
+  }))
+  await assertRejects(() => readRepositoryFile(large, REPOSITORY, "dist/bundle.js"), Error, "dist/bundle.js is too large to read")
+
+  const missing = createFakeGitHub(() => new Response("Not Found", { status: 404 }))
+  await assertRejects(() => readRepositoryFile(missing, REPOSITORY, "src/missing.ts"), Error, "File not found: src/missing.ts")
+})
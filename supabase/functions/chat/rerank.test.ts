@@ -0,0 +1,116 @@
+import { assertAlmostEquals, assertEquals } from "@std/assert"
+import { RERANK_CONFIG } from "./lib/config.ts"
+import { lexicalScores, rerankSources, selectWithMMR } from "./lib/rerank.ts"
+import type { RAGSource } from "./lib/types.ts"
+
+/**
+ * Tests for the lexical scorer, the LLM judge and MMR selection
+ * The OpenAI API is replaced by a fake fetch
+ * Run with: deno test --allow-env supabase/functions/chat/rerank.test.ts
+ */
+
+function createSource(chunkId: string, chunkText: string, documentUrl: string, similarity: number, rerankScore?: number): RAGSource {
+  return { chunkId, chunkText, documentUrl, similarity, rerankScore }
+}
+
+const CANDIDATES: RAGSource[] = [
+  createSource("install", "Install the package with npm install", "https://example.com/install", 0.8),
+  createSource("retries", "Configure retries with the retryPolicy option", "https://example.com/retries", 0.6),
+  createSource("timeouts", "Set request timeouts on the client", "https://example.com/timeouts", 0.7)
+]
+
+/**
+ * Fake a relevance judge answering with the given message content
+ */
+function createJudgeFetch(content: string, requests: string[]): typeof fetch {
+  return (_input: string | URL | Request, init?: RequestInit) => {
+    requests.push(init!.body as string)
+    return Promise.resolve(Response.json({
+      id: "chatcmpl-rerank",
+      model: "gpt-test",
+      choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+    }))
+  }
+}
+
+Deno.test("lexicalScores - blends BM25 term matches with retrieval similarity", () => {
+  const scores = lexicalScores("retryPolicy retries", CANDIDATES)
+
+  // Only the retries chunk matches: it gets the full lexical weight
+  assertAlmostEquals(scores[1], RERANK_CONFIG.lexicalWeight + (1 - RERANK_CONFIG.lexicalWeight) * 0.6)
+  assertAlmostEquals(scores[0], (1 - RERANK_CONFIG.lexicalWeight) * 0.8)
+  assertEquals(scores[1] > scores[0] && scores[1] > scores[2], true)
+
+  // Without query terms the retrieval similarity is kept
+  assertEquals(lexicalScores("?!", CANDIDATES), [0.8, 0.6, 0.7])
+})
+
+Deno.test("selectWithMMR - demotes chunks of an already selected page", () => {
+  const sources = [
+    createSource("a", "Authentication with API keys", "https://example.com/auth", 0.9, 0.9),
+    createSource("b", "Rotating credentials regularly", "https://example.com/auth", 0.85, 0.85),
+    createSource("c", "Pagination of list endpoints", "https://example.com/pagination", 0.7, 0.7)
+  ]
+
+  // b shares no words with a but comes from the same page, so c is picked first
+  assertEquals(selectWithMMR(sources, 3).map(source => source.chunkId), ["a", "c", "b"])
+  assertEquals(selectWithMMR(sources, 2).map(source => source.chunkId), ["a", "c"])
+
+  // Pure relevance ignores the page
+  assertEquals(selectWithMMR(sources, 3, 1).map(source => source.chunkId), ["a", "b", "c"])
+
+  // Near-duplicate text from another page is demoted as well
+  const duplicates = [
+    createSource("a", "Authentication with API keys", "https://example.com/auth", 0.9, 0.9),
+    createSource("copy", "Authentication with API keys", "https://mirror.example.com/auth", 0.88, 0.88),
+    createSource("c", "Pagination of list endpoints", "https://example.com/pagination", 0.7, 0.7)
+  ]
+  assertEquals(selectWithMMR(duplicates, 2).map(source => source.chunkId), ["a", "c"])
+})
+
+Deno.test("rerankSources - scores with the LLM judge and keeps a neutral score for unscored ids", async () => {
+  const requests: string[] = []
+  const originalFetch = globalThis.fetch
+  globalThis.fetch = createJudgeFetch(
+    JSON.stringify({ scores: [{ id: 1, score: 9 }, { id: 2, score: 14 }, { id: 7, score: 10 }, { id: "0", score: 1 }] }),
+    requests
+  )
+
+  try {
+    const selected = await rerankSources("How do I configure retries?", CANDIDATES, 3, "sk-test")
+    assertEquals(requests.length, 1)
+
+    const scores = Object.fromEntries(selected.map(source => [source.chunkId, source.rerankScore]))
+    // Out-of-range and non-numeric ids are ignored, scores are clamped to 0-10
+    assertEquals(scores, { install: 0.5, retries: 0.9, timeouts: 1 })
+    assertEquals(selected[0].chunkId, "timeouts")
+  } finally {
+    globalThis.fetch = originalFetch
+  }
+})
+
+Deno.test("rerankSources - falls back to the lexical scorer when the LLM judge fails", async () => {
+  const requests: string[] = []
+  const originalFetch = globalThis.fetch
+  globalThis.fetch = createJudgeFetch("not json", requests)
+
+  try {
+    const query = "retryPolicy retries"
+    const expected = lexicalScores(query, CANDIDATES)
+
+    const selected = await rerankSources(query, CANDIDATES, 3, "sk-test")
+    assertEquals(requests.length, 1)
+    assertEquals(selected[0].chunkId, "retries")
+    for (const source of selected) {
+      assertEquals(source.rerankScore, expected[CANDIDATES.findIndex(candidate => candidate.chunkId === source.chunkId)])
+    }
+
+    // Without an API key the judge is not called at all
+    const lexical = await rerankSources(query, CANDIDATES, 1)
+    assertEquals(requests.length, 1)
+    assertEquals(lexical.map(source => source.chunkId), ["retries"])
+  } finally {
+    globalThis.fetch = originalFetch
+  }
+})
@@ -0,0 +1,113 @@
+import { assertEquals } from "@std/assert"
+import type { PGlite } from "@electric-sql/pglite"
+import { createTestClient, createTestDatabase } from "../_shared/test_database.ts"
+import {
+  createChatSession,
+  deleteChatSession,
+  findCallerSession,
+  getChatHistory,
+  storeChatMessage
+} from "./lib/storage.ts"
+
+/**
+ * Tests for session ownership
+ * findCallerSession decides which sessions the chat function serves; the row
+ * level security policies of the migrations are checked with clients that run
+ * as a signed-in user (see _shared/test_database.ts)
+ * Run with: deno test --allow-read --allow-env supabase/functions/chat/sessions.test.ts
+ */
+
+const OWNER = "00000000-0000-0000-0000-000000000001"
+const OTHER_USER = "00000000-0000-0000-0000-000000000002"
+
+async function createRepository(db: PGlite, repo: string, isPrivate: boolean): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(
+    `INSERT INTO repositories (owner, repo, ref, url, is_private) VALUES ('o', $1, 'main', $2, $3) RETURNING id`,
+    [repo, `https://github.com/o/${repo}`, isPrivate]
+  )
+  return rows[0].id
+}
+
+async function createUsers(db: PGlite): Promise<void> {
+  await db.query(`INSERT INTO auth.users (id) VALUES ($1), ($2)`, [OWNER, OTHER_USER])
+}
+
+Deno.test("findCallerSession - serves sessions to their owner only", async () => {
+  const db = await createTestDatabase()
+  const client = createTestClient(db)
+
+  try {
+    await createUsers(db)
+    const repositoryId = await createRepository(db, "r", false)
+    const session = await createChatSession(client, [repositoryId], OWNER)
+
+    assertEquals((await findCallerSession(client, session.id, OWNER))?.sessionId, session.id)
+    assertEquals((await findCallerSession(client, session.id, OWNER, true))?.sessionId, session.id)
+    assertEquals(await findCallerSession(client, session.id, OTHER_USER), null)
+    assertEquals(await findCallerSession(client, session.id, null), null)
+    assertEquals(await findCallerSession(client, crypto.randomUUID(), OWNER), null)
+  } finally {
+    await db.close()
+  }
+})
+
+Deno.test("findCallerSession - sessions without an owner can't be read back or deleted", async () => {
+  const db = await createTestDatabase()
+  const client = createTestClient(db)
+
+  try {
+    await createUsers(db)
+    const session = await createChatSession(client, [await createRepository(db, "public", false)], null)
+
+    // Messages and summaries only need the id
+    assertEquals((await findCallerSession(client, session.id, null))?.sessionId, session.id)
+    assertEquals((await findCallerSession(client, session.id, OTHER_USER))?.sessionId, session.id)
+
+    // History and delete_session require the signed-in owner
+    assertEquals(await findCallerSession(client, session.id, null, true), null)
+    assertEquals(await findCallerSession(client, session.id, OTHER_USER, true), null)
+
+    // Sessions without an owner never serve a private repository
+    const privateSession = await createChatSession(client, [await createRepository(db, "private", true)], null)
+    assertEquals(await findCallerSession(client, privateSession.id, null), null)
+  } finally {
+    await db.close()
+  }
+})
+
+Deno.test("row level security - users read and delete only their own sessions", async () => {
+  const db = await createTestDatabase()
+  const client = createTestClient(db)
+  const ownerClient = createTestClient(db, { userId: OWNER })
+  const otherClient = createTestClient(db, { userId: OTHER_USER })
+
+  try {
+    await createUsers(db)
+    const repositoryId = await createRepository(db, "r", true)
+    const session = await createChatSession(client, [repositoryId], OWNER)
+    const unowned = await createChatSession(client, [await createRepository(db, "public", false)], null)
+    await storeChatMessage(client, session.id, "user", "How many retries?")
+    await storeChatMessage(client, unowned.id, "user", "What is the timeout?")
+
+    const { data: ownerSessions } = await ownerClient.from("chat_sessions").select("id")
+    assertEquals(ownerSessions, [{ id: session.id }])
+    assertEquals((await getChatHistory(ownerClient, session.id)).map(message => message.content), ["How many retries?"])
+
+    const { data: otherSessions } = await otherClient.from("chat_sessions").select("id")
+    assertEquals(otherSessions, [])
+    assertEquals(await getChatHistory(otherClient, session.id), [])
+    assertEquals(await getChatHistory(otherClient, unowned.id), [])
+
+    // Deleting another user's session matches no rows
+    await deleteChatSession(otherClient, session.id)
+    await deleteChatSession(otherClient, unowned.id)
+    const { rows } = await db.query<{ count: number }>(`SELECT count(*)::int AS count FROM chat_sessions`)
+    assertEquals(rows[0].count, 2)
+
+    await deleteChatSession(ownerClient, session.id)
+    const { data: remaining } = await client.from("chat_sessions").select("id")
+    assertEquals(remaining, [{ id: unowned.id }])
+  } finally {
+    await db.close()
+  }
+})
@@ -0,0 +1,113 @@
+import { assertEquals } from "@std/assert"
+import type { GitHubClient } from "../_shared/github.ts"
+import { generateChatCompletionWithTools } from "./lib/llm.ts"
+import { createEventStreamResponse, createStreamHandlers } from "./lib/stream.ts"
+import { getChatTools, type ToolContext } from "./lib/tools.ts"
+
+/**
+ * Tests for the server-sent events of a streamed message
+ * The OpenAI streaming API is replaced by a fake fetch
+ * Run with: deno test --allow-env supabase/functions/chat/stream.test.ts
+ */
+
+const TOOL_CONTEXT: ToolContext = {
+  repositories: [{ id: "1", owner: "o", repo: "r", ref: "main", url: "https://github.com/o/r" }],
+  github: {
+    request: () => Promise.resolve(new Response("const retries = 3\n"))
+  } as unknown as GitHubClient
+}
+
+/**
+ * Format OpenAI stream chunks as a server-sent events response
+ */
+function streamResponse(chunks: unknown[]): Response {
+  const frames = chunks.map(chunk => `data: ${JSON.stringify({ id: "chatcmpl-1", model: "gpt-test", ...chunk as object })}\n\n`)
+  return new Response(frames.join("") + "data: [DONE]\n\n", { headers: { "Content-Type": "text/event-stream" } })
+}
+
+/**
+ * Fake a model that explains itself, reads a file, then answers
+ */
+function createFakeFetch(): typeof fetch {
+  let round = 0
+
+  return () => {
+    round++
+    if (round === 1) {
+      return Promise.resolve(streamResponse([
+        { choices: [{ index: 0, delta: { role: "assistant", content: "Let me check the client." } }] },
+        {
+          choices: [{
+            index: 0,
+            delta: { tool_calls: [{ index: 0, id: "call_1", type: "function", function: { name: "read_file", arguments: "{\"path\":\"index.ts\"}" } }] },
+            finish_reason: "tool_calls"
+          }]
+        },
+        { choices: [], usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } }
+      ]))
+    }
+
+    return Promise.resolve(streamResponse([
+      { choices: [{ index: 0, delta: { role: "assistant", content: "Retries default " } }] },
+      { choices: [{ index: 0, delta: { content: "to 3." }, finish_reason: "stop" }] },
+      { choices: [], usage: { prompt_tokens: 20, completion_tokens: 5, total_tokens: 25 } }
+    ]))
+  }
+}
+
+async function readEvents(response: Response): Promise<{ event: string; data: Record<string, unknown> }[]> {
+  const text = await response.text()
+  return text.split("\n\n").filter(frame => frame).map(frame => {
+    const [eventLine, dataLine] = frame.split("\n")
+    return { event: eventLine.slice("event: ".length), data: JSON.parse(dataLine.slice("data: ".length)) }
+  })
+}
+
+Deno.test("createEventStreamResponse - sends sources, deltas and tool events, then done", async () => {
+  const originalFetch = globalThis.fetch
+  globalThis.fetch = createFakeFetch()
+
+  try {
+    let stored: string | null = null
+    const response = createEventStreamResponse(async (send) => {
+      send("sources", { sources: [], usedRagContext: false, usedFallback: true })
+
+      const llmResponse = await generateChatCompletionWithTools(
+        [{ role: "user", content: "How many retries?" }],
+        getChatTools(TOOL_CONTEXT),
+        "sk-test",
+        TOOL_CONTEXT,
+        "chat",
+        createStreamHandlers(send)
+      )
+      stored = llmResponse.content
+
+      send("done", { messageId: "message-1", usage: llmResponse.usage })
+    })
+    assertEquals(response.headers.get("Content-Type"), "text/event-stream")
+
+    const events = await readEvents(response)
+    assertEquals(events.map(event => event.event), ["sources", "delta", "tool_call", "tool_result", "delta", "delta", "done"])
+    assertEquals(events[2].data, { id: "call_1", name: "read_file", arguments: "{\"path\":\"index.ts\"}" })
+    assertEquals(events[3].data, { id: "call_1", name: "read_file", success: true })
+    assertEquals(events[6].data.usage, { promptTokens: 30, completionTokens: 10, totalTokens: 40 })
+
+    // The stored answer is exactly the streamed text, including the text before the tool call
+    const streamed = events.filter(event => event.event === "delta").map(event => event.data.content).join("")
+    assertEquals(streamed, "Let me check the client.\n\nRetries default to 3.")
+    assertEquals(stored, streamed)
+  } finally {
+    globalThis.fetch = originalFetch
+  }
+})
+
+Deno.test("createEventStreamResponse - reports a failed turn as an error event", async () => {
+  const response = createEventStreamResponse((send) => {
+    send("sources", { sources: [] })
+    return Promise.reject(new Error("Session not found"))
+  })
+
+  const events = await readEvents(response)
+  assertEquals(events.map(event => event.event), ["sources", "error"])
+  assertEquals(events[1].data, { error: "internal_error", message: "Session not found" })
+})
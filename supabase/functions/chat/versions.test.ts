@@ -0,0 +1,71 @@
+import { assertEquals } from "@std/assert"
+import type { RepositoryInfo } from "./lib/types.ts"
+import { compareVersions, findMentionedRefs, normalizeVersion, selectVersions } from "./lib/versions.ts"
+
+/**
+ * Tests for selecting the versions a message is answered from
+ * Run with: deno test supabase/functions/chat/versions.test.ts
+ */
+
+function repository(repo: string, ref: string): RepositoryInfo {
+  return { id: `${repo}@${ref}`, owner: "o", repo, ref, url: `https://github.com/o/${repo}` }
+}
+
+Deno.test("compareVersions - compares numeric segments and sorts pre-releases first", () => {
+  assertEquals(normalizeVersion("refs/tags/V1.2.0"), "1.2.0")
+  assertEquals(compareVersions("v2.10.0", "v2.9.1") > 0, true)
+  assertEquals(compareVersions("1.0", "v1.0.0"), 0)
+
+  assertEquals(compareVersions("v3.0.0-rc.1", "v3.0.0") < 0, true)
+  assertEquals(compareVersions("v3.0.0", "v3.0.0-rc.1") > 0, true)
+  assertEquals(compareVersions("v3.0.0-rc.2", "v3.0.0-rc.10") < 0, true)
+
+  const sorted = ["v3.0.0", "v2.10.0", "v3.0.0-rc.1", "v2.9.1"].sort(compareVersions)
+  assertEquals(sorted, ["v2.9.1", "v2.10.0", "v3.0.0-rc.1", "v3.0.0"])
+})
+
+Deno.test("findMentionedRefs - resolves exact and partial version mentions", () => {
+  const refs = ["main", "v1.9.0", "v2.0.0", "v2.10.0", "v2.3.1", "v3.0.0-rc.1", "v3.0.0"]
+
+  // A partial version selects the latest matching ref, numerically
+  assertEquals(findMentionedRefs("How do retries work in v2?", refs), ["v2.10.0"])
+  assertEquals(findMentionedRefs("Is this fixed in 3?", refs), ["v3.0.0"])
+
+  // Exact mentions match with or without the v prefix; refs keep session order
+  assertEquals(findMentionedRefs("Compare 2.3.1 with V1.9.0", refs), ["v1.9.0", "v2.3.1"])
+  assertEquals(findMentionedRefs("What is new in v3.0.0-rc.1?", refs), ["v3.0.0-rc.1"])
+
+  // Branch names and unknown versions are not matched
+  assertEquals(findMentionedRefs("Does main support v4?", refs), [])
+})
+
+Deno.test("selectVersions - targets one repository group and keeps the default of the others", () => {
+  const repositories = [
+    repository("sdk", "v1.0.0"),
+    repository("sdk", "v2.0.0"),
+    repository("docs", "main"),
+    repository("docs", "next")
+  ]
+
+  const mentioned = selectVersions(repositories, "How do I configure retries in v2?")
+  assertEquals(mentioned.versions, ["v2.0.0"])
+  assertEquals(mentioned.repositories.map(r => r.id), ["sdk@v2.0.0", "docs@main"])
+  assertEquals(mentioned.missing, [])
+
+  // Without a mention every group searches its first attached ref
+  const unversioned = selectVersions(repositories, "How do I configure retries?")
+  assertEquals(unversioned.versions, [])
+  assertEquals(unversioned.repositories.map(r => r.id), ["sdk@v1.0.0", "docs@main"])
+})
+
+Deno.test("selectVersions - requestedRefs take precedence over mentions and report missing refs", () => {
+  const repositories = [repository("sdk", "v1.0.0"), repository("sdk", "v2.0.0"), repository("docs", "main"), repository("docs", "next")]
+
+  const selection = selectVersions(repositories, "What changed in v2?", ["1.0.0", "next", "v9.0.0"])
+  assertEquals(selection.versions, ["v1.0.0", "next"])
+  assertEquals(selection.repositories.map(r => r.id), ["sdk@v1.0.0", "docs@next"])
+  assertEquals(selection.missing, ["v9.0.0"])
+
+  // An empty list falls back to the mentions
+  assertEquals(selectVersions(repositories, "What changed in v2?", []).versions, ["v2.0.0"])
+})
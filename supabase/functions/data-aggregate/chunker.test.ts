@@ -0,0 +1,297 @@
+import { assertEquals } from "@std/assert"
+import { chunkCode, chunkMarkdown, detectCodeLanguage, segmentCode, splitMarkdownSections } from "./lib/chunker.ts"
+
+/**
+ * Tests for the markdown section chunker and the declaration-aware code chunker
+ * Run with: deno test supabase/functions/data-aggregate/chunker.test.ts
+ */
+
+const TYPESCRIPT = `import { sealed } from './decorators'
+
+/** Adds numbers */
+@sealed
+export class Calculator {
+  add(a: number, b: number) { return a + b }
+}
+
+// Default number of retries
+export const retries = 3
+export type Mode = 'fast' | 'slow'`
+
+const JAVASCRIPT = `const fs = require('fs')
+
+/**
+ * Reads the configuration file
+ */
+async function readConfig(path) {
+  return JSON.parse(fs.readFileSync(path, 'utf8'))
+}
+
+export default function main() {
+  return readConfig('config.json')
+}`
+
+const PYTHON = `import os
+
+@dataclass
+class Config:
+    retries: int = 3
+
+    def validate(self):
+        return self.retries > 0
+
+# Build a client from the environment
+def build_client():
+    return Client(os.environ["API_URL"])`
+
+const GO = `package client
+
+import "net/http"
+
+// Client talks to the API
+type Client struct {
+	http *http.Client
+}
+
+// Get fetches a path
+func (c *Client) Get(path string) error {
+	return nil
+}
+
+const (
+	DefaultTimeout = 30
+)`
+
+const RUST = `use std::fmt;
+
+/// An API client
+#[derive(Debug)]
+pub struct Client {
+    url: String,
+}
+
+impl fmt::Display for Client {
+    fn fmt(&self, f: &mut fmt::Formatter) -> fmt::Result {
+        write!(f, "{}", self.url)
+    }
+}`
+
+Deno.test("detectCodeLanguage - maps extensions to languages", () => {
+  assertEquals(detectCodeLanguage("src/app.tsx"), "typescript")
+  assertEquals(detectCodeLanguage("lib/index.MJS"), "javascript")
+  assertEquals(detectCodeLanguage("client.py"), "python")
+  assertEquals(detectCodeLanguage("main.go"), "go")
+  assertEquals(detectCodeLanguage("src/lib.rs"), "rust")
+  assertEquals(detectCodeLanguage("build.sh"), null)
+})
+
+Deno.test("segmentCode - typescript declarations keep their doc comment and decorator", () => {
+  assertEquals(segmentCode(TYPESCRIPT.split("\n"), "typescript"), [
+    { startLine: 0, endLine: 2 },
+    { startLine: 2, endLine: 8, symbol: "Calculator" },
+    { startLine: 8, endLine: 10, symbol: "retries" },
+    { startLine: 10, endLine: 11, symbol: "Mode" }
+  ])
+})
+
+Deno.test("segmentCode - javascript block comments and default exports", () => {
+  assertEquals(segmentCode(JAVASCRIPT.split("\n"), "javascript"), [
+    { startLine: 0, endLine: 2, symbol: "fs" },
+    { startLine: 2, endLine: 9, symbol: "readConfig" },
+    { startLine: 9, endLine: 12, symbol: "main" }
+  ])
+})
+
+Deno.test("segmentCode - python methods stay inside their class", () => {
+  assertEquals(segmentCode(PYTHON.split("\n"), "python"), [
+    { startLine: 0, endLine: 2 },
+    { startLine: 2, endLine: 9, symbol: "Config" },
+    { startLine: 9, endLine: 12, symbol: "build_client" }
+  ])
+})
+
+Deno.test("segmentCode - go methods are named after their receiver", () => {
+  assertEquals(segmentCode(GO.split("\n"), "go"), [
+    { startLine: 0, endLine: 4 },
+    { startLine: 4, endLine: 9, symbol: "Client" },
+    { startLine: 9, endLine: 14, symbol: "Client.Get" },
+    { startLine: 14, endLine: 17, symbol: undefined }
+  ])
+})
+
+Deno.test("segmentCode - rust attributes stay with their item", () => {
+  assertEquals(segmentCode(RUST.split("\n"), "rust"), [
+    { startLine: 0, endLine: 2 },
+    { startLine: 2, endLine: 8, symbol: "Client" },
+    { startLine: 8, endLine: 13, symbol: "impl fmt::Display for Client" }
+  ])
+})
+
+Deno.test("chunkCode - packs declarations and records symbols and line ranges", async () => {
+  const whole = await chunkCode(TYPESCRIPT, "src/calc.ts", { path: "src/calc.ts" })
+  assertEquals(whole.length, 1)
+  assertEquals(whole[0].text, TYPESCRIPT)
+  assertEquals(whole[0].metadata, {
+    path: "src/calc.ts",
+    chunkIndex: 0,
+    totalChunks: 1,
+    chunkLength: TYPESCRIPT.length,
+    language: "typescript",
+    symbol: "Calculator",
+    symbols: ["Calculator", "retries", "Mode"],
+    startLine: 1,
+    endLine: 11,
+    anchor: "L1-L11"
+  })
+
+  // Line numbers are 1-based and inclusive, blank lines between declarations are trimmed
+  const chunks = await chunkCode(TYPESCRIPT, "src/calc.ts", {}, { chunkSize: 120 })
+  assertEquals(chunks.map(chunk => [chunk.metadata?.symbols ?? null, chunk.metadata?.startLine, chunk.metadata?.endLine]), [
+    [null, 1, 1],
+    [["Calculator"], 3, 7],
+    [["retries", "Mode"], 9, 11]
+  ])
+  assertEquals(chunks[1].text.startsWith("/** Adds numbers */\n@sealed\nexport class Calculator {"), true)
+
+  for (const [source, path] of [[JAVASCRIPT, "config.js"], [PYTHON, "client.py"], [GO, "client.go"], [RUST, "client.rs"]]) {
+    const [chunk] = await chunkCode(source, path)
+    assertEquals(chunk.text, source)
+    assertEquals([chunk.metadata?.startLine, chunk.metadata?.endLine], [1, source.split("\n").length])
+  }
+})
+
+Deno.test("chunkCode - splits oversized declarations by lines with overlap", async () => {
+  const body = Array.from({ length: 40 }, (_, i) => `  const value${i} = ${i}`)
+  const source = ["export function build() {", ...body, "}"].join("\n")
+  const lines = source.split("\n")
+
+  const chunks = await chunkCode(source, "build.ts", {}, { chunkSize: 200, chunkOverlap: 50 })
+  assertEquals(chunks.length > 3, true)
+  assertEquals(chunks[0].metadata?.startLine, 1)
+  assertEquals(chunks[chunks.length - 1].metadata?.endLine, lines.length)
+
+  for (let i = 0; i < chunks.length; i++) {
+    const { symbol, startLine, endLine } = chunks[i].metadata as { symbol: string; startLine: number; endLine: number }
+    assertEquals(symbol, "build")
+    assertEquals(chunks[i].text.length <= 200, true)
+    assertEquals(chunks[i].text, lines.slice(startLine - 1, endLine).join("\n"))
+
+    if (i > 0) {
+      // The previous piece's trailing lines, at most chunkOverlap characters, are repeated
+      const previousEnd = chunks[i - 1].metadata?.endLine as number
+      const overlap = lines.slice(startLine - 1, previousEnd).join("\n")
+      assertEquals(startLine <= previousEnd, true)
+      assertEquals(overlap.length <= 50, true)
+    }
+  }
+})
+
+Deno.test("chunkCode - falls back to chunkMarkdown for unknown extensions", async () => {
+  const script = "# Install dependencies\nnpm install\n\n## Build\nnpm run build"
+
+  const chunks = await chunkCode(script, "scripts/build.sh", { path: "scripts/build.sh" })
+  assertEquals(chunks, await chunkMarkdown(script, { path: "scripts/build.sh" }, { splitOnHeadings: false }))
+
+  // '#' comments are not treated as headings
+  assertEquals(chunks.length, 1)
+  assertEquals(chunks[0].text, script)
+  assertEquals(chunks[0].metadata?.language, undefined)
+  assertEquals(chunks[0].metadata?.breadcrumb, undefined)
+})
+
+Deno.test("splitMarkdownSections - heading breadcrumbs and GitHub anchors", () => {
+  const markdown = [
+    "# Guide", "", "Intro",
+    "", "## Usage", "", "Call `connect()` first.",
+    "", "## Usage", "", "Then call [send](#send).",
+    "", "### Docker *Compose*", "", "Run the stack."
+  ].join("\n")
+
+  const sections = splitMarkdownSections(markdown)
+  assertEquals(sections.map(section => [section.headings, section.anchor]), [
+    [["Guide"], "guide"],
+    [["Guide", "Usage"], "usage"],
+    [["Guide", "Usage"], "usage-1"],
+    [["Guide", "Usage", "Docker Compose"], "docker-compose"]
+  ])
+  assertEquals(sections[1].content, "## Usage\n\nCall `connect()` first.")
+})
+
+Deno.test("splitMarkdownSections - '#' lines inside fences are not headings", () => {
+  const markdown = [
+    "## Setup", "", "```bash", "# install the CLI", "npm install", "```",
+    "", "~~~~", "## still code", "```", "~~~~",
+    "", "## Next", "", "Done."
+  ].join("\n")
+
+  const sections = splitMarkdownSections(markdown)
+  assertEquals(sections.map(section => section.anchor), ["setup", "next"])
+  assertEquals(sections[0].content.includes("# install the CLI"), true)
+  assertEquals(sections[0].content.includes("## still code"), true)
+})
+
+Deno.test("splitMarkdownSections - an unterminated fence runs to the end of the document", () => {
+  const markdown = "## Example\n\n```python\n# comment\n## not a heading"
+
+  const sections = splitMarkdownSections(markdown)
+  assertEquals(sections.length, 1)
+  assertEquals(sections[0].content, markdown)
+})
+
+Deno.test("chunkMarkdown - prepends the breadcrumb and records section metadata", async () => {
+  const chunks = await chunkMarkdown("# Install\n\n## Docker\n\nRun the image.", { url: "https://example.com" })
+
+  assertEquals(chunks.length, 1)
+  assertEquals(chunks[0].text, "Install > Docker\n\n## Docker\n\nRun the image.")
+  assertEquals(chunks[0].metadata?.breadcrumb, "Install > Docker")
+  assertEquals(chunks[0].metadata?.headings, ["Install", "Docker"])
+  assertEquals(chunks[0].metadata?.anchor, "docker")
+  assertEquals(chunks[0].metadata?.url, "https://example.com")
+})
+
+Deno.test("chunkMarkdown - carries a short trailing paragraph over as overlap", async () => {
+  const first = "A".repeat(60)
+  const third = "B".repeat(60)
+  const markdown = `## Section\n\n${first}\n\nShort tail.\n\n${third}`
+
+  const chunks = await chunkMarkdown(markdown, {}, { chunkSize: 100, chunkOverlap: 30 })
+  assertEquals(chunks.map(chunk => chunk.text), [
+    `Section\n\n## Section\n\n${first}\n\nShort tail.`,
+    `Section\n\nShort tail.\n\n${third}`
+  ])
+
+  // Code blocks are never carried over
+  const withCode = await chunkMarkdown(`## Section\n\n${first}\n\n\`\`\`\nx\n\`\`\`\n\n${third}`, {}, { chunkSize: 100, chunkOverlap: 30 })
+  assertEquals(withCode.map(chunk => chunk.text), [
+    `Section\n\n## Section\n\n${first}\n\n\`\`\`\nx\n\`\`\``,
+    `Section\n\n${third}`
+  ])
+})
+
+Deno.test("chunkMarkdown - keeps code blocks whole up to maxCodeBlockSize", async () => {
+  const code = ["```ts", ...Array.from({ length: 20 }, (_, i) => `const value${i} = ${i}`), "```"].join("\n")
+
+  const chunks = await chunkMarkdown(`## Example\n\n${code}`, {}, { chunkSize: 100, chunkOverlap: 20, prependBreadcrumb: false })
+  assertEquals(chunks.map(chunk => chunk.text), [`## Example\n\n${code}`])
+})
+
+Deno.test("chunkMarkdown - splits oversized code blocks on line boundaries, re-opening the fence", async () => {
+  const lines = Array.from({ length: 100 }, (_, i) => `const value${i} = ${i}`)
+
+  for (const closing of ["\n~~~~", ""]) {
+    const code = `~~~~ts\n${lines.join("\n")}${closing}`
+    const chunks = await chunkMarkdown(`## Example\n\n${code}`, {}, { chunkSize: 100, chunkOverlap: 20, maxCodeBlockSize: 300, prependBreadcrumb: false })
+
+    assertEquals(chunks.length > 5, true)
+    assertEquals(chunks[0].text.startsWith("## Example\n\n~~~~ts\n"), true)
+
+    const bodies = chunks.map((chunk, i) => {
+      const text = i === 0 ? chunk.text.slice("## Example\n\n".length) : chunk.text
+      assertEquals(text.length <= 300, true)
+      assertEquals(text.startsWith("~~~~ts\n"), true)
+      assertEquals(text.endsWith("\n~~~~"), true)
+      return text.split("\n").slice(1, -1)
+    })
+    assertEquals(bodies.flat(), lines)
+  }
+})
@@ -0,0 +1,102 @@
+import { assertEquals, assertStringIncludes } from "@std/assert"
+import {
+  isDiscussionSelected,
+  isIssueSelected,
+  toDiscussionDocument,
+  toIssueDocument,
+  type GitHubDiscussion,
+  type GitHubIssue
+} from "./lib/issues.ts"
+
+/**
+ * Tests for issue, pull request and discussion selection and formatting
+ * Run with: deno test supabase/functions/data-aggregate/issues.test.ts
+ */
+
+function createIssue(overrides: Partial<GitHubIssue> = {}): GitHubIssue {
+  return {
+    number: 42,
+    title: "Crash when the config file is empty",
+    body: "Running `example start` with an empty config crashes.",
+    html_url: "https://github.com/o/r/issues/42",
+    state_reason: "completed",
+    closed_at: "2024-05-01T10:00:00Z",
+    comments: 2,
+    labels: [{ name: "bug" }],
+    reactions: { total_count: 5 },
+    ...overrides
+  }
+}
+
+function createDiscussion(overrides: Partial<GitHubDiscussion> = {}): GitHubDiscussion {
+  return {
+    number: 7,
+    title: "How do I configure retries?",
+    body: "Is there a retry option?",
+    url: "https://github.com/o/r/discussions/7",
+    updatedAt: "2024-06-02T10:00:00Z",
+    answerChosenAt: "2024-06-01T10:00:00Z",
+    category: { name: "Q&A" },
+    labels: { nodes: [] },
+    reactions: { totalCount: 1 },
+    upvoteCount: 3,
+    answer: { body: "Set `retries` in the client options.", author: { login: "maintainer" } },
+    ...overrides
+  }
+}
+
+Deno.test("isIssueSelected - resolved issues and merged pull requests", () => {
+  assertEquals(isIssueSelected(createIssue()), true)
+  assertEquals(isIssueSelected(createIssue({ state_reason: "not_planned" })), false)
+  assertEquals(isIssueSelected(createIssue({ state_reason: "duplicate" })), false)
+  assertEquals(isIssueSelected(createIssue({ pull_request: { merged_at: "2024-05-01T10:00:00Z" } })), true)
+  assertEquals(isIssueSelected(createIssue({ pull_request: { merged_at: null } })), false)
+  assertEquals(isIssueSelected(createIssue({ pull_request: { merged_at: "2024-05-01T10:00:00Z" } }), { includePullRequests: false }), false)
+})
+
+Deno.test("isIssueSelected - label, reaction and date filters", () => {
+  const issue = createIssue({ labels: [{ name: "Bug" }, "config"] })
+  assertEquals(isIssueSelected(issue, { labels: ["bug", "question"] }), true)
+  assertEquals(isIssueSelected(issue, { labels: ["question"] }), false)
+  assertEquals(isIssueSelected(issue, { excludeLabels: ["config"] }), false)
+  assertEquals(isIssueSelected(createIssue({ labels: [{ name: "wontfix" }] })), false)
+  assertEquals(isIssueSelected(issue, { minReactions: 5 }), true)
+  assertEquals(isIssueSelected(issue, { minReactions: 6 }), false)
+  assertEquals(isIssueSelected(issue, { since: "2024-04-01" }), true)
+  assertEquals(isIssueSelected(issue, { since: "2024-06-01" }), false)
+})
+
+Deno.test("isDiscussionSelected - accepted answer and upvotes", () => {
+  assertEquals(isDiscussionSelected(createDiscussion()), true)
+  assertEquals(isDiscussionSelected(createDiscussion({ answer: null })), false)
+  assertEquals(isDiscussionSelected(createDiscussion(), { minReactions: 4 }), true)
+  assertEquals(isDiscussionSelected(createDiscussion(), { minReactions: 5 }), false)
+  assertEquals(isDiscussionSelected(createDiscussion(), { since: "2024-06-02" }), false)
+})
+
+Deno.test("toIssueDocument - thread with comments", () => {
+  const document = toIssueDocument(createIssue(), [
+    { body: "Fixed in #43 by validating the file first.", user: { login: "alice", type: "User" } },
+    { body: "This issue is stale.", user: { login: "stale-bot", type: "Bot" } }
+  ])
+
+  assertEquals(document.sourceType, "issue")
+  assertEquals(document.url, "https://github.com/o/r/issues/42")
+  assertEquals(document.anchorText, "Issue #42: Crash when the config file is empty")
+  assertEquals(document.content.startsWith("# Issue #42: Crash when the config file is empty\n\nIssue · Closed 2024-05-01 · Labels: bug · 5 reactions\n\n"), true)
+  assertStringIncludes(document.content, "## Comments\n\n**@alice:**\n\nFixed in #43 by validating the file first.")
+  assertEquals(document.content.includes("stale"), false)
+})
+
+Deno.test("toDiscussionDocument - question and accepted answer", () => {
+  const document = toDiscussionDocument(createDiscussion())
+
+  assertEquals(document.sourceType, "issue")
+  assertEquals(document.content, [
+    "# Discussion #7: How do I configure retries?",
+    "Discussion (Q&A) · Answered 2024-06-01 · 4 reactions",
+    "Is there a retry option?",
+    "## Accepted answer",
+    "**@maintainer:**\n\nSet `retries` in the client options."
+  ].join("\n\n"))
+})
@@ -1,6 +1,7 @@
 /**
  * Text chunking utilities using LangChain
- * Provides markdown-aware text splitting for optimal RAG performance
+ * Provides markdown-aware text splitting for optimal RAG performance and
+ * declaration-aware splitting for source code
  */
 
 import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter'
@@ -13,6 +14,9 @@ export interface ChunkerConfig {
   chunkSize?: number      // Target size of each chunk (default: 1000)
   chunkOverlap?: number   // Overlap between chunks (default: 200)
   separators?: string[]   // Custom separators (default: markdown-optimized)
+  splitOnHeadings?: boolean    // Keep chunks within heading sections (default: true)
+  maxCodeBlockSize?: number    // Fenced code blocks above this size are split by lines (default: 4000)
+  prependBreadcrumb?: boolean  // Prefix chunks with their heading breadcrumb (default: true)
 }
 
 /**
@@ -49,8 +53,266 @@ function createMarkdownSplitter(config: ChunkerConfig = {}): RecursiveCharacterT
   })
 }
 
+/**
+ * A markdown section: the content below a heading up to the next heading
+ */
+interface MarkdownSection {
+  headings: string[] // Heading path from the top level down to this section
+  anchor?: string    // Slug of the section heading
+  content: string
+}
+
+/**
+ * Matches an ATX heading line (`## Title`)
+ */
+const HEADING_PATTERN = /^ {0,3}(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/
+
+/**
+ * Matches the opening or closing line of a fenced code block
+ */
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/
+
+/**
+ * Strips inline markdown formatting from heading text
+ */
+function getHeadingText(heading: string): string {
+  return heading
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1') // Links and images
+    .replace(/<[^>]+>/g, '')                      // Inline HTML
+    .replace(/[`*_]/g, '')                        // Code and emphasis markers
+    .trim()
+}
+
+/**
+ * Creates a GitHub-style anchor slug for a heading
+ * Repeated headings get a numeric suffix (`usage`, `usage-1`, ...)
+ */
+export function slugifyHeading(heading: string, seen: Map<string, number> = new Map()): string {
+  const slug = getHeadingText(heading)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-')
+
+  const count = seen.get(slug) ?? 0
+  seen.set(slug, count + 1)
+
+  return count === 0 ? slug : `${slug}-${count}`
+}
+
+/**
+ * Splits markdown into sections by heading hierarchy
+ * Lines inside fenced code blocks are never treated as headings
+ */
+export function splitMarkdownSections(text: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = []
+  const seenSlugs = new Map<string, number>()
+  const stack: Array<{ level: number; text: string }> = []
+
+  let current: { headings: string[]; anchor?: string; lines: string[] } = { headings: [], lines: [] }
+  let fence: string | null = null
+
+  const flush = () => {
+    const content = current.lines.join('\n').trim()
+    // Sections holding only their heading add nothing on their own
+    const headingOnly = current.anchor !== undefined && !content.includes('\n')
+    if (content.length > 0 && !headingOnly) {
+      sections.push({ headings: current.headings, anchor: current.anchor, content })
+    }
+  }
+
+  for (const line of text.split('\n')) {
+    const fenceMatch = line.match(FENCE_PATTERN)
+    if (fenceMatch) {
+      const marker = fenceMatch[1]
+      if (fence === null) {
+        fence = marker
+      } else if (marker[0] === fence[0] && marker.length >= fence.length && line.trim() === marker) {
+        fence = null
+      }
+      current.lines.push(line)
+      continue
+    }
+
+    const headingMatch = fence === null ? line.match(HEADING_PATTERN) : null
+    if (!headingMatch) {
+      current.lines.push(line)
+      continue
+    }
+
+    flush()
+
+    const level = headingMatch[1].length
+    const headingText = getHeadingText(headingMatch[2])
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop()
+    }
+    stack.push({ level, text: headingText })
+
+    current = {
+      headings: stack.map(entry => entry.text),
+      anchor: slugifyHeading(headingMatch[2], seenSlugs),
+      lines: [line]
+    }
+  }
+
+  flush()
+
+  return sections
+}
+
+/**
+ * Splits section content into blocks separated by blank lines
+ * Fenced code blocks are always kept as a single block
+ */
+function splitBlocks(content: string): Array<{ text: string; isCode: boolean }> {
+  const blocks: Array<{ text: string; isCode: boolean }> = []
+  let lines: string[] = []
+  let fence: string | null = null
+  let heading: string | null = null
+
+  const flush = (isCode: boolean) => {
+    const text = lines.join('\n').trim()
+    lines = []
+    if (text.length === 0) return
+
+    // Keep a heading line together with the block below it
+    if (!isCode && !text.includes('\n') && HEADING_PATTERN.test(text)) {
+      heading = text
+      return
+    }
+
+    blocks.push({ text: heading ? `${heading}\n\n${text}` : text, isCode })
+    heading = null
+  }
+
+  for (const line of content.split('\n')) {
+    const fenceMatch = line.match(FENCE_PATTERN)
+
+    if (fence === null && fenceMatch) {
+      flush(false)
+      fence = fenceMatch[1]
+      lines.push(line)
+    } else if (fence !== null) {
+      lines.push(line)
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length && line.trim() === fenceMatch[1]) {
+        fence = null
+        flush(true)
+      }
+    } else if (line.trim() === '') {
+      flush(false)
+    } else {
+      lines.push(line)
+    }
+  }
+
+  // An unterminated fence runs to the end of the section
+  flush(fence !== null)
+  if (heading) blocks.push({ text: heading, isCode: false })
+
+  return blocks
+}
+
+/**
+ * Splits a fenced code block into pieces of at most maxSize characters on line
+ * boundaries; every piece re-opens and closes the fence
+ * A single line longer than maxSize becomes a piece of its own
+ */
+function splitCodeBlock(text: string, maxSize: number): string[] {
+  // A heading kept with the block goes on the first piece
+  const [first, ...rest] = text.split('\n\n')
+  const heading = HEADING_PATTERN.test(first) && rest.length > 0 ? first : null
+  const lines = (heading ? rest.join('\n\n') : text).split('\n')
+
+  const opening = lines[0]
+  const marker = opening.match(FENCE_PATTERN)![1]
+  const last = lines[lines.length - 1].trim()
+  const closed = lines.length > 1 && last[0] === marker[0] && last.length >= marker.length && /^(`+|~+)$/.test(last)
+  const body = lines.slice(1, closed ? -1 : undefined)
+
+  const pieces: string[] = []
+  let current: string[] = []
+  let currentSize = opening.length + marker.length + 2
+
+  for (const line of body) {
+    if (current.length > 0 && currentSize + line.length + 1 > maxSize) {
+      pieces.push([opening, ...current, marker].join('\n'))
+      current = []
+      currentSize = opening.length + marker.length + 2
+    }
+    current.push(line)
+    currentSize += line.length + 1
+  }
+  if (current.length > 0 || pieces.length === 0) {
+    pieces.push([opening, ...current, marker].join('\n'))
+  }
+
+  if (heading) pieces[0] = `${heading}\n\n${pieces[0]}`
+  return pieces
+}
+
+/**
+ * Packs the blocks of a section into chunks of at most chunkSize characters
+ * Oversized prose blocks are split with the recursive splitter; oversized
+ * code blocks are kept whole up to maxCodeBlockSize and split by lines beyond it
+ */
+async function chunkSection(
+  content: string,
+  splitter: RecursiveCharacterTextSplitter,
+  chunkSize: number,
+  chunkOverlap: number,
+  maxCodeBlockSize: number
+): Promise<string[]> {
+  const chunks: string[] = []
+  let current: Array<{ text: string; isCode: boolean }> = []
+  let currentSize = 0
+
+  const flush = () => {
+    if (current.length === 0) return
+    chunks.push(current.map(block => block.text).join('\n\n'))
+
+    // Carry a short trailing prose block over as overlap
+    const last = current[current.length - 1]
+    current = !last.isCode && last.text.length <= chunkOverlap && current.length > 1 ? [last] : []
+    currentSize = current.reduce((sum, block) => sum + block.text.length + 2, 0)
+  }
+
+  for (const block of splitBlocks(content)) {
+    if (block.text.length > chunkSize) {
+      flush()
+      current = []
+      currentSize = 0
+      if (block.isCode) {
+        chunks.push(...(block.text.length > maxCodeBlockSize ? splitCodeBlock(block.text, maxCodeBlockSize) : [block.text]))
+      } else {
+        // Split the prose below a leading heading, then put the heading back on the first piece
+        const [first, ...rest] = block.text.split('\n\n')
+        const heading = HEADING_PATTERN.test(first) ? first : null
+        const pieces = await splitter.splitText(heading ? rest.join('\n\n') : block.text)
+        if (heading && pieces.length > 0) pieces[0] = `${heading}\n\n${pieces[0]}`
+        chunks.push(...pieces)
+      }
+      continue
+    }
+
+    if (currentSize + block.text.length > chunkSize) {
+      flush()
+    }
+
+    current.push(block)
+    currentSize += block.text.length + 2
+  }
+
+  flush()
+
+  return chunks
+}
+
 /**
  * Chunks markdown text into smaller segments for embedding
+ * Chunks never cross a heading boundary and only split fenced code blocks
+ * larger than maxCodeBlockSize.
+ * Each chunk records its heading breadcrumb (`Install > Docker > Compose`) and
+ * the anchor of its section; the breadcrumb is also prepended to the chunk text.
  * 
  * @param text - The markdown text to chunk
  * @param metadata - Optional metadata to attach to each chunk
@@ -69,21 +331,52 @@ export async function chunkMarkdown(
       return []
     }
 
+    const {
+      chunkSize = 1000,
+      chunkOverlap = 200,
+      splitOnHeadings = true,
+      prependBreadcrumb = true,
+      maxCodeBlockSize = 4000
+    } = config
+
     // Create splitter
     const splitter = createMarkdownSplitter(config)
 
-    // Split text into chunks
-    const chunks = await splitter.splitText(text)
+    // Plain text: split without section context
+    const sections: MarkdownSection[] = splitOnHeadings
+      ? splitMarkdownSections(text)
+      : [{ headings: [], content: text }]
+
+    const chunks: Array<{ text: string; section: MarkdownSection }> = []
+
+    for (const section of sections) {
+      const sectionChunks = splitOnHeadings
+        ? await chunkSection(section.content, splitter, chunkSize, chunkOverlap, maxCodeBlockSize)
+        : await splitter.splitText(section.content)
+
+      const breadcrumb = section.headings.join(' > ')
+      for (const chunkText of sectionChunks) {
+        chunks.push({
+          text: prependBreadcrumb && breadcrumb ? `${breadcrumb}\n\n${chunkText}` : chunkText,
+          section
+        })
+      }
+    }
 
     // Convert to DocumentChunk format with metadata
-    const documentChunks: DocumentChunk[] = chunks.map((chunkText: string, index: number) => ({
-      text: chunkText,
+    const documentChunks: DocumentChunk[] = chunks.map((chunk, index) => ({
+      text: chunk.text,
       index,
       metadata: {
         ...metadata,
         chunkIndex: index,
         totalChunks: chunks.length,
-        chunkLength: chunkText.length
+        chunkLength: chunk.text.length,
+        ...(chunk.section.headings.length > 0 && {
+          headings: chunk.section.headings,
+          breadcrumb: chunk.section.headings.join(' > ')
+        }),
+        ...(chunk.section.anchor && { anchor: chunk.section.anchor })
       }
     }))
 
@@ -96,6 +389,277 @@ export async function chunkMarkdown(
   }
 }
 
+/**
+ * Languages supported by the code chunker
+ */
+export type CodeLanguage = 'typescript' | 'javascript' | 'python' | 'go' | 'rust'
+
+/**
+ * Maps file extensions to code chunker languages
+ */
+const CODE_LANGUAGE_EXTENSIONS: Record<string, CodeLanguage> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  py: 'python',
+  go: 'go',
+  rs: 'rust'
+}
+
+/**
+ * Rules for detecting top-level declarations of a language
+ * declaration returns the declared symbol ('' for anonymous declarations)
+ * or null if the line does not start a declaration
+ */
+interface LanguageRules {
+  declaration: (line: string) => string | null
+  leading: RegExp // Comment, decorator and attribute lines that belong to the next declaration
+}
+
+const JS_DECLARATION = /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|(?:const\s+)?enum|namespace|module|type|const|let|var)\s+([A-Za-z_$][\w$]*)/
+
+const jsRules: LanguageRules = {
+  declaration: (line) => {
+    const match = line.match(JS_DECLARATION)
+    if (match) return match[1]
+    return /^export\s+default\b/.test(line) ? 'default' : null
+  },
+  leading: /^\s*(?:\/\/|\/\*|\*|@)/
+}
+
+const LANGUAGE_RULES: Record<CodeLanguage, LanguageRules> = {
+  typescript: jsRules,
+  javascript: jsRules,
+  python: {
+    declaration: (line) => line.match(/^(?:async\s+)?(?:def|class)\s+([A-Za-z_]\w*)/)?.[1] ?? null,
+    leading: /^(?:#|@)/
+  },
+  go: {
+    declaration: (line) => {
+      const func = line.match(/^func\s+(?:\(\s*(?:\w+\s+)?\*?([A-Za-z_]\w*)[^)]*\)\s*)?([A-Za-z_]\w*)/)
+      if (func) return func[1] ? `${func[1]}.${func[2]}` : func[2]
+      const decl = line.match(/^(?:type|var|const)\s+(?:([A-Za-z_]\w*)|\()/)
+      return decl ? decl[1] ?? '' : null
+    },
+    leading: /^\s*(?:\/\/|\/\*|\*)/
+  },
+  rust: {
+    declaration: (line) => {
+      const impl = line.match(/^(?:unsafe\s+)?impl(?:<[^>]*>)?\s+([^{]+?)\s*(?:\{|where\b|$)/)
+      if (impl) return `impl ${impl[1]}`
+      const item = line.match(/^(?:pub(?:\([^)]*\))?\s+)?(?:default\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+"[^"]*"\s+)?(?:fn|struct|enum|trait|union|mod|type|const|static|macro_rules!)\s*([A-Za-z_]\w*)/)
+      return item ? item[1] : null
+    },
+    leading: /^\s*(?:\/\/|\/\*|\*|#\[|#!\[)/
+  }
+}
+
+/**
+ * A contiguous range of lines starting at a top-level declaration
+ */
+export interface CodeSegment {
+  startLine: number // 0-based, inclusive
+  endLine: number   // 0-based, exclusive
+  symbol?: string
+}
+
+/**
+ * Detects the code chunker language from a file path
+ */
+export function detectCodeLanguage(path: string): CodeLanguage | null {
+  const extension = path.split('.').pop()?.toLowerCase() || ''
+  return CODE_LANGUAGE_EXTENSIONS[extension] ?? null
+}
+
+/**
+ * Splits lines into segments at top-level declaration boundaries
+ * Comments, decorators and attributes directly above a declaration stay with it
+ */
+export function segmentCode(lines: string[], language: CodeLanguage): CodeSegment[] {
+  const rules = LANGUAGE_RULES[language]
+  const starts: Array<{ line: number; symbol?: string }> = []
+  let lowerBound = 0
+
+  for (let i = 0; i < lines.length; i++) {
+    const symbol = rules.declaration(lines[i])
+    if (symbol === null) continue
+
+    let start = i
+    while (start - 1 >= lowerBound && lines[start - 1].trim() !== '' && rules.leading.test(lines[start - 1])) {
+      start--
+    }
+
+    starts.push({ line: start, symbol: symbol || undefined })
+    lowerBound = i + 1
+  }
+
+  const segments: CodeSegment[] = []
+
+  // Imports and other code before the first declaration
+  const firstStart = starts.length > 0 ? starts[0].line : lines.length
+  if (firstStart > 0) {
+    segments.push({ startLine: 0, endLine: firstStart })
+  }
+
+  starts.forEach((start, index) => {
+    const end = index + 1 < starts.length ? starts[index + 1].line : lines.length
+    if (end > start.line) {
+      segments.push({ startLine: start.line, endLine: end, symbol: start.symbol })
+    }
+  })
+
+  return segments
+}
+
+/**
+ * Splits an oversized segment into line ranges of at most chunkSize characters
+ * Consecutive pieces overlap by up to chunkOverlap characters of whole lines
+ */
+function splitSegment(
+  lines: string[],
+  segment: CodeSegment,
+  chunkSize: number,
+  chunkOverlap: number
+): CodeSegment[] {
+  const pieces: CodeSegment[] = []
+  let start = segment.startLine
+
+  while (start < segment.endLine) {
+    let end = start
+    let size = 0
+    while (end < segment.endLine && (end === start || size + lines[end].length + 1 <= chunkSize)) {
+      size += lines[end].length + 1
+      end++
+    }
+
+    pieces.push({ startLine: start, endLine: end, symbol: segment.symbol })
+
+    if (end >= segment.endLine) break
+
+    // Step back over trailing lines to create the overlap
+    let next = end
+    let overlap = 0
+    while (next - 1 > start + 1 && overlap + lines[next - 1].length + 1 <= chunkOverlap) {
+      overlap += lines[next - 1].length + 1
+      next--
+    }
+    start = next
+  }
+
+  return pieces
+}
+
+/**
+ * Chunks a source file on top-level declaration boundaries
+ * Small adjacent declarations are packed together up to chunkSize, oversized
+ * declarations are split by lines. Each chunk carries the enclosing symbol and
+ * its line range. Falls back to chunkMarkdown for unsupported languages.
+ *
+ * @param text - The source code to chunk
+ * @param path - Repository path of the file (used to detect the language)
+ * @param metadata - Optional metadata to attach to each chunk
+ * @param config - Optional chunker configuration
+ * @returns Array of document chunks with metadata
+ */
+export async function chunkCode(
+  text: string,
+  path: string,
+  metadata: Record<string, unknown> = {},
+  config: ChunkerConfig = {}
+): Promise<DocumentChunk[]> {
+  const language = detectCodeLanguage(path)
+
+  if (!language) {
+    // '#' comments in unknown languages are not markdown headings
+    return await chunkMarkdown(text, metadata, { ...config, splitOnHeadings: false })
+  }
+
+  if (!text || text.trim().length === 0) {
+    console.warn('Empty text provided for chunking')
+    return []
+  }
+
+  const { chunkSize = 1500, chunkOverlap = 200 } = config
+  const lines = text.split('\n')
+  const segments = segmentCode(lines, language)
+
+  // Pack segments into groups of at most chunkSize characters
+  const groups: CodeSegment[][] = []
+  let current: CodeSegment[] = []
+  let currentSize = 0
+
+  const segmentSize = (segment: CodeSegment) =>
+    lines.slice(segment.startLine, segment.endLine).join('\n').length + 1
+
+  for (const segment of segments) {
+    const size = segmentSize(segment)
+
+    if (size > chunkSize) {
+      if (current.length > 0) groups.push(current)
+      current = []
+      currentSize = 0
+      for (const piece of splitSegment(lines, segment, chunkSize, chunkOverlap)) {
+        groups.push([piece])
+      }
+      continue
+    }
+
+    if (currentSize + size > chunkSize && current.length > 0) {
+      groups.push(current)
+      current = []
+      currentSize = 0
+    }
+
+    current.push(segment)
+    currentSize += size
+  }
+  if (current.length > 0) groups.push(current)
+
+  const chunks: Array<{ text: string; startLine: number; endLine: number; symbols: string[] }> = []
+
+  for (const group of groups) {
+    let startLine = group[0].startLine
+    let endLine = group[group.length - 1].endLine
+
+    // Trim blank lines at both ends so line ranges point at code
+    while (startLine < endLine && lines[startLine].trim() === '') startLine++
+    while (endLine > startLine && lines[endLine - 1].trim() === '') endLine--
+    if (startLine >= endLine) continue
+
+    chunks.push({
+      text: lines.slice(startLine, endLine).join('\n'),
+      startLine: startLine + 1,
+      endLine,
+      symbols: [...new Set(group.map(segment => segment.symbol).filter((symbol): symbol is string => !!symbol))]
+    })
+  }
+
+  const documentChunks: DocumentChunk[] = chunks.map((chunk, index) => ({
+    text: chunk.text,
+    index,
+    metadata: {
+      ...metadata,
+      chunkIndex: index,
+      totalChunks: chunks.length,
+      chunkLength: chunk.text.length,
+      language,
+      ...(chunk.symbols.length > 0 && { symbol: chunk.symbols[0], symbols: chunk.symbols }),
+      startLine: chunk.startLine,
+      endLine: chunk.endLine,
+      anchor: `L${chunk.startLine}-L${chunk.endLine}`
+    }
+  }))
+
+  console.log(`Chunked ${language} file ${path} into ${documentChunks.length} segments`)
+
+  return documentChunks
+}
+
 /**
  * Chunks multiple documents in batch
  * 
@@ -1,35 +1,69 @@
 /**
- * OpenAI embedding utilities
- * Generates vector embeddings using OpenAI's embedding models
+ * Embedding utilities
+ * Generates vector embeddings with OpenAI, an OpenAI-compatible local server
+ * or a deterministic offline hashing embedder
  */
 
-import type { BatchEmbeddingResult } from './types.ts'
+import { hashEmbedding } from '../../_shared/hash_embedding.ts'
+import type {
+  BatchEmbeddingResult,
+  EmbeddingProviderName,
+  EmbeddingSpec
+} from './types.ts'
 
 /**
  * Configuration for embedding generation
  */
 export interface EmbedderConfig {
-  apiKey: string
-  model?: string           // Default: 'text-embedding-3-small'
+  apiKey?: string          // Required for the openai provider
+  provider?: EmbeddingProviderName // Default: 'openai'
+  model?: string           // Default: provider default model
+  dimensions?: number      // Default: provider default dimension
   batchSize?: number       // Maximum texts per batch (default: 100)
   maxRetries?: number      // Retry failed requests (default: 3)
 }
 
 /**
- * Default embedding model
+ * Default embedding model per provider
  * text-embedding-3-small: 1536 dimensions, cheaper and faster than ada-002
+ * nomic-embed-text: 768 dimensions, available in Ollama
  */
-const DEFAULT_MODEL = 'text-embedding-3-small'
+export const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProviderName, EmbeddingSpec> = {
+  openai: { provider: 'openai', model: 'text-embedding-3-small', dimensions: 1536 },
+  local: { provider: 'local', model: 'nomic-embed-text', dimensions: 768 },
+  hash: { provider: 'hash', model: 'feature-hash-v1', dimensions: 384 }
+}
+
+/**
+ * Native dimensions of well-known embedding models
+ */
+const MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+  'nomic-embed-text': 768,
+  'mxbai-embed-large': 1024,
+  'all-minilm': 384
+}
+
+const DEFAULT_MODEL = DEFAULT_EMBEDDING_MODELS.openai.model
 const DEFAULT_BATCH_SIZE = 100
 const DEFAULT_MAX_RETRIES = 3
 const OPENAI_API_URL = 'https://api.openai.com/v1/embeddings'
 
+/**
+ * OpenAI-compatible local embeddings endpoint (Ollama default)
+ * Overridden by EMBEDDING_LOCAL_URL; EMBEDDING_LOCAL_API_KEY is sent if set
+ */
+const LOCAL_API_URL = 'http://host.docker.internal:11434/v1/embeddings'
+
 /**
  * Interface for OpenAI embedding request
  */
 interface EmbeddingRequest {
   input: string | string[]
   model: string
+  dimensions?: number
 }
 
 /**
@@ -43,7 +77,7 @@ interface EmbeddingResponse {
     index: number
   }>
   model: string
-  usage: {
+  usage?: {
     prompt_tokens: number
     total_tokens: number
   }
@@ -57,23 +91,48 @@ function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Generates embeddings for a batch of texts using OpenAI API
+ * Resolves the embedding model, filling in provider defaults
+ * 
+ * @param options - Requested provider, model and dimension
+ * @returns Complete embedding model specification
+ */
+export function resolveEmbeddingSpec(options: Partial<EmbeddingSpec> = {}): EmbeddingSpec {
+  const provider = options.provider ?? 'openai'
+  const defaults = DEFAULT_EMBEDDING_MODELS[provider]
+
+  if (!defaults) {
+    throw new Error(`Unknown embedding provider: ${provider}`)
+  }
+
+  const model = options.model ?? defaults.model
+  const dimensions = options.dimensions ??
+    (model === defaults.model ? defaults.dimensions : MODEL_DIMENSIONS[model])
+
+  if (!dimensions || dimensions < 1) {
+    throw new Error(`Embedding dimensions are required for model ${model}`)
+  }
+
+  return { provider, model, dimensions }
+}
+
+/**
+ * Generates embeddings for a batch of texts
  * 
  * @param texts - Array of text strings to embed
- * @param config - Embedder configuration with API key
+ * @param config - Embedder configuration with provider, model and API key
  * @returns Batch embedding result with vectors and metadata
  */
 export async function generateEmbeddings(
   texts: string[],
   config: EmbedderConfig
 ): Promise<BatchEmbeddingResult> {
+  const spec = resolveEmbeddingSpec(config)
   const {
     apiKey,
-    model = DEFAULT_MODEL,
     maxRetries = DEFAULT_MAX_RETRIES
   } = config
 
-  if (!apiKey) {
+  if (spec.provider === 'openai' && !apiKey) {
     throw new Error('OpenAI API key is required')
   }
 
@@ -87,6 +146,20 @@ export async function generateEmbeddings(
     throw new Error('No valid texts after filtering empty strings')
   }
 
+  if (spec.provider === 'hash') {
+    return {
+      embeddings: validTexts.map(text => hashEmbedding(text, spec.dimensions)),
+      model: spec.model,
+      dimensions: spec.dimensions,
+      totalTokens: 0
+    }
+  }
+
+  const apiUrl = spec.provider === 'local'
+    ? Deno.env.get('EMBEDDING_LOCAL_URL') || LOCAL_API_URL
+    : OPENAI_API_URL
+  const authKey = spec.provider === 'local' ? Deno.env.get('EMBEDDING_LOCAL_API_KEY') : apiKey
+
   let lastError: Error | null = null
 
   // Retry logic
@@ -94,15 +167,20 @@ export async function generateEmbeddings(
     try {
       const requestBody: EmbeddingRequest = {
         input: validTexts,
-        model
+        model: spec.model
       }
 
-      console.log(`Generating embeddings for ${validTexts.length} texts (attempt ${attempt + 1}/${maxRetries})`)
+      // text-embedding-3 models can shorten their vectors
+      if (spec.provider === 'openai' && spec.model.startsWith('text-embedding-3') && spec.dimensions !== MODEL_DIMENSIONS[spec.model]) {
+        requestBody.dimensions = spec.dimensions
+      }
+
+      console.log(`Generating ${spec.provider} embeddings for ${validTexts.length} texts (attempt ${attempt + 1}/${maxRetries})`)
 
-      const response = await fetch(OPENAI_API_URL, {
+      const response = await fetch(apiUrl, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${apiKey}`,
+          ...(authKey && { 'Authorization': `Bearer ${authKey}` }),
           'Content-Type': 'application/json'
         },
         body: JSON.stringify(requestBody)
@@ -119,7 +197,7 @@ export async function generateEmbeddings(
           continue
         }
 
-        throw new Error(`OpenAI API error (${response.status}): ${JSON.stringify(errorData)}`)
+        throw new Error(`Embedding API error (${response.status}): ${JSON.stringify(errorData)}`)
       }
 
       const data: EmbeddingResponse = await response.json()
@@ -129,12 +207,20 @@ export async function generateEmbeddings(
         .sort((a, b) => a.index - b.index)
         .map(item => item.embedding)
 
-      console.log(`Successfully generated ${sortedEmbeddings.length} embeddings (${data.usage.total_tokens} tokens)`)
+      const returnedDimensions = sortedEmbeddings[0]?.length ?? 0
+      if (returnedDimensions !== spec.dimensions) {
+        throw new Error(`Model ${spec.model} returned ${returnedDimensions} dimensions, expected ${spec.dimensions}`)
+      }
+
+      const totalTokens = data.usage?.total_tokens ?? 0
+
+      console.log(`Successfully generated ${sortedEmbeddings.length} embeddings (${totalTokens} tokens)`)
 
       return {
         embeddings: sortedEmbeddings,
-        model: data.model,
-        totalTokens: data.usage.total_tokens
+        model: spec.model,
+        dimensions: spec.dimensions,
+        totalTokens
       }
 
     } catch (error) {
@@ -180,6 +266,7 @@ export async function generateEmbeddingsBatch(
   const allEmbeddings: number[][] = []
   let totalTokens = 0
   let model = ''
+  let dimensions = 0
 
   // Process in batches
   for (let i = 0; i < texts.length; i += batchSize) {
@@ -194,6 +281,7 @@ export async function generateEmbeddingsBatch(
       allEmbeddings.push(...result.embeddings)
       totalTokens += result.totalTokens
       model = result.model
+      dimensions = result.dimensions
 
       // Small delay between batches to avoid rate limiting
       if (i + batchSize < texts.length) {
@@ -210,6 +298,7 @@ export async function generateEmbeddingsBatch(
   return {
     embeddings: allEmbeddings,
     model,
+    dimensions,
     totalTokens
   }
 }
@@ -227,16 +316,15 @@ export function estimateTokens(texts: string[]): number {
 }
 
 /**
- * Estimates the cost for embedding texts using OpenAI
- * Based on text-embedding-3-small pricing: $0.02 per 1M tokens
+ * Calculates the cost of embedding tokens
+ * Based on OpenAI pricing (text-embedding-3-small: $0.02 per 1M tokens);
+ * local and hashing models are free
  * 
- * @param texts - Array of text strings
+ * @param tokens - Token count
  * @param model - Embedding model (default: text-embedding-3-small)
- * @returns Estimated cost in USD
+ * @returns Cost in USD
  */
-export function estimateCost(texts: string[], model: string = DEFAULT_MODEL): number {
-  const tokens = estimateTokens(texts)
-  
+export function calculateCost(tokens: number, model: string = DEFAULT_MODEL): number {
   // Pricing per 1M tokens
   const pricing: Record<string, number> = {
     'text-embedding-3-small': 0.02,
@@ -244,6 +332,17 @@ export function estimateCost(texts: string[], model: string = DEFAULT_MODEL): nu
     'text-embedding-ada-002': 0.10
   }
   
-  const pricePerMillion = pricing[model] || 0.02
+  const pricePerMillion = pricing[model] ?? 0
   return (tokens / 1_000_000) * pricePerMillion
 }
+
+/**
+ * Estimates the cost for embedding texts
+ * 
+ * @param texts - Array of text strings
+ * @param model - Embedding model (default: text-embedding-3-small)
+ * @returns Estimated cost in USD
+ */
+export function estimateCost(texts: string[], model: string = DEFAULT_MODEL): number {
+  return calculateCost(estimateTokens(texts), model)
+}
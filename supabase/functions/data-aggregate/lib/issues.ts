@@ -0,0 +1,401 @@
+/**
+ * Issue, pull request and discussion ingestion
+ * Resolved threads answer many questions the documentation doesn't cover.
+ * Closed issues, merged pull requests and discussions with an accepted answer
+ * are fetched as documents of sourceType 'issue'. Like wikis, they are not
+ * versioned with the repository: the latest state is always ingested.
+ */
+
+import type { GitHubClient } from '../../_shared/github.ts'
+import type { Document, IssueIngestionOptions } from './types.ts'
+
+/**
+ * Issue ingestion limits and defaults
+ */
+export const ISSUES_CONFIG = {
+  defaultMaxItems: 100,       // Per kind: issues and pull requests, discussions
+  maxItemsLimit: 500,
+  maxPages: 10,               // Listing pages of 100 (issues) or 50 (discussions)
+  maxComments: 20,            // Comments kept per issue or pull request
+  maxCommentLength: 5_000,
+  maxDocumentSize: 50_000,    // 50 KB
+  defaultExcludeLabels: ['duplicate', 'invalid', 'spam', 'wontfix', "won't fix"]
+}
+
+/**
+ * Number of comment requests sent in parallel
+ */
+const FETCH_CONCURRENCY = 5
+
+/**
+ * Issue or pull request from the REST issues API (fields used here)
+ */
+export interface GitHubIssue {
+  number: number
+  title: string
+  body: string | null
+  html_url: string
+  state_reason?: string | null
+  closed_at: string | null
+  comments: number
+  labels: ({ name?: string } | string)[]
+  reactions?: { total_count: number }
+  pull_request?: { merged_at?: string | null }
+}
+
+/**
+ * Discussion from the GraphQL API (fields used here)
+ */
+export interface GitHubDiscussion {
+  number: number
+  title: string
+  body: string
+  url: string
+  updatedAt: string
+  answerChosenAt: string | null
+  category: { name: string } | null
+  labels: { nodes: { name: string }[] } | null
+  reactions: { totalCount: number }
+  upvoteCount: number
+  answer: { body: string; author: { login: string } | null } | null
+}
+
+/**
+ * Comment from the REST issue comments API (fields used here)
+ */
+interface GitHubComment {
+  body: string | null
+  user: { login: string; type?: string } | null
+}
+
+/**
+ * Thread filters with defaults applied
+ */
+interface ThreadFilters {
+  labels: string[]
+  excludeLabels: string[]
+  minReactions: number
+  since: number | null
+}
+
+const DISCUSSIONS_QUERY = `
+query($owner: String!, $repo: String!, $cursor: String) {
+  repository(owner: $owner, name: $repo) {
+    discussions(first: 50, after: $cursor, answered: true, orderBy: { field: UPDATED_AT, direction: DESC }) {
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        number
+        title
+        body
+        url
+        updatedAt
+        answerChosenAt
+        category { name }
+        labels(first: 20) { nodes { name } }
+        reactions { totalCount }
+        upvoteCount
+        answer { body author { login } }
+      }
+    }
+  }
+}`
+
+/**
+ * Applies the defaults of the label, reaction and date filters
+ */
+function resolveFilters(options: IssueIngestionOptions): ThreadFilters {
+  const since = options.since ? Date.parse(options.since) : NaN
+
+  return {
+    labels: (options.labels ?? []).map(label => label.toLowerCase()),
+    excludeLabels: (options.excludeLabels ?? ISSUES_CONFIG.defaultExcludeLabels).map(label => label.toLowerCase()),
+    minReactions: options.minReactions ?? 0,
+    since: Number.isNaN(since) ? null : since
+  }
+}
+
+/**
+ * Checks the label, reaction and date filters
+ * A thread needs one of the labels (if any are given) and none of the excluded labels
+ */
+function matchesFilters(labels: string[], reactions: number, resolvedAt: string | null, filters: ThreadFilters): boolean {
+  const names = labels.map(label => label.toLowerCase())
+
+  if (filters.labels.length > 0 && !names.some(name => filters.labels.includes(name))) return false
+  if (names.some(name => filters.excludeLabels.includes(name))) return false
+  if (reactions < filters.minReactions) return false
+  if (filters.since !== null && (!resolvedAt || Date.parse(resolvedAt) < filters.since)) return false
+
+  return true
+}
+
+/**
+ * Label names of a REST issue
+ */
+function getLabelNames(issue: GitHubIssue): string[] {
+  return issue.labels
+    .map(label => typeof label === 'string' ? label : label.name ?? '')
+    .filter(Boolean)
+}
+
+/**
+ * Checks whether an issue or pull request was resolved and passes the filters
+ * Issues closed as not planned or duplicate and unmerged pull requests are skipped
+ */
+export function isIssueSelected(issue: GitHubIssue, options: IssueIngestionOptions = {}): boolean {
+  if (issue.pull_request) {
+    if (options.includePullRequests === false || !issue.pull_request.merged_at) return false
+  } else if (issue.state_reason === 'not_planned' || issue.state_reason === 'duplicate') {
+    return false
+  }
+
+  return matchesFilters(getLabelNames(issue), issue.reactions?.total_count ?? 0, issue.closed_at, resolveFilters(options))
+}
+
+/**
+ * Checks whether a discussion has an accepted answer and passes the filters
+ * Upvotes count as reactions
+ */
+export function isDiscussionSelected(discussion: GitHubDiscussion, options: IssueIngestionOptions = {}): boolean {
+  if (!discussion.answer) return false
+
+  const labels = discussion.labels?.nodes.map(label => label.name) ?? []
+  const reactions = discussion.reactions.totalCount + discussion.upvoteCount
+
+  return matchesFilters(labels, reactions, discussion.answerChosenAt, resolveFilters(options))
+}
+
+/**
+ * Truncates a comment or answer body
+ */
+function truncate(text: string, maxLength: number = ISSUES_CONFIG.maxCommentLength): string {
+  const trimmed = text.trim()
+  return trimmed.length > maxLength ? `${trimmed.substring(0, maxLength)}...` : trimmed
+}
+
+/**
+ * Formats the metadata line of a thread
+ */
+function formatDetails(kind: string, labels: string[], reactions: number, resolvedAt: string | null, resolution: string): string {
+  return [
+    kind,
+    resolvedAt ? `${resolution} ${resolvedAt.substring(0, 10)}` : resolution,
+    ...(labels.length > 0 ? [`Labels: ${labels.join(', ')}`] : []),
+    ...(reactions > 0 ? [`${reactions} reactions`] : [])
+  ].join(' · ')
+}
+
+/**
+ * Builds the document of an issue or pull request and its comments
+ * Bot comments are skipped
+ */
+export function toIssueDocument(issue: GitHubIssue, comments: GitHubComment[] = []): Document {
+  const isPullRequest = Boolean(issue.pull_request)
+  const kind = isPullRequest ? 'Pull request' : 'Issue'
+  const title = `${kind} #${issue.number}: ${issue.title}`
+  const details = formatDetails(kind, getLabelNames(issue), issue.reactions?.total_count ?? 0, issue.closed_at, isPullRequest ? 'Merged' : 'Closed')
+
+  const sections = [`# ${title}`, details]
+  if (issue.body?.trim()) {
+    sections.push(truncate(issue.body, ISSUES_CONFIG.maxDocumentSize))
+  }
+
+  const humanComments = comments
+    .filter(comment => comment.body?.trim() && comment.user?.type !== 'Bot')
+    .slice(0, ISSUES_CONFIG.maxComments)
+  if (humanComments.length > 0) {
+    sections.push('## Comments')
+    for (const comment of humanComments) {
+      sections.push(`**@${comment.user?.login ?? 'ghost'}:**\n\n${truncate(comment.body!)}`)
+    }
+  }
+
+  return {
+    url: issue.html_url,
+    anchorText: title,
+    content: sections.join('\n\n').substring(0, ISSUES_CONFIG.maxDocumentSize),
+    sourceType: 'issue'
+  }
+}
+
+/**
+ * Builds the document of a discussion and its accepted answer
+ */
+export function toDiscussionDocument(discussion: GitHubDiscussion): Document {
+  const title = `Discussion #${discussion.number}: ${discussion.title}`
+  const labels = discussion.labels?.nodes.map(label => label.name) ?? []
+  const kind = discussion.category ? `Discussion (${discussion.category.name})` : 'Discussion'
+  const details = formatDetails(kind, labels, discussion.reactions.totalCount + discussion.upvoteCount, discussion.answerChosenAt, 'Answered')
+
+  const sections = [`# ${title}`, details]
+  if (discussion.body.trim()) {
+    sections.push(truncate(discussion.body, ISSUES_CONFIG.maxDocumentSize))
+  }
+  if (discussion.answer?.body.trim()) {
+    sections.push('## Accepted answer')
+    sections.push(`**@${discussion.answer.author?.login ?? 'ghost'}:**\n\n${truncate(discussion.answer.body, ISSUES_CONFIG.maxDocumentSize)}`)
+  }
+
+  return {
+    url: discussion.url,
+    anchorText: title,
+    content: sections.join('\n\n').substring(0, ISSUES_CONFIG.maxDocumentSize),
+    sourceType: 'issue'
+  }
+}
+
+/**
+ * Fetches the first page of comments of an issue or pull request
+ */
+async function fetchComments(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  issue: GitHubIssue
+): Promise<GitHubComment[]> {
+  if (issue.comments === 0) return []
+
+  const response = await github.request(`/repos/${owner}/${repo}/issues/${issue.number}/comments?per_page=100`)
+  if (!response.ok) {
+    await response.body?.cancel()
+    console.warn(`Failed to fetch comments of #${issue.number}: ${response.status}`)
+    return []
+  }
+
+  return await response.json()
+}
+
+/**
+ * Fetches closed issues and merged pull requests as documents
+ * Most recently updated threads are listed first
+ */
+async function fetchIssueThreads(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  options: IssueIngestionOptions,
+  maxItems: number
+): Promise<Document[]> {
+  const selected: GitHubIssue[] = []
+  const since = resolveFilters(options).since
+
+  for (let page = 1; page <= ISSUES_CONFIG.maxPages && selected.length < maxItems; page++) {
+    const params = new URLSearchParams({
+      state: 'closed',
+      sort: 'updated',
+      direction: 'desc',
+      per_page: '100',
+      page: String(page),
+      ...(since !== null && { since: new Date(since).toISOString() })
+    })
+    const response = await github.request(`/repos/${owner}/${repo}/issues?${params}`)
+
+    if (!response.ok) {
+      await response.body?.cancel()
+      console.warn(`Failed to list issues of ${owner}/${repo}: ${response.status}`)
+      break
+    }
+
+    const issues: GitHubIssue[] = await response.json()
+    selected.push(...issues.filter(issue => isIssueSelected(issue, options)))
+    if (issues.length < 100) break
+  }
+
+  const documents: Document[] = []
+  const issues = selected.slice(0, maxItems)
+
+  for (let i = 0; i < issues.length; i += FETCH_CONCURRENCY) {
+    const batch = issues.slice(i, i + FETCH_CONCURRENCY)
+    const comments = await Promise.all(batch.map(async issue => {
+      try {
+        return await fetchComments(github, owner, repo, issue)
+      } catch (error) {
+        console.warn(`Error fetching comments of #${issue.number}:`, error)
+        return []
+      }
+    }))
+    batch.forEach((issue, index) => documents.push(toIssueDocument(issue, comments[index])))
+  }
+
+  return documents
+}
+
+/**
+ * Fetches discussions with an accepted answer as documents
+ * The GraphQL API requires a token, so discussions are skipped without one
+ */
+async function fetchDiscussionThreads(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  options: IssueIngestionOptions,
+  maxItems: number
+): Promise<Document[]> {
+  const documents: Document[] = []
+  const since = options.since ? Date.parse(options.since) : NaN
+  let cursor: string | null = null
+
+  for (let page = 1; page <= ISSUES_CONFIG.maxPages && documents.length < maxItems; page++) {
+    const response = await github.request('/graphql', {
+      body: { query: DISCUSSIONS_QUERY, variables: { owner, repo, cursor } }
+    })
+
+    if (!response.ok) {
+      await response.body?.cancel()
+      console.warn(`Failed to list discussions of ${owner}/${repo}: ${response.status}`)
+      break
+    }
+
+    const result = await response.json()
+    const connection = result.data?.repository?.discussions
+    if (!connection) {
+      console.warn(`Failed to list discussions of ${owner}/${repo}:`, result.errors?.[0]?.message ?? 'no data')
+      break
+    }
+
+    const discussions: GitHubDiscussion[] = connection.nodes
+    for (const discussion of discussions) {
+      if (documents.length >= maxItems) break
+      if (isDiscussionSelected(discussion, options)) {
+        documents.push(toDiscussionDocument(discussion))
+      }
+    }
+
+    // Discussions are sorted by update time, and an answer updates its discussion
+    const last = discussions[discussions.length - 1]
+    if (!connection.pageInfo.hasNextPage || (last && Date.parse(last.updatedAt) < since)) break
+    cursor = connection.pageInfo.endCursor
+  }
+
+  return documents
+}
+
+/**
+ * Fetches closed issues, merged pull requests and answered discussions as documents
+ * maxItems applies to issues and pull requests, and to discussions, separately.
+ * Throws if either list fails, as both are stored with sourceType 'issue'.
+ */
+export async function fetchIssues(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  hasToken: boolean,
+  options: IssueIngestionOptions = {}
+): Promise<Document[]> {
+  const maxItems = Math.max(0, Math.min(options.maxItems ?? ISSUES_CONFIG.defaultMaxItems, ISSUES_CONFIG.maxItemsLimit))
+  const documents: Document[] = []
+
+  documents.push(...await fetchIssueThreads(github, owner, repo, options, maxItems))
+
+  if (options.includeDiscussions ?? true) {
+    if (!hasToken) {
+      console.log('Skipping discussions: the GraphQL API requires a GitHub token')
+    } else {
+      documents.push(...await fetchDiscussionThreads(github, owner, repo, options, maxItems))
+    }
+  }
+
+  console.log(`Fetched ${documents.length} issues, pull requests and discussions`)
+
+  return documents
+}
@@ -0,0 +1,1244 @@
+/**
+ * Document normalization
+ * Converts reStructuredText, AsciiDoc and MDX documents to plain markdown
+ * before chunking, so Sphinx directives, AsciiDoc attributes and JSX
+ * components don't end up in chunks. Code blocks, admonitions and tables are
+ * kept as markdown code fences, blockquotes and GFM tables.
+ */
+
+/**
+ * Source format of a document
+ */
+export type DocumentFormat = 'markdown' | 'mdx' | 'rst' | 'asciidoc'
+
+/**
+ * Maps file extensions to document formats
+ */
+const FORMAT_BY_EXTENSION: Record<string, DocumentFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  mdx: 'mdx',
+  rst: 'rst',
+  rest: 'rst',
+  adoc: 'asciidoc',
+  asciidoc: 'asciidoc',
+  asc: 'asciidoc'
+}
+
+/**
+ * Admonition labels, by directive or component name
+ */
+const ADMONITION_LABELS: Record<string, string> = {
+  note: 'Note',
+  info: 'Info',
+  tip: 'Tip',
+  hint: 'Hint',
+  important: 'Important',
+  warning: 'Warning',
+  caution: 'Caution',
+  danger: 'Danger',
+  attention: 'Attention',
+  error: 'Error',
+  seealso: 'See also',
+  todo: 'Todo'
+}
+
+/**
+ * Detects the format of a document from its path or URL
+ * Unknown extensions are treated as markdown
+ */
+export function detectDocumentFormat(pathOrUrl: string): DocumentFormat {
+  const path = pathOrUrl.replace(/[?#].*$/, '')
+  const extension = path.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase() ?? ''
+  return FORMAT_BY_EXTENSION[extension] ?? 'markdown'
+}
+
+/**
+ * Converts a document to markdown
+ * Markdown documents are returned unchanged
+ */
+export function normalizeDocument(content: string, format: DocumentFormat): string {
+  if (format === 'markdown') return content
+
+  const lines = content.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n')
+  const converted = format === 'rst'
+    ? rstToMarkdown(lines)
+    : format === 'asciidoc'
+      ? asciidocToMarkdown(lines)
+      : mdxToMarkdown(lines)
+
+  return converted
+    .join('\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// ---------------------------------------------------------------------------
+// Shared markdown builders
+// ---------------------------------------------------------------------------
+
+/**
+ * Removes the common indentation of a block
+ */
+function dedent(lines: string[]): string[] {
+  const indents = lines
+    .filter(line => line.trim().length > 0)
+    .map(line => line.match(/^ */)![0].length)
+  const indent = indents.length > 0 ? Math.min(...indents) : 0
+  return lines.map(line => line.slice(indent))
+}
+
+/**
+ * Removes leading and trailing blank lines
+ */
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0
+  let end = lines.length
+  while (start < end && lines[start].trim() === '') start++
+  while (end > start && lines[end - 1].trim() === '') end--
+  return lines.slice(start, end)
+}
+
+/**
+ * Renders a fenced code block; the fence is longer than any backtick run in the code
+ */
+function codeFence(code: string[], language = ''): string[] {
+  const longestRun = Math.max(2, ...(code.join('\n').match(/`+/g) ?? []).map(run => run.length))
+  const fence = '`'.repeat(longestRun + 1)
+  return ['', `${fence}${language}`, ...trimBlankLines(code), fence, '']
+}
+
+/**
+ * Renders an admonition as a blockquote with a bold label
+ */
+function admonition(label: string, body: string[]): string[] {
+  const content = trimBlankLines(body)
+  return [
+    '',
+    `> **${label}**`,
+    ...(content.length > 0 ? ['>'] : []),
+    ...content.map(line => line.trim() ? `> ${line}` : '>'),
+    ''
+  ]
+}
+
+/**
+ * Renders rows of cells as a GFM table; the first row is the header
+ */
+function markdownTable(rows: string[][]): string[] {
+  if (rows.length === 0) return []
+
+  const columns = Math.max(...rows.map(row => row.length))
+  const cell = (value: string | undefined) => (value ?? '').replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim()
+  const render = (row: string[]) => `| ${Array.from({ length: columns }, (_, index) => cell(row[index])).join(' | ')} |`
+
+  return [
+    '',
+    render(rows[0]),
+    `| ${Array.from({ length: columns }, () => '---').join(' | ')} |`,
+    ...rows.slice(1).map(render),
+    ''
+  ]
+}
+
+/**
+ * Applies a replacement to the text outside inline code spans
+ */
+function replaceOutsideCode(text: string, replace: (segment: string) => string): string {
+  return text
+    .split(/(`+[^`]*?`+)/)
+    .map((segment, index) => index % 2 === 1 ? segment : replace(segment))
+    .join('')
+}
+
+// ---------------------------------------------------------------------------
+// reStructuredText
+// ---------------------------------------------------------------------------
+
+/**
+ * Conversion state shared by nested reStructuredText blocks
+ */
+interface RstContext {
+  headingStyles: string[]             // Heading adornments in order of appearance
+  targets: Map<string, string>        // Named hyperlink targets (.. _name: url)
+  substitutions: Map<string, string>  // Text substitutions (.. |name| replace:: text)
+  highlightLanguage: string           // Language of literal blocks (.. highlight::)
+}
+
+/**
+ * Interpreted text roles rendered as inline code
+ */
+const RST_CODE_ROLES = new Set([
+  'code', 'literal', 'file', 'samp', 'command', 'program', 'envvar', 'option', 'kbd', 'regexp',
+  'func', 'meth', 'class', 'mod', 'attr', 'obj', 'data', 'exc', 'const', 'member', 'var',
+  'type', 'struct', 'macro', 'enum', 'enumerator', 'expr', 'texpr', 'any'
+])
+
+/**
+ * Directives whose content is not documentation text
+ */
+const RST_SKIPPED_DIRECTIVES = new Set([
+  'toctree', 'contents', 'index', 'meta', 'raw', 'include', 'literalinclude', 'sectnum',
+  'autosummary', 'currentmodule', 'module', 'sectionauthor', 'moduleauthor', 'codeauthor',
+  'tabularcolumns', 'spelling:word-list', 'default-role', 'role', 'title', 'header', 'footer',
+  'target-notes', 'highlight', 'highlightlang'
+])
+
+/**
+ * Directives that describe an API object (.. function:: name(args))
+ */
+const RST_OBJECT_DIRECTIVE = /^(?:(?:py|js|c|cpp|rst|std):)?(?:function|class|method|attribute|data|exception|decorator|staticmethod|classmethod|property|type|macro|member|var|struct|enum|enumerator|union|option|envvar|describe|object|directive|role|program|cmdoption)$/
+
+/**
+ * Section adornment: a line of one repeated punctuation character
+ */
+const RST_ADORNMENT = /^([!-/:-@[-`{-~])\1+\s*$/
+
+/**
+ * Bullet and enumerated list items
+ */
+const RST_LIST_ITEM = /^([*+\-•]|\(?(?:\d+|#|[a-zA-Z])[.)])\s+(.*)$/
+
+/**
+ * Converts reStructuredText to markdown
+ */
+function rstToMarkdown(lines: string[]): string[] {
+  const ctx: RstContext = {
+    headingStyles: [],
+    targets: new Map(),
+    substitutions: new Map(),
+    highlightLanguage: ''
+  }
+
+  for (const line of lines) {
+    const target = line.match(/^\.\. _([^:]+):\s+(\S+)\s*$/)
+    if (target) ctx.targets.set(target[1].toLowerCase(), target[2])
+    const substitution = line.match(/^\.\. \|([^|]+)\|\s+replace::\s+(.+)$/)
+    if (substitution) ctx.substitutions.set(substitution[1], substitution[2])
+  }
+
+  return convertRstBlock(lines, ctx)
+}
+
+/**
+ * Reads the indented block following a line
+ * Returns the block (blank lines included, trailing ones excluded) and the index after it
+ */
+function readIndentedBlock(lines: string[], start: number): { block: string[]; next: number } {
+  let end = start
+  let last = start
+  while (end < lines.length && (lines[end].trim() === '' || /^\s/.test(lines[end]))) {
+    if (lines[end].trim() !== '') last = end + 1
+    end++
+  }
+  return { block: lines.slice(start, last), next: last }
+}
+
+/**
+ * Converts reStructuredText inline markup to markdown
+ */
+function rstInline(text: string, ctx: RstContext): string {
+  // Inline literals first, so their content is left alone
+  const parts = text.split(/``(.+?)``/)
+
+  return parts.map((part, index) => {
+    if (index % 2 === 1) {
+      return part.includes('`') ? `\`\` ${part} \`\`` : `\`${part}\``
+    }
+
+    return part
+      // Roles: :func:`name`, :ref:`Title <label>`, :py:class:`~pkg.Class`
+      .replace(/:(?:[\w-]+:)*([\w-]+):`([^`]+)`/g, (_, role: string, content: string) => {
+        const labelled = content.match(/^(.*?)\s*<([^>]+)>$/)
+        let label = labelled && labelled[1] ? labelled[1] : (labelled ? labelled[2] : content)
+        if (label.startsWith('~')) label = label.slice(1).split('.').pop()!
+        label = label.replace(/^!/, '')
+        return RST_CODE_ROLES.has(role) ? `\`${label}\`` : label
+      })
+      // Embedded URIs: `text <https://...>`_
+      .replace(/`([^`<]*?)\s*<([^>`]+)>`__?/g, (_, label: string, uri: string) => {
+        const url = uri.endsWith('_') ? ctx.targets.get(uri.slice(0, -1).toLowerCase()) ?? '' : uri
+        return url ? `[${label || url}](${url})` : label
+      })
+      // Named references: `text`_ and word_
+      .replace(/`([^`]+)`__?/g, (_, label: string) => {
+        const url = ctx.targets.get(label.toLowerCase())
+        return url ? `[${label}](${url})` : label
+      })
+      .replace(/\b([\w-]+)__?(?=$|[\s.,;:!?)])/g, (match, name: string) => {
+        const url = ctx.targets.get(name.toLowerCase())
+        return url ? `[${name}](${url})` : match
+      })
+      // Footnote and citation references: [1]_, [#note]_
+      .replace(/\[([#*\w-]+)\]_/g, '[$1]')
+      .replace(/\|([^|\s][^|]*)\|/g, (match, name: string) => ctx.substitutions.get(name) ?? match)
+      .replace(/\\ /g, '')
+  }).join('')
+}
+
+/**
+ * Parses a grid table (+---+---+)
+ */
+function parseRstGridTable(lines: string[], ctx: RstContext): string[][] {
+  const border = lines[0]
+  const boundaries = [...border.matchAll(/\+/g)].map(match => match.index!)
+  const rows: string[][] = []
+  let headerRows = 0
+  let current: string[][] | null = null
+
+  for (const line of lines.slice(1)) {
+    if (/^\+[-=+]+\+\s*$/.test(line)) {
+      if (current) rows.push(current.map(cell => rstInline(cell.join(' ').trim(), ctx)))
+      current = null
+      if (line.includes('=')) headerRows = rows.length
+      continue
+    }
+
+    current ??= boundaries.slice(1).map(() => [])
+    for (let column = 0; column < boundaries.length - 1; column++) {
+      const text = line.slice(boundaries[column] + 1, boundaries[column + 1]).trim()
+      if (text) current[column].push(text)
+    }
+  }
+
+  // Multi-row headers are merged into the last header row
+  if (headerRows > 1) {
+    const merged = rows[0].map((_, column) => rows.slice(0, headerRows).map(row => row[column]).filter(Boolean).join(' '))
+    rows.splice(0, headerRows, merged)
+  }
+  return rows
+}
+
+/**
+ * Parses a simple table (===  ===)
+ * Returns the rows and the number of lines the table spans
+ */
+function parseRstSimpleTable(lines: string[], start: number, ctx: RstContext): { rows: string[][]; next: number } {
+  const border = lines[start]
+  const starts = [...border.matchAll(/=+/g)].map(match => match.index!)
+  const slice = (line: string) => starts.map((from, index) => line.slice(from, starts[index + 1]).trim())
+
+  const rows: string[][] = []
+  let borders = 1
+  let i = start + 1
+
+  for (; i < lines.length; i++) {
+    const line = lines[i]
+    if (/^=+(\s+=+)+\s*$/.test(line) || /^=+\s*$/.test(line)) {
+      borders++
+      const nextIsRow = i + 1 < lines.length && lines[i + 1].trim() !== ''
+      // The second border closes the header when rows follow it
+      if (borders >= 3 || !nextIsRow) {
+        i++
+        break
+      }
+      continue
+    }
+    if (line.trim() === '') continue
+
+    const cells = slice(line)
+    if (cells[0] === '' && rows.length > 0) {
+      // Continuation line of the previous row
+      const previous = rows[rows.length - 1]
+      cells.forEach((cell, index) => {
+        if (cell) previous[index] = `${previous[index]} ${cell}`.trim()
+      })
+    } else {
+      rows.push(cells)
+    }
+  }
+
+  return { rows: rows.map(row => row.map(cell => rstInline(cell, ctx))), next: i }
+}
+
+/**
+ * Parses a list-table directive body (a bullet list of rows, each a bullet list of cells)
+ */
+function parseRstListTable(body: string[], ctx: RstContext): string[][] {
+  const rows: string[][] = []
+  let cellIndent = -1
+
+  for (const line of body) {
+    const row = line.match(/^[*-]\s+[*-]\s+(.*)$/) ?? line.match(/^[*-]\s*$/)
+    if (row) {
+      rows.push(row[1] !== undefined ? [row[1]] : [])
+      cellIndent = -1
+      continue
+    }
+    const cell = line.match(/^(\s+)[*-]\s+(.*)$/)
+    if (cell && rows.length > 0 && (cellIndent === -1 || cell[1].length <= cellIndent)) {
+      cellIndent = cell[1].length
+      rows[rows.length - 1].push(cell[2])
+      continue
+    }
+    const current = rows[rows.length - 1]
+    if (current && current.length > 0 && line.trim()) {
+      current[current.length - 1] = `${current[current.length - 1]} ${line.trim()}`
+    }
+  }
+
+  return rows.map(row => row.map(cell => rstInline(cell.trim(), ctx)))
+}
+
+/**
+ * Splits a CSV line, honouring double quotes
+ */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      current += '"'
+      i++
+    } else if (char === '"') {
+      quoted = !quoted
+    } else if (char === ',' && !quoted) {
+      cells.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  cells.push(current.trim())
+  return cells
+}
+
+/**
+ * Renders a reStructuredText directive
+ */
+function renderRstDirective(
+  name: string,
+  args: string,
+  options: Map<string, string>,
+  body: string[],
+  ctx: RstContext
+): string[] {
+  const directive = name.toLowerCase()
+  const convertBody = (lines: string[]) => convertRstBlock(lines, ctx)
+
+  if (directive === 'highlight' || directive === 'highlightlang') {
+    ctx.highlightLanguage = args.trim()
+    return []
+  }
+  if (RST_SKIPPED_DIRECTIVES.has(directive) || directive.startsWith('auto')) {
+    return []
+  }
+
+  if (directive === 'code-block' || directive === 'code' || directive === 'sourcecode' || directive === 'code-tab') {
+    const caption = options.get('caption')
+    return [
+      ...(caption ? ['', `**${rstInline(caption, ctx)}**`] : []),
+      ...codeFence(body, args.trim().split(/\s+/)[0] || ctx.highlightLanguage)
+    ]
+  }
+  if (directive === 'parsed-literal') {
+    return codeFence(body.map(line => rstInline(line, ctx).replace(/[*`]/g, '')))
+  }
+  if (directive === 'math') {
+    return ['', '$$', ...trimBlankLines([args, ...body]), '$$', '']
+  }
+
+  if (ADMONITION_LABELS[directive]) {
+    return admonition(ADMONITION_LABELS[directive], convertBody([args, ...body]))
+  }
+  if (directive === 'admonition') {
+    return admonition(rstInline(args.trim(), ctx) || 'Note', convertBody(body))
+  }
+  if (directive === 'versionadded' || directive === 'versionchanged' || directive === 'deprecated') {
+    const [version, ...text] = args.trim().split(/\s+/)
+    const label = directive === 'versionadded'
+      ? `New in version ${version}`
+      : directive === 'versionchanged' ? `Changed in version ${version}` : `Deprecated since version ${version}`
+    return admonition(label, convertBody([text.join(' '), ...body]))
+  }
+
+  if (directive === 'image' || directive === 'figure') {
+    const alt = options.get('alt') ?? ''
+    return ['', `![${alt}](${args.trim()})`, '', ...convertBody(body)]
+  }
+
+  if (directive === 'list-table' || directive === 'csv-table' || directive === 'table') {
+    const title = args.trim() ? ['', `**${rstInline(args.trim(), ctx)}**`] : []
+    if (directive === 'table') return [...title, ...convertBody(body)]
+
+    let rows = directive === 'list-table'
+      ? parseRstListTable(body, ctx)
+      : body.filter(line => line.trim()).map(line => splitCsvLine(line.trim()).map(cell => rstInline(cell, ctx)))
+    const header = options.get('header')
+    if (header) rows = [splitCsvLine(header), ...rows]
+    return [...title, ...markdownTable(rows)]
+  }
+
+  if (RST_OBJECT_DIRECTIVE.test(directive)) {
+    return ['', `\`${args.trim()}\``, '', ...convertBody(body)]
+  }
+
+  if (directive === 'rubric' || directive === 'topic' || directive === 'sidebar' ||
+      directive === 'tab' || directive === 'group-tab' || directive === 'tab-item' || directive === 'card') {
+    return [...(args.trim() ? ['', `**${rstInline(args.trim(), ctx)}**`, ''] : []), ...convertBody(body)]
+  }
+
+  // Containers and unknown directives: keep their content
+  return convertBody(body)
+}
+
+/**
+ * Converts a block of reStructuredText lines (already dedented)
+ */
+function convertRstBlock(lines: string[], ctx: RstContext): string[] {
+  const out: string[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+    const trimmed = line.trim()
+
+    if (trimmed === '') {
+      out.push('')
+      i++
+      continue
+    }
+
+    // Section title with overline
+    if (RST_ADORNMENT.test(line) && i + 2 < lines.length && lines[i + 1].trim() &&
+        lines[i + 2].trim() === trimmed && lines[i + 2][0] === line[0]) {
+      out.push(...renderRstHeading(lines[i + 1].trim(), `${line[0]}/over`, ctx))
+      i += 3
+      continue
+    }
+
+    // Section title with underline
+    const next = lines[i + 1]
+    if (!/^\s/.test(line) && next !== undefined && RST_ADORNMENT.test(next) &&
+        next.trim().length >= Math.min(trimmed.length, 3) && !RST_ADORNMENT.test(line) &&
+        !/^\.\.\s/.test(line)) {
+      out.push(...renderRstHeading(trimmed, next[0], ctx))
+      i += 2
+      continue
+    }
+
+    // Transition
+    if (RST_ADORNMENT.test(line) && trimmed.length >= 4 && !/^=+(\s+=+)+/.test(line)) {
+      out.push('', '---', '')
+      i++
+      continue
+    }
+
+    // Grid table
+    if (/^\+[-=]+\+/.test(line)) {
+      const start = i
+      while (i < lines.length && /^[+|]/.test(lines[i])) i++
+      out.push(...markdownTable(parseRstGridTable(lines.slice(start, i), ctx)))
+      continue
+    }
+
+    // Simple table
+    if (/^=+(\s+=+)+\s*$/.test(line)) {
+      const { rows, next: after } = parseRstSimpleTable(lines, i, ctx)
+      out.push(...markdownTable(rows))
+      i = after
+      continue
+    }
+
+    // Directives, targets, substitution definitions, footnotes and comments
+    if (/^\.\.(\s|$)/.test(line)) {
+      const { block, next: after } = readIndentedBlock(lines, i + 1)
+      out.push(...renderRstExplicitMarkup(line, dedent(block), ctx))
+      i = after
+      continue
+    }
+
+    // Doctest block
+    if (trimmed.startsWith('>>> ')) {
+      const start = i
+      while (i < lines.length && lines[i].trim() !== '') i++
+      out.push(...codeFence(lines.slice(start, i), 'python'))
+      continue
+    }
+
+    // List item
+    const item = line.match(RST_LIST_ITEM)
+    if (item && !/^\s/.test(line)) {
+      const marker = item[1]
+      const contentIndent = line.length - line.trimStart().length + marker.length + (line.slice(marker.length).match(/^\s+/)?.[0].length ?? 1)
+      const itemLines = [item[2]]
+      i++
+      while (i < lines.length) {
+        const current = lines[i]
+        if (current.trim() === '') {
+          // A blank line ends the item unless indented content follows
+          if (i + 1 < lines.length && /^\s/.test(lines[i + 1]) && lines[i + 1].trim()) {
+            itemLines.push('')
+            i++
+            continue
+          }
+          break
+        }
+        if (!/^\s/.test(current)) break
+        itemLines.push(current.slice(Math.min(contentIndent, current.length - current.trimStart().length)))
+        i++
+      }
+
+      const ordered = !/^[*+\-•]$/.test(marker)
+      const bullet = ordered ? '1. ' : '- '
+      const body = convertRstBlock(itemLines, ctx)
+      const first = body.findIndex(bodyLine => bodyLine.trim() !== '')
+      out.push(...body.slice(first).map((bodyLine, index) =>
+        index === 0 ? `${bullet}${bodyLine}` : bodyLine ? `${' '.repeat(bullet.length)}${bodyLine}` : ''))
+      continue
+    }
+
+    // Field list item (:param name: description)
+    const field = line.match(/^:([^:`][^:]*):(?:\s+(.*))?$/)
+    if (field) {
+      const { block, next: after } = readIndentedBlock(lines, i + 1)
+      const description = [field[2] ?? '', ...dedent(block)].filter(text => text.trim()).map(text => text.trim()).join(' ')
+      out.push(`- **${field[1]}**${description ? `: ${rstInline(description, ctx)}` : ''}`)
+      i = after
+      continue
+    }
+
+    // Indented block: block quote
+    if (/^\s/.test(line)) {
+      const { block, next: after } = readIndentedBlock(lines, i)
+      out.push('', ...convertRstBlock(dedent(block), ctx).map(quoted => quoted ? `> ${quoted}` : '>'), '')
+      i = after
+      continue
+    }
+
+    // Definition list item: a term followed directly by an indented definition
+    if (next !== undefined && /^\s+\S/.test(next)) {
+      const { block, next: after } = readIndentedBlock(lines, i + 1)
+      const term = trimmed.split(/\s+:\s+/)[0]
+      out.push('', `**${rstInline(term, ctx)}**`, '', ...convertRstBlock(dedent(block), ctx))
+      i = after
+      continue
+    }
+
+    // Paragraph, possibly introducing a literal block with "::"
+    const paragraph: string[] = []
+    while (i < lines.length && lines[i].trim() !== '' && !/^\s/.test(lines[i])) {
+      paragraph.push(lines[i].trim())
+      i++
+    }
+
+    const text = paragraph.join(' ')
+    if (text.endsWith('::')) {
+      const intro = text === '::' ? '' : text.replace(/\s*::$/, /\s::$/.test(text) ? '' : ':')
+      if (intro) out.push(rstInline(intro, ctx))
+
+      while (i < lines.length && lines[i].trim() === '') i++
+      const { block, next: after } = readIndentedBlock(lines, i)
+      if (block.length > 0) out.push(...codeFence(dedent(block), ctx.highlightLanguage))
+      i = after
+      continue
+    }
+
+    out.push(rstInline(text, ctx))
+  }
+
+  return out
+}
+
+/**
+ * Renders a section title at the level of its adornment style
+ */
+function renderRstHeading(title: string, style: string, ctx: RstContext): string[] {
+  let level = ctx.headingStyles.indexOf(style)
+  if (level === -1) {
+    ctx.headingStyles.push(style)
+    level = ctx.headingStyles.length - 1
+  }
+  return ['', `${'#'.repeat(Math.min(level + 1, 6))} ${rstInline(title, ctx)}`, '']
+}
+
+/**
+ * Renders explicit markup (lines starting with "..")
+ */
+function renderRstExplicitMarkup(line: string, block: string[], ctx: RstContext): string[] {
+  // Hyperlink targets and substitution definitions were collected up front
+  if (/^\.\. _/.test(line) || /^\.\. \|[^|]+\|/.test(line)) {
+    return []
+  }
+
+  const footnote = line.match(/^\.\. \[([#*\w-]+)\]\s*(.*)$/)
+  if (footnote) {
+    return ['', `[${footnote[1]}]: ${rstInline([footnote[2], ...block].map(text => text.trim()).join(' ').trim(), ctx)}`]
+  }
+
+  const directive = line.match(/^\.\. ([\w:.+-]+)::\s*(.*)$/)
+  if (!directive) {
+    // Comment
+    return []
+  }
+
+  const options = new Map<string, string>()
+  let bodyStart = 0
+  while (bodyStart < block.length) {
+    const option = block[bodyStart].match(/^:([\w-]+):\s*(.*)$/)
+    if (!option) break
+    options.set(option[1], option[2])
+    bodyStart++
+  }
+
+  return renderRstDirective(directive[1], directive[2], options, trimBlankLines(block.slice(bodyStart)), ctx)
+}
+
+// ---------------------------------------------------------------------------
+// AsciiDoc
+// ---------------------------------------------------------------------------
+
+/**
+ * Built-in AsciiDoc attributes
+ */
+const ASCIIDOC_BUILTIN_ATTRIBUTES: Record<string, string> = {
+  nbsp: ' ',
+  sp: ' ',
+  empty: '',
+  blank: '',
+  zwsp: '',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  'two-colons': '::',
+  'two-semicolons': ';;',
+  plus: '+',
+  startsb: '[',
+  endsb: ']',
+  vbar: '|',
+  caret: '^',
+  asterisk: '*',
+  tilde: '~',
+  backslash: '\\',
+  backtick: '`'
+}
+
+/**
+ * Opening lines of delimited blocks; markdown-style fences may name a language
+ */
+const ASCIIDOC_DELIMITER = /^(?:(-{4,}|\.{4,}|={4,}|\*{4,}|_{4,}|\+{4,}|\/{4,}|--|\|={3,})\s*|(`{3,})(.*))$/
+
+/**
+ * Converts AsciiDoc inline markup to markdown
+ */
+function asciidocInline(text: string, attributes: Map<string, string>): string {
+  const resolved = text.replace(/\{([\w-]+)\}/g, (match, name: string) =>
+    attributes.get(name) ?? ASCIIDOC_BUILTIN_ATTRIBUTES[name] ?? match)
+
+  return resolved
+    // Literal monospace (`+text+`) keeps its content as is
+    .replace(/`\+(.+?)\+`/g, (_, code: string) => `\`${code}\``)
+    .split(/(`[^`]+`)/)
+    .map((part, index) => index % 2 === 1 ? part : part
+      .replace(/image:([^\s[:][^\s[]*)\[([^\]]*)\]/g, (_, target: string, alt: string) => `![${alt.split(',')[0]}](${target})`)
+      .replace(/(?:link:)?((?:https?|ftp|mailto):[^\s[]+)\[([^\]]*)\]/g, (_, url: string, label: string) => {
+        const text = label.split(',')[0].replace(/\^$/, '').replace(/^"(.*)"$/, '$1')
+        return `[${text || url.replace(/^mailto:/, '')}](${url})`
+      })
+      .replace(/link:([^\s[]+)\[([^\]]*)\]/g, (_, url: string, label: string) => `[${label || url}](${url})`)
+      .replace(/xref:([^\s[]+)\[([^\]]*)\]/g, (_, target: string, label: string) => label || target.replace(/\.adoc(#.*)?$/, ''))
+      .replace(/<<([^,>]+)(?:,\s*([^>]+))?>>/g, (_, id: string, label?: string) => label ?? id.replace(/\.adoc(#.*)?$/, ''))
+      .replace(/kbd:\[([^\]]+)\]/g, '`$1`')
+      .replace(/btn:\[([^\]]+)\]/g, '**$1**')
+      .replace(/menu:([^[]+)\[([^\]]*)\]/g, (_, menu: string, items: string) => `**${[menu, ...items.split(/\s*>\s*/)].filter(Boolean).join(' > ')}**`)
+      .replace(/footnote(?::[\w-]*)?\[([^\]]*)\]/g, (_, note: string) => note ? ` (${note})` : '')
+      .replace(/pass:[a-z,]*\[([^\]]*)\]/g, '$1')
+      // Constrained bold (*text*) becomes markdown strong emphasis
+      .replace(/(^|[^\w*])\*(?!\s)([^*]*?[^\s*])\*(?![\w*])/g, '$1**$2**')
+      .replace(/\[[\w.#-]+\]#([^#]+)#/g, '$1')
+      .replace(/\s\+$/, ''))
+    .join('')
+}
+
+/**
+ * Parses a block attribute list ([source,python], [NOTE], [cols="1,2",options="header"])
+ */
+function parseAsciidocAttributes(list: string): { positional: string[]; named: Map<string, string> } {
+  const positional: string[] = []
+  const named = new Map<string, string>()
+
+  for (const match of list.matchAll(/(?:([\w-]+)=)?(?:"([^"]*)"|([^,]*))(?:,|$)/g)) {
+    if (match[0] === '') break
+    const value = (match[2] ?? match[3] ?? '').trim()
+    if (match[1]) {
+      named.set(match[1], value)
+    } else {
+      positional.push(value)
+    }
+  }
+
+  return { positional, named }
+}
+
+/**
+ * Parses the body of an AsciiDoc table (|===)
+ */
+function parseAsciidocTable(body: string[], attributes: ReturnType<typeof parseAsciidocAttributes> | null, inline: (text: string) => string): string[][] {
+  const cols = attributes?.named.get('cols')
+  let columns = 0
+  if (cols) {
+    const multiplier = cols.match(/^(\d+)\*/)
+    columns = multiplier ? parseInt(multiplier[1], 10) : cols.split(',').length
+  }
+
+  const cells: string[] = []
+  let firstLineCells = 0
+
+  body.forEach((line, index) => {
+    if (line.trim() === '') return
+    if (!line.includes('|')) {
+      // Continuation of the previous cell
+      if (cells.length > 0) cells[cells.length - 1] += ` ${line.trim()}`
+      return
+    }
+    // Text before the first pipe and span specifiers (2+, 3*) before a pipe are dropped
+    const parts = line.split(/(?<!\\)\|/).slice(1).map(cell => cell.replace(/\s+\d+[+*][adehlmsv]?$/, '').trim())
+    if (index === body.findIndex(text => text.trim() !== '')) firstLineCells = parts.length
+    cells.push(...parts)
+  })
+
+  columns ||= firstLineCells || 1
+  const rows: string[][] = []
+  for (let i = 0; i < cells.length; i += columns) {
+    rows.push(cells.slice(i, i + columns).map(cell => inline(cell.replace(/\\\|/g, '|'))))
+  }
+  return rows
+}
+
+/**
+ * Converts AsciiDoc to markdown
+ */
+function asciidocToMarkdown(lines: string[]): string[] {
+  return convertAsciidocBlock(lines, new Map())
+}
+
+/**
+ * Converts a block of AsciiDoc lines
+ */
+function convertAsciidocBlock(lines: string[], attributes: Map<string, string>): string[] {
+  const out: string[] = []
+  const inline = (text: string) => asciidocInline(text, attributes)
+
+  let blockAttributes: ReturnType<typeof parseAsciidocAttributes> | null = null
+  let blockTitle: string | null = null
+  let i = 0
+
+  const takeBlockTitle = (): string[] => {
+    const title = blockTitle ? ['', `**${inline(blockTitle)}**`] : []
+    blockTitle = null
+    return title
+  }
+
+  while (i < lines.length) {
+    const line = lines[i]
+    const trimmed = line.trim()
+
+    if (trimmed === '') {
+      out.push('')
+      i++
+      continue
+    }
+
+    // Comments, conditionals and includes
+    if (/^\/\/(?!\/\/)/.test(line) || /^(?:ifn?def|ifeval|endif)::/.test(line) ||
+        /^include::/.test(line) || /^toc::\[/.test(line) || /^<<<$/.test(trimmed)) {
+      i++
+      continue
+    }
+
+    // Attribute entries
+    const attribute = line.match(/^:(!?)([\w-]+)(!?):\s*(.*)$/)
+    if (attribute) {
+      if (attribute[1] || attribute[3]) {
+        attributes.delete(attribute[2])
+      } else {
+        attributes.set(attribute[2], attribute[4])
+      }
+      i++
+      continue
+    }
+
+    // Anchors, block attributes and block titles apply to the next block
+    if (/^\[\[[^\]]*\]\]$/.test(trimmed) || /^\[#[\w-]+\]$/.test(trimmed)) {
+      i++
+      continue
+    }
+    const attributeList = line.match(/^\[([^\]]*)\]\s*$/)
+    if (attributeList) {
+      blockAttributes = parseAsciidocAttributes(attributeList[1])
+      i++
+      continue
+    }
+    const title = line.match(/^\.([^\s.].*)$/)
+    if (title) {
+      blockTitle = title[1]
+      i++
+      continue
+    }
+
+    const style = blockAttributes?.positional[0] ?? ''
+    const admonitionLabel = ADMONITION_LABELS[style.toLowerCase()]
+
+    // Section titles
+    const heading = line.match(/^(={1,6}|#{1,6})\s+(.+?)(?:\s+\1)?$/)
+    if (heading) {
+      out.push('', `${'#'.repeat(heading[1].length)} ${inline(heading[2])}`, '')
+      blockAttributes = null
+      blockTitle = null
+      i++
+      continue
+    }
+
+    // Delimited blocks
+    const delimiter = line.match(ASCIIDOC_DELIMITER)
+    if (delimiter) {
+      const fence = delimiter[1] ?? delimiter[2]
+      const isMarkdownFence = delimiter[2] !== undefined
+      let end = i + 1
+      while (end < lines.length && (isMarkdownFence ? !/^`{3,}\s*$/.test(lines[end]) : lines[end].trimEnd() !== fence)) end++
+      const body = lines.slice(i + 1, end)
+      i = end + 1
+
+      const titleText = blockTitle
+      const titleLines = takeBlockTitle()
+      if (fence.startsWith('/') || fence.startsWith('+')) {
+        // Comment and passthrough blocks
+      } else if (isMarkdownFence) {
+        out.push(...titleLines, ...codeFence(body, (delimiter[3] ?? '').trim()))
+      } else if (fence.startsWith('-') && fence.length >= 4) {
+        const language = style === 'source' || style === '' ? blockAttributes?.positional[1] ?? '' : ''
+        out.push(...titleLines, ...codeFence(body.map(text => text.replace(/\s*<\d+>\s*$/, '')), language))
+      } else if (fence.startsWith('.')) {
+        out.push(...titleLines, ...codeFence(body))
+      } else if (fence.startsWith('|')) {
+        out.push(...titleLines, ...markdownTable(parseAsciidocTable(body, blockAttributes, inline)))
+      } else if (admonitionLabel) {
+        const label = titleText ? `${admonitionLabel}: ${inline(titleText)}` : admonitionLabel
+        out.push(...admonition(label, convertAsciidocBlock(body, attributes)))
+      } else if (fence.startsWith('_') || style === 'quote') {
+        const attribution = blockAttributes?.positional.slice(1).filter(Boolean).join(', ')
+        const quoted = [...convertAsciidocBlock(body, attributes), ...(attribution ? ['', `— ${attribution}`] : [])]
+        out.push(...titleLines, '', ...trimBlankLines(quoted).map(text => text ? `> ${text}` : '>'), '')
+      } else {
+        // Example, sidebar and open blocks keep their content
+        out.push(...titleLines, ...convertAsciidocBlock(body, attributes))
+      }
+      blockAttributes = null
+      continue
+    }
+
+    // Block images
+    const image = line.match(/^image::([^[]+)\[([^\]]*)\]\s*$/)
+    if (image) {
+      out.push(...takeBlockTitle(), '', `![${image[2].split(',')[0]}](${image[1]})`, '')
+      blockAttributes = null
+      i++
+      continue
+    }
+
+    // Thematic break
+    if (/^'{3,}$/.test(trimmed)) {
+      out.push('', '---', '')
+      i++
+      continue
+    }
+
+    // Literal paragraph (indented lines)
+    if (/^\s/.test(line)) {
+      const start = i
+      while (i < lines.length && /^\s+\S/.test(lines[i])) i++
+      out.push(...takeBlockTitle(), ...codeFence(dedent(lines.slice(start, i))))
+      blockAttributes = null
+      continue
+    }
+
+    // List items
+    const unordered = line.match(/^(\*{1,5}|-)\s+(.*)$/)
+    const ordered = line.match(/^(\.{1,5}|\d+\.)\s+(.*)$/)
+    if (unordered || ordered) {
+      out.push(...takeBlockTitle())
+      const depth = unordered ? (unordered[1] === '-' ? 1 : unordered[1].length) : (ordered![1].startsWith('.') ? ordered![1].length : 1)
+      const bullet = unordered ? '- ' : '1. '
+      const indent = unordered ? '  ' : '   '
+      const itemLines = [(unordered ?? ordered)![2]]
+      i++
+      // Lines up to the next item or blank line belong to this item
+      while (i < lines.length && lines[i].trim() !== '' && !/^(\*{1,5}|-|\.{1,5}|\d+\.)\s+/.test(lines[i]) && lines[i] !== '+') {
+        itemLines.push(lines[i].trim())
+        i++
+      }
+      out.push(`${indent.repeat(depth - 1)}${bullet}${inline(itemLines.join(' '))}`)
+      // A "+" line attaches the next block to the item
+      if (lines[i] === '+') {
+        out.push('')
+        i++
+      }
+      blockAttributes = null
+      continue
+    }
+
+    // Description list items (term:: definition)
+    const description = line.match(/^(\S.*?)(:{2,4}|;;)(?:\s+(.*))?$/)
+    if (description) {
+      out.push(`- **${inline(description[1])}**${description[3] ? `: ${inline(description[3])}` : ''}`)
+      i++
+      continue
+    }
+
+    // Paragraphs (admonition paragraphs and source paragraphs included)
+    const paragraph: string[] = []
+    while (i < lines.length && lines[i].trim() !== '' && (paragraph.length === 0 ||
+        (!ASCIIDOC_DELIMITER.test(lines[i]) && !/^\[[^\]]*\]\s*$/.test(lines[i]) && !/^\.[^\s.]/.test(lines[i]) &&
+         !/^(?:\/\/|(?:ifn?def|ifeval|endif|include)::)/.test(lines[i])))) {
+      paragraph.push(lines[i])
+      i++
+    }
+
+    const admonitionParagraph = paragraph[0].match(/^(NOTE|TIP|IMPORTANT|WARNING|CAUTION):\s+(.*)$/)
+    if (admonitionParagraph) {
+      out.push(...admonition(ADMONITION_LABELS[admonitionParagraph[1].toLowerCase()], [inline([admonitionParagraph[2], ...paragraph.slice(1)].join(' '))]))
+    } else if (admonitionLabel) {
+      out.push(...admonition(blockTitle ? `${admonitionLabel}: ${inline(blockTitle)}` : admonitionLabel, [inline(paragraph.join(' '))]))
+      blockTitle = null
+    } else if (style === 'source' || style === 'listing' || style === 'literal') {
+      out.push(...takeBlockTitle(), ...codeFence(paragraph, style === 'source' ? blockAttributes?.positional[1] ?? '' : ''))
+    } else {
+      out.push(...takeBlockTitle(), paragraph.map(text => inline(text.trim())).join('\n'))
+    }
+    blockAttributes = null
+  }
+
+  return out
+}
+
+// ---------------------------------------------------------------------------
+// MDX
+// ---------------------------------------------------------------------------
+
+/**
+ * JSX components rendered as admonitions
+ */
+const MDX_ADMONITION_COMPONENTS = /^(?:Admonition|Callout|Alert|Aside|Note|Info|Tip|Hint|Important|Warning|Caution|Danger|Error)$/
+
+/**
+ * First line of an ESM import or export statement
+ */
+const MDX_ESM_STATEMENT = /^(?:import\s+[^"']*?["']|import\s*\{|export\s+(?:const|let|var|function|class|default|async|\{|\*))/
+
+/**
+ * Reads the attributes of a JSX tag
+ * String values and string literal expressions are kept; other expressions are ignored
+ */
+function parseJsxAttributes(source: string): Map<string, string> {
+  const attributes = new Map<string, string>()
+  for (const match of source.matchAll(/([\w-]+)=(?:"([^"]*)"|'([^']*)'|\{\s*["'`]([^"'`]*)["'`]\s*\})/g)) {
+    attributes.set(match[1], match[2] ?? match[3] ?? match[4])
+  }
+  return attributes
+}
+
+/**
+ * Finds the end of a JSX tag that starts at `lines[start]`
+ * Quotes and braces are skipped, so `=>` inside attributes does not end the tag
+ */
+function readJsxTag(lines: string[], start: number): { source: string; next: number; rest: string } | null {
+  let depth = 0
+  let quote: string | null = null
+
+  for (let lineIndex = start; lineIndex < lines.length && lineIndex < start + 50; lineIndex++) {
+    const line = lines[lineIndex]
+    const from = lineIndex === start ? line.indexOf('<') : 0
+    for (let i = from; i < line.length; i++) {
+      const char = line[i]
+      if (quote) {
+        if (char === quote) quote = null
+      } else if (char === '"' || char === "'" || char === '`') {
+        quote = char
+      } else if (char === '{') {
+        depth++
+      } else if (char === '}') {
+        depth--
+      } else if (char === '>' && depth === 0) {
+        const source = [...lines.slice(start, lineIndex), line.slice(0, i + 1)].join('\n').trim()
+        return { source, next: lineIndex + 1, rest: line.slice(i + 1) }
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Finds the line closing a JSX element, counting nested elements of the same name
+ */
+function findJsxClosingLine(lines: string[], start: number, name: string): number {
+  let depth = 1
+  const open = new RegExp(`<${name}(?=[\\s>])`, 'g')
+  const close = new RegExp(`</${name}\\s*>`, 'g')
+
+  for (let i = start; i < lines.length; i++) {
+    depth += (lines[i].match(open)?.length ?? 0) - (lines[i].match(close)?.length ?? 0)
+    if (depth <= 0) return i
+  }
+  return lines.length
+}
+
+/**
+ * Removes inline JSX from a line of text, keeping the children of inline elements
+ */
+function mdxInline(line: string): string {
+  return replaceOutsideCode(line, segment => segment
+    .replace(/\{\/\*[\s\S]*?\*\/\}/g, '')
+    .replace(/ ?<[A-Z][\w.]*(?:\s[^<>]*)?\/>/g, '')
+    .replace(/<\/?[A-Z][\w.]*(?:\s[^<>]*)?>/g, ''))
+}
+
+/**
+ * Converts MDX to markdown
+ * Front matter becomes a title heading, imports and exports are dropped and
+ * JSX components are unwrapped (admonitions, tabs and code blocks are kept)
+ */
+function mdxToMarkdown(lines: string[]): string[] {
+  let start = 0
+  let title: string | undefined
+
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---')
+    if (end > 0) {
+      title = lines.slice(1, end)
+        .map(line => line.match(/^title:\s*["']?(.*?)["']?\s*$/)?.[1])
+        .find(Boolean)
+      start = end + 1
+    }
+  }
+
+  const body = convertMdxBlock(lines.slice(start))
+  const hasTitle = body.some(line => /^#\s/.test(line))
+  return title && !hasTitle ? [`# ${title}`, '', ...body] : body
+}
+
+/**
+ * Converts a block of MDX lines
+ */
+function convertMdxBlock(lines: string[]): string[] {
+  const out: string[] = []
+  let fence: string | null = null
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+    const trimmed = line.trim()
+
+    // Code fences are copied as they are
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/)
+    if (fence) {
+      out.push(line)
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length && trimmed === fenceMatch[1]) {
+        fence = null
+      }
+      i++
+      continue
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1]
+      out.push(line)
+      i++
+      continue
+    }
+
+    // ESM imports and exports, until their braces balance
+    if (MDX_ESM_STATEMENT.test(line)) {
+      let depth = 0
+      do {
+        const current = lines[i].replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '')
+        depth += (current.match(/[{([]/g)?.length ?? 0) - (current.match(/[})\]]/g)?.length ?? 0)
+        i++
+      } while (i < lines.length && (depth > 0 || /[,=({[]\s*$/.test(lines[i - 1])))
+      continue
+    }
+
+    // JSX comments spanning lines
+    if (trimmed.startsWith('{/*')) {
+      while (i < lines.length && !lines[i].includes('*/}')) i++
+      i++
+      continue
+    }
+
+    // Expression lines ({props.children})
+    if (/^\{[^}]*\}$/.test(trimmed)) {
+      i++
+      continue
+    }
+
+    // Docusaurus admonitions (:::note Title ... :::)
+    const directive = trimmed.match(/^(:{3,})(\w+)(?:\[(.*)\]|\s+(.*))?$/)
+    if (directive) {
+      const colons = directive[1]
+      let end = i + 1
+      let depth = 1
+      for (; end < lines.length; end++) {
+        const current = lines[end].trim()
+        if (new RegExp(`^${colons}\\w`).test(current)) depth++
+        if (current === colons && --depth === 0) break
+      }
+      const label = directive[3] || directive[4] || ADMONITION_LABELS[directive[2].toLowerCase()] || directive[2]
+      out.push(...admonition(label, convertMdxBlock(lines.slice(i + 1, end))))
+      i = end + 1
+      continue
+    }
+
+    // Block-level JSX elements
+    const component = trimmed.match(/^<(\/?)([A-Z][\w.]*)/)
+    if (component) {
+      const tag = readJsxTag(lines, i)
+      if (!tag) {
+        i++
+        continue
+      }
+
+      const name = component[2]
+      const selfClosing = tag.source.endsWith('/>')
+      const attributes = parseJsxAttributes(tag.source)
+      i = tag.next
+
+      if (component[1] || selfClosing) {
+        // Closing tags of unwrapped elements and components without children
+        if (tag.rest.trim()) out.push(mdxInline(tag.rest))
+        continue
+      }
+
+      // after[0] is the rest of the opening tag line, after[k] is lines[i + k - 1]
+      const after = [tag.rest, ...lines.slice(i)]
+      const closeIndex = findJsxClosingLine(after, 0, name)
+      const closeLine = after[closeIndex] ?? ''
+      const closeAt = closeLine.search(new RegExp(`</${name}\\s*>`))
+      const children = [...after.slice(0, closeIndex), ...(closeAt > 0 ? [closeLine.slice(0, closeAt)] : [])]
+      const trailing = closeAt >= 0 ? closeLine.slice(closeAt).replace(/^<\/[\w.]+\s*>/, '') : ''
+      i += closeIndex
+
+      if (MDX_ADMONITION_COMPONENTS.test(name)) {
+        const type = attributes.get('type') ?? attributes.get('variant') ?? name
+        const label = attributes.get('title') ?? ADMONITION_LABELS[type.toLowerCase()] ?? type
+        out.push(...admonition(label, convertMdxBlock(dedent(children))))
+      } else if (name === 'CodeBlock') {
+        const code = dedent(children).join('\n').replace(/^\s*\{`|`\}\s*$/g, '').split('\n')
+        out.push(...codeFence(code, attributes.get('language') ?? attributes.get('lang') ?? ''))
+      } else {
+        const label = attributes.get('label') ?? attributes.get('title')
+        out.push(...(label ? ['', `**${label}**`, ''] : []), ...convertMdxBlock(dedent(children)))
+      }
+
+      if (trailing.trim()) out.push(mdxInline(trailing))
+      continue
+    }
+
+    out.push(mdxInline(line))
+    i++
+  }
+
+  return out
+}
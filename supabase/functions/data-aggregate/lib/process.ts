@@ -0,0 +1,170 @@
+/**
+ * Document processing
+ * Chunks and embeds the documents of an ingestion run. Unchanged documents
+ * and chunks are kept with their embeddings, so a re-run only embeds what changed
+ */
+
+import { chunkCode, chunkMarkdown } from './chunker.ts'
+import { estimateCost, generateEmbeddingsBatch } from './embedder.ts'
+import { detectDocumentFormat, normalizeDocument } from './normalize.ts'
+import {
+  createStorageClient,
+  storeDocument,
+  storeEmbeddings,
+  syncChunks,
+  updateDocumentHash
+} from './storage.ts'
+import type {
+  Document,
+  DocumentReference,
+  IngestionProgress,
+  IngestionState,
+  SourceType
+} from './types.ts'
+
+/**
+ * Clients and keys used to process documents
+ */
+export interface ProcessingContext {
+  storage: ReturnType<typeof createStorageClient>
+  openaiApiKey?: string // Only required by the openai embedding provider
+}
+
+/**
+ * Loads the document at a position of the run's document list
+ */
+export type LoadDocument = (index: number) => Promise<Document>
+
+/**
+ * Chunks and embeds a single document, skipping it if its content is unchanged
+ * The content is only loaded for documents that are processed
+ */
+export async function processDocument(
+  reference: DocumentReference,
+  loadDocument: LoadDocument,
+  existingDoc: { contentHash?: string; sourceType: SourceType } | undefined,
+  state: IngestionState,
+  context: ProcessingContext,
+  progress: IngestionProgress,
+  index: number
+): Promise<void> {
+  const { storage } = context
+  const counters = state.counters
+  const contentHash = reference.contentHash
+
+  try {
+    // A document that moved to another source type (a crawled GitHub page now
+    // fetched from the tree) is reprocessed so its chunks carry the new type
+    if (existingDoc?.contentHash === contentHash && existingDoc.sourceType === reference.sourceType) {
+      counters.documentsSkipped++
+      progress.chunking.completed = index + 1
+      progress.embedding.completed = index + 1
+      return
+    }
+
+    const doc = await loadDocument(index)
+    console.log(`Processing: ${doc.url}`)
+
+    // Store document (the hash is recorded once it is fully processed)
+    const docRecord = await storeDocument(storage, state.repositoryId, {
+      url: doc.url,
+      anchorText: doc.anchorText,
+      content: doc.content,
+      contentHash: null,
+      sourceType: doc.sourceType,
+      version: doc.version,
+      releaseDate: doc.releaseDate
+    })
+
+    // Chunk document
+    const chunkMetadata = {
+      url: doc.url,
+      anchorText: doc.anchorText,
+      sourceType: doc.sourceType,
+      ...(doc.path && { path: doc.path }),
+      ...(doc.version && { version: doc.version }),
+      ...(doc.releaseDate && { releaseDate: doc.releaseDate })
+    }
+    // RST, AsciiDoc and MDX documents are normalized to markdown first
+    const chunks = doc.sourceType === 'code' && doc.path
+      ? await chunkCode(doc.content, doc.path, chunkMetadata)
+      : await chunkMarkdown(normalizeDocument(doc.content, detectDocumentFormat(doc.path ?? doc.url)), chunkMetadata)
+
+    if (chunks.length === 0) {
+      console.warn(`No chunks created for ${doc.url}`)
+    }
+
+    // Store new chunks, keep unchanged ones and delete removed ones
+    const sync = await syncChunks(storage, docRecord.id, state.repositoryId, chunks)
+    const chunkRecords = sync.created
+    counters.chunksCreated += chunkRecords.length
+    counters.chunksUnchanged += sync.unchanged
+    counters.chunksDeleted += sync.deleted
+    progress.chunking.completed = index + 1
+
+    // Generate embeddings for new chunks only
+    let embeddingCount = 0
+    if (chunkRecords.length > 0) {
+      const chunkTexts = chunkRecords.map(c => c.chunkText)
+      const estimatedCost = estimateCost(chunkTexts, state.embedding.model)
+      console.log(`Generating embeddings for ${chunkTexts.length} chunks (estimated cost: $${estimatedCost.toFixed(4)})`)
+
+      const embeddingResult = await generateEmbeddingsBatch(chunkTexts, {
+        apiKey: context.openaiApiKey,
+        ...state.embedding
+      })
+
+      // Store embeddings under the repository's model name (servers may report aliases)
+      await storeEmbeddings(
+        storage,
+        state.repositoryId,
+        chunkRecords,
+        embeddingResult.embeddings,
+        state.embedding.model
+      )
+
+      embeddingCount = embeddingResult.embeddings.length
+      counters.totalTokensUsed += embeddingResult.totalTokens
+    }
+
+    await updateDocumentHash(storage, docRecord.id, contentHash)
+
+    counters.embeddingsCreated += embeddingCount
+    counters.documentsProcessed++
+    if (existingDoc) counters.documentsUpdated++
+    progress.embedding.completed = index + 1
+
+    console.log(`✓ Processed ${doc.url}: ${chunkRecords.length} new chunks, ${sync.unchanged} unchanged, ${sync.deleted} deleted, ${embeddingCount} embeddings`)
+
+  } catch (error) {
+    counters.documentsFailed++
+    progress.chunking.completed = index + 1
+    progress.embedding.completed = index + 1
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`✗ Failed to process ${reference.url}:`, errorMsg)
+    state.errors.push({
+      step: 'document_processing',
+      url: reference.url,
+      error: errorMsg,
+      timestamp: new Date().toISOString()
+    })
+  }
+}
+
+/**
+ * Selects stored documents that are no longer part of the repository
+ * Only source types fetched without errors are considered, so a failed
+ * README fetch or crawl does not wipe previously indexed content
+ */
+export function findOrphanedDocuments(
+  existing: Array<{ id: string; url: string; sourceType: SourceType }>,
+  documents: DocumentReference[],
+  fetchedSources: SourceType[]
+): string[] {
+  const currentUrls = new Set(documents.map(doc => doc.url))
+  const fetched = new Set(fetchedSources)
+
+  return existing
+    .filter(doc => !currentUrls.has(doc.url) && fetched.has(doc.sourceType))
+    .map(doc => doc.id)
+}
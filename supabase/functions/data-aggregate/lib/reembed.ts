@@ -0,0 +1,116 @@
+/**
+ * Re-embedding
+ * Moves a repository to a new embedding model without re-crawling: the
+ * existing chunks are embedded with the new model in batches next to the
+ * current embeddings, then the repository is switched over atomically
+ */
+
+import { estimateCost, estimateTokens, generateEmbeddingsBatch } from './embedder.ts'
+import {
+  createStorageClient,
+  getChunksMissingEmbeddings,
+  switchEmbeddingModel,
+  upsertModelEmbeddings
+} from './storage.ts'
+import type { EmbeddingSpec, ReembedStats, RepositoryRecord } from './types.ts'
+
+/**
+ * Number of chunks embedded and stored per batch
+ */
+const REEMBED_BATCH_SIZE = 100
+
+/**
+ * Options for re-embedding a repository
+ */
+export interface ReembedOptions {
+  apiKey?: string  // Required for the openai provider
+  dryRun?: boolean // Only estimate tokens and cost
+}
+
+/**
+ * Re-embeds all chunks of a repository with a new model and switches to it
+ * Chunks that already have an embedding of the new model (e.g. from an
+ * interrupted run) are skipped. Chat keeps using the current model until the
+ * switch, which fails if chunks were added in the meantime; running the
+ * operation again embeds the remaining chunks.
+ * 
+ * @param client - Supabase client
+ * @param repository - Repository to re-embed
+ * @param target - New embedding model
+ * @param options - API key and dry-run flag
+ * @returns Re-embedding statistics
+ */
+export async function reembedRepository(
+  client: ReturnType<typeof createStorageClient>,
+  repository: RepositoryRecord,
+  target: EmbeddingSpec,
+  options: ReembedOptions = {}
+): Promise<ReembedStats> {
+  const startTime = Date.now()
+
+  const stats: ReembedStats = {
+    from: repository.embedding,
+    to: target,
+    totalChunks: repository.totalChunks,
+    chunksToEmbed: 0,
+    chunksEmbedded: 0,
+    embeddingsDeleted: 0,
+    estimatedTokens: 0,
+    estimatedCost: 0,
+    totalTokensUsed: 0,
+    switched: false,
+    processingTimeMs: 0
+  }
+
+  console.log(`Re-embedding ${repository.owner}/${repository.repo}@${repository.ref} with ${target.provider}/${target.model}${options.dryRun ? ' (dry run)' : ''}`)
+
+  // Responses are capped at the API's maximum row count, so chunks are read
+  // in pages; a dry run pages through every chunk without embedding it
+  let afterChunkId: string | undefined
+  while (true) {
+    const batch = await getChunksMissingEmbeddings(client, repository.id, target.model, REEMBED_BATCH_SIZE, afterChunkId)
+    if (batch.length === 0) break
+    afterChunkId = batch[batch.length - 1].id
+
+    const texts = batch.map(chunk => chunk.chunkText)
+    stats.chunksToEmbed += batch.length
+    stats.estimatedTokens += estimateTokens(texts)
+    stats.estimatedCost += estimateCost(texts, target.model)
+
+    if (!options.dryRun) {
+      const result = await generateEmbeddingsBatch(texts, {
+        apiKey: options.apiKey,
+        ...target,
+        batchSize: REEMBED_BATCH_SIZE
+      })
+
+      stats.chunksEmbedded += await upsertModelEmbeddings(
+        client,
+        repository.id,
+        batch.map(chunk => chunk.id),
+        result.embeddings,
+        target.model
+      )
+      stats.totalTokensUsed += result.totalTokens
+
+      console.log(`Re-embedded ${stats.chunksEmbedded} chunks`)
+    }
+
+    if (batch.length < REEMBED_BATCH_SIZE) break
+  }
+
+  console.log(`${stats.chunksToEmbed} chunks to embed (estimated cost: $${stats.estimatedCost.toFixed(4)})`)
+
+  if (options.dryRun) {
+    stats.processingTimeMs = Date.now() - startTime
+    return stats
+  }
+
+  stats.embeddingsDeleted = await switchEmbeddingModel(client, repository.id, target)
+  stats.switched = true
+  stats.processingTimeMs = Date.now() - startTime
+
+  console.log(`✓ Re-embedding complete in ${(stats.processingTimeMs / 1000).toFixed(2)}s (${stats.embeddingsDeleted} old embeddings deleted)`)
+
+  return stats
+}
@@ -0,0 +1,324 @@
+/**
+ * Release timeline ingestion
+ * GitHub releases and the entries of the root CHANGELOG are merged into one
+ * document per version, of sourceType 'release', with the version and release
+ * date recorded on the document. The chat answers "when was X added?" and
+ * "what changed in 3.0?" from these entries.
+ */
+
+import type { GitHubClient } from '../../_shared/github.ts'
+import { slugifyHeading } from './chunker.ts'
+import { detectDocumentFormat, normalizeDocument } from './normalize.ts'
+import { fetchFileContent } from './tree.ts'
+import type { Document, ReleaseIngestionOptions } from './types.ts'
+
+/**
+ * Release ingestion limits and defaults
+ */
+export const RELEASES_CONFIG = {
+  defaultMaxReleases: 100,
+  maxReleasesLimit: 500,
+  maxNotesLength: 20_000,     // Release notes and changelog sections are truncated beyond this
+  changelogNames: /^(?:changelog|changes|history|releases|news)(?:\.(?:md|markdown|mdx|rst|adoc|txt))?$/i
+}
+
+/**
+ * Release from the REST releases API (fields used here)
+ */
+export interface GitHubRelease {
+  tag_name: string
+  name: string | null
+  body: string | null
+  html_url: string
+  draft: boolean
+  prerelease: boolean
+  published_at: string | null
+  created_at: string
+}
+
+/**
+ * Version section of a changelog
+ */
+export interface ChangelogEntry {
+  version: string
+  date?: string     // YYYY-MM-DD
+  heading: string
+  anchor: string    // GitHub anchor of the heading
+  body: string
+}
+
+const MONTHS = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?'
+
+/**
+ * Extracts the version number of a tag or heading ("v1.2.0", "pkg@1.2.0-rc.1")
+ * At least major.minor is required so years and issue numbers don't match
+ */
+export function extractVersion(text: string): string | null {
+  const match = text.match(/(?:^|[^\w.])v?(\d+\.\d+(?:\.\d+)*(?:-[0-9A-Za-z][0-9A-Za-z.-]*)?)/i)
+  return match ? match[1] : null
+}
+
+/**
+ * Extracts a date from a changelog heading as YYYY-MM-DD
+ * Supports ISO dates (2024-01-15, 2024/01/15) and month names (January 15, 2024 or 15 Jan 2024)
+ */
+export function extractDate(text: string): string | undefined {
+  const iso = text.match(/\b(\d{4})[-/.](\d{2})[-/.](\d{2})\b/)
+  if (iso) {
+    return `${iso[1]}-${iso[2]}-${iso[3]}`
+  }
+
+  const named = text.match(new RegExp(`\\b(?:(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}|\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${MONTHS})\\.?,?\\s+\\d{4})\\b`, 'i'))
+  if (named) {
+    const timestamp = Date.parse(`${named[0].replace(/(\d)(?:st|nd|rd|th)/i, '$1').replace(/\./g, '')} UTC`)
+    if (!Number.isNaN(timestamp)) {
+      return new Date(timestamp).toISOString().substring(0, 10)
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Shifts the headings of a markdown section so the highest one is at minLevel
+ * Keeps release notes and changelog subsections below the headings of the entry document
+ */
+function nestHeadings(markdown: string, minLevel: number): string {
+  const lines = markdown.split('\n')
+  let inFence = false
+  let highest = 7
+
+  for (const line of lines) {
+    if (/^\s*(?:```|~~~)/.test(line)) inFence = !inFence
+    const heading = !inFence && line.match(/^(#{1,6})\s/)
+    if (heading) highest = Math.min(highest, heading[1].length)
+  }
+
+  const shift = highest <= 6 ? Math.max(0, minLevel - highest) : 0
+  if (shift === 0) return markdown
+
+  inFence = false
+  return lines.map(line => {
+    if (/^\s*(?:```|~~~)/.test(line)) inFence = !inFence
+    return !inFence && /^#{1,6}\s/.test(line)
+      ? `${'#'.repeat(shift)}${line}`.replace(/^#{7,}/, '######')
+      : line
+  }).join('\n')
+}
+
+/**
+ * Splits a markdown changelog into version entries
+ * The level of the first heading with a version number is the entry level;
+ * headings at that level without a version ("Unreleased") end the previous entry
+ */
+export function parseChangelog(markdown: string): ChangelogEntry[] {
+  const entries: ChangelogEntry[] = []
+  const seenSlugs = new Map<string, number>()
+  let entryLevel: number | null = null
+  let current: (ChangelogEntry & { lines: string[] }) | null = null
+  let inFence = false
+
+  const finish = () => {
+    if (current) {
+      const { lines, ...entry } = current
+      entries.push({ ...entry, body: lines.join('\n').trim() })
+      current = null
+    }
+  }
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(?:```|~~~)/.test(line)) inFence = !inFence
+    const heading = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/)
+
+    if (heading) {
+      const level = heading[1].length
+      const text = heading[2]
+      const anchor = slugifyHeading(text, seenSlugs)
+      // Link targets and brackets are not part of the version ("[1.2.0](compare-url)")
+      const label = text.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1').replace(/[[\]]/g, '')
+      const version = /unreleased/i.test(label) ? null : extractVersion(label)
+
+      if (version && (entryLevel === null || level === entryLevel)) {
+        finish()
+        entryLevel = level
+        current = { version, date: extractDate(label), heading: label.trim(), anchor, body: '', lines: [] }
+        continue
+      }
+      if (entryLevel !== null && level <= entryLevel) {
+        finish()
+        continue
+      }
+    }
+
+    current?.lines.push(line)
+  }
+  finish()
+
+  return entries.filter(entry => entry.body.length > 0)
+}
+
+/**
+ * Truncates release notes
+ */
+function truncate(text: string): string {
+  const trimmed = text.trim()
+  return trimmed.length > RELEASES_CONFIG.maxNotesLength
+    ? `${trimmed.substring(0, RELEASES_CONFIG.maxNotesLength)}...`
+    : trimmed
+}
+
+/**
+ * Merges releases and changelog entries into one document per version
+ * The release page is the document URL when a release exists; changelog-only
+ * versions link to their section of the changelog. Newest versions come first.
+ */
+export function buildReleaseDocuments(
+  releases: GitHubRelease[],
+  changelog: { url: string; entries: ChangelogEntry[] } | null,
+  options: ReleaseIngestionOptions = {}
+): Document[] {
+  const maxReleases = Math.max(0, Math.min(options.maxReleases ?? RELEASES_CONFIG.defaultMaxReleases, RELEASES_CONFIG.maxReleasesLimit))
+  const byVersion = new Map<string, { version: string; release?: GitHubRelease; entry?: ChangelogEntry }>()
+
+  for (const release of releases) {
+    if (release.draft || (release.prerelease && options.includePrereleases === false)) continue
+    const version = extractVersion(release.tag_name) ?? release.tag_name
+    const key = version.toLowerCase()
+    if (!byVersion.has(key)) byVersion.set(key, { version, release })
+  }
+
+  for (const entry of changelog?.entries ?? []) {
+    const key = entry.version.toLowerCase()
+    const existing = byVersion.get(key)
+    if (existing) {
+      existing.entry ??= entry
+    } else if (options.includePrereleases !== false || !entry.version.includes('-')) {
+      byVersion.set(key, { version: entry.version, entry })
+    }
+  }
+
+  const documents: Document[] = []
+  for (const { version, release, entry } of byVersion.values()) {
+    const releaseDate = release?.published_at?.substring(0, 10) ?? entry?.date ?? release?.created_at.substring(0, 10)
+    const tag = release?.tag_name ?? version
+    const title = release?.name?.trim() && release.name.trim() !== tag
+      ? `Release ${tag}: ${release.name.trim()}`
+      : `Release ${tag}`
+    const details = [
+      `Version ${version}`,
+      ...(releaseDate ? [`Released ${releaseDate}`] : []),
+      ...(release?.prerelease ? ['Pre-release'] : [])
+    ].join(' · ')
+
+    const sections = [`# ${title}`, details]
+    if (release?.body?.trim()) {
+      sections.push('## Release notes', nestHeadings(truncate(release.body), 3))
+    }
+    if (entry) {
+      sections.push('## Changelog', nestHeadings(truncate(entry.body), 3))
+    }
+    if (sections.length === 2) continue
+
+    documents.push({
+      url: release?.html_url ?? `${changelog!.url}#${entry!.anchor}`,
+      anchorText: title,
+      content: sections.join('\n\n'),
+      sourceType: 'release',
+      version,
+      ...(releaseDate && { releaseDate })
+    })
+  }
+
+  // Undated changelog entries keep their position after the dated ones
+  return documents
+    .map((document, index) => ({ document, index }))
+    .sort((a, b) => (b.document.releaseDate ?? '').localeCompare(a.document.releaseDate ?? '') || a.index - b.index)
+    .slice(0, maxReleases)
+    .map(({ document }) => document)
+}
+
+/**
+ * Lists the releases of a repository, newest first
+ */
+async function fetchGitHubReleases(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  maxReleases: number
+): Promise<GitHubRelease[]> {
+  const releases: GitHubRelease[] = []
+
+  for (let page = 1; releases.length < maxReleases; page++) {
+    const response = await github.request(`/repos/${owner}/${repo}/releases?per_page=100&page=${page}`)
+    if (!response.ok) {
+      await response.body?.cancel()
+      console.warn(`Failed to list releases of ${owner}/${repo}: ${response.status}`)
+      break
+    }
+
+    const batch: GitHubRelease[] = await response.json()
+    releases.push(...batch)
+    if (batch.length < 100) break
+  }
+
+  return releases
+}
+
+/**
+ * Finds the changelog at the root of the repository
+ * Markdown files are preferred over other formats
+ */
+async function findChangelogPath(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<string | null> {
+  const response = await github.request(`/repos/${owner}/${repo}/contents?ref=${encodeURIComponent(ref)}`)
+  if (!response.ok) {
+    await response.body?.cancel()
+    console.warn(`Failed to list the root of ${owner}/${repo}@${ref}: ${response.status}`)
+    return null
+  }
+
+  const entries: { name: string; type: string }[] = await response.json()
+  const candidates = entries
+    .filter(entry => entry.type === 'file' && RELEASES_CONFIG.changelogNames.test(entry.name))
+    .map(entry => entry.name)
+    .sort((a, b) => Number(!/\.md$/i.test(a)) - Number(!/\.md$/i.test(b)))
+
+  return candidates[0] ?? null
+}
+
+/**
+ * Fetches the release timeline of a repository as documents
+ * Releases are not versioned with the repository; the changelog is read at ref
+ */
+export async function fetchReleaseNotes(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  ref: string,
+  options: ReleaseIngestionOptions = {}
+): Promise<Document[]> {
+  const maxReleases = Math.min(options.maxReleases ?? RELEASES_CONFIG.defaultMaxReleases, RELEASES_CONFIG.maxReleasesLimit)
+  const releases = await fetchGitHubReleases(github, owner, repo, maxReleases)
+
+  let changelog: { url: string; entries: ChangelogEntry[] } | null = null
+  const changelogPath = options.changelogPath ?? await findChangelogPath(github, owner, repo, ref)
+  if (changelogPath) {
+    const content = await fetchFileContent(github, owner, repo, ref, changelogPath)
+    if (content) {
+      const markdown = normalizeDocument(content, detectDocumentFormat(changelogPath))
+      changelog = {
+        url: `https://github.com/${owner}/${repo}/blob/${ref}/${changelogPath}`,
+        entries: parseChangelog(markdown)
+      }
+    }
+  }
+
+  const documents = buildReleaseDocuments(releases, changelog, options)
+  console.log(`Fetched ${documents.length} release entries (${releases.length} releases, ${changelog?.entries.length ?? 0} changelog entries)`)
+
+  return documents
+}
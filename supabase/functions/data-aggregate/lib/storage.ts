@@ -10,9 +10,25 @@ import type {
   DocumentRecord,
   ChunkRecord,
   EmbeddingRecord,
-  DocumentChunk
+  EmbeddingSpec,
+  DocumentChunk,
+  SourceType,
+  ChunkSyncResult,
+  Document,
+  DocumentReference,
+  IngestionJobRecord,
+  IngestionJobStatus,
+  IngestionStage,
+  IngestionProgress,
+  IngestionState,
+  ProcessingStats
 } from './types.ts'
 
+/**
+ * Maximum number of ids per `in` filter to keep request URLs short
+ */
+const ID_BATCH_SIZE = 100
+
 /**
  * Initialize Supabase client with service role key for full access
  */
@@ -25,6 +41,17 @@ export function createStorageClient(supabaseUrl: string, serviceRoleKey: string)
   })
 }
 
+/**
+ * Computes the SHA-256 hex digest of a text
+ * Used to detect unchanged documents and chunks
+ */
+export async function computeContentHash(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
 /**
  * Finds or creates a repository record
  * Returns existing record if found, creates new one otherwise
@@ -34,7 +61,7 @@ export async function upsertRepository(
   repoInfo: RepositoryInfo
 ): Promise<RepositoryRecord> {
   try {
-    const { owner, repo, ref, url } = repoInfo
+    const { owner, repo, ref, url, embedding, isPrivate } = repoInfo
 
     // Try to find existing repository
     const { data: existing, error: findError } = await client
@@ -55,7 +82,8 @@ export async function upsertRepository(
         .from('repositories')
         .update({ 
           last_processed_at: new Date().toISOString(),
-          url 
+          url,
+          ...(isPrivate !== undefined && { is_private: isPrivate })
         })
         .eq('id', existing.id)
         .select()
@@ -75,6 +103,12 @@ export async function upsertRepository(
         repo,
         ref,
         url,
+        is_private: isPrivate ?? false,
+        ...(embedding && {
+          embedding_provider: embedding.provider,
+          embedding_model: embedding.model,
+          embedding_dimensions: embedding.dimensions
+        }),
         last_processed_at: new Date().toISOString()
       })
       .select()
@@ -101,11 +135,14 @@ export async function storeDocument(
     url: string
     anchorText?: string
     content: string
-    sourceType: 'readme' | 'documentation'
+    contentHash: string | null // Set once the document is fully processed
+    sourceType: SourceType
+    version?: string
+    releaseDate?: string
   }
 ): Promise<DocumentRecord> {
   try {
-    const { url, anchorText, content, sourceType } = document
+    const { url, anchorText, content, contentHash, sourceType, version, releaseDate } = document
 
     // Upsert document (update if exists, insert if new)
     const { data, error } = await client
@@ -116,7 +153,10 @@ export async function storeDocument(
         anchor_text: anchorText,
         content,
         content_length: content.length,
+        content_hash: contentHash,
         source_type: sourceType,
+        version: version ?? null,
+        released_at: releaseDate ?? null,
         updated_at: new Date().toISOString()
       }, {
         onConflict: 'repository_id,url'
@@ -136,50 +176,196 @@ export async function storeDocument(
 }
 
 /**
- * Stores chunks for a document
+ * Records the content hash of a fully processed document
  */
-export async function storeChunks(
+export async function updateDocumentHash(
+  client: ReturnType<typeof createClient>,
+  documentId: string,
+  contentHash: string
+): Promise<void> {
+  try {
+    const { error } = await client
+      .from('documents')
+      .update({ content_hash: contentHash })
+      .eq('id', documentId)
+
+    if (error) throw error
+
+  } catch (error) {
+    console.error('Error updating document hash:', error)
+    throw new Error(`Failed to update document hash: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Lists the documents of a repository with their content hashes
+ */
+export async function getDocumentHashes(
+  client: ReturnType<typeof createClient>,
+  repositoryId: string
+): Promise<Array<{ id: string; url: string; contentHash?: string; sourceType: SourceType }>> {
+  try {
+    const { data, error } = await client
+      .from('documents')
+      .select('id, url, content_hash, source_type')
+      .eq('repository_id', repositoryId)
+
+    if (error) throw error
+
+    // deno-lint-ignore no-explicit-any
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      url: row.url,
+      contentHash: row.content_hash ?? undefined,
+      sourceType: row.source_type
+    }))
+
+  } catch (error) {
+    console.error('Error fetching document hashes:', error)
+    throw new Error(`Failed to fetch document hashes: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Synchronizes the stored chunks of a document with a new chunk list
+ * Chunks whose content hash already exists are kept together with their
+ * embeddings (only position and metadata are updated), new chunks are
+ * inserted and chunks that no longer exist are deleted
+ */
+export async function syncChunks(
   client: ReturnType<typeof createClient>,
   documentId: string,
   repositoryId: string,
   chunks: DocumentChunk[]
-): Promise<ChunkRecord[]> {
+): Promise<ChunkSyncResult> {
   try {
-    if (!chunks || chunks.length === 0) {
-      return []
-    }
-
-    // Delete existing chunks for this document
-    const { error: deleteError } = await client
+    const { data: existing, error: findError } = await client
       .from('document_chunks')
-      .delete()
+      .select('id, chunk_index, content_hash, embeddings(id)')
       .eq('document_id', documentId)
 
-    if (deleteError) throw deleteError
+    if (findError) throw findError
+
+    // Existing chunk ids by content hash (identical chunks may repeat)
+    // Chunks without an embedding (e.g. from a failed run) are not reused
+    const existingByHash = new Map<string, Array<{ id: string; chunkIndex: number }>>()
+    for (const row of existing || []) {
+      if (!row.content_hash || !Array.isArray(row.embeddings) || row.embeddings.length === 0) continue
+      const rows = existingByHash.get(row.content_hash) || []
+      rows.push({ id: row.id, chunkIndex: row.chunk_index })
+      existingByHash.set(row.content_hash, rows)
+    }
+
+    const hashes = await Promise.all(chunks.map(chunk => computeContentHash(chunk.text)))
+
+    const reused: Array<{ id: string; chunk: DocumentChunk; hash: string; moved: boolean }> = []
+    const added: Array<{ chunk: DocumentChunk; hash: string }> = []
 
-    // Insert new chunks
-    const chunkData = chunks.map(chunk => ({
+    chunks.forEach((chunk, index) => {
+      const match = existingByHash.get(hashes[index])?.shift()
+      if (match) {
+        reused.push({ id: match.id, chunk, hash: hashes[index], moved: match.chunkIndex !== chunk.index })
+      } else {
+        added.push({ chunk, hash: hashes[index] })
+      }
+    })
+
+    // Delete chunks that are no longer part of the document (embeddings cascade)
+    const reusedIds = new Set(reused.map(r => r.id))
+    const orphanIds = (existing || [])
+      .map((row: { id: string }) => row.id)
+      .filter((id: string) => !reusedIds.has(id))
+
+    for (let i = 0; i < orphanIds.length; i += ID_BATCH_SIZE) {
+      const { error: deleteError } = await client
+        .from('document_chunks')
+        .delete()
+        .in('id', orphanIds.slice(i, i + ID_BATCH_SIZE))
+
+      if (deleteError) throw deleteError
+    }
+
+    const toRow = (chunk: DocumentChunk, hash: string, chunkIndex: number) => ({
       document_id: documentId,
       repository_id: repositoryId,
       chunk_text: chunk.text,
-      chunk_index: chunk.index,
+      chunk_index: chunkIndex,
       chunk_length: chunk.text.length,
+      content_hash: hash,
       metadata: chunk.metadata || {}
-    }))
+    })
 
-    const { data, error } = await client
-      .from('document_chunks')
-      .insert(chunkData)
-      .select()
+    if (reused.length > 0) {
+      // Move shifted chunks to temporary negative positions first so that
+      // swapping positions does not violate UNIQUE(document_id, chunk_index)
+      const moved = reused.filter(r => r.moved)
+      if (moved.length > 0) {
+        const { error: moveError } = await client
+          .from('document_chunks')
+          .upsert(moved.map(r => ({ id: r.id, ...toRow(r.chunk, r.hash, -(r.chunk.index + 1)) })), { onConflict: 'id' })
 
-    if (error) throw error
+        if (moveError) throw moveError
+      }
 
-    console.log(`Stored ${data.length} chunks for document ${documentId}`)
-    return data.map(mapToChunkRecord)
+      const { error: updateError } = await client
+        .from('document_chunks')
+        .upsert(reused.map(r => ({ id: r.id, ...toRow(r.chunk, r.hash, r.chunk.index) })), { onConflict: 'id' })
+
+      if (updateError) throw updateError
+    }
+
+    let created: ChunkRecord[] = []
+
+    if (added.length > 0) {
+      const { data, error } = await client
+        .from('document_chunks')
+        .insert(added.map(a => toRow(a.chunk, a.hash, a.chunk.index)))
+        .select()
+
+      if (error) throw error
+
+      created = data.map(mapToChunkRecord)
+    }
+
+    console.log(`Synced chunks for document ${documentId}: ${created.length} new, ${reused.length} unchanged, ${orphanIds.length} deleted`)
+
+    return {
+      created,
+      unchanged: reused.length,
+      deleted: orphanIds.length
+    }
 
   } catch (error) {
-    console.error('Error storing chunks:', error)
-    throw new Error(`Failed to store chunks: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    console.error('Error syncing chunks:', error)
+    throw new Error(`Failed to sync chunks: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Deletes documents by id (chunks and embeddings cascade)
+ */
+export async function deleteDocuments(
+  client: ReturnType<typeof createClient>,
+  documentIds: string[]
+): Promise<number> {
+  try {
+    for (let i = 0; i < documentIds.length; i += ID_BATCH_SIZE) {
+      const { error } = await client
+        .from('documents')
+        .delete()
+        .in('id', documentIds.slice(i, i + ID_BATCH_SIZE))
+
+      if (error) throw error
+    }
+
+    if (documentIds.length > 0) {
+      console.log(`Deleted ${documentIds.length} documents`)
+    }
+    return documentIds.length
+
+  } catch (error) {
+    console.error('Error deleting documents:', error)
+    throw new Error(`Failed to delete documents: ${error instanceof Error ? error.message : 'Unknown error'}`)
   }
 }
 
@@ -245,6 +431,102 @@ export async function storeEmbeddings(
   }
 }
 
+/**
+ * Lists chunks of a repository that have no embedding of the given model
+ * Chunks are ordered by id; afterChunkId continues after the previous page
+ */
+export async function getChunksMissingEmbeddings(
+  client: ReturnType<typeof createClient>,
+  repositoryId: string,
+  model: string,
+  limit?: number,
+  afterChunkId?: string
+): Promise<Array<{ id: string; chunkText: string }>> {
+  try {
+    const { data, error } = await client.rpc('get_chunks_missing_embeddings', {
+      target_repository_id: repositoryId,
+      target_model: model,
+      match_limit: limit ?? null,
+      after_chunk_id: afterChunkId ?? null
+    })
+
+    if (error) throw error
+
+    // deno-lint-ignore no-explicit-any
+    return (data || []).map((row: any) => ({ id: row.chunk_id, chunkText: row.chunk_text }))
+
+  } catch (error) {
+    console.error('Error listing chunks missing embeddings:', error)
+    throw new Error(`Failed to list chunks missing embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Stores embeddings of a model next to the embeddings of other models
+ * Existing embeddings of the same model are replaced
+ */
+export async function upsertModelEmbeddings(
+  client: ReturnType<typeof createClient>,
+  repositoryId: string,
+  chunkIds: string[],
+  embeddings: number[][],
+  model: string
+): Promise<number> {
+  try {
+    if (chunkIds.length !== embeddings.length) {
+      throw new Error(`Mismatch: ${chunkIds.length} chunks but ${embeddings.length} embeddings`)
+    }
+
+    const embeddingData = chunkIds.map((chunkId, index) => ({
+      chunk_id: chunkId,
+      repository_id: repositoryId,
+      embedding: embeddings[index],
+      model
+    }))
+
+    const { error } = await client
+      .from('embeddings')
+      .upsert(embeddingData, { onConflict: 'chunk_id,model' })
+
+    if (error) throw error
+
+    return embeddingData.length
+
+  } catch (error) {
+    console.error('Error upserting embeddings:', error)
+    throw new Error(`Failed to upsert embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Switches a repository to a new embedding model in one transaction
+ * Fails unless every chunk has an embedding of the new model; deletes the
+ * embeddings of other models and returns how many were deleted
+ */
+export async function switchEmbeddingModel(
+  client: ReturnType<typeof createClient>,
+  repositoryId: string,
+  embedding: EmbeddingSpec
+): Promise<number> {
+  try {
+    const { data, error } = await client.rpc('switch_embedding_model', {
+      target_repository_id: repositoryId,
+      new_provider: embedding.provider,
+      new_model: embedding.model,
+      new_dimensions: embedding.dimensions
+    })
+
+    if (error) throw error
+
+    console.log(`Switched repository ${repositoryId} to ${embedding.provider}/${embedding.model}`)
+    return (data as number) || 0
+
+  } catch (error) {
+    console.error('Error switching embedding model:', error)
+    throw new Error(`Failed to switch embedding model: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
 /**
  * Updates repository statistics
  */
@@ -289,29 +571,357 @@ export async function updateRepositoryStats(
 }
 
 /**
- * Checks if a repository has already been processed
+ * Finds an existing repository record
  */
-export async function isRepositoryProcessed(
+export async function findRepository(
   client: ReturnType<typeof createClient>,
   owner: string,
   repo: string,
   ref: string
-): Promise<boolean> {
+): Promise<RepositoryRecord | null> {
   try {
-    const { count, error } = await client
+    const { data, error } = await client
       .from('repositories')
-      .select('*', { count: 'exact', head: true })
+      .select('*')
       .eq('owner', owner)
       .eq('repo', repo)
       .eq('ref', ref)
+      .maybeSingle()
 
     if (error) throw error
 
-    return (count || 0) > 0
+    return data ? mapToRepositoryRecord(data) : null
 
   } catch (error) {
     console.error('Error checking repository:', error)
-    return false
+    return null
+  }
+}
+
+/**
+ * Records the commit SHA a repository was processed at
+ */
+export async function updateRepositoryCommit(
+  client: ReturnType<typeof createClient>,
+  repositoryId: string,
+  commitSha: string
+): Promise<void> {
+  try {
+    const { error } = await client
+      .from('repositories')
+      .update({ commit_sha: commitSha })
+      .eq('id', repositoryId)
+
+    if (error) throw error
+
+  } catch (error) {
+    console.error('Error updating repository commit:', error)
+    throw new Error(`Failed to update repository commit: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Columns of ingestion_jobs returned to callers
+ */
+const INGESTION_JOB_COLUMNS = 'id, repository_id, owner, repo, ref, url, status, stage, progress, state, stats, error, locked_until, created_at, updated_at, completed_at'
+
+/**
+ * Creates a pending ingestion job
+ */
+export async function createIngestionJob(
+  client: ReturnType<typeof createClient>,
+  state: IngestionState,
+  progress: IngestionProgress
+): Promise<IngestionJobRecord> {
+  try {
+    const { data, error } = await client
+      .from('ingestion_jobs')
+      .insert({
+        repository_id: state.repositoryId,
+        owner: state.owner,
+        repo: state.repo,
+        ref: state.ref,
+        url: state.url,
+        status: 'pending',
+        progress,
+        state
+      })
+      .select(INGESTION_JOB_COLUMNS)
+      .single()
+
+    if (error) throw error
+
+    console.log(`Created ingestion job ${data.id} for ${state.owner}/${state.repo}@${state.ref}`)
+    return mapToIngestionJobRecord(data)
+
+  } catch (error) {
+    console.error('Error creating ingestion job:', error)
+    throw new Error(`Failed to create ingestion job: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Gets an ingestion job by id
+ */
+export async function getIngestionJob(
+  client: ReturnType<typeof createClient>,
+  jobId: string
+): Promise<IngestionJobRecord | null> {
+  try {
+    const { data, error } = await client
+      .from('ingestion_jobs')
+      .select(INGESTION_JOB_COLUMNS)
+      .eq('id', jobId)
+      .maybeSingle()
+
+    if (error) throw error
+
+    return data ? mapToIngestionJobRecord(data) : null
+
+  } catch (error) {
+    console.error('Error fetching ingestion job:', error)
+    throw new Error(`Failed to fetch ingestion job: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Finds the pending or running ingestion job of a repository ref
+ */
+export async function findActiveIngestionJob(
+  client: ReturnType<typeof createClient>,
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<IngestionJobRecord | null> {
+  try {
+    const { data, error } = await client
+      .from('ingestion_jobs')
+      .select(INGESTION_JOB_COLUMNS)
+      .eq('owner', owner)
+      .eq('repo', repo)
+      .eq('ref', ref)
+      .in('status', ['pending', 'running'])
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) throw error
+
+    return data ? mapToIngestionJobRecord(data) : null
+
+  } catch (error) {
+    console.error('Error finding active ingestion job:', error)
+    return null
+  }
+}
+
+/**
+ * Claims an active ingestion job for a worker
+ * Succeeds only if no other worker holds an unexpired lease
+ */
+export async function claimIngestionJob(
+  client: ReturnType<typeof createClient>,
+  jobId: string,
+  leaseMs: number
+): Promise<IngestionJobRecord | null> {
+  try {
+    const now = new Date()
+    const { data, error } = await client
+      .from('ingestion_jobs')
+      .update({
+        status: 'running',
+        locked_until: new Date(now.getTime() + leaseMs).toISOString()
+      })
+      .eq('id', jobId)
+      .in('status', ['pending', 'running'])
+      .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+      .select(INGESTION_JOB_COLUMNS)
+      .maybeSingle()
+
+    if (error) throw error
+
+    return data ? mapToIngestionJobRecord(data) : null
+
+  } catch (error) {
+    console.error('Error claiming ingestion job:', error)
+    throw new Error(`Failed to claim ingestion job: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Updates an ingestion job
+ */
+export async function updateIngestionJob(
+  client: ReturnType<typeof createClient>,
+  jobId: string,
+  updates: {
+    status?: IngestionJobStatus
+    stage?: IngestionStage
+    progress?: IngestionProgress
+    state?: IngestionState
+    stats?: ProcessingStats
+    error?: string
+    lockedUntil?: string | null
+    completedAt?: string
+  }
+): Promise<void> {
+  try {
+    const { error } = await client
+      .from('ingestion_jobs')
+      .update({
+        ...(updates.status !== undefined && { status: updates.status }),
+        ...(updates.stage !== undefined && { stage: updates.stage }),
+        ...(updates.progress !== undefined && { progress: updates.progress }),
+        ...(updates.state !== undefined && { state: updates.state }),
+        ...(updates.stats !== undefined && { stats: updates.stats }),
+        ...(updates.error !== undefined && { error: updates.error }),
+        ...(updates.lockedUntil !== undefined && { locked_until: updates.lockedUntil }),
+        ...(updates.completedAt !== undefined && { completed_at: updates.completedAt })
+      })
+      .eq('id', jobId)
+
+    if (error) throw error
+
+  } catch (error) {
+    console.error('Error updating ingestion job:', error)
+    throw new Error(`Failed to update ingestion job: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Stages the documents collected for an ingestion job
+ * Replaces documents staged by an earlier attempt of the same stage
+ */
+export async function storeIngestionJobDocuments(
+  client: ReturnType<typeof createClient>,
+  jobId: string,
+  documents: Document[],
+  references: DocumentReference[]
+): Promise<void> {
+  try {
+    await deleteIngestionJobDocuments(client, jobId)
+
+    const rows = documents.map((doc, position) => ({
+      job_id: jobId,
+      position,
+      url: doc.url,
+      source_type: doc.sourceType,
+      content_hash: references[position].contentHash,
+      anchor_text: doc.anchorText ?? null,
+      path: doc.path ?? null,
+      version: doc.version ?? null,
+      release_date: doc.releaseDate ?? null,
+      content: doc.content
+    }))
+
+    // Insert in batches to avoid payload size limits
+    const batchSize = 100
+    for (let i = 0; i < rows.length; i += batchSize) {
+      const { error } = await client
+        .from('ingestion_job_documents')
+        .insert(rows.slice(i, i + batchSize))
+
+      if (error) throw error
+    }
+
+  } catch (error) {
+    console.error('Error storing job documents:', error)
+    throw new Error(`Failed to store job documents: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Loads the references of the documents staged for an ingestion job, in processing order
+ */
+export async function getIngestionJobDocumentReferences(
+  client: ReturnType<typeof createClient>,
+  jobId: string
+): Promise<DocumentReference[]> {
+  try {
+    const references: DocumentReference[] = []
+
+    // Page through the rows; PostgREST caps the rows of a single response
+    const pageSize = 1000
+    while (true) {
+      const { data, error } = await client
+        .from('ingestion_job_documents')
+        .select('url, source_type, content_hash')
+        .eq('job_id', jobId)
+        .order('position', { ascending: true })
+        .range(references.length, references.length + pageSize - 1)
+
+      if (error) throw error
+
+      // deno-lint-ignore no-explicit-any
+      references.push(...(data || []).map((row: any) => ({
+        url: row.url,
+        sourceType: row.source_type,
+        contentHash: row.content_hash
+      })))
+
+      if (!data || data.length < pageSize) {
+        return references
+      }
+    }
+
+  } catch (error) {
+    console.error('Error loading job document references:', error)
+    throw new Error(`Failed to load job document references: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Loads one document staged for an ingestion job
+ */
+export async function getIngestionJobDocument(
+  client: ReturnType<typeof createClient>,
+  jobId: string,
+  position: number
+): Promise<Document> {
+  try {
+    const { data, error } = await client
+      .from('ingestion_job_documents')
+      .select('url, source_type, anchor_text, path, version, release_date, content')
+      .eq('job_id', jobId)
+      .eq('position', position)
+      .single()
+
+    if (error) throw error
+
+    return {
+      url: data.url,
+      sourceType: data.source_type,
+      content: data.content,
+      ...(data.anchor_text && { anchorText: data.anchor_text }),
+      ...(data.path && { path: data.path }),
+      ...(data.version && { version: data.version }),
+      ...(data.release_date && { releaseDate: data.release_date })
+    }
+
+  } catch (error) {
+    console.error('Error loading job document:', error)
+    throw new Error(`Failed to load job document: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Deletes the documents staged for an ingestion job
+ */
+export async function deleteIngestionJobDocuments(
+  client: ReturnType<typeof createClient>,
+  jobId: string
+): Promise<void> {
+  try {
+    const { error } = await client
+      .from('ingestion_job_documents')
+      .delete()
+      .eq('job_id', jobId)
+
+    if (error) throw error
+
+  } catch (error) {
+    console.error('Error deleting job documents:', error)
+    throw new Error(`Failed to delete job documents: ${error instanceof Error ? error.message : 'Unknown error'}`)
   }
 }
 
@@ -326,6 +936,13 @@ function mapToRepositoryRecord(data: any): RepositoryRecord {
     repo: data.repo,
     ref: data.ref,
     url: data.url,
+    commitSha: data.commit_sha ?? undefined,
+    embedding: {
+      provider: data.embedding_provider ?? 'openai',
+      model: data.embedding_model ?? 'text-embedding-3-small',
+      dimensions: data.embedding_dimensions ?? 1536
+    },
+    isPrivate: data.is_private ?? false,
     lastProcessedAt: data.last_processed_at,
     totalDocuments: data.total_documents || 0,
     totalChunks: data.total_chunks || 0,
@@ -346,7 +963,10 @@ function mapToDocumentRecord(data: any): DocumentRecord {
     anchorText: data.anchor_text,
     content: data.content,
     contentLength: data.content_length,
+    contentHash: data.content_hash ?? undefined,
     sourceType: data.source_type,
+    version: data.version ?? undefined,
+    releasedAt: data.released_at ?? undefined,
     createdAt: data.created_at,
     updatedAt: data.updated_at
   }
@@ -364,6 +984,7 @@ function mapToChunkRecord(data: any): ChunkRecord {
     chunkText: data.chunk_text,
     chunkIndex: data.chunk_index,
     chunkLength: data.chunk_length,
+    contentHash: data.content_hash ?? undefined,
     metadata: data.metadata,
     createdAt: data.created_at
   }
@@ -383,3 +1004,28 @@ function mapToEmbeddingRecord(data: any): EmbeddingRecord {
     createdAt: data.created_at
   }
 }
+
+/**
+ * Helper function to map database row to IngestionJobRecord
+ */
+// deno-lint-ignore no-explicit-any
+function mapToIngestionJobRecord(data: any): IngestionJobRecord {
+  return {
+    id: data.id,
+    repositoryId: data.repository_id,
+    owner: data.owner,
+    repo: data.repo,
+    ref: data.ref,
+    url: data.url,
+    status: data.status,
+    stage: data.stage,
+    progress: data.progress,
+    state: data.state,
+    stats: data.stats ?? undefined,
+    error: data.error ?? undefined,
+    lockedUntil: data.locked_until ?? undefined,
+    createdAt: data.created_at,
+    updatedAt: data.updated_at,
+    completedAt: data.completed_at ?? undefined
+  }
+}
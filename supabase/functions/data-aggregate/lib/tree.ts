@@ -0,0 +1,320 @@
+/**
+ * Repository tree ingestion
+ * Lists files with the GitHub git trees API and fetches their content as
+ * documents of sourceType 'code' (source files) or 'repo_doc' (documentation files)
+ */
+
+import type { GitHubClient } from '../../_shared/github.ts'
+import type {
+  CodeIngestionOptions,
+  Document,
+  GitHubTreeEntry,
+  GitHubTreeResponse,
+  RepoDocsOptions
+} from './types.ts'
+
+/**
+ * Default options for source file ingestion
+ */
+export const DEFAULT_CODE_OPTIONS: Required<CodeIngestionOptions> = {
+  include: [
+    '**/*.ts', '**/*.tsx', '**/*.js', '**/*.jsx', '**/*.mjs', '**/*.cjs',
+    '**/*.py', '**/*.go', '**/*.rs', '**/*.java', '**/*.kt', '**/*.rb',
+    '**/*.php', '**/*.cs', '**/*.c', '**/*.h', '**/*.cpp', '**/*.hpp',
+    '**/*.swift', '**/*.scala', '**/*.sh', '**/*.sql'
+  ],
+  exclude: [
+    '**/node_modules/**', '**/vendor/**', '**/dist/**', '**/build/**',
+    '**/out/**', '**/target/**', '**/.git/**', '**/__pycache__/**',
+    '**/*.min.js', '**/*.d.ts', '**/*.map', '**/*.lock',
+    '**/package-lock.json', '**/pnpm-lock.yaml'
+  ],
+  maxFileSize: 100_000,      // 100 KB
+  maxFiles: 200,
+  maxTotalSize: 2_000_000    // 2 MB
+}
+
+/**
+ * Default options for documentation file ingestion
+ * The root README is excluded: it is ingested separately as sourceType 'readme'
+ */
+export const DEFAULT_REPO_DOCS_OPTIONS: Required<RepoDocsOptions> = {
+  include: [
+    '**/*.md', '**/*.mdx', '**/*.markdown', '**/*.rst', '**/*.adoc', '**/*.asciidoc',
+    'docs/**/*.txt', 'doc/**/*.txt',
+    'CONTRIBUTING*', '.github/CONTRIBUTING*', 'docs/CONTRIBUTING*',
+    'CHANGELOG*', 'CHANGES*', 'HISTORY*'
+  ],
+  exclude: [
+    'README*', 'readme*', 'Readme*',
+    '.github/ISSUE_TEMPLATE/**', '.github/PULL_REQUEST_TEMPLATE*',
+    '**/node_modules/**', '**/vendor/**', '**/dist/**', '**/build/**',
+    '**/out/**', '**/target/**', '**/.git/**'
+  ],
+  maxFileSize: 200_000,      // 200 KB
+  maxFiles: 300,
+  maxTotalSize: 3_000_000    // 3 MB
+}
+
+/**
+ * Extensions that are never treated as text, even if included by a glob
+ */
+const BINARY_EXTENSIONS = new Set([
+  'png', 'jpg', 'jpeg', 'gif', 'bmp', 'ico', 'webp', 'svg', 'pdf',
+  'zip', 'gz', 'tgz', 'bz2', 'xz', '7z', 'tar', 'jar', 'war',
+  'exe', 'dll', 'so', 'dylib', 'a', 'o', 'class', 'pyc', 'wasm',
+  'woff', 'woff2', 'ttf', 'otf', 'eot', 'mp3', 'mp4', 'mov', 'avi', 'webm',
+  'sqlite', 'db', 'bin', 'dat'
+])
+
+/**
+ * Number of files fetched in parallel
+ */
+const FETCH_CONCURRENCY = 5
+
+/**
+ * Converts a glob pattern to a regular expression
+ * Supports `**` (any number of directories), `*` (within a path segment) and `?`
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = ''
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+
+    if (char === '*' && glob[i + 1] === '*') {
+      if (glob[i + 2] === '/') {
+        // "**/" matches zero or more directories
+        pattern += '(?:.*/)?'
+        i += 2
+      } else {
+        pattern += '.*'
+        i += 1
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*'
+    } else if (char === '?') {
+      pattern += '[^/]'
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${pattern}$`)
+}
+
+/**
+ * Checks whether a path matches any of the glob patterns
+ */
+export function matchesAny(path: string, globs: string[]): boolean {
+  return globs.some(glob => globToRegExp(glob).test(path))
+}
+
+/**
+ * Checks whether a path has a known binary extension
+ */
+function hasBinaryExtension(path: string): boolean {
+  const extension = path.split('.').pop()?.toLowerCase() || ''
+  return BINARY_EXTENSIONS.has(extension)
+}
+
+/**
+ * Detects binary content by looking for NUL bytes in the first 8 KB
+ */
+export function isBinaryContent(bytes: Uint8Array): boolean {
+  const length = Math.min(bytes.length, 8000)
+  for (let i = 0; i < length; i++) {
+    if (bytes[i] === 0) return true
+  }
+  return false
+}
+
+/**
+ * Selects the tree entries to ingest
+ * Applies include/exclude globs, binary extensions and the file size and count caps
+ */
+export function selectTreeEntries(
+  entries: GitHubTreeEntry[],
+  options: Required<CodeIngestionOptions>
+): GitHubTreeEntry[] {
+  const selected: GitHubTreeEntry[] = []
+  let totalSize = 0
+
+  for (const entry of entries) {
+    if (entry.type !== 'blob') continue
+    if (hasBinaryExtension(entry.path)) continue
+    if (!matchesAny(entry.path, options.include)) continue
+    if (matchesAny(entry.path, options.exclude)) continue
+
+    const size = entry.size ?? 0
+    if (size === 0 || size > options.maxFileSize) continue
+    if (totalSize + size > options.maxTotalSize) continue
+
+    selected.push(entry)
+    totalSize += size
+
+    if (selected.length >= options.maxFiles) break
+  }
+
+  return selected
+}
+
+/**
+ * Fetches the recursive file tree of a repository at a ref
+ */
+export async function fetchRepositoryTree(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<GitHubTreeEntry[]> {
+  const apiUrl = `/repos/${owner}/${repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`
+  const response = await github.request(apiUrl)
+
+  if (!response.ok) {
+    throw new Error(`GitHub trees API error: ${response.status} ${response.statusText}`)
+  }
+
+  const data: GitHubTreeResponse = await response.json()
+
+  if (data.truncated) {
+    console.warn(`Tree for ${owner}/${repo}@${ref} is truncated, some files will not be indexed`)
+  }
+
+  return data.tree || []
+}
+
+/**
+ * Fetches the content of a single file
+ * Returns null for binary or unreadable files
+ */
+export async function fetchFileContent(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  ref: string,
+  path: string
+): Promise<string | null> {
+  // raw.githubusercontent.com serves blobs without counting against the REST API rate limit
+  // (private repositories require the token)
+  const rawUrl = `https://raw.githubusercontent.com/${owner}/${repo}/${encodeURIComponent(ref)}/${path.split('/').map(encodeURIComponent).join('/')}`
+  const response = await github.request(rawUrl, { accept: '*/*' })
+
+  if (!response.ok) {
+    console.warn(`Failed to fetch ${path}: ${response.status}`)
+    await response.body?.cancel()
+    return null
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer())
+
+  if (isBinaryContent(bytes)) {
+    console.log(`Skipping binary file: ${path}`)
+    return null
+  }
+
+  return new TextDecoder().decode(bytes)
+}
+
+/**
+ * Fills in the defaults of file selection options
+ */
+function resolveFileOptions(
+  options: CodeIngestionOptions,
+  defaults: Required<CodeIngestionOptions>
+): Required<CodeIngestionOptions> {
+  return {
+    include: options.include ?? defaults.include,
+    exclude: options.exclude ?? defaults.exclude,
+    maxFileSize: options.maxFileSize ?? defaults.maxFileSize,
+    maxFiles: options.maxFiles ?? defaults.maxFiles,
+    maxTotalSize: options.maxTotalSize ?? defaults.maxTotalSize
+  }
+}
+
+/**
+ * Fetches the content of tree entries as documents
+ */
+async function fetchTreeDocuments(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  ref: string,
+  entries: GitHubTreeEntry[],
+  sourceType: 'code' | 'repo_doc'
+): Promise<Document[]> {
+  const documents: Document[] = []
+
+  for (let i = 0; i < entries.length; i += FETCH_CONCURRENCY) {
+    const batch = entries.slice(i, i + FETCH_CONCURRENCY)
+    const contents = await Promise.all(batch.map(async entry => {
+      try {
+        return await fetchFileContent(github, owner, repo, ref, entry.path)
+      } catch (error) {
+        console.warn(`Error fetching ${entry.path}:`, error)
+        return null
+      }
+    }))
+
+    batch.forEach((entry, index) => {
+      const content = contents[index]
+      if (!content || content.trim().length === 0) return
+
+      documents.push({
+        url: `https://github.com/${owner}/${repo}/blob/${ref}/${entry.path}`,
+        anchorText: entry.path,
+        content,
+        sourceType,
+        path: entry.path
+      })
+    })
+  }
+
+  return documents
+}
+
+/**
+ * Fetches source files from the repository tree as documents
+ * Throws if the tree cannot be listed; files that fail to download are skipped
+ */
+export async function fetchSourceFiles(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  ref: string,
+  options: CodeIngestionOptions = {}
+): Promise<Document[]> {
+  const resolved = resolveFileOptions(options, DEFAULT_CODE_OPTIONS)
+
+  const tree = await fetchRepositoryTree(github, owner, repo, ref)
+  const entries = selectTreeEntries(tree, resolved)
+
+  console.log(`Selected ${entries.length} of ${tree.length} tree entries for indexing`)
+
+  return fetchTreeDocuments(github, owner, repo, ref, entries, 'code')
+}
+
+/**
+ * Fetches documentation files (markdown, MDX, reStructuredText, AsciiDoc,
+ * CONTRIBUTING, CHANGELOG) from the repository tree as documents
+ * Files closer to the root are selected first, so the file caps drop deeply
+ * nested files (fixtures, vendored packages) before top-level documentation.
+ * Throws if the tree cannot be listed.
+ */
+export async function fetchRepoDocs(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  ref: string,
+  options: RepoDocsOptions = {}
+): Promise<Document[]> {
+  const resolved = resolveFileOptions(options, DEFAULT_REPO_DOCS_OPTIONS)
+
+  const tree = await fetchRepositoryTree(github, owner, repo, ref)
+  const byDepth = [...tree].sort((a, b) => a.path.split('/').length - b.path.split('/').length)
+  const entries = selectTreeEntries(byDepth, resolved)
+
+  console.log(`Selected ${entries.length} documentation files of ${tree.length} tree entries`)
+
+  return fetchTreeDocuments(github, owner, repo, ref, entries, 'repo_doc')
+}
@@ -6,11 +6,104 @@
  * Interface for the request body
  */
 export interface DataAggregateRequest {
-  url: string
+  operation?: 'ingest' | 'reembed' // Default: 'ingest'
+  url?: string          // Required unless resuming a job
+  jobId?: string        // Resume an existing ingestion job
+  async?: boolean       // Return a job id immediately and process in the background
   ref?: string
   force?: boolean // Force reprocessing even if repo exists
+  includeCode?: boolean // Index source files from the repository tree
+  code?: CodeIngestionOptions
+  includeRepoDocs?: boolean // Index markdown, MDX and reStructuredText files from the repository tree
+  repoDocs?: RepoDocsOptions
+  includeWiki?: boolean // Index the pages of the repository wiki
+  includeIssues?: boolean // Index closed issues, merged pull requests and answered discussions
+  issues?: IssueIngestionOptions
+  includeReleases?: boolean // Index GitHub releases and CHANGELOG entries as a release timeline
+  releases?: ReleaseIngestionOptions
+  docs?: DocCrawlOptions  // Recursive crawling of documentation sites
+  embedding?: Partial<EmbeddingSpec> // Embedding model for new repositories, or the target model of 'reembed'
+  dryRun?: boolean      // 'reembed' only: estimate the cost without embedding
+}
+
+/**
+ * Supported embedding providers
+ * - openai: OpenAI embeddings API
+ * - local: OpenAI-compatible embeddings server (Ollama, llama.cpp server, vLLM)
+ * - hash: deterministic offline feature-hashing embedder (tests, no network)
+ */
+export type EmbeddingProviderName = 'openai' | 'local' | 'hash'
+
+/**
+ * Embedding model a repository is indexed with
+ */
+export interface EmbeddingSpec {
+  provider: EmbeddingProviderName
+  model: string
+  dimensions: number
+}
+
+/**
+ * Options for ingesting source files from the repository tree
+ */
+export interface CodeIngestionOptions {
+  include?: string[]     // Glob patterns of paths to index
+  exclude?: string[]     // Glob patterns of paths to skip
+  maxFileSize?: number   // Skip files larger than this (bytes)
+  maxFiles?: number      // Maximum number of files to index
+  maxTotalSize?: number  // Stop once this many bytes have been fetched
+}
+
+/**
+ * Options for ingesting documentation files from the repository tree
+ * Same selection options as source files, with documentation defaults
+ */
+export type RepoDocsOptions = CodeIngestionOptions
+
+/**
+ * Options for ingesting issues, pull requests and discussions
+ */
+export interface IssueIngestionOptions {
+  labels?: string[]             // Only threads with at least one of these labels
+  excludeLabels?: string[]      // Skip threads with any of these labels (default: duplicate, invalid, spam, wontfix)
+  minReactions?: number         // Minimum reactions on the opening post (discussions: plus upvotes)
+  since?: string                // Only threads closed, merged or answered after this ISO 8601 date
+  maxItems?: number             // Maximum issues and pull requests, and maximum discussions
+  includePullRequests?: boolean // Merged pull requests, default: true
+  includeDiscussions?: boolean  // Discussions with an accepted answer (requires a token), default: true
+}
+
+/**
+ * Options for ingesting the release timeline
+ */
+export interface ReleaseIngestionOptions {
+  maxReleases?: number          // Most recent versions to index, default: 100
+  includePrereleases?: boolean  // Pre-releases and pre-release changelog entries, default: true
+  changelogPath?: string        // Changelog to parse, default: CHANGELOG, CHANGES, HISTORY, RELEASES or NEWS at the root
 }
 
+/**
+ * Options forwarded to doc-crawl
+ */
+export interface DocCrawlOptions {
+  recursive?: boolean    // Follow same-site links from the documentation roots
+  maxDepth?: number      // Link depth below the roots
+  maxPages?: number      // Maximum number of pages to crawl
+  pathPrefix?: string    // Only follow links under this path
+}
+
+/**
+ * Kind of content a document was ingested from
+ * - readme: the repository README
+ * - documentation: pages crawled from documentation links
+ * - code: source files from the repository tree
+ * - repo_doc: documentation files from the repository tree (docs/, *.md, *.mdx, *.rst, CONTRIBUTING, CHANGELOG)
+ * - wiki: pages of the repository wiki
+ * - issue: closed issues, merged pull requests and answered discussions
+ * - release: one entry per version from GitHub releases and the CHANGELOG
+ */
+export type SourceType = 'readme' | 'documentation' | 'code' | 'repo_doc' | 'wiki' | 'issue' | 'release'
+
 /**
  * Interface for GitHub repository info
  */
@@ -19,6 +112,8 @@ export interface RepositoryInfo {
   repo: string
   ref: string
   url: string
+  embedding?: EmbeddingSpec // Recorded when the repository is created
+  isPrivate?: boolean       // Private on GitHub (default: false)
 }
 
 /**
@@ -28,7 +123,19 @@ export interface Document {
   url: string
   anchorText?: string
   content: string
-  sourceType: 'readme' | 'documentation'
+  sourceType: SourceType
+  path?: string // Repository path for source files and documentation files
+  version?: string     // Version of release entries
+  releaseDate?: string // Release date of release entries (YYYY-MM-DD)
+}
+
+/**
+ * Reference to a document staged for an ingestion job, without its content
+ */
+export interface DocumentReference {
+  url: string
+  sourceType: SourceType
+  contentHash: string
 }
 
 /**
@@ -41,8 +148,19 @@ export interface DocumentChunk {
     url?: string
     anchorText?: string
     sourceType?: string
+    path?: string
     chunkIndex?: number
     totalChunks?: number
+    language?: string   // Source language of code chunks
+    symbol?: string     // Enclosing top-level symbol of code chunks
+    symbols?: string[]  // All top-level symbols in the chunk
+    startLine?: number  // First line of the chunk in the file (1-based)
+    endLine?: number    // Last line of the chunk in the file (1-based)
+    headings?: string[] // Heading path of markdown chunks
+    breadcrumb?: string // Heading path joined with ' > '
+    anchor?: string     // URL fragment of the chunk's section or line range
+    version?: string    // Version of release entry chunks
+    releaseDate?: string // Release date of release entry chunks
   }
 }
 
@@ -64,6 +182,7 @@ export interface EmbeddingResult {
 export interface BatchEmbeddingResult {
   embeddings: number[][]
   model: string
+  dimensions: number
   totalTokens: number
 }
 
@@ -76,6 +195,9 @@ export interface RepositoryRecord {
   repo: string
   ref: string
   url: string
+  commitSha?: string // Commit the ref pointed to when last processed successfully
+  embedding: EmbeddingSpec
+  isPrivate: boolean
   lastProcessedAt: string
   totalDocuments: number
   totalChunks: number
@@ -93,7 +215,10 @@ export interface DocumentRecord {
   anchorText?: string
   content: string
   contentLength: number
-  sourceType: 'readme' | 'documentation'
+  contentHash?: string
+  sourceType: SourceType
+  version?: string     // Release entries only
+  releasedAt?: string  // Release entries only
   createdAt: string
   updatedAt: string
 }
@@ -108,10 +233,20 @@ export interface ChunkRecord {
   chunkText: string
   chunkIndex: number
   chunkLength: number
+  contentHash?: string
   metadata?: Record<string, unknown>
   createdAt: string
 }
 
+/**
+ * Result of synchronizing the chunks of a document
+ */
+export interface ChunkSyncResult {
+  created: ChunkRecord[] // New chunks that still need embeddings
+  unchanged: number
+  deleted: number
+}
+
 /**
  * Interface for stored embedding record
  */
@@ -124,21 +259,65 @@ export interface EmbeddingRecord {
   createdAt: string
 }
 
+/**
+ * Interface for re-embedding statistics
+ */
+export interface ReembedStats {
+  from: EmbeddingSpec
+  to: EmbeddingSpec
+  totalChunks: number
+  chunksToEmbed: number    // Chunks without an embedding of the new model
+  chunksEmbedded: number   // 0 for dry runs
+  embeddingsDeleted: number // Embeddings of the previous model removed by the switch
+  estimatedTokens: number
+  estimatedCost: number    // USD, from estimateCost
+  totalTokensUsed: number
+  switched: boolean        // Repository now uses the new model
+  processingTimeMs: number
+}
+
+/**
+ * Interface for re-embedding response
+ */
+export interface ReembedResponse {
+  success: boolean
+  dryRun: boolean
+  repository: {
+    id: string
+    owner: string
+    repo: string
+    ref: string
+  }
+  stats: ReembedStats
+  message?: string
+}
+
 /**
  * Interface for processing statistics
  */
-export interface ProcessingStats {
+export interface ProcessingStats extends IngestionCounters {
   repositoryId: string
   owner: string
   repo: string
   ref: string
-  documentsProcessed: number
+  commitSha?: string
+  processingTimeMs: number
+}
+
+/**
+ * Interface for the document and chunk counters of an ingestion run
+ */
+export interface IngestionCounters {
+  documentsProcessed: number // New or changed documents that were chunked and embedded
+  documentsUpdated: number   // Of documentsProcessed, documents that existed with other content
+  documentsSkipped: number   // Documents with unchanged content
+  documentsDeleted: number   // Documents no longer found in the repository
+  documentsFailed: number
   chunksCreated: number
+  chunksUnchanged: number    // Chunks of changed documents reused with their embeddings
+  chunksDeleted: number      // Chunks of changed documents that no longer exist
   embeddingsCreated: number
-  documentsSkipped: number
-  documentsFailed: number
   totalTokensUsed: number
-  processingTimeMs: number
 }
 
 /**
@@ -167,6 +346,107 @@ export interface DataAggregateResponse {
   message?: string
 }
 
+/**
+ * Status of an ingestion job
+ */
+export type IngestionJobStatus = 'pending' | 'running' | 'completed' | 'failed'
+
+/**
+ * Stages of an ingestion run, in order
+ * - fetching: README and source files from GitHub
+ * - crawling: documentation pages via doc-crawl
+ * - chunking / embedding: per document
+ * - finalizing: orphan cleanup and repository statistics
+ */
+export type IngestionStage = 'fetching' | 'crawling' | 'chunking' | 'embedding' | 'finalizing'
+
+/**
+ * Interface for the progress of a single stage
+ */
+export interface StageProgress {
+  status: 'pending' | 'running' | 'completed' | 'failed'
+  completed: number
+  total?: number
+}
+
+/**
+ * Interface for the per-stage progress of an ingestion run
+ */
+export type IngestionProgress = Record<IngestionStage, StageProgress>
+
+/**
+ * Interface for the resumable state of an ingestion run
+ */
+export interface IngestionState {
+  owner: string
+  repo: string
+  ref: string
+  url: string
+  commitSha: string | null
+  includeCode: boolean
+  code?: CodeIngestionOptions
+  includeRepoDocs?: boolean
+  repoDocs?: RepoDocsOptions
+  includeWiki?: boolean
+  includeIssues?: boolean
+  issues?: IssueIngestionOptions
+  includeReleases?: boolean
+  releases?: ReleaseIngestionOptions
+  docs?: DocCrawlOptions
+  embedding: EmbeddingSpec
+  repositoryId: string
+  nextDocument: number // Index of the next document to process
+  fetchedSources?: SourceType[] // Source types fetched without errors (disabled ones count as empty)
+  counters: IngestionCounters
+  errors: ProcessingError[]
+  startedAt: number
+}
+
+/**
+ * Interface for stored ingestion job record
+ */
+export interface IngestionJobRecord {
+  id: string
+  repositoryId: string
+  owner: string
+  repo: string
+  ref: string
+  url: string
+  status: IngestionJobStatus
+  stage: IngestionStage | null
+  progress: IngestionProgress
+  state: IngestionState
+  stats?: ProcessingStats
+  error?: string
+  lockedUntil?: string
+  createdAt: string
+  updatedAt: string
+  completedAt?: string
+}
+
+/**
+ * Interface for the job status response
+ */
+export interface IngestionJobResponse {
+  success: boolean
+  jobId: string
+  status: IngestionJobStatus
+  stage: IngestionStage | null
+  progress: IngestionProgress
+  repository: {
+    id: string
+    owner: string
+    repo: string
+    ref: string
+  }
+  stats?: ProcessingStats
+  errors?: ProcessingError[]
+  message?: string
+  createdAt: string
+  updatedAt: string
+  completedAt?: string
+}
+
 /**
  * Interface for GitHub doc response
  */
@@ -183,6 +463,28 @@ export interface GitHubDocResponse {
   }
 }
 
+/**
+ * Interface for an entry of the GitHub git trees API response
+ */
+export interface GitHubTreeEntry {
+  path: string
+  mode: string
+  type: 'blob' | 'tree' | 'commit'
+  sha: string
+  size?: number
+  url: string
+}
+
+/**
+ * Interface for the GitHub git trees API response
+ */
+export interface GitHubTreeResponse {
+  sha: string
+  url: string
+  tree: GitHubTreeEntry[]
+  truncated: boolean
+}
+
 /**
  * Interface for doc crawl response
  */
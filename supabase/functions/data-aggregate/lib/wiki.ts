@@ -0,0 +1,150 @@
+/**
+ * Repository wiki ingestion
+ * GitHub has no API to list wiki pages, so pages are discovered from the
+ * links of Home and _Sidebar and fetched as raw markdown, as documents of
+ * sourceType 'wiki'. Wikis are not versioned with the repository: the latest
+ * revision is always ingested.
+ */
+
+import type { GitHubClient } from '../../_shared/github.ts'
+import type { Document } from './types.ts'
+
+/**
+ * Wiki ingestion limits
+ */
+export const WIKI_CONFIG = {
+  startPages: ['Home', '_Sidebar'],
+  maxPages: 100,
+  maxPageSize: 200_000,      // 200 KB
+  maxTotalSize: 2_000_000    // 2 MB
+}
+
+/**
+ * Number of pages fetched in parallel
+ */
+const FETCH_CONCURRENCY = 5
+
+/**
+ * Normalizes a wiki page name to its file name (spaces become dashes)
+ */
+function toPageName(name: string): string {
+  let decoded = name
+  try {
+    decoded = decodeURIComponent(name)
+  } catch {
+    // Not percent-encoded
+  }
+  return decoded.trim().replace(/\s+/g, '-')
+}
+
+/**
+ * Extracts the wiki pages linked from a wiki page
+ * Supports [[Page]], [[Text|Page]], relative [Text](Page) links and absolute
+ * github.com/<owner>/<repo>/wiki/<Page> links
+ */
+export function extractWikiLinks(markdown: string, owner: string, repo: string): string[] {
+  const pages: string[] = []
+  const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const wikiUrl = new RegExp(`^https?://github\\.com/${escape(owner)}/${escape(repo)}/wiki/([^/?#]+)`, 'i')
+
+  for (const match of markdown.matchAll(/\[\[([^\]]+)\]\]/g)) {
+    const target = match[1].split('|').pop()!
+    // Image links ([[image.png]]) and external links are not pages
+    if (/^https?:|\.(?:png|jpe?g|gif|svg)$/i.test(target.trim())) continue
+    pages.push(toPageName(target))
+  }
+
+  // Link destinations in angle brackets may contain spaces
+  for (const match of markdown.matchAll(/(?<!!)\[[^\]]*\]\(\s*(?:<([^>]+)>|([^)\s]+))[^)]*\)/g)) {
+    const target = match[1] ?? match[2]
+    const absolute = target.match(wikiUrl)
+    if (absolute) {
+      pages.push(toPageName(absolute[1]))
+    } else if (/^[^/:#?.][^/:#?]*$/.test(target) && !/\.\w{2,4}$/.test(target)) {
+      // Relative link to a sibling page (no directories, anchors or file extensions)
+      pages.push(toPageName(target))
+    }
+  }
+
+  return pages
+}
+
+/**
+ * Fetches a raw wiki page; returns null if it doesn't exist or is too large
+ */
+async function fetchWikiPage(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  page: string
+): Promise<string | null> {
+  const rawUrl = `https://raw.githubusercontent.com/wiki/${owner}/${repo}/${encodeURIComponent(page)}.md`
+  const response = await github.request(rawUrl, { accept: '*/*' })
+
+  if (!response.ok) {
+    await response.body?.cancel()
+    if (response.status === 404) return null
+    throw new Error(`Failed to fetch wiki page ${page}: ${response.status}`)
+  }
+
+  const content = await response.text()
+  return content.length > WIKI_CONFIG.maxPageSize ? null : content
+}
+
+/**
+ * Fetches the pages of a repository wiki as documents
+ * Only markdown pages reachable from Home or _Sidebar are found. Pages whose
+ * name starts with an underscore (_Sidebar, _Footer) are navigation and are
+ * not indexed. Throws if a page fails to download, so that a partial wiki
+ * is not taken for the complete one.
+ */
+export async function fetchWikiPages(
+  github: GitHubClient,
+  owner: string,
+  repo: string
+): Promise<Document[]> {
+  const metadata = await github.getRepository(owner, repo)
+  if (metadata.status === 200 && !metadata.hasWiki) {
+    console.log(`Wiki disabled for ${owner}/${repo}`)
+    return []
+  }
+
+  const queue = [...WIKI_CONFIG.startPages]
+  const seen = new Set(queue.map(page => page.toLowerCase()))
+  const documents: Document[] = []
+  let fetched = 0
+  let totalSize = 0
+
+  while (queue.length > 0 && fetched < WIKI_CONFIG.maxPages && totalSize < WIKI_CONFIG.maxTotalSize) {
+    const batch = queue.splice(0, Math.min(FETCH_CONCURRENCY, WIKI_CONFIG.maxPages - fetched))
+    fetched += batch.length
+
+    const contents = await Promise.all(batch.map(page => fetchWikiPage(github, owner, repo, page)))
+
+    batch.forEach((page, index) => {
+      const content = contents[index]
+      if (!content) return
+
+      for (const linked of extractWikiLinks(content, owner, repo)) {
+        if (seen.has(linked.toLowerCase())) continue
+        seen.add(linked.toLowerCase())
+        queue.push(linked)
+      }
+
+      if (page.startsWith('_') || content.trim().length === 0) return
+      if (totalSize + content.length > WIKI_CONFIG.maxTotalSize) return
+
+      totalSize += content.length
+      documents.push({
+        url: `https://github.com/${owner}/${repo}/wiki/${page}`,
+        anchorText: page.replace(/-/g, ' '),
+        content,
+        sourceType: 'wiki'
+      })
+    })
+  }
+
+  console.log(`Fetched ${documents.length} wiki pages`)
+
+  return documents
+}
@@ -0,0 +1,106 @@
+import { assertEquals, assertStringIncludes } from "@std/assert"
+import { detectDocumentFormat, normalizeDocument } from "./lib/normalize.ts"
+
+/**
+ * Fixture-based tests for document normalization
+ * Run with: deno test --allow-read supabase/functions/data-aggregate/normalize.test.ts
+ */
+
+function readFixture(name: string): string {
+  return Deno.readTextFileSync(new URL(`./fixtures/${name}`, import.meta.url))
+}
+
+/**
+ * Asserts that none of the given fragments survived normalization
+ */
+function assertRemoved(markdown: string, fragments: string[]): void {
+  for (const fragment of fragments) {
+    assertEquals(markdown.includes(fragment), false, `"${fragment}" should have been removed`)
+  }
+}
+
+Deno.test("detectDocumentFormat - uses the file extension", () => {
+  assertEquals(detectDocumentFormat("docs/index.rst"), "rst")
+  assertEquals(detectDocumentFormat("https://github.com/o/r/blob/main/README.adoc"), "asciidoc")
+  assertEquals(detectDocumentFormat("docs/intro.mdx?plain=1"), "mdx")
+  assertEquals(detectDocumentFormat("README.md"), "markdown")
+  assertEquals(detectDocumentFormat("https://example.com/docs/guide"), "markdown")
+})
+
+Deno.test("normalizeDocument - leaves markdown unchanged", () => {
+  const markdown = "# Title\n\n.. not a directive\n\n<Component />"
+  assertEquals(normalizeDocument(markdown, "markdown"), markdown)
+})
+
+Deno.test("normalizeDocument - rst headings, roles and links", () => {
+  const markdown = normalizeDocument(readFixture("sphinx.rst"), "rst")
+  assertEquals(markdown.startsWith("# Quick Start\n"), true)
+  assertStringIncludes(markdown, "\n## Installation\n")
+  assertStringIncludes(markdown, "\n### Configuration\n")
+  assertStringIncludes(markdown, "Use `example.connect` and `Client` to talk to the server.")
+  assertStringIncludes(markdown, "See [the docs](https://example.com/docs) and [Pypi](https://pypi.org/project/example).")
+})
+
+Deno.test("normalizeDocument - rst code blocks", () => {
+  const markdown = normalizeDocument(readFixture("sphinx.rst"), "rst")
+  assertStringIncludes(markdown, "Install the package:\n\n```python\npip install example\n```")
+  assertStringIncludes(markdown, "**Development install**\n\n```bash\ngit clone https://github.com/example/example\npip install -e .\n```")
+  assertStringIncludes(markdown, "- Call `connect()`\n\n  ```python\n  client = Client()\n  client.connect()\n  ```")
+  assertStringIncludes(markdown, "```python\n>>> import example\n>>> example.connect(\"localhost\")\n<Client localhost>\n```")
+})
+
+Deno.test("normalizeDocument - rst admonitions", () => {
+  const markdown = normalizeDocument(readFixture("sphinx.rst"), "rst")
+  assertStringIncludes(markdown, "> **Note**\n>\n> Python 3.9 or later is required.\n>\n> Older versions are not tested.")
+  assertStringIncludes(markdown, "> **New in version 2.0**\n>\n> The `async` client.")
+  assertStringIncludes(markdown, "> **Warning**\n>\n> Never share the token.")
+})
+
+Deno.test("normalizeDocument - rst tables", () => {
+  const markdown = normalizeDocument(readFixture("sphinx.rst"), "rst")
+  // Grid table with a multi-line cell
+  assertStringIncludes(markdown, "| Option | Default | Description |\n| --- | --- | --- |\n| `timeout` | `30` | Request timeout in seconds |\n| `retries` | `3` | Retry count |")
+  // Simple table
+  assertStringIncludes(markdown, "| Level | Meaning |\n| --- | --- |\n| 0 | Quiet |\n| 1 | Verbose |")
+  // list-table directive
+  assertStringIncludes(markdown, "**Environment variables**\n\n| Name | Purpose |\n| --- | --- |\n| `EXAMPLE_URL` | Server URL |")
+})
+
+Deno.test("normalizeDocument - rst lists and directives without content", () => {
+  const markdown = normalizeDocument(readFixture("sphinx.rst"), "rst")
+  assertStringIncludes(markdown, "1. First step\n1. Second step")
+  assertStringIncludes(markdown, "- **param url**: Server URL")
+  assertRemoved(markdown, [".. ", "toctree", ":maxdepth:", "autofunction", "This is a comment", ":func:", "_Pypi"])
+})
+
+Deno.test("normalizeDocument - asciidoc", () => {
+  const markdown = normalizeDocument(readFixture("guide.adoc"), "asciidoc")
+  assertEquals(markdown.startsWith("# User Guide\n"), true)
+  assertStringIncludes(markdown, "This guide covers Example {version-label}.")
+  assertStringIncludes(markdown, "\n## Installing\n")
+  assertStringIncludes(markdown, "\n### Options\n")
+  assertStringIncludes(markdown, "**Install with npm**\n\n```bash\nnpm install example\n```")
+  assertStringIncludes(markdown, "```javascript\nconst client = createClient()\n```")
+  assertStringIncludes(markdown, "> **Note**\n>\n> Node.js 18 or later is required.")
+  assertStringIncludes(markdown, "> **Warning**\n>\n> Do not run the installer as root.")
+  assertStringIncludes(markdown, "| Name | Description |\n| --- | --- |\n| timeout | Request timeout in **seconds** |\n| retries | Retry count |")
+  assertStringIncludes(markdown, "- Create a client\n  - Configure it\n1. Connect\n1. Send requests")
+  assertStringIncludes(markdown, "Read the [online docs](https://example.com/docs) or see the API reference and Installing.")
+  assertStringIncludes(markdown, "- **CLI**: Command line interface")
+  assertStringIncludes(markdown, "Shown on GitHub only.")
+  assertRemoved(markdown, [":toc:", "A line comment", "A comment block", "include::", "ifdef::", "endif::", "[source", "|==="])
+})
+
+Deno.test("normalizeDocument - mdx", () => {
+  const markdown = normalizeDocument(readFixture("page.mdx"), "mdx")
+  assertEquals(markdown.startsWith("# Getting Started\n"), true)
+  assertStringIncludes(markdown, "Install the SDK with your package manager. It takes a minute.")
+  assertStringIncludes(markdown, "**npm**\n\n```bash\nnpm install example\n```")
+  assertStringIncludes(markdown, "**Yarn**\n\n```bash\nyarn add example\n```")
+  assertStringIncludes(markdown, "> **Warning**\n>\n> The API key must stay **secret**.")
+  assertStringIncludes(markdown, "> **Pro tip**\n>\n> Cache the client between requests.")
+  assertStringIncludes(markdown, "```ts\nconst client = createClient({\n  onError: (error) => console.error(error)\n})\n```")
+  // JSX inside code fences is documentation and stays
+  assertStringIncludes(markdown, "```jsx\nimport Example from './Example'\n\n<Example prop=\"kept in code\" />\n```")
+  assertRemoved(markdown, ["sidebar_position", "@theme/Tabs", "docs-team", "Hidden from readers", "<Tabs", "<TabItem", "<Callout", "<Badge", "<Diagram", "track('loaded')", ":::"])
+})
@@ -0,0 +1,204 @@
+import { assertEquals } from "@std/assert"
+import type { PGlite } from "@electric-sql/pglite"
+import { createTestClient, createTestDatabase } from "../_shared/test_database.ts"
+import { DEFAULT_EMBEDDING_MODELS } from "./lib/embedder.ts"
+import { findOrphanedDocuments, processDocument, type ProcessingContext } from "./lib/process.ts"
+import { computeContentHash, getDocumentHashes } from "./lib/storage.ts"
+import type { Document, DocumentReference, IngestionProgress, IngestionState } from "./lib/types.ts"
+
+/**
+ * Tests for incremental document processing against the tables of the migrations
+ * The migrations run in PGlite with pgvector (see _shared/test_database.ts);
+ * chunks are embedded with the offline hash provider
+ * Run with: deno test --allow-read --allow-env supabase/functions/data-aggregate/process.test.ts
+ */
+
+const URL = "https://github.com/o/r/blob/main/docs/guide.md"
+
+const SECTIONS: Record<string, string> = {
+  install: "## Install\n\nInstall the package with npm install.",
+  retries: "## Retries\n\nConfigure retries with the retryPolicy option.",
+  timeouts: "## Timeouts\n\nSet request timeouts on the client.",
+  logging: "## Logging\n\nEnable debug logging with the DEBUG variable."
+}
+
+function createDocument(sections: string[]): Document {
+  return {
+    url: URL,
+    anchorText: "Guide",
+    content: sections.map(section => SECTIONS[section]).join("\n\n"),
+    sourceType: "repo_doc",
+    path: "docs/guide.md"
+  }
+}
+
+function createState(repositoryId: string): IngestionState {
+  return {
+    owner: "o",
+    repo: "r",
+    ref: "main",
+    url: "https://github.com/o/r",
+    commitSha: null,
+    includeCode: false,
+    embedding: DEFAULT_EMBEDDING_MODELS.hash,
+    repositoryId,
+    nextDocument: 0,
+    counters: {
+      documentsProcessed: 0,
+      documentsUpdated: 0,
+      documentsSkipped: 0,
+      documentsDeleted: 0,
+      documentsFailed: 0,
+      chunksCreated: 0,
+      chunksUnchanged: 0,
+      chunksDeleted: 0,
+      embeddingsCreated: 0,
+      totalTokensUsed: 0
+    },
+    errors: [],
+    startedAt: Date.now()
+  }
+}
+
+function createProgress(): IngestionProgress {
+  return {
+    fetching: { status: "completed", completed: 0 },
+    crawling: { status: "completed", completed: 0 },
+    chunking: { status: "running", completed: 0 },
+    embedding: { status: "running", completed: 0 },
+    finalizing: { status: "pending", completed: 0 }
+  }
+}
+
+/**
+ * Processes a document version as the ingestion run would, with a fresh state
+ * Returns the run's counters
+ */
+async function processVersion(context: ProcessingContext, repositoryId: string, document: Document) {
+  const reference: DocumentReference = {
+    url: document.url,
+    sourceType: document.sourceType,
+    contentHash: await computeContentHash(document.content)
+  }
+  const existing = await getDocumentHashes(context.storage, repositoryId)
+  const state = createState(repositoryId)
+
+  await processDocument(reference, () => Promise.resolve(document), existing.find(doc => doc.url === document.url), state, context, createProgress(), 0)
+
+  assertEquals(state.errors, [])
+  return state.counters
+}
+
+async function getChunks(db: PGlite): Promise<Array<{ id: string; text: string; index: number; embeddings: number }>> {
+  const { rows } = await db.query<{ id: string; text: string; index: number; embeddings: number }>(
+    `SELECT c.id, split_part(c.chunk_text, E'\\n', 1) AS text, c.chunk_index AS index,
+            (SELECT count(*)::int FROM embeddings e WHERE e.chunk_id = c.id) AS embeddings
+     FROM document_chunks c ORDER BY c.chunk_index`
+  )
+  return rows
+}
+
+async function createRepository(db: PGlite): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(
+    `INSERT INTO repositories (owner, repo, ref, url, embedding_provider, embedding_model, embedding_dimensions)
+     VALUES ('o', 'r', 'main', 'https://github.com/o/r', 'hash', $1, 384) RETURNING id`,
+    [DEFAULT_EMBEDDING_MODELS.hash.model]
+  )
+  return rows[0].id
+}
+
+Deno.test("processDocument - skips an unchanged document", async () => {
+  const db = await createTestDatabase()
+  const context: ProcessingContext = { storage: createTestClient(db) }
+
+  try {
+    const repositoryId = await createRepository(db)
+    const document = createDocument(["install", "retries", "timeouts"])
+
+    const first = await processVersion(context, repositoryId, document)
+    assertEquals([first.documentsProcessed, first.chunksCreated, first.embeddingsCreated], [1, 3, 3])
+
+    const [stored] = await getDocumentHashes(context.storage, repositoryId)
+    assertEquals(stored.contentHash, await computeContentHash(document.content))
+    assertEquals(stored.sourceType, "repo_doc")
+
+    const second = await processVersion(context, repositoryId, document)
+    assertEquals([second.documentsSkipped, second.documentsProcessed, second.embeddingsCreated], [1, 0, 0])
+  } finally {
+    await db.close()
+  }
+})
+
+Deno.test("processDocument - embeds only new chunks and deletes removed ones", async () => {
+  const db = await createTestDatabase()
+  const context: ProcessingContext = { storage: createTestClient(db) }
+
+  try {
+    const repositoryId = await createRepository(db)
+    await processVersion(context, repositoryId, createDocument(["install", "retries", "timeouts"]))
+    const before = new Map((await getChunks(db)).map(chunk => [chunk.text, chunk.id]))
+
+    // install and retries swap positions, which moves them through temporary
+    // negative indexes so UNIQUE(document_id, chunk_index) is never violated
+    const counters = await processVersion(context, repositoryId, createDocument(["retries", "install", "logging"]))
+    assertEquals(counters.documentsUpdated, 1)
+    assertEquals([counters.chunksCreated, counters.chunksUnchanged, counters.chunksDeleted], [1, 2, 1])
+    assertEquals(counters.embeddingsCreated, 1)
+
+    const after = await getChunks(db)
+    assertEquals(after.map(chunk => [chunk.text, chunk.index, chunk.embeddings]), [
+      ["Retries", 0, 1],
+      ["Install", 1, 1],
+      ["Logging", 2, 1]
+    ])
+    // Reused chunks keep their ids (and embeddings)
+    assertEquals(after[0].id, before.get("Retries"))
+    assertEquals(after[1].id, before.get("Install"))
+
+    const { rows } = await db.query<{ count: number }>(`SELECT count(*)::int AS count FROM embeddings`)
+    assertEquals(rows[0].count, 3)
+  } finally {
+    await db.close()
+  }
+})
+
+Deno.test("processDocument - reprocesses a document whose previous run did not finish", async () => {
+  const db = await createTestDatabase()
+  const context: ProcessingContext = { storage: createTestClient(db) }
+
+  try {
+    const repositoryId = await createRepository(db)
+    const document = createDocument(["install", "retries"])
+    await processVersion(context, repositoryId, document)
+
+    // A run that failed after storing the document leaves no content hash
+    await db.query(`UPDATE documents SET content_hash = NULL`)
+    const [stored] = await getDocumentHashes(context.storage, repositoryId)
+    assertEquals(stored.contentHash, undefined)
+
+    const counters = await processVersion(context, repositoryId, document)
+    assertEquals([counters.documentsProcessed, counters.chunksCreated, counters.chunksUnchanged], [1, 0, 2])
+  } finally {
+    await db.close()
+  }
+})
+
+Deno.test("findOrphanedDocuments - only deletes documents of fetched source types", () => {
+  const existing = [
+    { id: "readme", url: "https://github.com/o/r/blob/main/README.md", sourceType: "readme" as const },
+    { id: "code", url: "https://github.com/o/r/blob/main/src/index.ts", sourceType: "code" as const },
+    { id: "kept-doc", url: "https://example.com/docs/install", sourceType: "documentation" as const },
+    { id: "old-doc", url: "https://example.com/docs/old", sourceType: "documentation" as const },
+    { id: "wiki", url: "https://github.com/o/r/wiki/Home", sourceType: "wiki" as const }
+  ]
+  const documents: DocumentReference[] = [
+    { url: "https://example.com/docs/install", sourceType: "documentation", contentHash: "hash" }
+  ]
+
+  // The README fetch failed; code was disabled and the wiki returned nothing
+  assertEquals(
+    findOrphanedDocuments(existing, documents, ["code", "documentation", "wiki"]),
+    ["code", "old-doc", "wiki"]
+  )
+  assertEquals(findOrphanedDocuments(existing, documents, []), [])
+})
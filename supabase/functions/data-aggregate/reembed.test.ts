@@ -0,0 +1,104 @@
+import { assertEquals } from "@std/assert"
+import type { PGlite } from "@electric-sql/pglite"
+import { hashEmbedding } from "../_shared/hash_embedding.ts"
+import { createTestClient, createTestDatabase, toVector } from "../_shared/test_database.ts"
+import { DEFAULT_EMBEDDING_MODELS } from "./lib/embedder.ts"
+import { reembedRepository } from "./lib/reembed.ts"
+import { findRepository } from "./lib/storage.ts"
+
+/**
+ * Tests for moving a repository to a new embedding model
+ * The migrations run in PGlite with pgvector (see _shared/test_database.ts);
+ * chunks are re-embedded with the offline hash provider
+ * Run with: deno test --allow-read --allow-env supabase/functions/data-aggregate/reembed.test.ts
+ */
+
+const LOCAL = DEFAULT_EMBEDDING_MODELS.local
+const HASH = DEFAULT_EMBEDDING_MODELS.hash
+
+// More chunks than fit in one page of 100 or one response, 40 characters
+// (10 estimated tokens) each
+const CHUNK_COUNT = 250
+const MAX_ROWS = 150
+
+/**
+ * Create a repository indexed with the local model, with one embedding per chunk
+ */
+async function createRepository(db: PGlite): Promise<string> {
+  const repository = await db.query<{ id: string }>(
+    `INSERT INTO repositories (owner, repo, ref, url, embedding_provider, embedding_model, embedding_dimensions, total_chunks)
+     VALUES ('o', 'r', 'main', 'https://github.com/o/r', 'local', $1, $2, $3) RETURNING id`,
+    [LOCAL.model, LOCAL.dimensions, CHUNK_COUNT]
+  )
+  const repositoryId = repository.rows[0].id
+
+  const document = await db.query<{ id: string }>(
+    `INSERT INTO documents (repository_id, url, content, source_type) VALUES ($1, 'https://example.com/guide', 'Guide', 'documentation') RETURNING id`,
+    [repositoryId]
+  )
+  await db.query(
+    `INSERT INTO document_chunks (document_id, repository_id, chunk_text, chunk_index)
+     SELECT $1, $2, rpad('chunk ' || i, 40, '.'), i FROM generate_series(0, $3 - 1) AS i`,
+    [document.rows[0].id, repositoryId, CHUNK_COUNT]
+  )
+  await db.query(
+    `INSERT INTO embeddings (chunk_id, repository_id, embedding, model)
+     SELECT id, repository_id, $1::vector, $2 FROM document_chunks`,
+    [toVector(hashEmbedding("guide", LOCAL.dimensions)), LOCAL.model]
+  )
+
+  return repositoryId
+}
+
+async function countEmbeddings(db: PGlite): Promise<Record<string, number>> {
+  const { rows } = await db.query<{ model: string; count: number }>(
+    `SELECT model, count(*)::int AS count FROM embeddings GROUP BY model`
+  )
+  return Object.fromEntries(rows.map(row => [row.model, row.count]))
+}
+
+Deno.test("reembedRepository - a dry run estimates every page of chunks without embedding", async () => {
+  const db = await createTestDatabase()
+  const client = createTestClient(db, { maxRows: MAX_ROWS })
+
+  try {
+    await createRepository(db)
+    const repository = (await findRepository(client, "o", "r", "main"))!
+
+    const stats = await reembedRepository(client, repository, HASH, { dryRun: true })
+    assertEquals(stats.chunksToEmbed, CHUNK_COUNT)
+    assertEquals(stats.estimatedTokens, CHUNK_COUNT * 10)
+    assertEquals([stats.chunksEmbedded, stats.switched], [0, false])
+
+    assertEquals(await countEmbeddings(db), { [LOCAL.model]: CHUNK_COUNT })
+    assertEquals((await findRepository(client, "o", "r", "main"))!.embedding, LOCAL)
+  } finally {
+    await db.close()
+  }
+})
+
+Deno.test("reembedRepository - switches the model once every chunk is embedded", async () => {
+  const db = await createTestDatabase()
+  const client = createTestClient(db, { maxRows: MAX_ROWS })
+
+  try {
+    const repositoryId = await createRepository(db)
+    const repository = (await findRepository(client, "o", "r", "main"))!
+
+    // An interrupted run already embedded some chunks with the new model
+    await db.query(
+      `INSERT INTO embeddings (chunk_id, repository_id, embedding, model)
+       SELECT id, $1, $2::vector, $3 FROM document_chunks ORDER BY id LIMIT 30`,
+      [repositoryId, toVector(hashEmbedding("guide", HASH.dimensions)), HASH.model]
+    )
+
+    const stats = await reembedRepository(client, repository, HASH)
+    assertEquals([stats.chunksToEmbed, stats.chunksEmbedded], [CHUNK_COUNT - 30, CHUNK_COUNT - 30])
+    assertEquals([stats.switched, stats.embeddingsDeleted], [true, CHUNK_COUNT])
+
+    assertEquals(await countEmbeddings(db), { [HASH.model]: CHUNK_COUNT })
+    assertEquals((await findRepository(client, "o", "r", "main"))!.embedding, HASH)
+  } finally {
+    await db.close()
+  }
+})
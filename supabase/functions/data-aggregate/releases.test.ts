@@ -0,0 +1,92 @@
+import { assertEquals, assertStringIncludes } from "@std/assert"
+import {
+  buildReleaseDocuments,
+  extractDate,
+  extractVersion,
+  parseChangelog,
+  type GitHubRelease
+} from "./lib/releases.ts"
+
+/**
+ * Tests for changelog parsing and release timeline documents
+ * Run with: deno test --allow-read supabase/functions/data-aggregate/releases.test.ts
+ */
+
+const CHANGELOG_URL = "https://github.com/example/example/blob/main/CHANGELOG.md"
+
+function readChangelog() {
+  return parseChangelog(Deno.readTextFileSync(new URL("./fixtures/CHANGELOG.md", import.meta.url)))
+}
+
+function createRelease(overrides: Partial<GitHubRelease> = {}): GitHubRelease {
+  return {
+    tag_name: "v2.1.0",
+    name: "Retries",
+    body: "## What's Changed\n* Add retries by @alice",
+    html_url: "https://github.com/example/example/releases/tag/v2.1.0",
+    draft: false,
+    prerelease: false,
+    published_at: "2024-03-11T10:00:00Z",
+    created_at: "2024-03-11T09:00:00Z",
+    ...overrides
+  }
+}
+
+Deno.test("extractVersion - tags and headings", () => {
+  assertEquals(extractVersion("v1.2.0"), "1.2.0")
+  assertEquals(extractVersion("pkg@1.2.0-rc.1"), "1.2.0-rc.1")
+  assertEquals(extractVersion("Version 3.0"), "3.0")
+  assertEquals(extractVersion("release-2024-01"), null)
+  assertEquals(extractVersion("Unreleased"), null)
+})
+
+Deno.test("extractDate - ISO dates and month names", () => {
+  assertEquals(extractDate("2.1.0 - 2024-03-10"), "2024-03-10")
+  assertEquals(extractDate("2.0.0 (2024/01/15)"), "2024-01-15")
+  assertEquals(extractDate("v1.4.2 - February 3rd, 2023"), "2023-02-03")
+  assertEquals(extractDate("1.0.0 - 5 Sep 2022"), "2022-09-05")
+  assertEquals(extractDate("1.0.0"), undefined)
+})
+
+Deno.test("parseChangelog - version sections", () => {
+  const entries = readChangelog()
+
+  assertEquals(entries.map(entry => [entry.version, entry.date, entry.anchor]), [
+    ["2.1.0", "2024-03-10", "210---2024-03-10"],
+    ["2.0.0", "2024-01-15", "200-2024-01-15"],
+    ["1.4.2", "2023-02-03", "v142---february-3rd-2023"]
+  ])
+  assertEquals(entries[0].body, "### Added\n- `retries` client option ([#120](https://github.com/example/example/pull/120))\n\n### Fixed\n- Crash when the config file is empty")
+  // Headings in code blocks, empty versions and unversioned sections are not entries
+  assertStringIncludes(entries[1].body, "## 9.9.9 not a release heading")
+  assertEquals(entries[2].body, "- Fix timeout handling")
+})
+
+Deno.test("buildReleaseDocuments - merges releases and changelog entries", () => {
+  const documents = buildReleaseDocuments([createRelease()], { url: CHANGELOG_URL, entries: readChangelog() })
+
+  assertEquals(documents.map(document => [document.url, document.version, document.releaseDate]), [
+    ["https://github.com/example/example/releases/tag/v2.1.0", "2.1.0", "2024-03-11"],
+    [`${CHANGELOG_URL}#200-2024-01-15`, "2.0.0", "2024-01-15"],
+    [`${CHANGELOG_URL}#v142---february-3rd-2023`, "1.4.2", "2023-02-03"]
+  ])
+  assertEquals(documents[0].sourceType, "release")
+  assertEquals(documents[0].anchorText, "Release v2.1.0: Retries")
+  assertEquals(documents[0].content.startsWith("# Release v2.1.0: Retries\n\nVersion 2.1.0 · Released 2024-03-11\n\n## Release notes\n\n### What's Changed"), true)
+  assertStringIncludes(documents[0].content, "## Changelog\n\n### Added\n- `retries` client option")
+})
+
+Deno.test("buildReleaseDocuments - drafts, pre-releases and limits", () => {
+  const releases = [
+    createRelease({ tag_name: "v3.0.0", draft: true }),
+    createRelease({ tag_name: "v2.2.0-beta.1", name: null, prerelease: true, published_at: "2024-04-01T00:00:00Z" }),
+    createRelease()
+  ]
+
+  const all = buildReleaseDocuments(releases, null)
+  assertEquals(all.map(document => document.version), ["2.2.0-beta.1", "2.1.0"])
+  assertStringIncludes(all[0].content, "Version 2.2.0-beta.1 · Released 2024-04-01 · Pre-release")
+
+  assertEquals(buildReleaseDocuments(releases, null, { includePrereleases: false }).map(document => document.version), ["2.1.0"])
+  assertEquals(buildReleaseDocuments(releases, null, { maxReleases: 1 }).map(document => document.version), ["2.2.0-beta.1"])
+})
@@ -0,0 +1,146 @@
+import { assertEquals } from "@std/assert"
+import type { GitHubClient } from "../_shared/github.ts"
+import {
+  DEFAULT_CODE_OPTIONS,
+  fetchRepoDocs,
+  fetchSourceFiles,
+  globToRegExp,
+  isBinaryContent,
+  selectTreeEntries
+} from "./lib/tree.ts"
+import type { GitHubTreeEntry } from "./lib/types.ts"
+
+/**
+ * Tests for repository tree selection and file fetching
+ * GitHub is replaced by a fake client serving an in-memory tree
+ * Run with: deno test supabase/functions/data-aggregate/tree.test.ts
+ */
+
+function blob(path: string, size = 100): GitHubTreeEntry {
+  return { path, mode: "100644", type: "blob", sha: path, size, url: "" }
+}
+
+/**
+ * Fake a GitHub client serving the given files and their tree
+ */
+function createFakeGitHub(files: Record<string, string>, requests: string[] = []): GitHubClient {
+  return {
+    request(path: string) {
+      requests.push(path)
+      if (path.includes("/git/trees/")) {
+        const tree = Object.entries(files).map(([name, content]) => blob(name, content.length))
+        return Promise.resolve(Response.json({ sha: "tree", url: "", tree, truncated: false }))
+      }
+
+      const name = decodeURIComponent(path.split("/main/")[1])
+      return Promise.resolve(name in files ? new Response(files[name]) : new Response("Not Found", { status: 404 }))
+    }
+  } as unknown as GitHubClient
+}
+
+Deno.test("globToRegExp - ** matches any number of directories, * stays within a segment", () => {
+  const pattern = globToRegExp("**/*.ts")
+  assertEquals(pattern.test("index.ts"), true)
+  assertEquals(pattern.test("src/lib/index.ts"), true)
+  assertEquals(pattern.test("index.tsx"), false)
+
+  // "**/" also matches zero directories in the middle of a pattern
+  assertEquals(globToRegExp("src/**/index.ts").test("src/index.ts"), true)
+  assertEquals(globToRegExp("src/**/index.ts").test("src/a/b/index.ts"), true)
+
+  assertEquals(globToRegExp("src/*.ts").test("src/lib/index.ts"), false)
+  assertEquals(globToRegExp("docs/**").test("docs/guide/setup.md"), true)
+  assertEquals(globToRegExp("file?.js").test("file1.js"), true)
+  assertEquals(globToRegExp("file?.js").test("file/.js"), false)
+
+  // Dots and other regex characters are literal
+  assertEquals(globToRegExp("*.min.js").test("appXminYjs"), false)
+})
+
+Deno.test("selectTreeEntries - excludes win over includes", () => {
+  const entries = [
+    blob("src/index.ts"),
+    blob("src/types.d.ts"),
+    blob("node_modules/pkg/index.js"),
+    blob("packages/app/node_modules/pkg/index.js"),
+    blob("dist/bundle.min.js"),
+    blob("README.md"),
+    { ...blob("src"), type: "tree" as const }
+  ]
+
+  const selected = selectTreeEntries(entries, DEFAULT_CODE_OPTIONS)
+  assertEquals(selected.map(entry => entry.path), ["src/index.ts"])
+})
+
+Deno.test("selectTreeEntries - skips binary extensions even when included", () => {
+  const options = { ...DEFAULT_CODE_OPTIONS, include: ["**/*"] }
+  const entries = [blob("logo.png"), blob("assets/font.woff2"), blob("data.SQLITE"), blob("main.go")]
+
+  assertEquals(selectTreeEntries(entries, options).map(entry => entry.path), ["main.go"])
+})
+
+Deno.test("selectTreeEntries - applies the file size, total size and file count caps", () => {
+  const entries = [
+    blob("a.ts", 400),
+    blob("empty.ts", 0),
+    blob("huge.ts", 5000),
+    blob("b.ts", 400),
+    blob("c.ts", 400),
+    blob("d.ts", 100),
+    blob("e.ts", 50)
+  ]
+
+  // huge.ts exceeds maxFileSize; c.ts would exceed maxTotalSize but the smaller d.ts still fits
+  const bySize = selectTreeEntries(entries, { ...DEFAULT_CODE_OPTIONS, maxFileSize: 1000, maxTotalSize: 1000 })
+  assertEquals(bySize.map(entry => entry.path), ["a.ts", "b.ts", "d.ts", "e.ts"])
+
+  const byCount = selectTreeEntries(entries, { ...DEFAULT_CODE_OPTIONS, maxFiles: 2 })
+  assertEquals(byCount.map(entry => entry.path), ["a.ts", "huge.ts"])
+})
+
+Deno.test("isBinaryContent - detects NUL bytes in the first 8 KB", () => {
+  const encoder = new TextEncoder()
+  assertEquals(isBinaryContent(encoder.encode("const a = 1\n")), false)
+  assertEquals(isBinaryContent(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0x1a])), true)
+
+  // A NUL byte after the first 8000 bytes is not looked at
+  const late = new Uint8Array(9000).fill(0x61)
+  late[8500] = 0
+  assertEquals(isBinaryContent(late), false)
+  late[100] = 0
+  assertEquals(isBinaryContent(late), true)
+})
+
+Deno.test("fetchSourceFiles - skips files with binary content", async () => {
+  const requests: string[] = []
+  const github = createFakeGitHub({
+    "src/index.ts": "export const retries = 3\n",
+    "src/data.ts": "ex\u0000p",
+    "src/blank.ts": "   \n"
+  }, requests)
+
+  const documents = await fetchSourceFiles(github, "o", "r", "main")
+  assertEquals(documents.map(document => [document.path, document.sourceType, document.url]), [
+    ["src/index.ts", "code", "https://github.com/o/r/blob/main/src/index.ts"]
+  ])
+  assertEquals(requests[0], "/repos/o/r/git/trees/main?recursive=1")
+})
+
+Deno.test("fetchRepoDocs - selects files closer to the root first", async () => {
+  // The tree lists nested files first, as GitHub sorts paths alphabetically
+  const github = createFakeGitHub({
+    "docs/api/reference/errors.md": "# Errors\n",
+    "docs/guide/setup.md": "# Setup\n",
+    "docs/overview.md": "# Overview\n",
+    "packages/core/node_modules/dep/notes.md": "# Notes\n",
+    "CONTRIBUTING.md": "# Contributing\n",
+    "README.md": "# r\n"
+  })
+
+  const documents = await fetchRepoDocs(github, "o", "r", "main", { maxFiles: 3 })
+  assertEquals(documents.map(document => [document.path, document.sourceType]), [
+    ["CONTRIBUTING.md", "repo_doc"],
+    ["docs/overview.md", "repo_doc"],
+    ["docs/guide/setup.md", "repo_doc"]
+  ])
+})
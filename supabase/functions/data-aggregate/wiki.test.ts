@@ -0,0 +1,36 @@
+import { assertEquals } from "@std/assert"
+import { extractWikiLinks } from "./lib/wiki.ts"
+
+/**
+ * Fixture-based tests for wiki page discovery
+ * Run with: deno test --allow-read supabase/functions/data-aggregate/wiki.test.ts
+ */
+
+function readFixture(name: string): string {
+  return Deno.readTextFileSync(new URL(`./fixtures/${name}`, import.meta.url))
+}
+
+Deno.test("extractWikiLinks - finds the pages linked from a wiki page", () => {
+  assertEquals(extractWikiLinks(readFixture("wiki-Home.md"), "o", "r"), [
+    // [[Page]] and [[Text|Page]] links
+    "Installation",
+    "Configuration",
+    "Retry-Policy",
+    // Relative and absolute /wiki/ links; anchors and query strings are dropped
+    "Getting-Started",
+    "Request-Timeouts",
+    "Upgrading-to-v2",
+    "FAQ"
+  ])
+})
+
+Deno.test("extractWikiLinks - skips images, files and other repositories", () => {
+  const markdown = [
+    "![Diagram](diagram)",
+    "[[logo.svg]] [[Photo|photos/team.JPG]]",
+    "[Guide](docs/guide) [Notes](notes.txt) [Top](#top) [Search](?q=retries)",
+    "[Other](https://github.com/o/r-fork/wiki/Home) [Mail](mailto:team@example.com)"
+  ].join("\n")
+
+  assertEquals(extractWikiLinks(markdown, "o", "r"), [])
+})
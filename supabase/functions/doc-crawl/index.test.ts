@@ -1,24 +1,15 @@
-import { assertEquals, assertExists } from "jsr:@std/assert"
+import { assertEquals, assertExists, assertStringIncludes } from "@std/assert"
+import { crawlUrl, crawlInBatches, crawlRecursively } from "./lib/crawler.ts"
+import { htmlToMarkdown } from "./lib/html.ts"
+import { canonicalizeUrl, isAllowedByRobots, parseRobotsTxt } from "./lib/site.ts"
+import type { CrawlerConfig, DocumentationLink } from "./lib/types.ts"
 
 /**
  * Unit tests for doc-crawl helpers
- * Run with: deno test supabase/functions/doc-crawl/index.test.ts
- * These tests mock global fetch to avoid network calls.
+ * Run with: deno test --allow-net=127.0.0.1 supabase/functions/doc-crawl/index.test.ts
+ * These tests run the crawler against a local stub server instead of the network.
  */
 
-interface DocumentationLink {
-  url: string
-  anchorText: string
-}
-
-interface CrawlResult {
-  url: string
-  anchorText: string
-  markdown?: string
-  success: boolean
-  error?: string
-}
-
 // Minimal Crawl4AI response shape used in tests
 const sampleCrawlResponse = {
   url: "https://supabase.com/docs/guides/auth",
@@ -29,139 +20,276 @@ const sampleCrawlResponse = {
   success: true
 }
 
-// Implementation copied/adapted from function for unit testing
-async function crawlUrl(
-  url: string,
-  anchorText: string,
-  crawl4aiBaseUrl: string
-): Promise<CrawlResult> {
-  try {
-    const crawl4aiUrl = `${crawl4aiBaseUrl}/md`
-    const requestBody = {
-      url,
-      f: "fit",
-      q: null,
-      c: "0"
-    }
-
-    const response = await fetch(crawl4aiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(requestBody)
-    })
-
-    if (!response.ok) {
-      return {
-        url,
-        anchorText,
-        success: false,
-        error: `Crawl4AI returned status ${response.status}`
-      }
-    }
-
-    const data = await response.json()
+// Documentation page with navigation boilerplate around the article
+const samplePage = `<!DOCTYPE html>
+<html>
+<head><title>Auth | Docs</title><script>window.analytics = {}</script></head>
+<body>
+  <header><a href="/">Home</a></header>
+  <nav><ul><li><a href="/docs/intro">Sidebar link</a></li></ul></nav>
+  <main>
+    <article>
+      <h1>Auth <a class="hash-link" href="#auth">#</a></h1>
+      <p>Use <code>supabase.auth</code> to sign in users. See the <a href="/docs/guides/sessions">sessions guide</a>.</p>
+      <pre><code class="language-ts">const { data } = await supabase.auth.signInWithPassword({
+  email: 'a@b.c',
+  password: 'x &lt; y'
+})</code></pre>
+      <table>
+        <thead><tr><th>Option</th><th>Description</th></tr></thead>
+        <tbody><tr><td><code>email</code></td><td>User email | login</td></tr></tbody>
+      </table>
+      <ul><li>First</li><li>Second<ul><li>Nested</li></ul></li></ul>
+    </article>
+  </main>
+  <footer>Copyright footer</footer>
+</body>
+</html>`
 
-    if (!data.success) {
-      return {
-        url,
-        anchorText,
-        success: false,
-        error: 'Crawl4AI indicated failure in response'
-      }
-    }
-
-    return {
-      url,
-      anchorText,
-      markdown: data.markdown,
-      success: true
-    }
-  } catch (error) {
-    return {
-      url,
-      anchorText,
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
-    }
+/**
+ * Runs a test against a local stub server
+ */
+async function withStubServer(
+  handler: (req: Request) => Response | Promise<Response>,
+  fn: (baseUrl: string) => Promise<void>
+): Promise<void> {
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen: () => {} }, handler)
+  try {
+    await fn(`http://127.0.0.1:${server.addr.port}`)
+  } finally {
+    await server.shutdown()
   }
 }
 
-async function crawlInBatches(
-  links: DocumentationLink[],
-  crawl4aiBaseUrl: string,
-  batchSize: number = 4
-): Promise<CrawlResult[]> {
-  const results: CrawlResult[] = []
-
-  for (let i = 0; i < links.length; i += batchSize) {
-    const batch = links.slice(i, i + batchSize)
-    const batchResults = await Promise.all(
-      batch.map(link => crawlUrl(link.url, link.anchorText, crawl4aiBaseUrl))
-    )
-    results.push(...batchResults)
-  }
-
-  return results
+/**
+ * Returns the URL of a port nothing listens on
+ */
+async function getClosedPortUrl(): Promise<string> {
+  let url = ""
+  await withStubServer(() => new Response(), (baseUrl) => {
+    url = baseUrl
+    return Promise.resolve()
+  })
+  return url
 }
 
-// Helper to set global fetch with proper typing (avoids using `any`)
-function setFetch(fn: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>) {
-  ;(globalThis as unknown as { fetch: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response> }).fetch = fn
+function crawl4aiConfig(baseUrl: string): CrawlerConfig {
+  return { backend: "crawl4ai", crawl4aiBaseUrl: baseUrl }
 }
 
-Deno.test("crawlUrl - success", async () => {
-  const originalFetch = globalThis.fetch
-  try {
-    setFetch((_input: RequestInfo | URL, _init?: RequestInit) => {
-      return Promise.resolve(new Response(JSON.stringify(sampleCrawlResponse), { status: 200 }))
-    })
+const builtinConfig: CrawlerConfig = { backend: "builtin" }
 
-    const res = await crawlUrl(sampleCrawlResponse.url, "Auth Guide", "http://host")
+Deno.test("crawlUrl - success", async () => {
+  await withStubServer(async (req) => {
+    assertEquals(new URL(req.url).pathname, "/md")
+    const body = await req.json()
+    assertEquals(body.url, sampleCrawlResponse.url)
+    return Response.json(sampleCrawlResponse)
+  }, async (baseUrl) => {
+    const res = await crawlUrl(sampleCrawlResponse.url, "Auth Guide", crawl4aiConfig(baseUrl))
     assertEquals(res.success, true)
     assertExists(res.markdown)
     assertEquals(res.markdown?.startsWith('# Auth'), true)
-  } finally {
-    globalThis.fetch = originalFetch
-  }
+  })
 })
 
 Deno.test("crawlUrl - non-200 response", async () => {
-  const originalFetch = globalThis.fetch
-  try {
-    setFetch((_input: RequestInfo | URL, _init?: RequestInit) => {
-      return Promise.resolve(new Response('err', { status: 500 }))
-    })
-
-    const res = await crawlUrl('https://example.com/bad', "Bad", "http://host")
+  await withStubServer(() => new Response('err', { status: 500 }), async (baseUrl) => {
+    const res = await crawlUrl('https://example.com/bad', "Bad", crawl4aiConfig(baseUrl))
     assertEquals(res.success, false)
     assertEquals(typeof res.error, 'string')
-  } finally {
-    globalThis.fetch = originalFetch
-  }
+  })
 })
 
-Deno.test("crawlInBatches - batches and returns all results", async () => {
-  const originalFetch = globalThis.fetch
-  try {
-    let callCount = 0
-    setFetch((_input: RequestInfo | URL, _init?: RequestInit) => {
-      callCount += 1
-      return Promise.resolve(new Response(JSON.stringify(sampleCrawlResponse), { status: 200 }))
-    })
+Deno.test("crawlUrl - builtin converts the main content to markdown", async () => {
+  await withStubServer(() => new Response(samplePage, {
+    headers: { "Content-Type": "text/html; charset=utf-8" }
+  }), async (baseUrl) => {
+    const res = await crawlUrl(`${baseUrl}/docs/guides/auth`, "Auth Guide", builtinConfig)
+    assertEquals(res.success, true)
+    assertExists(res.markdown)
+    assertEquals(res.markdown?.startsWith('# Auth\n'), true)
+    assertStringIncludes(res.markdown!, `[sessions guide](${baseUrl}/docs/guides/sessions)`)
+    assertEquals(res.markdown?.includes('Sidebar link'), false)
+    assertEquals(res.markdown?.includes('Copyright footer'), false)
+    assertEquals(res.markdown?.includes('window.analytics'), false)
+  })
+})
 
+Deno.test("crawlUrl - builtin returns markdown files unchanged", async () => {
+  await withStubServer(() => new Response("# Guide\n\nText", {
+    headers: { "Content-Type": "text/markdown" }
+  }), async (baseUrl) => {
+    const res = await crawlUrl(`${baseUrl}/guide.md`, "Guide", builtinConfig)
+    assertEquals(res.success, true)
+    assertEquals(res.markdown, "# Guide\n\nText")
+  })
+})
+
+Deno.test("crawlUrl - builtin non-200 response", async () => {
+  await withStubServer(() => new Response('missing', { status: 404 }), async (baseUrl) => {
+    const res = await crawlUrl(`${baseUrl}/missing`, "Missing", builtinConfig)
+    assertEquals(res.success, false)
+    assertEquals(res.error, 'Page returned status 404')
+  })
+})
+
+Deno.test("crawlUrl - unreachable Crawl4AI falls back to the builtin crawler", async () => {
+  const crawl4aiBaseUrl = await getClosedPortUrl()
+  await withStubServer(() => new Response(samplePage, {
+    headers: { "Content-Type": "text/html" }
+  }), async (baseUrl) => {
+    const res = await crawlUrl(`${baseUrl}/docs/guides/auth`, "Auth Guide", crawl4aiConfig(crawl4aiBaseUrl))
+    assertEquals(res.success, true)
+    assertEquals(res.markdown?.startsWith('# Auth'), true)
+  })
+})
+
+Deno.test("crawlInBatches - batches and returns all results", async () => {
+  let callCount = 0
+  await withStubServer(() => {
+    callCount += 1
+    return Response.json(sampleCrawlResponse)
+  }, async (baseUrl) => {
     const links: DocumentationLink[] = Array.from({ length: 6 }).map((_, idx) => ({
       url: `https://example.com/page-${idx}`,
       anchorText: `Page ${idx}`
     }))
 
-    const results = await crawlInBatches(links, 'http://host', 4)
+    const results = await crawlInBatches(links, crawl4aiConfig(baseUrl), 4)
     assertEquals(results.length, 6)
     assertEquals(results.every(r => r.success), true)
     // ensure batching triggered (calls should equal number of links)
     assertEquals(callCount, 6)
-  } finally {
-    globalThis.fetch = originalFetch
+  })
+})
+
+Deno.test("htmlToMarkdown - keeps code blocks", () => {
+  const markdown = htmlToMarkdown(samplePage, "https://example.com/docs/guides/auth")
+  assertStringIncludes(markdown, "```ts\nconst { data } = await supabase.auth.signInWithPassword({\n  email: 'a@b.c',\n  password: 'x < y'\n})\n```")
+  assertStringIncludes(markdown, "Use `supabase.auth` to sign in users.")
+})
+
+Deno.test("htmlToMarkdown - converts tables", () => {
+  const markdown = htmlToMarkdown(samplePage, "https://example.com/docs/guides/auth")
+  assertStringIncludes(markdown, "| Option | Description |\n| --- | --- |\n| `email` | User email \\| login |")
+})
+
+Deno.test("htmlToMarkdown - nests lists", () => {
+  const markdown = htmlToMarkdown(samplePage, "https://example.com/docs/guides/auth")
+  assertStringIncludes(markdown, "- First\n- Second\n  - Nested")
+})
+
+Deno.test("htmlToMarkdown - uses the body without a content container", () => {
+  const markdown = htmlToMarkdown(
+    "<html><body><header>Site</header><h2>Title</h2><p>Short <b>page</b></p></body></html>",
+    "https://example.com/"
+  )
+  assertEquals(markdown, "## Title\n\nShort **page**")
+})
+
+/**
+ * Builds a documentation page linking to other pages
+ */
+function linkPage(title: string, hrefs: string[], canonical?: string): string {
+  return `<html><head><title>${title}</title>${canonical ? `<link rel="canonical" href="${canonical}">` : ''}</head>
+<body><nav>${hrefs.map(href => `<a href="${href}">${href}</a>`).join('')}</nav><main><h1>${title}</h1><p>${title} content</p></main></body></html>`
+}
+
+Deno.test("crawlRecursively - follows same-site links within the limits", async () => {
+  const requested: string[] = []
+  const pages: Record<string, string> = {
+    "/docs/": linkPage("Index", ["/docs/a", "/docs/b?utm_source=nav#top", "/blog/post", "/docs/private/x", "https://example.com/docs/c", "/docs/logo.png"]),
+    "/docs/a": linkPage("A", ["/docs/a/deep", "/docs/"]),
+    "/docs/b": linkPage("B", ["/docs/a"]),
+    "/docs/a/deep": linkPage("Deep", ["/docs/a/deeper"]),
+    "/docs/a/deeper": linkPage("Deeper", []),
+    "/docs/alias": linkPage("Alias", [], "/docs/a"),
+    "/docs/from-sitemap": linkPage("From sitemap", ["/docs/alias"])
   }
+
+  await withStubServer((req) => {
+    const { pathname } = new URL(req.url)
+    requested.push(pathname)
+    if (pathname === "/robots.txt") {
+      return new Response("User-agent: *\nDisallow: /docs/private/\n")
+    }
+    if (pathname === "/sitemap.xml") {
+      const origin = new URL(req.url).origin
+      return new Response(`<urlset><url><loc>${origin}/docs/from-sitemap</loc></url><url><loc>${origin}/other</loc></url></urlset>`)
+    }
+    const page = pages[pathname]
+    return page
+      ? new Response(page, { headers: { "Content-Type": "text/html" } })
+      : new Response("missing", { status: 404 })
+  }, async (baseUrl) => {
+    const results = await crawlRecursively(
+      [{ url: `${baseUrl}/docs/`, anchorText: "Docs" }],
+      builtinConfig,
+      { maxDepth: 2, maxPages: 10 }
+    )
+
+    const crawled = results.map(r => new URL(r.url).pathname)
+    assertEquals(crawled, ["/docs/", "/docs/from-sitemap", "/docs/a", "/docs/b", "/docs/a/deep"])
+    assertEquals(results.every(r => r.success), true)
+    assertEquals(results.map(r => r.depth), [0, 1, 1, 1, 2])
+    assertEquals(results[1].anchorText, "From sitemap")
+    // Out of scope, disallowed, asset and too deep pages are never requested;
+    // the alias is fetched but dropped as a duplicate of its canonical page
+    assertEquals(requested.includes("/blog/post"), false)
+    assertEquals(requested.includes("/docs/private/x"), false)
+    assertEquals(requested.includes("/docs/logo.png"), false)
+    assertEquals(requested.includes("/docs/a/deeper"), false)
+    assertEquals(requested.includes("/docs/alias"), true)
+    assertEquals(crawled.includes("/docs/alias"), false)
+  })
+})
+
+Deno.test("crawlRecursively - stops at maxPages", async () => {
+  await withStubServer((req) => {
+    const { pathname } = new URL(req.url)
+    if (pathname === "/robots.txt" || pathname === "/sitemap.xml") {
+      return new Response("missing", { status: 404 })
+    }
+    const next = Number(pathname.split("/").pop() || 0) + 1
+    return new Response(linkPage(`Page ${pathname}`, [`/docs/${next}`, `/docs/${next + 100}`]), {
+      headers: { "Content-Type": "text/html" }
+    })
+  }, async (baseUrl) => {
+    const results = await crawlRecursively(
+      [{ url: `${baseUrl}/docs/0`, anchorText: "Docs" }],
+      builtinConfig,
+      { maxDepth: 10, maxPages: 3 }
+    )
+    assertEquals(results.length, 3)
+  })
+})
+
+Deno.test("canonicalizeUrl - normalizes equivalent URLs", () => {
+  const expected = "https://example.com/docs/guide?a=1&b=2"
+  assertEquals(canonicalizeUrl("https://EXAMPLE.com:443/docs/guide/?b=2&a=1&utm_source=x#intro"), expected)
+  assertEquals(canonicalizeUrl("https://example.com/docs/guide/index.html?a=1&b=2"), "https://example.com/docs/guide?a=1&b=2")
+  assertEquals(canonicalizeUrl("https://example.com/"), "https://example.com/")
+  assertEquals(canonicalizeUrl("mailto:docs@example.com"), null)
+})
+
+Deno.test("parseRobotsTxt - longest matching rule wins", () => {
+  const robots = parseRobotsTxt([
+    "User-agent: other-bot",
+    "Disallow: /",
+    "",
+    "User-agent: *",
+    "Disallow: /docs/",
+    "Allow: /docs/public/",
+    "Disallow: /*.pdf$",
+    "Crawl-delay: 2",
+    "Sitemap: https://example.com/docs-sitemap.xml"
+  ].join("\n"), "doc-crawl")
+
+  assertEquals(isAllowedByRobots(robots, "https://example.com/blog/"), true)
+  assertEquals(isAllowedByRobots(robots, "https://example.com/docs/internal"), false)
+  assertEquals(isAllowedByRobots(robots, "https://example.com/docs/public/intro"), true)
+  assertEquals(isAllowedByRobots(robots, "https://example.com/files/guide.pdf"), false)
+  assertEquals(robots.crawlDelayMs, 2000)
+  assertEquals(robots.sitemaps, ["https://example.com/docs-sitemap.xml"])
 })
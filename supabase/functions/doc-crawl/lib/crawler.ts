@@ -0,0 +1,468 @@
+/**
+ * Crawler module
+ * Turns documentation pages into markdown with the built-in crawler or a
+ * Crawl4AI service. The backend is chosen with CRAWLER_BACKEND; Crawl4AI is
+ * used by default only when CRAWL4AI_BASE_URL is set.
+ * Recursive crawls follow same-site links from the documentation roots.
+ */
+
+import { parsePage, type PageLink } from './html.ts'
+import {
+  canonicalizeUrl,
+  extractMarkdownLinks,
+  getDefaultPathPrefix,
+  isAllowedByRobots,
+  isPageUrl,
+  parseRobotsTxt,
+  parseSitemap,
+  type RobotsRules
+} from './site.ts'
+import type {
+  Crawl4AIRequest,
+  Crawl4AIResponse,
+  CrawlResult,
+  CrawlerBackend,
+  CrawlerConfig,
+  DocumentationLink,
+  RecursiveCrawlOptions
+} from './types.ts'
+
+/**
+ * Built-in crawler settings
+ */
+export const CRAWLER_CONFIG = {
+  timeoutMs: 15000,                    // Per page request timeout
+  maxPageSize: 5_000_000,              // Larger pages are skipped (bytes)
+  userAgent: 'Supabase-Edge-Function (doc-crawl)'
+}
+
+/**
+ * Recursive crawl settings
+ */
+export const RECURSIVE_CRAWL_CONFIG = {
+  defaultMaxDepth: 2,
+  defaultMaxPages: 50,
+  maxPagesLimit: 500,                  // Upper bound for maxPages in a request
+  maxCrawlDelayMs: 5000,               // Longer robots.txt Crawl-delay values are capped
+  maxSitemaps: 10,                     // Sitemap files read per site (index files included)
+  siteTimeoutMs: 10000                 // robots.txt and sitemap request timeout
+}
+
+/**
+ * Hosts whose pages are crawled but never expanded (repository pages, not documentation sites)
+ */
+const NON_RECURSIVE_HOSTS = new Set(['github.com', 'raw.githubusercontent.com', 'gist.github.com'])
+
+/**
+ * A crawled page with the information needed to crawl further
+ */
+interface CrawledPage extends CrawlResult {
+  links: PageLink[]
+  title?: string
+  canonicalUrl?: string
+}
+
+/**
+ * Reads the crawler configuration from the environment
+ * @param requested - Backend requested for this call, overrides CRAWLER_BACKEND
+ */
+export function getCrawlerConfig(requested?: CrawlerBackend): CrawlerConfig | string {
+  const crawl4aiBaseUrl = Deno.env.get('CRAWL4AI_BASE_URL')
+  const backend = requested
+    ?? (Deno.env.get('CRAWLER_BACKEND') as CrawlerBackend | undefined)
+    ?? (crawl4aiBaseUrl ? 'crawl4ai' : 'builtin')
+
+  if (backend !== 'builtin' && backend !== 'crawl4ai') {
+    return `Unknown crawler backend: ${backend}`
+  }
+
+  return {
+    backend,
+    // Use host.docker.internal to access host machine's localhost from Docker container
+    crawl4aiBaseUrl: crawl4aiBaseUrl || 'http://host.docker.internal:11235'
+  }
+}
+
+/**
+ * Maps a github.com file page to its raw content
+ * GitHub's HTML file view is an application shell; the raw file is the content
+ */
+function toRawGitHubUrl(url: string): string {
+  const match = url.match(/^https:\/\/github\.com\/([^/]+)\/([^/]+)\/blob\/(.+?)(?:[?#].*)?$/)
+  return match ? `https://raw.githubusercontent.com/${match[1]}/${match[2]}/${match[3]}` : url
+}
+
+/**
+ * Crawls a single URL with the built-in crawler
+ * Markdown and plain text are returned as they are; HTML is converted
+ */
+async function crawlUrlBuiltin(url: string, anchorText: string): Promise<CrawledPage> {
+  const fetchUrl = toRawGitHubUrl(url)
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), CRAWLER_CONFIG.timeoutMs)
+
+  try {
+    const response = await fetch(fetchUrl, {
+      headers: {
+        'Accept': 'text/html,application/xhtml+xml,text/markdown,text/plain;q=0.9',
+        'User-Agent': CRAWLER_CONFIG.userAgent
+      },
+      redirect: 'follow',
+      signal: controller.signal
+    })
+
+    if (!response.ok) {
+      await response.body?.cancel()
+      return { url, anchorText, links: [], success: false, error: `Page returned status ${response.status}` }
+    }
+
+    const contentType = response.headers.get('content-type') ?? ''
+    const contentLength = parseInt(response.headers.get('content-length') ?? '0', 10)
+    if (contentLength > CRAWLER_CONFIG.maxPageSize) {
+      await response.body?.cancel()
+      return { url, anchorText, links: [], success: false, error: `Page too large (${contentLength} bytes)` }
+    }
+
+    const body = await response.text()
+
+    const isHtml = /html/i.test(contentType) || (!contentType && /^\s*</.test(body))
+    const isText = /^text\/(?:plain|markdown|x-markdown)/i.test(contentType)
+
+    if (!isHtml && !isText) {
+      return { url, anchorText, links: [], success: false, error: `Unsupported content type: ${contentType}` }
+    }
+
+    const baseUrl = response.url || fetchUrl
+    const page = isHtml
+      ? parsePage(body, baseUrl)
+      : { markdown: body.trim(), links: extractMarkdownLinks(body, baseUrl) }
+
+    if (!page.markdown) {
+      return { url, anchorText, links: [], success: false, error: 'No content extracted from page' }
+    }
+
+    return { url, anchorText, success: true, ...page }
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Crawls a single URL using Crawl4AI
+ */
+async function crawlUrlCrawl4AI(
+  url: string,
+  anchorText: string,
+  crawl4aiBaseUrl: string
+): Promise<CrawledPage> {
+  const crawl4aiUrl = `${crawl4aiBaseUrl}/md`
+  const requestBody: Crawl4AIRequest = {
+    url,
+    f: "fit",
+    q: null,
+    c: "0"
+  }
+
+  let response: Response
+  try {
+    response = await fetch(crawl4aiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(requestBody)
+    })
+  } catch (error) {
+    // The service is unreachable: crawl the page directly instead of returning nothing
+    console.warn(`Crawl4AI unreachable at ${crawl4aiBaseUrl}, using the built-in crawler:`, error)
+    return await crawlUrlBuiltin(url, anchorText)
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel()
+    return {
+      url,
+      anchorText,
+      links: [],
+      success: false,
+      error: `Crawl4AI returned status ${response.status}`
+    }
+  }
+
+  const data: Crawl4AIResponse = await response.json()
+
+  if (!data.success) {
+    return {
+      url,
+      anchorText,
+      links: [],
+      success: false,
+      error: 'Crawl4AI indicated failure in response'
+    }
+  }
+
+  return {
+    url,
+    anchorText,
+    markdown: data.markdown,
+    links: extractMarkdownLinks(data.markdown ?? '', url),
+    success: true
+  }
+}
+
+/**
+ * Crawls a single URL and keeps the page links
+ */
+async function crawlPage(
+  url: string,
+  anchorText: string,
+  config: CrawlerConfig
+): Promise<CrawledPage> {
+  try {
+    console.log(`Crawling (${config.backend}): ${url}`)
+
+    return config.backend === 'crawl4ai' && config.crawl4aiBaseUrl
+      ? await crawlUrlCrawl4AI(url, anchorText, config.crawl4aiBaseUrl)
+      : await crawlUrlBuiltin(url, anchorText)
+  } catch (error) {
+    console.error(`Error crawling ${url}:`, error)
+    return {
+      url,
+      anchorText,
+      links: [],
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+  }
+}
+
+/**
+ * Strips the crawling details of a page from its result
+ */
+function toCrawlResult({ links: _links, title: _title, canonicalUrl: _canonicalUrl, ...result }: CrawledPage): CrawlResult {
+  return result
+}
+
+/**
+ * Crawls a single URL
+ * @param url - The URL to crawl
+ * @param anchorText - The original anchor text from the link
+ * @param config - Crawler backend and settings
+ * @returns CrawlResult with markdown content or error
+ */
+export async function crawlUrl(
+  url: string,
+  anchorText: string,
+  config: CrawlerConfig
+): Promise<CrawlResult> {
+  return toCrawlResult(await crawlPage(url, anchorText, config))
+}
+
+/**
+ * Processes URLs in batches with concurrency limit
+ * @param links - Array of documentation links to crawl
+ * @param config - Crawler backend and settings
+ * @param batchSize - Number of concurrent requests (default: 4)
+ * @returns Array of crawl results
+ */
+export async function crawlInBatches(
+  links: DocumentationLink[],
+  config: CrawlerConfig,
+  batchSize: number = 4
+): Promise<CrawlResult[]> {
+  const results: CrawlResult[] = []
+
+  // Process links in batches
+  for (let i = 0; i < links.length; i += batchSize) {
+    const batch = links.slice(i, i + batchSize)
+    console.log(`Processing batch ${Math.floor(i / batchSize) + 1} (${batch.length} URLs)`)
+
+    // Crawl all URLs in current batch concurrently
+    const batchResults = await Promise.all(
+      batch.map(link => crawlUrl(link.url, link.anchorText, config))
+    )
+
+    results.push(...batchResults)
+  }
+
+  return results
+}
+
+/**
+ * Fetches a robots.txt or sitemap file; returns null when it is missing or unreadable
+ */
+async function fetchSiteFile(url: string): Promise<string | null> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), RECURSIVE_CRAWL_CONFIG.siteTimeoutMs)
+
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': CRAWLER_CONFIG.userAgent },
+      redirect: 'follow',
+      signal: controller.signal
+    })
+
+    if (!response.ok) {
+      await response.body?.cancel()
+      return null
+    }
+
+    return await response.text()
+  } catch (error) {
+    console.warn(`Could not fetch ${url}:`, error)
+    return null
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Reads the robots.txt rules of a site; a missing file allows everything
+ */
+async function fetchRobotsRules(origin: string): Promise<RobotsRules> {
+  const content = await fetchSiteFile(`${origin}/robots.txt`)
+  return parseRobotsTxt(content ?? '', CRAWLER_CONFIG.userAgent)
+}
+
+/**
+ * Reads the page URLs listed in a site's sitemaps, following sitemap index files
+ */
+async function fetchSitemapUrls(sitemapUrls: string[]): Promise<string[]> {
+  const pending = [...sitemapUrls]
+  const visited = new Set<string>()
+  const urls: string[] = []
+
+  while (pending.length > 0 && visited.size < RECURSIVE_CRAWL_CONFIG.maxSitemaps) {
+    const sitemapUrl = pending.shift()!
+    if (visited.has(sitemapUrl)) continue
+    visited.add(sitemapUrl)
+
+    const xml = await fetchSiteFile(sitemapUrl)
+    if (!xml) continue
+
+    const sitemap = parseSitemap(xml)
+    urls.push(...sitemap.urls)
+    pending.push(...sitemap.sitemaps)
+  }
+
+  return urls
+}
+
+/**
+ * Crawls documentation roots and the same-site pages they link to
+ * Pages are crawled breadth-first and de-duplicated by canonical URL. Links are
+ * followed within the root's origin and path prefix, up to maxDepth links away
+ * and maxPages pages in total. Pages listed in the site's sitemap are crawled
+ * too, and robots.txt is respected for every page that is not a root.
+ * @param roots - Documentation links to start from
+ * @param config - Crawler backend and settings
+ * @param options - Depth, page and path limits
+ * @param batchSize - Number of concurrent requests (default: 4)
+ * @returns Array of crawl results, roots first
+ */
+export async function crawlRecursively(
+  roots: DocumentationLink[],
+  config: CrawlerConfig,
+  options: RecursiveCrawlOptions,
+  batchSize: number = 4
+): Promise<CrawlResult[]> {
+  const scopes: { origin: string; prefix: string }[] = []
+  for (const root of roots) {
+    const url = new URL(root.url)
+    if (NON_RECURSIVE_HOSTS.has(url.hostname)) continue
+    const prefix = options.pathPrefix ?? getDefaultPathPrefix(root.url)
+    if (!scopes.some(scope => scope.origin === url.origin && scope.prefix === prefix)) {
+      scopes.push({ origin: url.origin, prefix })
+    }
+  }
+
+  const inScope = (url: string): boolean => {
+    const { origin, pathname } = new URL(url)
+    return scopes.some(scope => scope.origin === origin && pathname.startsWith(scope.prefix))
+  }
+
+  // robots.txt of every site the crawl can reach
+  const robotsByOrigin = new Map<string, RobotsRules>()
+  for (const origin of new Set(scopes.map(scope => scope.origin))) {
+    robotsByOrigin.set(origin, await fetchRobotsRules(origin))
+  }
+
+  const crawlDelayMs = Math.min(
+    Math.max(0, ...[...robotsByOrigin.values()].map(robots => robots.crawlDelayMs)),
+    RECURSIVE_CRAWL_CONFIG.maxCrawlDelayMs
+  )
+  // A crawl delay means one request at a time
+  const concurrency = crawlDelayMs > 0 ? 1 : batchSize
+
+  const seen = new Set<string>()
+  const crawled = new Set<string>()
+  const queue: (DocumentationLink & { depth: number })[] = []
+
+  const enqueue = (url: string, anchorText: string, depth: number, isRoot = false) => {
+    const canonical = canonicalizeUrl(url)
+    if (!canonical || seen.has(canonical)) return
+    if (!isRoot) {
+      const robots = robotsByOrigin.get(new URL(url).origin)
+      if (!inScope(url) || !isPageUrl(url) || (robots && !isAllowedByRobots(robots, url))) return
+    }
+    seen.add(canonical)
+    queue.push({ url, anchorText, depth })
+  }
+
+  for (const root of roots) {
+    enqueue(root.url, root.anchorText, 0, true)
+  }
+
+  // Sitemap pages are treated as linked from the roots
+  if (options.maxDepth > 0) {
+    for (const [origin, robots] of robotsByOrigin) {
+      const sitemapUrls = robots.sitemaps.length > 0 ? robots.sitemaps : [`${origin}/sitemap.xml`]
+      for (const url of await fetchSitemapUrls(sitemapUrls)) {
+        enqueue(url, '', 1)
+      }
+    }
+  }
+
+  const results: CrawlResult[] = []
+  let fetched = 0
+
+  while (queue.length > 0 && fetched < options.maxPages) {
+    const batch = queue.splice(0, Math.min(concurrency, options.maxPages - fetched))
+    fetched += batch.length
+    console.log(`Crawling ${batch.length} pages (${fetched}/${options.maxPages}, ${queue.length} queued)`)
+
+    const pages = await Promise.all(batch.map(link => crawlPage(link.url, link.anchorText, config)))
+
+    pages.forEach((page, index) => {
+      const { depth } = batch[index]
+
+      // Pages that declare an already crawled page as canonical are duplicates
+      const canonical = page.canonicalUrl ? canonicalizeUrl(page.canonicalUrl) : null
+      if (canonical && canonical !== canonicalizeUrl(page.url) && crawled.has(canonical)) {
+        console.log(`Skipping duplicate of ${canonical}: ${page.url}`)
+        return
+      }
+      crawled.add(canonicalizeUrl(page.url)!)
+      if (canonical) {
+        crawled.add(canonical)
+        seen.add(canonical)
+      }
+
+      // Sitemap entries and image links have no anchor text
+      const anchorText = page.anchorText || page.title || new URL(page.url).pathname
+      results.push({ ...toCrawlResult(page), anchorText, depth })
+
+      if (!page.success || depth >= options.maxDepth) return
+      for (const link of page.links) {
+        enqueue(link.url, link.text, depth + 1)
+      }
+    })
+
+    if (crawlDelayMs > 0 && queue.length > 0 && fetched < options.maxPages) {
+      await new Promise(resolve => setTimeout(resolve, crawlDelayMs))
+    }
+  }
+
+  return results
+}
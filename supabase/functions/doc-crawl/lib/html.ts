@@ -0,0 +1,412 @@
+/**
+ * HTML to markdown conversion for the built-in crawler
+ * Picks the main content of a documentation page, strips navigation and
+ * other boilerplate and converts the rest to markdown. Code blocks keep their
+ * whitespace and language; tables become GFM tables.
+ */
+
+import { parse, HTMLElement, NodeType } from 'node-html-parser'
+import type { Node } from 'node-html-parser'
+
+/**
+ * Containers that usually hold the content of a documentation page, in order of preference
+ */
+const MAIN_CONTENT_SELECTORS = [
+  'main article',
+  'article',
+  '[role="main"]',
+  'main',
+  '.markdown-body',
+  '.theme-doc-markdown',
+  '.md-content',
+  '.rst-content',
+  '.document',
+  '#content',
+  '.content'
+]
+
+/**
+ * Elements removed from the content before conversion
+ */
+const BOILERPLATE_SELECTORS = [
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe',
+  'nav', 'aside', 'footer', 'form', 'button', 'dialog',
+  '[role="navigation"]', '[role="contentinfo"]', '[role="search"]',
+  '[aria-hidden="true"]', '[hidden]',
+  '.sidebar', '.toc', '.table-of-contents', '.breadcrumbs', '.pagination',
+  '.edit-this-page', '.skip-link', '.headerlink', '.anchor-link', '.hash-link'
+]
+
+/**
+ * Minimum text length for a content container to be used
+ */
+const MIN_CONTENT_LENGTH = 100
+
+/**
+ * Elements rendered as blocks (separated by blank lines)
+ */
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'blockquote', 'body', 'dd', 'details', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'header', 'hr', 'html', 'li', 'main', 'ol', 'p', 'pre', 'section', 'summary',
+  'table', 'ul'
+])
+
+/**
+ * Anchor texts of heading permalinks
+ */
+const PERMALINK_TEXTS = new Set(['#', '¶', '§', '🔗'])
+
+/**
+ * Conversion state
+ */
+interface ConversionContext {
+  baseUrl: string
+}
+
+/**
+ * Link found on a page
+ */
+export interface PageLink {
+  url: string    // Absolute URL without fragment
+  text: string
+}
+
+/**
+ * A page converted to markdown with the links needed to crawl further
+ */
+export interface ParsedPage {
+  title?: string
+  markdown: string
+  links: PageLink[]          // All links of the page, including navigation
+  canonicalUrl?: string      // <link rel="canonical"> of the page
+}
+
+/**
+ * Parses HTML; <pre> is parsed as elements (not raw text) so code blocks can be inspected
+ */
+function parseHtml(html: string): HTMLElement {
+  return parse(html, {
+    comment: false,
+    blockTextElements: { script: true, style: true, noscript: true }
+  })
+}
+
+/**
+ * Returns the main content of a parsed page without boilerplate
+ * Boilerplate is removed from the parsed tree
+ */
+function extractMainContent(root: HTMLElement): HTMLElement {
+  let content: HTMLElement | null = null
+  for (const selector of MAIN_CONTENT_SELECTORS) {
+    const candidate = root.querySelector(selector)
+    if (candidate && candidate.text.trim().length >= MIN_CONTENT_LENGTH) {
+      content = candidate
+      break
+    }
+  }
+
+  if (!content) {
+    // Without a content container the page header is boilerplate as well
+    content = root.querySelector('body') ?? root
+    content.querySelectorAll('header').forEach(element => element.remove())
+  }
+
+  for (const selector of BOILERPLATE_SELECTORS) {
+    content.querySelectorAll(selector).forEach(element => element.remove())
+  }
+
+  return content
+}
+
+/**
+ * Collects the links of a page, navigation included
+ */
+function extractLinks(root: HTMLElement, ctx: ConversionContext): PageLink[] {
+  const links: PageLink[] = []
+  for (const anchor of root.querySelectorAll('a[href]')) {
+    const url = resolveUrl(anchor.getAttribute('href'), ctx)
+    if (!url || !/^https?:/i.test(url)) continue
+    links.push({ url: url.replace(/#.*$/, ''), text: anchor.text.replace(/\s+/g, ' ').trim() })
+  }
+  return links
+}
+
+/**
+ * Converts an HTML page to markdown and collects its links
+ * @param html - Page HTML
+ * @param baseUrl - Page URL, used to resolve relative links and images
+ */
+export function parsePage(html: string, baseUrl: string): ParsedPage {
+  const root = parseHtml(html)
+  const ctx: ConversionContext = { baseUrl }
+
+  const title = root.querySelector('title')?.text.trim() || undefined
+  const canonicalUrl = resolveUrl(root.querySelector('link[rel="canonical"]')?.getAttribute('href'), ctx) ?? undefined
+  const links = extractLinks(root, ctx)
+
+  const markdown = renderBlocks(extractMainContent(root).childNodes, ctx)
+    .join('\n\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+  return { title, markdown, links, canonicalUrl }
+}
+
+/**
+ * Converts an HTML page to markdown
+ * @param html - Page HTML
+ * @param baseUrl - Page URL, used to resolve relative links and images
+ */
+export function htmlToMarkdown(html: string, baseUrl: string): string {
+  return parsePage(html, baseUrl).markdown
+}
+
+/**
+ * Checks whether a node is an element
+ */
+function isElement(node: Node): node is HTMLElement {
+  return node.nodeType === NodeType.ELEMENT_NODE
+}
+
+/**
+ * Lowercase tag name of an element
+ */
+function tagOf(element: HTMLElement): string {
+  return element.rawTagName?.toLowerCase() ?? ''
+}
+
+/**
+ * Resolves a link against the page URL
+ * Returns null for links that can't be followed
+ */
+function resolveUrl(href: string | undefined, ctx: ConversionContext): string | null {
+  if (!href || /^(?:javascript|data):/i.test(href)) {
+    return null
+  }
+  try {
+    return new URL(href, ctx.baseUrl).toString()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Renders a list of nodes as markdown blocks
+ * Consecutive inline nodes are joined into one paragraph
+ */
+function renderBlocks(nodes: Node[], ctx: ConversionContext): string[] {
+  const blocks: string[] = []
+  let inline = ''
+
+  const flush = () => {
+    const paragraph = inline.replace(/\s*\n\s*/g, '\n').trim()
+    if (paragraph) blocks.push(paragraph)
+    inline = ''
+  }
+
+  for (const node of nodes) {
+    if (isElement(node) && BLOCK_TAGS.has(tagOf(node))) {
+      flush()
+      const block = renderBlock(node, ctx)
+      if (block.trim()) blocks.push(block)
+    } else {
+      inline += renderInline(node, ctx)
+    }
+  }
+  flush()
+
+  return blocks
+}
+
+/**
+ * Renders a block element
+ */
+function renderBlock(element: HTMLElement, ctx: ConversionContext): string {
+  const tag = tagOf(element)
+
+  switch (tag) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const text = renderInlineChildren(element, ctx).replace(/\s+/g, ' ').trim()
+      return text ? `${'#'.repeat(Number(tag[1]))} ${text}` : ''
+    }
+
+    case 'p':
+    case 'dd':
+    case 'figcaption':
+    case 'summary':
+      return renderBlocks(element.childNodes, ctx).join('\n\n')
+
+    case 'dt': {
+      const text = renderInlineChildren(element, ctx).trim()
+      return text ? `**${text}**` : ''
+    }
+
+    case 'pre':
+      return renderCodeBlock(element)
+
+    case 'ul':
+    case 'ol':
+      return renderList(element, ctx)
+
+    case 'blockquote':
+      return renderBlocks(element.childNodes, ctx)
+        .join('\n\n')
+        .split('\n')
+        .map(line => line ? `> ${line}` : '>')
+        .join('\n')
+
+    case 'table':
+      return renderTable(element, ctx)
+
+    case 'hr':
+      return '---'
+
+    default:
+      return renderBlocks(element.childNodes, ctx).join('\n\n')
+  }
+}
+
+/**
+ * Renders a code block as a fenced block
+ * The language is taken from language-*, lang-* or highlight-* classes
+ */
+function renderCodeBlock(pre: HTMLElement): string {
+  const code = pre.querySelector('code')
+  const classes = [pre, code, pre.parentNode, pre.parentNode?.parentNode]
+    .map(element => element instanceof HTMLElement ? element.getAttribute('class') ?? '' : '')
+    .join(' ')
+  const language = classes.match(/(?:language|lang|highlight(?:-source)?)-([\w+#.-]+)/)?.[1]
+    ?? code?.getAttribute('data-language')
+    ?? pre.getAttribute('data-language')
+    ?? ''
+
+  // Line breaks may be encoded as <br> in highlighted code
+  pre.querySelectorAll('br').forEach(br => br.replaceWith('\n'))
+  const content = pre.text.replace(/^\n/, '').replace(/\s+$/, '')
+
+  // The fence must be longer than any backtick run in the code
+  const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map(run => run.length))
+  const fence = '`'.repeat(Math.max(3, longestRun + 1))
+
+  return `${fence}${language}\n${content}\n${fence}`
+}
+
+/**
+ * Renders an ordered or unordered list, indenting nested content under its item
+ */
+function renderList(list: HTMLElement, ctx: ConversionContext): string {
+  const ordered = tagOf(list) === 'ol'
+  const start = parseInt(list.getAttribute('start') ?? '1', 10) || 1
+
+  const items = list.childNodes.filter(
+    (node): node is HTMLElement => isElement(node) && tagOf(node) === 'li'
+  )
+
+  return items
+    .map((item, index) => {
+      const marker = ordered ? `${start + index}. ` : '- '
+      const indent = ' '.repeat(marker.length)
+      const body = renderBlocks(item.childNodes, ctx).join('\n')
+      return body
+        .split('\n')
+        .map((line, lineIndex) => lineIndex === 0 ? `${marker}${line}` : line ? `${indent}${line}` : '')
+        .join('\n')
+    })
+    .join('\n')
+}
+
+/**
+ * Renders a table as a GFM table; the first row is the header
+ */
+function renderTable(table: HTMLElement, ctx: ConversionContext): string {
+  const rows = table.querySelectorAll('tr')
+    .map(row => row.childNodes
+      .filter((node): node is HTMLElement => isElement(node) && (tagOf(node) === 'th' || tagOf(node) === 'td'))
+      .map(cell => renderInlineChildren(cell, ctx).replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|')))
+    .filter(cells => cells.length > 0)
+
+  if (rows.length === 0) {
+    return ''
+  }
+
+  const columns = Math.max(...rows.map(cells => cells.length))
+  const formatRow = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => cells[i] ?? '').join(' | ')} |`
+
+  return [
+    formatRow(rows[0]),
+    `| ${Array(columns).fill('---').join(' | ')} |`,
+    ...rows.slice(1).map(formatRow)
+  ].join('\n')
+}
+
+/**
+ * Renders the children of an element as inline markdown
+ */
+function renderInlineChildren(element: HTMLElement, ctx: ConversionContext): string {
+  return element.childNodes.map(node => renderInline(node, ctx)).join('')
+}
+
+/**
+ * Renders a node as inline markdown
+ */
+function renderInline(node: Node, ctx: ConversionContext): string {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    return node.text.replace(/\s+/g, ' ')
+  }
+  if (!isElement(node)) {
+    return ''
+  }
+
+  const tag = tagOf(node)
+
+  switch (tag) {
+    case 'br':
+      return '\n'
+
+    case 'strong':
+    case 'b': {
+      const text = renderInlineChildren(node, ctx).trim()
+      return text ? `**${text}**` : ''
+    }
+
+    case 'em':
+    case 'i': {
+      const text = renderInlineChildren(node, ctx).trim()
+      return text ? `*${text}*` : ''
+    }
+
+    case 'code':
+    case 'kbd':
+    case 'samp': {
+      const text = node.text.replace(/\s+/g, ' ')
+      if (!text.trim()) return ''
+      const fence = text.includes('`') ? '``' : '`'
+      return `${fence}${text}${fence}`
+    }
+
+    case 'a': {
+      const text = renderInlineChildren(node, ctx).trim()
+      const href = node.getAttribute('href')
+      if (!text || PERMALINK_TEXTS.has(text)) return ''
+      if (!href || href.startsWith('#')) return text
+      const url = resolveUrl(href, ctx)
+      return url ? `[${text}](${url})` : text
+    }
+
+    case 'img': {
+      const src = resolveUrl(node.getAttribute('src'), ctx)
+      return src ? `![${node.getAttribute('alt') ?? ''}](${src})` : ''
+    }
+
+    default:
+      return renderInlineChildren(node, ctx)
+  }
+}
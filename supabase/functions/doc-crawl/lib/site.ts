@@ -0,0 +1,207 @@
+/**
+ * Site discovery helpers for recursive crawling
+ * Canonical URLs for de-duplication, robots.txt rules and sitemap.xml entries
+ */
+
+/**
+ * Query parameters that don't change the page content
+ */
+const IGNORED_QUERY_PARAMS = /^(?:utm_\w+|ref|ref_src|fbclid|gclid)$/i
+
+/**
+ * File extensions that are never documentation pages
+ */
+const NON_PAGE_EXTENSIONS = /\.(?:png|jpe?g|gif|svg|webp|ico|bmp|pdf|zip|tar|gz|tgz|7z|rar|exe|dmg|mp4|webm|mp3|wav|woff2?|ttf|eot|css|js|mjs|json|xml|rss|atom|wasm)$/i
+
+/**
+ * Parsed robots.txt rules for one user agent
+ */
+export interface RobotsRules {
+  rules: { allow: boolean; pattern: string }[]
+  crawlDelayMs: number
+  sitemaps: string[]
+}
+
+/**
+ * Normalizes a URL for de-duplication
+ * Drops the fragment, tracking parameters, default ports, index files and
+ * trailing slashes, and sorts the query. Returns null for non-HTTP URLs.
+ */
+export function canonicalizeUrl(url: string): string | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return null
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return null
+  }
+
+  parsed.hash = ''
+  parsed.hostname = parsed.hostname.toLowerCase()
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => !IGNORED_QUERY_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b))
+  parsed.search = new URLSearchParams(params).toString()
+
+  parsed.pathname = parsed.pathname
+    .replace(/\/index\.html?$/i, '/')
+    .replace(/\/{2,}/g, '/')
+  if (parsed.pathname.length > 1) {
+    parsed.pathname = parsed.pathname.replace(/\/$/, '')
+  }
+
+  return parsed.toString()
+}
+
+/**
+ * Checks whether a URL can be a documentation page (not an asset or download)
+ */
+export function isPageUrl(url: string): boolean {
+  try {
+    return !NON_PAGE_EXTENSIONS.test(new URL(url).pathname)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Default path prefix of a documentation root: its directory
+ * (https://example.com/docs/intro -> /docs/)
+ */
+export function getDefaultPathPrefix(rootUrl: string): string {
+  const pathname = new URL(rootUrl).pathname
+  return pathname.endsWith('/') ? pathname : pathname.replace(/[^/]*$/, '')
+}
+
+/**
+ * Parses robots.txt for a user agent
+ * The most specific matching group applies; without one the "*" group is used
+ */
+export function parseRobotsTxt(content: string, userAgent: string): RobotsRules {
+  const agent = userAgent.toLowerCase()
+  const groups: { agents: string[]; rules: RobotsRules['rules']; crawlDelayMs: number }[] = []
+  const sitemaps: string[] = []
+
+  let current: (typeof groups)[number] | null = null
+  let lastWasAgent = false
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+
+    const field = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value)
+      continue
+    }
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelayMs: 0 }
+        groups.push(current)
+      }
+      current.agents.push(value.toLowerCase())
+      lastWasAgent = true
+      continue
+    }
+
+    lastWasAgent = false
+    if (!current) continue
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything
+      if (value) current.rules.push({ allow: field === 'allow', pattern: value })
+    } else if (field === 'crawl-delay') {
+      current.crawlDelayMs = (parseFloat(value) || 0) * 1000
+    }
+  }
+
+  const matching = groups
+    .filter(group => group.agents.some(name => name !== '*' && agent.includes(name)))
+    .sort((a, b) => Math.max(...b.agents.map(n => n.length)) - Math.max(...a.agents.map(n => n.length)))
+  const group = matching[0] ?? groups.find(g => g.agents.includes('*'))
+
+  return {
+    rules: group?.rules ?? [],
+    crawlDelayMs: group?.crawlDelayMs ?? 0,
+    sitemaps
+  }
+}
+
+/**
+ * Converts a robots.txt path pattern (with * and $) to a regular expression
+ */
+function robotsPatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$')
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${body}${anchored ? '$' : ''}`)
+}
+
+/**
+ * Checks whether robots.txt allows a URL
+ * The longest matching rule wins; Allow wins ties
+ */
+export function isAllowedByRobots(robots: RobotsRules, url: string): boolean {
+  const { pathname, search } = new URL(url)
+  const path = `${pathname}${search}`
+
+  let best: { allow: boolean; length: number } | null = null
+  for (const rule of robots.rules) {
+    if (!robotsPatternToRegExp(rule.pattern).test(path)) continue
+    const length = rule.pattern.length
+    if (!best || length > best.length || (length === best.length && rule.allow)) {
+      best = { allow: rule.allow, length }
+    }
+  }
+
+  return best?.allow ?? true
+}
+
+/**
+ * Extracts the <loc> entries of a sitemap or sitemap index
+ */
+export function parseSitemap(xml: string): { urls: string[]; sitemaps: string[] } {
+  const locs = [...xml.matchAll(/<loc>\s*(?:<!\[CDATA\[)?\s*([^<\]]+?)\s*(?:\]\]>)?\s*<\/loc>/gi)]
+    .map(match => match[1]
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'"))
+
+  return /<sitemapindex[\s>]/i.test(xml)
+    ? { urls: [], sitemaps: locs }
+    : { urls: locs, sitemaps: [] }
+}
+
+/**
+ * Extracts the links of a markdown document, resolved against its URL
+ * Used for pages converted by Crawl4AI; images are skipped
+ */
+export function extractMarkdownLinks(markdown: string, baseUrl: string): { url: string; text: string }[] {
+  const links: { url: string; text: string }[] = []
+
+  for (const match of markdown.matchAll(/(?<!!)\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g)) {
+    try {
+      const url = new URL(match[2], baseUrl)
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') continue
+      url.hash = ''
+      links.push({ url: url.toString(), text: match[1].trim() })
+    } catch {
+      // Not a URL
+    }
+  }
+
+  return links
+}
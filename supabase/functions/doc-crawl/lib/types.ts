@@ -0,0 +1,95 @@
+/**
+ * Type definitions for the doc-crawl function
+ */
+
+/**
+ * Crawler backend used to turn a page into markdown
+ * - builtin: fetch the page directly and convert its HTML in-process
+ * - crawl4ai: POST the URL to a Crawl4AI service (/md endpoint)
+ */
+export type CrawlerBackend = 'builtin' | 'crawl4ai'
+
+/**
+ * Crawler selection and settings
+ */
+export interface CrawlerConfig {
+  backend: CrawlerBackend
+  crawl4aiBaseUrl?: string   // Required by the crawl4ai backend
+}
+
+/**
+ * Interface for the request body
+ */
+export interface DocCrawlRequest {
+  url: string
+  ref?: string
+  crawler?: CrawlerBackend   // Overrides CRAWLER_BACKEND for this request
+  recursive?: boolean        // Follow same-site links from the documentation roots
+  maxDepth?: number          // Link depth below the roots (default: 2)
+  maxPages?: number          // Pages fetched per request (default: 50)
+  pathPrefix?: string        // Only follow links under this path (default: each root's directory)
+}
+
+/**
+ * Limits of a recursive crawl
+ */
+export interface RecursiveCrawlOptions {
+  maxDepth: number
+  maxPages: number
+  pathPrefix?: string
+}
+
+/**
+ * Interface for a documentation link from doc-link-extract
+ */
+export interface DocumentationLink {
+  url: string
+  anchorText: string
+}
+
+/**
+ * Interface for the response from doc-link-extract function
+ */
+export interface DocLinkExtractResponse {
+  success: boolean
+  owner: string
+  repo: string
+  ref: string
+  totalLinks: number
+  documentationLinks: number
+  links: DocumentationLink[]
+}
+
+/**
+ * Interface for Crawl4AI request
+ */
+export interface Crawl4AIRequest {
+  url: string
+  f: string
+  q: null
+  c: string
+}
+
+/**
+ * Interface for Crawl4AI response
+ */
+export interface Crawl4AIResponse {
+  url: string
+  filter: string
+  query: null
+  cache: string
+  markdown: string
+  success: boolean
+}
+
+/**
+ * Interface for a single crawl result
+ */
+export interface CrawlResult {
+  url: string
+  anchorText: string
+  markdown?: string
+  success: boolean
+  error?: string
+  depth?: number             // Link depth below the root (recursive crawls only)
+}
@@ -4,6 +4,7 @@
 
 // Setup type definitions for built-in Supabase Runtime APIs
 import "@supabase/functions-js/edge-runtime.d.ts"
+import { createGitHubClient, createGitHubCache, resolveGitHubToken } from '../_shared/github.ts'
 
 /**
  * Interface for the request body
@@ -57,50 +58,6 @@ function parseGitHubUrl(url: string): { owner: string; repo: string } | null {
   }
 }
 
-/**
- * Detects the default branch for a GitHub repository
- * @param owner - Repository owner
- * @param repo - Repository name
- * @param ref - Optional explicit ref; if provided, returns it directly
- * @returns The branch name to use
- */
-async function detectDefaultBranch(
-  owner: string,
-  repo: string,
-  ref?: string
-): Promise<string> {
-  // If ref is explicitly provided, use it
-  if (ref) {
-    return ref
-  }
-
-  try {
-    // Query GitHub API for repository info to get default branch
-    const apiUrl = `https://api.github.com/repos/${owner}/${repo}`
-    const headers = {
-      'Accept': 'application/vnd.github+json',
-      'X-GitHub-Api-Version': '2022-11-28',
-      'User-Agent': 'Supabase-Edge-Function'
-    }
-
-    const response = await fetch(apiUrl, { headers })
-    
-    if (response.ok) {
-      const repoData = await response.json()
-      if (repoData.default_branch) {
-        console.log(`Detected default branch: ${repoData.default_branch}`)
-        return repoData.default_branch
-      }
-    }
-  } catch (error) {
-    console.warn('Failed to detect default branch from API:', error)
-  }
-
-  // Fallback: try 'main' first, then 'master'
-  console.log('Using fallback default branch: main')
-  return 'main'
-}
-
 /**
  * Extracts all markdown links from content
  * Returns array of {text, url} objects
@@ -268,8 +225,12 @@ Deno.serve(async (req) => {
 
     const { owner, repo } = parsed
 
+    const cache = createGitHubCache()
+    const token = await resolveGitHubToken(req, owner, repo, cache)
+    const github = createGitHubClient({ token, cache })
+
     // Detect the default branch if not explicitly provided
-    const detectedRef = await detectDefaultBranch(owner, repo, body.ref)
+    const detectedRef = await github.resolveRef(owner, repo, body.ref)
 
     // Get Supabase configuration from environment
     const supabaseUrl = Deno.env.get('SUPABASE_URL')
@@ -302,7 +263,9 @@ Deno.serve(async (req) => {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${supabaseKey}`,
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        // Forward the token so private READMEs can be read
+        ...(token && { 'X-GitHub-Token': token })
       },
       body: JSON.stringify(githubDocRequest)
     })
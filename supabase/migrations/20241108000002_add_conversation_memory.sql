@@ -0,0 +1,7 @@
+-- Add rolling conversation memory to chat sessions
+-- Older turns that no longer fit into the LLM history window are condensed
+-- into conversation_summary; summarized_until marks the created_at of the
+-- last message folded into that summary.
+ALTER TABLE chat_sessions
+    ADD COLUMN IF NOT EXISTS conversation_summary TEXT,
+    ADD COLUMN IF NOT EXISTS summarized_until TIMESTAMPTZ;
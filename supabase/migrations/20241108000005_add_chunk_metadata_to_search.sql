@@ -0,0 +1,151 @@
+-- Return chunk metadata from the search functions
+-- Chunks carry their heading breadcrumb and section anchor (markdown) or
+-- symbol and line range (code), which chat citations use to deep-link to
+-- document_url#anchor. The return type changes, so the functions are dropped
+-- and recreated.
+DROP FUNCTION IF EXISTS match_documents(vector, TEXT, TEXT, TEXT, FLOAT, INT, TEXT[]);
+DROP FUNCTION IF EXISTS hybrid_match_documents(vector, TEXT, TEXT, TEXT, TEXT, FLOAT, INT, TEXT[]);
+
+-- Function to perform similarity search
+-- Returns chunks similar to the query embedding, optionally restricted to
+-- the given source types (NULL = all), with the chunk metadata (heading
+-- breadcrumb, anchor, symbol, line range) for citations
+CREATE OR REPLACE FUNCTION match_documents(
+    query_embedding vector(1536),
+    repo_owner TEXT DEFAULT NULL,
+    repo_name TEXT DEFAULT NULL,
+    repo_ref TEXT DEFAULT 'main',
+    match_threshold FLOAT DEFAULT 0.7,
+    match_count INT DEFAULT 10,
+    source_types TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    chunk_text TEXT,
+    document_url TEXT,
+    chunk_metadata JSONB,
+    similarity FLOAT,
+    repository_owner TEXT,
+    repository_name TEXT,
+    repository_ref TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        dc.id as chunk_id,
+        dc.chunk_text,
+        d.url as document_url,
+        dc.metadata as chunk_metadata,
+        1 - (e.embedding <=> query_embedding) as similarity,
+        r.owner as repository_owner,
+        r.repo as repository_name,
+        r.ref as repository_ref
+    FROM embeddings e
+    JOIN document_chunks dc ON dc.id = e.chunk_id
+    JOIN documents d ON d.id = dc.document_id
+    JOIN repositories r ON r.id = e.repository_id
+    WHERE 
+        (repo_owner IS NULL OR r.owner = repo_owner)
+        AND (repo_name IS NULL OR r.repo = repo_name)
+        AND (repo_ref IS NULL OR r.ref = repo_ref)
+        AND (source_types IS NULL OR d.source_type = ANY(source_types))
+        AND 1 - (e.embedding <=> query_embedding) > match_threshold
+    ORDER BY e.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
+
+-- Function to retrieve vector and keyword candidates in one call
+-- Same as before, with the chunk metadata added to the result
+CREATE OR REPLACE FUNCTION hybrid_match_documents(
+    query_embedding vector(1536),
+    query_text TEXT,
+    repo_owner TEXT DEFAULT NULL,
+    repo_name TEXT DEFAULT NULL,
+    repo_ref TEXT DEFAULT 'main',
+    match_threshold FLOAT DEFAULT 0.7,
+    match_count INT DEFAULT 10,
+    source_types TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    chunk_text TEXT,
+    document_url TEXT,
+    chunk_metadata JSONB,
+    similarity FLOAT,
+    keyword_score FLOAT,
+    vector_rank INT,
+    keyword_rank INT,
+    repository_owner TEXT,
+    repository_name TEXT,
+    repository_ref TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH vector_matches AS (
+        SELECT
+            e.chunk_id AS v_chunk_id,
+            ROW_NUMBER() OVER (ORDER BY e.embedding <=> query_embedding)::INT AS v_position
+        FROM embeddings e
+        JOIN document_chunks dc ON dc.id = e.chunk_id
+        JOIN documents d ON d.id = dc.document_id
+        JOIN repositories r ON r.id = e.repository_id
+        WHERE
+            (repo_owner IS NULL OR r.owner = repo_owner)
+            AND (repo_name IS NULL OR r.repo = repo_name)
+            AND (repo_ref IS NULL OR r.ref = repo_ref)
+            AND (source_types IS NULL OR d.source_type = ANY(source_types))
+            AND 1 - (e.embedding <=> query_embedding) > match_threshold
+        ORDER BY e.embedding <=> query_embedding
+        LIMIT match_count
+    ),
+    keyword_matches AS (
+        SELECT
+            dc.id AS k_chunk_id,
+            ts_rank_cd(dc.chunk_tsv, q.query)::FLOAT AS k_score,
+            ROW_NUMBER() OVER (ORDER BY ts_rank_cd(dc.chunk_tsv, q.query) DESC)::INT AS k_position
+        FROM document_chunks dc
+        JOIN documents d ON d.id = dc.document_id
+        JOIN repositories r ON r.id = dc.repository_id
+        CROSS JOIN websearch_to_tsquery('simple', query_text) AS q(query)
+        WHERE
+            (repo_owner IS NULL OR r.owner = repo_owner)
+            AND (repo_name IS NULL OR r.repo = repo_name)
+            AND (repo_ref IS NULL OR r.ref = repo_ref)
+            AND (source_types IS NULL OR d.source_type = ANY(source_types))
+            AND dc.chunk_tsv @@ q.query
+        ORDER BY k_score DESC
+        LIMIT match_count
+    ),
+    candidates AS (
+        SELECT
+            COALESCE(vm.v_chunk_id, km.k_chunk_id) AS c_chunk_id,
+            km.k_score,
+            vm.v_position,
+            km.k_position
+        FROM vector_matches vm
+        FULL OUTER JOIN keyword_matches km ON km.k_chunk_id = vm.v_chunk_id
+    )
+    SELECT
+        dc.id as chunk_id,
+        dc.chunk_text,
+        d.url as document_url,
+        dc.metadata as chunk_metadata,
+        1 - (e.embedding <=> query_embedding) as similarity,
+        c.k_score as keyword_score,
+        c.v_position as vector_rank,
+        c.k_position as keyword_rank,
+        r.owner as repository_owner,
+        r.repo as repository_name,
+        r.ref as repository_ref
+    FROM candidates c
+    JOIN document_chunks dc ON dc.id = c.c_chunk_id
+    JOIN documents d ON d.id = dc.document_id
+    JOIN repositories r ON r.id = dc.repository_id
+    JOIN embeddings e ON e.chunk_id = dc.id;
+END;
+$$;
@@ -0,0 +1,16 @@
+-- Track content hashes and commit SHAs for incremental re-ingestion
+-- data-aggregate skips documents whose content hash is unchanged, only embeds
+-- chunks with a new content hash and records the commit SHA the ref pointed
+-- to when it was last processed successfully.
+ALTER TABLE repositories
+    ADD COLUMN IF NOT EXISTS commit_sha TEXT;
+
+ALTER TABLE documents
+    ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+ALTER TABLE document_chunks
+    ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+-- Create index for matching existing chunks of a document by hash
+CREATE INDEX IF NOT EXISTS idx_document_chunks_document_id_content_hash
+    ON document_chunks(document_id, content_hash);
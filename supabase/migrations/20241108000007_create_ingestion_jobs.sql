@@ -0,0 +1,52 @@
+-- Create ingestion_jobs table to process repositories asynchronously
+-- data-aggregate returns the job id immediately and processes the documents
+-- in time-boxed slices. Each slice persists its cursor in `state`, so a job
+-- that was interrupted resumes where it stopped. The documents collected by
+-- the fetching and crawling stages are staged in ingestion_job_documents and
+-- loaded one at a time.
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    repository_id UUID REFERENCES repositories(id) ON DELETE CASCADE,
+    owner TEXT NOT NULL,
+    repo TEXT NOT NULL,
+    ref TEXT NOT NULL,
+    url TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+    stage TEXT
+        CHECK (stage IN ('fetching', 'crawling', 'chunking', 'embedding', 'finalizing')),
+    progress JSONB NOT NULL DEFAULT '{}'::jsonb,   -- Per-stage progress
+    state JSONB NOT NULL DEFAULT '{}'::jsonb,      -- Cursor, counters and errors
+    stats JSONB,                                   -- Final processing statistics
+    error TEXT,                                    -- Fatal error of a failed job
+    locked_until TIMESTAMPTZ,                      -- Lease of the worker currently processing the job
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+-- Create index for finding active jobs of a repository
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_repo_status
+    ON ingestion_jobs(owner, repo, ref, status);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_created_at
+    ON ingestion_jobs(created_at DESC);
+
+-- Create trigger to auto-update updated_at
+CREATE TRIGGER update_ingestion_jobs_updated_at
+    BEFORE UPDATE ON ingestion_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Documents collected for a job, in processing order (position = cursor)
+CREATE TABLE IF NOT EXISTS ingestion_job_documents (
+    job_id UUID NOT NULL REFERENCES ingestion_jobs(id) ON DELETE CASCADE,
+    position INT NOT NULL,
+    url TEXT NOT NULL,
+    source_type TEXT NOT NULL,
+    content_hash TEXT NOT NULL,                    -- Unchanged documents are skipped without loading the content
+    anchor_text TEXT,
+    path TEXT,
+    content TEXT NOT NULL,
+    PRIMARY KEY (job_id, position)
+);
@@ -0,0 +1,246 @@
+-- Track the embedding model per repository
+-- Repositories can be indexed with different embedding providers and models
+-- (OpenAI, an OpenAI-compatible local server or the offline hashing
+-- embedder). Query embeddings must come from the same model, so the model and
+-- its dimension are recorded on the repository. Existing repositories were
+-- indexed with OpenAI text-embedding-3-small.
+ALTER TABLE repositories
+    ADD COLUMN IF NOT EXISTS embedding_provider TEXT NOT NULL DEFAULT 'openai',
+    ADD COLUMN IF NOT EXISTS embedding_model TEXT NOT NULL DEFAULT 'text-embedding-3-small',
+    ADD COLUMN IF NOT EXISTS embedding_dimensions INT NOT NULL DEFAULT 1536;
+
+-- Allow vectors of any dimension
+-- HNSW indexes require a fixed dimension, so the global index is replaced by
+-- one partial index per supported dimension below.
+DROP INDEX IF EXISTS idx_embeddings_vector_cosine;
+
+ALTER TABLE embeddings
+    ALTER COLUMN embedding TYPE vector;
+
+ALTER TABLE embeddings
+    ADD COLUMN IF NOT EXISTS dimensions INT
+    GENERATED ALWAYS AS (vector_dims(embedding)) STORED;
+
+-- Create index for selecting the embeddings of one model in a repository
+CREATE INDEX IF NOT EXISTS idx_embeddings_repository_id_model
+    ON embeddings(repository_id, model);
+
+-- Create HNSW indexes per dimension of the default models
+-- (hash 384, nomic-embed-text 768, mxbai-embed-large 1024, OpenAI 1536)
+-- Each index covers the embeddings of one dimension through a cast; searches
+-- cast to the query dimension so the planner can use it. Other dimensions
+-- (e.g. 3072, above the HNSW limit of 2000) are searched exactly.
+CREATE INDEX IF NOT EXISTS idx_embeddings_vector_cosine_384
+    ON embeddings USING hnsw ((embedding::vector(384)) vector_cosine_ops)
+    WITH (m = 16, ef_construction = 64)
+    WHERE dimensions = 384;
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_vector_cosine_768
+    ON embeddings USING hnsw ((embedding::vector(768)) vector_cosine_ops)
+    WITH (m = 16, ef_construction = 64)
+    WHERE dimensions = 768;
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_vector_cosine_1024
+    ON embeddings USING hnsw ((embedding::vector(1024)) vector_cosine_ops)
+    WITH (m = 16, ef_construction = 64)
+    WHERE dimensions = 1024;
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_vector_cosine_1536
+    ON embeddings USING hnsw ((embedding::vector(1536)) vector_cosine_ops)
+    WITH (m = 16, ef_construction = 64)
+    WHERE dimensions = 1536;
+
+-- The query embedding type and the parameters change, so the search
+-- functions are dropped and recreated.
+DROP FUNCTION IF EXISTS match_documents(vector, TEXT, TEXT, TEXT, FLOAT, INT, TEXT[]);
+DROP FUNCTION IF EXISTS hybrid_match_documents(vector, TEXT, TEXT, TEXT, TEXT, FLOAT, INT, TEXT[]);
+
+-- Function to perform similarity search
+-- Only embeddings of the given model (NULL = any) with the dimension of the
+-- query embedding are compared. The query is built for that dimension so the
+-- embeddings are cast like in the dimension's index. Repository and source
+-- type filters are applied while the index is scanned, so iterative index
+-- scans (pgvector 0.8+) keep scanning until match_count rows pass them.
+CREATE OR REPLACE FUNCTION match_documents(
+    query_embedding vector,
+    repo_owner TEXT DEFAULT NULL,
+    repo_name TEXT DEFAULT NULL,
+    repo_ref TEXT DEFAULT 'main',
+    match_threshold FLOAT DEFAULT 0.7,
+    match_count INT DEFAULT 10,
+    source_types TEXT[] DEFAULT NULL,
+    model_filter TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    chunk_text TEXT,
+    document_url TEXT,
+    chunk_metadata JSONB,
+    similarity FLOAT,
+    repository_owner TEXT,
+    repository_name TEXT,
+    repository_ref TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    BEGIN
+        PERFORM set_config('hnsw.iterative_scan', 'relaxed_order', true);
+    EXCEPTION WHEN OTHERS THEN
+        NULL;  -- pgvector before 0.8
+    END;
+
+    RETURN QUERY EXECUTE format($query$
+        WITH matches AS MATERIALIZED (
+            SELECT
+                dc.id AS m_chunk_id,
+                e.embedding::vector(%1$s) <=> $1::vector(%1$s) AS m_distance
+            FROM embeddings e
+            JOIN repositories r ON r.id = e.repository_id
+            JOIN document_chunks dc ON dc.id = e.chunk_id
+            JOIN documents d ON d.id = dc.document_id
+            WHERE
+                e.dimensions = %1$s
+                AND ($2 IS NULL OR r.owner = $2)
+                AND ($3 IS NULL OR r.repo = $3)
+                AND ($4 IS NULL OR r.ref = $4)
+                AND ($8 IS NULL OR e.model = $8)
+                AND ($7 IS NULL OR d.source_type = ANY($7))
+                AND e.embedding::vector(%1$s) <=> $1::vector(%1$s) < 1 - $5
+            ORDER BY e.embedding::vector(%1$s) <=> $1::vector(%1$s)
+            LIMIT $6
+        )
+        SELECT
+            dc.id as chunk_id,
+            dc.chunk_text,
+            d.url as document_url,
+            dc.metadata as chunk_metadata,
+            1 - m.m_distance as similarity,
+            r.owner as repository_owner,
+            r.repo as repository_name,
+            r.ref as repository_ref
+        FROM matches m
+        JOIN document_chunks dc ON dc.id = m.m_chunk_id
+        JOIN documents d ON d.id = dc.document_id
+        JOIN repositories r ON r.id = dc.repository_id
+        ORDER BY m.m_distance
+    $query$, vector_dims(query_embedding))
+    USING query_embedding, repo_owner, repo_name, repo_ref, match_threshold, match_count, source_types, model_filter;
+END;
+$$;
+
+-- Function to retrieve vector and keyword candidates in one call
+-- Vector candidates are searched like in match_documents; keyword-only
+-- candidates get the similarity of their embedding (0 without one)
+CREATE OR REPLACE FUNCTION hybrid_match_documents(
+    query_embedding vector,
+    query_text TEXT,
+    repo_owner TEXT DEFAULT NULL,
+    repo_name TEXT DEFAULT NULL,
+    repo_ref TEXT DEFAULT 'main',
+    match_threshold FLOAT DEFAULT 0.7,
+    match_count INT DEFAULT 10,
+    source_types TEXT[] DEFAULT NULL,
+    model_filter TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    chunk_text TEXT,
+    document_url TEXT,
+    chunk_metadata JSONB,
+    similarity FLOAT,
+    keyword_score FLOAT,
+    vector_rank INT,
+    keyword_rank INT,
+    repository_owner TEXT,
+    repository_name TEXT,
+    repository_ref TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    BEGIN
+        PERFORM set_config('hnsw.iterative_scan', 'relaxed_order', true);
+    EXCEPTION WHEN OTHERS THEN
+        NULL;  -- pgvector before 0.8
+    END;
+
+    RETURN QUERY EXECUTE format($query$
+        WITH vector_matches AS MATERIALIZED (
+            SELECT
+                dc.id AS v_chunk_id,
+                e.embedding::vector(%1$s) <=> $1::vector(%1$s) AS v_distance
+            FROM embeddings e
+            JOIN repositories r ON r.id = e.repository_id
+            JOIN document_chunks dc ON dc.id = e.chunk_id
+            JOIN documents d ON d.id = dc.document_id
+            WHERE
+                e.dimensions = %1$s
+                AND ($3 IS NULL OR r.owner = $3)
+                AND ($4 IS NULL OR r.repo = $4)
+                AND ($5 IS NULL OR r.ref = $5)
+                AND ($9 IS NULL OR e.model = $9)
+                AND ($8 IS NULL OR d.source_type = ANY($8))
+                AND e.embedding::vector(%1$s) <=> $1::vector(%1$s) < 1 - $6
+            ORDER BY e.embedding::vector(%1$s) <=> $1::vector(%1$s)
+            LIMIT $7
+        ),
+        vector_ranks AS (
+            SELECT
+                vm.v_chunk_id,
+                vm.v_distance,
+                ROW_NUMBER() OVER (ORDER BY vm.v_distance)::INT AS v_position
+            FROM vector_matches vm
+        ),
+        keyword_matches AS (
+            SELECT
+                dc.id AS k_chunk_id,
+                ts_rank_cd(dc.chunk_tsv, q.query)::FLOAT AS k_score,
+                ROW_NUMBER() OVER (ORDER BY ts_rank_cd(dc.chunk_tsv, q.query) DESC)::INT AS k_position
+            FROM document_chunks dc
+            JOIN documents d ON d.id = dc.document_id
+            JOIN repositories r ON r.id = dc.repository_id
+            CROSS JOIN websearch_to_tsquery('simple', $2) AS q(query)
+            WHERE
+                ($3 IS NULL OR r.owner = $3)
+                AND ($4 IS NULL OR r.repo = $4)
+                AND ($5 IS NULL OR r.ref = $5)
+                AND ($8 IS NULL OR d.source_type = ANY($8))
+                AND dc.chunk_tsv @@ q.query
+            ORDER BY k_score DESC
+            LIMIT $7
+        ),
+        candidates AS (
+            SELECT
+                COALESCE(vr.v_chunk_id, km.k_chunk_id) AS c_chunk_id,
+                vr.v_distance,
+                km.k_score,
+                vr.v_position,
+                km.k_position
+            FROM vector_ranks vr
+            FULL OUTER JOIN keyword_matches km ON km.k_chunk_id = vr.v_chunk_id
+        )
+        SELECT
+            dc.id as chunk_id,
+            dc.chunk_text,
+            d.url as document_url,
+            dc.metadata as chunk_metadata,
+            COALESCE(1 - c.v_distance, (
+                SELECT MAX(1 - (e.embedding::vector(%1$s) <=> $1::vector(%1$s)))
+                FROM embeddings e
+                WHERE e.chunk_id = dc.id AND e.dimensions = %1$s AND ($9 IS NULL OR e.model = $9)
+            ), 0)::FLOAT as similarity,
+            c.k_score as keyword_score,
+            c.v_position as vector_rank,
+            c.k_position as keyword_rank,
+            r.owner as repository_owner,
+            r.repo as repository_name,
+            r.ref as repository_ref
+        FROM candidates c
+        JOIN document_chunks dc ON dc.id = c.c_chunk_id
+        JOIN documents d ON d.id = dc.document_id
+        JOIN repositories r ON r.id = dc.repository_id
+    $query$, vector_dims(query_embedding))
+    USING query_embedding, query_text, repo_owner, repo_name, repo_ref, match_threshold, match_count, source_types, model_filter;
+END;
+$$;
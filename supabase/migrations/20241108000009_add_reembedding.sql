@@ -0,0 +1,96 @@
+-- Support re-embedding a repository with a new embedding model
+-- New embeddings are written next to the current ones (one row per chunk and
+-- model) and the repository is switched to the new model in one transaction
+-- once every chunk has been embedded. Until then chat keeps searching the
+-- embeddings of the current model.
+ALTER TABLE embeddings
+    DROP CONSTRAINT IF EXISTS embeddings_chunk_id_key;
+
+ALTER TABLE embeddings
+    ADD CONSTRAINT embeddings_chunk_id_model_key UNIQUE (chunk_id, model);
+
+-- Function to list the chunks of a repository without an embedding of a model
+-- Used to embed chunks in batches; chunks embedded by an interrupted run are
+-- not returned again. match_limit NULL returns all chunks.
+CREATE OR REPLACE FUNCTION get_chunks_missing_embeddings(
+    target_repository_id UUID,
+    target_model TEXT,
+    match_limit INT DEFAULT NULL
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    chunk_text TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        dc.id as chunk_id,
+        dc.chunk_text
+    FROM document_chunks dc
+    WHERE
+        dc.repository_id = target_repository_id
+        AND NOT EXISTS (
+            SELECT 1
+            FROM embeddings e
+            WHERE e.chunk_id = dc.id AND e.model = target_model
+        )
+    ORDER BY dc.id
+    LIMIT match_limit;
+END;
+$$;
+
+-- Function to switch a repository to a new embedding model
+-- Fails if any chunk has no embedding of the new model. Otherwise records the
+-- new model on the repository and deletes the embeddings of all other models.
+-- Returns the number of deleted embeddings.
+CREATE OR REPLACE FUNCTION switch_embedding_model(
+    target_repository_id UUID,
+    new_provider TEXT,
+    new_model TEXT,
+    new_dimensions INT
+)
+RETURNS INT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    missing_count INT;
+    deleted_count INT;
+BEGIN
+    -- Lock the repository so a concurrent switch or ingestion waits
+    PERFORM 1 FROM repositories WHERE id = target_repository_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Repository % not found', target_repository_id;
+    END IF;
+
+    SELECT COUNT(*) INTO missing_count
+    FROM document_chunks dc
+    WHERE
+        dc.repository_id = target_repository_id
+        AND NOT EXISTS (
+            SELECT 1
+            FROM embeddings e
+            WHERE e.chunk_id = dc.id
+                AND e.model = new_model
+                AND e.dimensions = new_dimensions
+        );
+
+    IF missing_count > 0 THEN
+        RAISE EXCEPTION '% chunks have no % embedding', missing_count, new_model;
+    END IF;
+
+    UPDATE repositories
+    SET
+        embedding_provider = new_provider,
+        embedding_model = new_model,
+        embedding_dimensions = new_dimensions
+    WHERE id = target_repository_id;
+
+    DELETE FROM embeddings
+    WHERE repository_id = target_repository_id AND model <> new_model;
+
+    GET DIAGNOSTICS deleted_count = ROW_COUNT;
+    RETURN deleted_count;
+END;
+$$;
@@ -0,0 +1,21 @@
+-- Attach several repositories to one chat session
+-- chat_sessions.repository_id stays the primary repository (used for the
+-- summary); the mapping lists every repository searched by the session in
+-- the order they were given.
+CREATE TABLE IF NOT EXISTS chat_session_repositories (
+    session_id UUID NOT NULL REFERENCES chat_sessions(id) ON DELETE CASCADE,
+    repository_id UUID NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+    position INT NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (session_id, repository_id)
+);
+
+-- Create index for finding the sessions of a repository
+CREATE INDEX IF NOT EXISTS idx_chat_session_repositories_repository_id
+    ON chat_session_repositories(repository_id);
+
+-- Existing sessions search their primary repository only
+INSERT INTO chat_session_repositories (session_id, repository_id, position)
+SELECT id, repository_id, 0
+FROM chat_sessions
+ON CONFLICT (session_id, repository_id) DO NOTHING;
@@ -0,0 +1,46 @@
+-- Support private repositories
+-- data-aggregate records whether a repository is private on GitHub. The edge
+-- functions use the service role and check access before a session can
+-- search a private repository; clients using the anon or authenticated role
+-- can only read the indexed content of public repositories.
+ALTER TABLE repositories
+    ADD COLUMN IF NOT EXISTS is_private BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE repositories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE embeddings ENABLE ROW LEVEL SECURITY;
+
+-- Ingestion jobs and their staged documents hold fetched document content and
+-- are only read through data-aggregate, so no client policy is created
+ALTER TABLE ingestion_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ingestion_job_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public repositories are readable"
+    ON repositories FOR SELECT
+    TO anon, authenticated
+    USING (NOT is_private);
+
+CREATE POLICY "Documents of public repositories are readable"
+    ON documents FOR SELECT
+    TO anon, authenticated
+    USING (EXISTS (
+        SELECT 1 FROM repositories r
+        WHERE r.id = documents.repository_id AND NOT r.is_private
+    ));
+
+CREATE POLICY "Chunks of public repositories are readable"
+    ON document_chunks FOR SELECT
+    TO anon, authenticated
+    USING (EXISTS (
+        SELECT 1 FROM repositories r
+        WHERE r.id = document_chunks.repository_id AND NOT r.is_private
+    ));
+
+CREATE POLICY "Embeddings of public repositories are readable"
+    ON embeddings FOR SELECT
+    TO anon, authenticated
+    USING (EXISTS (
+        SELECT 1 FROM repositories r
+        WHERE r.id = embeddings.repository_id AND NOT r.is_private
+    ));
@@ -0,0 +1,61 @@
+-- Add user ownership to chat sessions
+-- chat sets user_id from the caller's Supabase JWT. Sessions created without
+-- a signed-in user (anon key) have no owner and are only reachable by id.
+ALTER TABLE chat_sessions
+    ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+-- Create index for listing the sessions of a user
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_user_id
+    ON chat_sessions(user_id, created_at DESC);
+
+-- Signed-in users can read and delete their own sessions and read their
+-- messages. Sessions and messages are written by the chat function with the
+-- service role, which checks repository access first.
+ALTER TABLE chat_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_session_repositories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE repository_summaries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own sessions"
+    ON chat_sessions FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own sessions"
+    ON chat_sessions FOR DELETE
+    TO authenticated
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Users can read the repositories of their own sessions"
+    ON chat_session_repositories FOR SELECT
+    TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM chat_sessions cs
+        WHERE cs.id = chat_session_repositories.session_id AND cs.user_id = auth.uid()
+    ));
+
+CREATE POLICY "Users can read the messages of their own sessions"
+    ON chat_messages FOR SELECT
+    TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM chat_sessions cs
+        WHERE cs.id = chat_messages.session_id AND cs.user_id = auth.uid()
+    ));
+
+-- Summaries are shared by every session of a repository; summaries of
+-- private repositories are only readable by users with a session on them
+CREATE POLICY "Summaries of public repositories are readable"
+    ON repository_summaries FOR SELECT
+    TO anon, authenticated
+    USING (EXISTS (
+        SELECT 1 FROM repositories r
+        WHERE r.id = repository_summaries.repository_id AND NOT r.is_private
+    ));
+
+CREATE POLICY "Users can read the summaries of their own sessions"
+    ON repository_summaries FOR SELECT
+    TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM chat_sessions cs
+        WHERE cs.repository_id = repository_summaries.repository_id AND cs.user_id = auth.uid()
+    ));
@@ -0,0 +1,45 @@
+-- Cache GitHub API responses for conditional requests
+-- The shared GitHub client stores successful responses with their ETag and
+-- revalidates them with If-None-Match; 304 responses don't count against the
+-- GitHub rate limit. cache_key is a SHA-256 hash of the token, Accept header
+-- and URL, so responses are never shared between tokens and tokens are not
+-- stored.
+CREATE TABLE IF NOT EXISTS github_response_cache (
+    cache_key TEXT PRIMARY KEY,
+    url TEXT NOT NULL,
+    etag TEXT NOT NULL,
+    status INT NOT NULL,
+    content_type TEXT,
+    body TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create index for cleaning up stale entries
+CREATE INDEX IF NOT EXISTS idx_github_response_cache_updated_at
+    ON github_response_cache(updated_at);
+
+-- Responses can contain private repository content; only the service role
+-- used by the edge functions reads the cache
+ALTER TABLE github_response_cache ENABLE ROW LEVEL SECURITY;
+
+-- Function to delete cache entries not used for a number of days
+CREATE OR REPLACE FUNCTION delete_stale_github_cache(
+    days_old INTEGER DEFAULT 30
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    deleted_count INTEGER;
+BEGIN
+    WITH deleted AS (
+        DELETE FROM github_response_cache
+        WHERE updated_at < NOW() - (days_old || ' days')::INTERVAL
+        RETURNING cache_key
+    )
+    SELECT COUNT(*) INTO deleted_count FROM deleted;
+
+    RETURN deleted_count;
+END;
+$$;
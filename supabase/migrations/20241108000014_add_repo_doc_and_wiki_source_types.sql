@@ -0,0 +1,5 @@
+-- Allow documentation files from the repository tree and wiki pages as document source types
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_source_type_check;
+ALTER TABLE documents
+    ADD CONSTRAINT documents_source_type_check
+    CHECK (source_type IN ('readme', 'documentation', 'code', 'repo_doc', 'wiki'));
@@ -0,0 +1,5 @@
+-- Allow closed issues, merged pull requests and answered discussions as a document source type
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_source_type_check;
+ALTER TABLE documents
+    ADD CONSTRAINT documents_source_type_check
+    CHECK (source_type IN ('readme', 'documentation', 'code', 'repo_doc', 'wiki', 'issue'));
@@ -0,0 +1,22 @@
+-- Release timeline
+-- data-aggregate stores GitHub releases and CHANGELOG entries as one document
+-- per version (source_type 'release') with its version and release date. The
+-- chat searches them like other documents and queries them by version range.
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_source_type_check;
+ALTER TABLE documents
+    ADD CONSTRAINT documents_source_type_check
+    CHECK (source_type IN ('readme', 'documentation', 'code', 'repo_doc', 'wiki', 'issue', 'release'));
+
+ALTER TABLE documents
+    ADD COLUMN IF NOT EXISTS version TEXT,
+    ADD COLUMN IF NOT EXISTS released_at TIMESTAMPTZ;
+
+-- Create index for listing the releases of a repository
+CREATE INDEX IF NOT EXISTS idx_documents_repository_id_releases
+    ON documents(repository_id, released_at DESC)
+    WHERE source_type = 'release';
+
+-- Staged documents of ingestion jobs carry the version and release date too
+ALTER TABLE ingestion_job_documents
+    ADD COLUMN IF NOT EXISTS version TEXT,
+    ADD COLUMN IF NOT EXISTS release_date TEXT;
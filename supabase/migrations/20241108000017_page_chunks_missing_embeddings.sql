@@ -0,0 +1,37 @@
+-- Page through the chunks missing an embedding of a model
+-- API responses are capped at the configured maximum number of rows, so
+-- re-embedding reads the chunks in pages of match_limit rows. Pages are keyed
+-- by the last chunk id of the previous page (after_chunk_id), which also pages
+-- through a dry run that embeds nothing.
+DROP FUNCTION IF EXISTS get_chunks_missing_embeddings(UUID, TEXT, INT);
+
+CREATE OR REPLACE FUNCTION get_chunks_missing_embeddings(
+    target_repository_id UUID,
+    target_model TEXT,
+    match_limit INT DEFAULT NULL,
+    after_chunk_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    chunk_text TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        dc.id as chunk_id,
+        dc.chunk_text
+    FROM document_chunks dc
+    WHERE
+        dc.repository_id = target_repository_id
+        AND (after_chunk_id IS NULL OR dc.id > after_chunk_id)
+        AND NOT EXISTS (
+            SELECT 1
+            FROM embeddings e
+            WHERE e.chunk_id = dc.id AND e.model = target_model
+        )
+    ORDER BY dc.id
+    LIMIT match_limit;
+END;
+$$;